@@ -0,0 +1,23 @@
+#!/bin/bash
+
+# Creates the saved activities KV namespace on the first deploy and writes its
+# id into wrangler.jsonc in place of the placeholder. Runs before every
+# `npm run deploy`; does nothing once the id is set
+
+set -e
+
+cd "$(dirname "$0")/.."
+
+if ! grep -q "<PINGGERR_ACTIVITIES_NAMESPACE_ID>" wrangler.jsonc; then
+    exit 0
+fi
+
+echo "Creating PINGGERR_ACTIVITIES KV namespace..."
+namespace_id=$(wrangler kv namespace create PINGGERR_ACTIVITIES | grep -o '"id": *"[0-9a-f]*"' | grep -o '[0-9a-f]\{32\}' || true)
+if [ -z "$namespace_id" ]; then
+    echo "Could not create the PINGGERR_ACTIVITIES namespace. Create it with 'wrangler kv namespace create PINGGERR_ACTIVITIES' and put its id in be-pinggerr/wrangler.jsonc." >&2
+    exit 1
+fi
+
+sed -i.bak "s/<PINGGERR_ACTIVITIES_NAMESPACE_ID>/$namespace_id/" wrangler.jsonc && rm wrangler.jsonc.bak
+echo "PINGGERR_ACTIVITIES namespace $namespace_id added to wrangler.jsonc (commit it)."
@@ -0,0 +1,54 @@
+/**
+ * Activity Change Log Durable Object
+ *
+ * One instance per athlete keeps the activity changes received from Strava webhooks
+ * Appends are serialized by the instance, so two events arriving together can't
+ * overwrite each other the way a KV read-modify-write does
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+// Change recorded for an athlete so the frontend can invalidate exactly what changed
+export interface ActivityChangeEvent {
+	activity_id: number;
+	aspect_type: 'create' | 'update' | 'delete';
+	updates?: Record<string, string>;
+	event_time: number;
+	received_at: number;
+}
+
+// Only the most recent changes are kept per athlete
+const MAX_CHANGE_EVENTS = 200;
+
+export class ActivityChangeLog extends DurableObject<Env> {
+	/**
+	 * Record a change, stamped with a received_at later than every earlier one
+	 * so `since` cursors never skip an event received in the same millisecond
+	 */
+	async append(change: Omit<ActivityChangeEvent, 'received_at'>): Promise<ActivityChangeEvent> {
+		const changes = (await this.ctx.storage.get<ActivityChangeEvent[]>('changes')) ?? [];
+		const last = changes[changes.length - 1]?.received_at ?? 0;
+		const event = { ...change, received_at: Math.max(Date.now(), last + 1) };
+
+		await this.ctx.storage.put('changes', [...changes, event].slice(-MAX_CHANGE_EVENTS));
+		return event;
+	}
+
+	/**
+	 * Changes received after `since` (ms timestamp), plus the cursor for the next request
+	 */
+	async list(since: number): Promise<{ changes: ActivityChangeEvent[]; latest: number }> {
+		const changes = (await this.ctx.storage.get<ActivityChangeEvent[]>('changes')) ?? [];
+		return {
+			changes: changes.filter((change) => change.received_at > since),
+			latest: changes.length > 0 ? Math.max(since, changes[changes.length - 1].received_at) : since,
+		};
+	}
+
+	/**
+	 * Forget every change (athlete deauthorized)
+	 */
+	async clear(): Promise<void> {
+		await this.ctx.storage.deleteAll();
+	}
+}
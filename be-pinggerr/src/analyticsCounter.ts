@@ -0,0 +1,95 @@
+/**
+ * Analytics Counter Durable Object
+ *
+ * Counts template events (e.g. downloads) exactly: a single instance handles every
+ * increment, so read-increment-write can't race the way it does with plain KV
+ * Counts are kept as running totals plus daily and monthly buckets
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+export interface AnalyticsEventCounts {
+	total: number;
+	today: number;
+	this_month: number;
+}
+
+// template id -> event type -> count
+export type AnalyticsCounts = Record<string, Record<string, number>>;
+
+export interface AnalyticsStats {
+	totals: AnalyticsCounts;
+	daily: Record<string, AnalyticsCounts>; // YYYY-MM-DD -> counts
+	monthly: Record<string, AnalyticsCounts>; // YYYY-MM -> counts
+}
+
+/**
+ * UTC day (YYYY-MM-DD) and month (YYYY-MM) bucket keys for a timestamp
+ */
+export function getTimeBuckets(timestamp: number): { day: string; month: string } {
+	const day = new Date(timestamp).toISOString().slice(0, 10);
+	return { day, month: day.slice(0, 7) };
+}
+
+/**
+ * Add a stored count to a nested counts object
+ */
+function addCount(counts: AnalyticsCounts, templateId: string, eventType: string, value: number) {
+	counts[templateId] ??= {};
+	counts[templateId][eventType] = (counts[templateId][eventType] ?? 0) + value;
+}
+
+export class AnalyticsCounter extends DurableObject<Env> {
+	/**
+	 * Record one event and return the updated counts
+	 */
+	async increment(templateId: string, eventType: string): Promise<AnalyticsEventCounts> {
+		const { day, month } = getTimeBuckets(Date.now());
+		const keys = [`total:${templateId}:${eventType}`, `day:${day}:${templateId}:${eventType}`, `month:${month}:${templateId}:${eventType}`];
+
+		// Storage calls on a Durable Object are serialized, so no other increment can interleave here
+		const current = await this.ctx.storage.get<number>(keys);
+		const updated = keys.map((key) => (current.get(key) ?? 0) + 1);
+		await this.ctx.storage.put(Object.fromEntries(keys.map((key, i) => [key, updated[i]])));
+
+		return {
+			total: updated[0],
+			today: updated[1],
+			this_month: updated[2],
+		};
+	}
+
+	/**
+	 * Get running totals plus the last `days` daily and `months` monthly buckets
+	 */
+	async getStats(days = 30, months = 12): Promise<AnalyticsStats> {
+		const now = new Date();
+		const firstDay = getTimeBuckets(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1))).day;
+		const firstMonth = getTimeBuckets(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - (months - 1), 1)).month;
+
+		const [totalEntries, dayEntries, monthEntries] = await Promise.all([
+			this.ctx.storage.list<number>({ prefix: 'total:' }),
+			this.ctx.storage.list<number>({ prefix: 'day:', start: `day:${firstDay}` }),
+			this.ctx.storage.list<number>({ prefix: 'month:', start: `month:${firstMonth}` }),
+		]);
+
+		const stats: AnalyticsStats = { totals: {}, daily: {}, monthly: {} };
+
+		for (const [key, value] of totalEntries) {
+			const [, templateId, eventType] = key.split(':');
+			addCount(stats.totals, templateId, eventType, value);
+		}
+		for (const [key, value] of dayEntries) {
+			const [, day, templateId, eventType] = key.split(':');
+			stats.daily[day] ??= {};
+			addCount(stats.daily[day], templateId, eventType, value);
+		}
+		for (const [key, value] of monthEntries) {
+			const [, month, templateId, eventType] = key.split(':');
+			stats.monthly[month] ??= {};
+			addCount(stats.monthly[month], templateId, eventType, value);
+		}
+
+		return stats;
+	}
+}
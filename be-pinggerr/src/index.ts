@@ -5,12 +5,20 @@
  * Keeps client_secret secure on the backend while allowing frontend to make authenticated requests
  */
 
+import { AnalyticsCounter } from './analyticsCounter';
+import { ActivityChangeLog } from './activityChangeLog';
+import { MapLoadLimiter, getMapLoadLimits } from './mapLoadLimiter';
+import { StravaRateLimiter, type StravaRateLimitBudget } from './stravaRateLimiter';
+
+export { AnalyticsCounter, ActivityChangeLog, MapLoadLimiter, StravaRateLimiter };
+
 interface StravaTokenResponse {
 	access_token: string;
 	refresh_token: string;
 	expires_at: number;
 	expires_in: number;
 	token_type: string;
+	athlete?: StravaAthleteResponse;
 }
 
 interface StravaTokenRefreshResponse {
@@ -20,14 +28,77 @@ interface StravaTokenRefreshResponse {
 	expires_in: number;
 }
 
+interface StravaAthleteResponse {
+	id: number;
+}
+
+// Summary stored as KV metadata so saved activities can be listed without reading each value
+interface SavedActivityMetadata {
+	id: number;
+	name: string;
+	start_date: string;
+	saved_at: number;
+}
+
+// KV values are limited to 25 MiB
+const MAX_STORED_VALUE_BYTES = 25 * 1024 * 1024;
+
+// Strava push subscription event (https://developers.strava.com/docs/webhooks/)
+interface StravaWebhookEvent {
+	object_type: 'activity' | 'athlete';
+	object_id: number;
+	aspect_type: 'create' | 'update' | 'delete';
+	updates?: Record<string, string>;
+	owner_id: number;
+	subscription_id: number;
+	event_time: number;
+}
+
+// Proxied Strava responses are kept this long to serve while over budget
+const STRAVA_CACHE_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days
+
+// Templates and event types accepted by /events
+const TEMPLATE_IDS = ['pgs', 'mm', 'msn', 'msr', 'lg', 'sds', '3ds'];
+const EVENT_TYPES = ['download', 'video_download'];
+
 // CORS headers for frontend communication
 const corsHeaders = {
 	'Access-Control-Allow-Origin': '*', // In production, replace with your frontend domain
-	'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+	'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
 	'Access-Control-Allow-Headers': 'Content-Type, Authorization',
 	'Access-Control-Max-Age': '86400', // 24 hours
+	'Access-Control-Expose-Headers':
+		'X-RateLimit-Limit, X-RateLimit-Usage, X-Pinggerr-Budget-Remaining, X-Pinggerr-Budget-Exhausted, X-Pinggerr-Cache',
 };
 
+/**
+ * Get the single analytics counter instance
+ */
+function getAnalyticsCounter(env: Env): DurableObjectStub<AnalyticsCounter> {
+	return env.ANALYTICS_COUNTER.get(env.ANALYTICS_COUNTER.idFromName('global'));
+}
+
+/**
+ * Get an athlete's activity change log instance
+ */
+function getActivityChangeLog(env: Env, athleteId: number): DurableObjectStub<ActivityChangeLog> {
+	return env.ACTIVITY_CHANGE_LOG.get(env.ACTIVITY_CHANGE_LOG.idFromName(`athlete_${athleteId}`));
+}
+
+/**
+ * Get the single Strava rate limiter instance
+ */
+function getStravaRateLimiter(env: Env): DurableObjectStub<StravaRateLimiter> {
+	return env.STRAVA_RATE_LIMITER.get(env.STRAVA_RATE_LIMITER.idFromName('global'));
+}
+
+/**
+ * Get the single map load limiter instance
+ */
+function getMapLoadLimiter(env: Env): DurableObjectStub<MapLoadLimiter> {
+	return env.MAP_LOAD_LIMITER.get(env.MAP_LOAD_LIMITER.idFromName('global'));
+}
+
 export default {
 	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
 		const url = new URL(request.url);
@@ -37,26 +108,37 @@ export default {
 			return new Response(null, { headers: corsHeaders });
 		}
 
+		// Saved activity storage (/activities, /activities/:id, /activities/:id/streams)
+		if (url.pathname === '/activities' || url.pathname.startsWith('/activities/')) {
+			return handleActivityStorage(request, env, url);
+		}
+
+		// Strava API proxy (/strava/activities/:id, /laps, /streams) and shared budget
+		if (url.pathname === '/strava/budget') {
+			return handleGetStravaBudget(request, env);
+		}
+		if (url.pathname.startsWith('/strava/')) {
+			return handleStravaProxy(request, env, url);
+		}
+
+		// Legacy per-template download counters (/count-pgs-download, /count-3ds-download, ...)
+		const legacyDownloadMatch = url.pathname.match(/^\/count-([a-z0-9]+)-download$/);
+		if (legacyDownloadMatch && TEMPLATE_IDS.includes(legacyDownloadMatch[1])) {
+			return handleLegacyDownloadCount(request, env, legacyDownloadMatch[1]);
+		}
+
 		// Route handlers
 		switch (url.pathname) {
+			case '/webhook':
+				return handleStravaWebhook(request, env, ctx);
+			case '/changes':
+				return handleGetChanges(request, env, url);
 			case '/exchange':
 				return handleTokenExchange(request, env);
 			case '/refresh':
 				return handleTokenRefresh(request, env);
-			case '/count-pgs-download':
-				return handleTrackPgsDownload(request, env);
-
-			case '/count-mm-download':
-				return handleTrackMmDownload(request, env);
-			case '/count-lg-download':
-				return handleTrackLgDownload(request, env);
-			case '/count-msn-download':
-				return handleTrackMsnDownload(request, env);
-			case '/count-msr-download':
-				return handleTrackMsrDownload(request, env);
-
-			case '/count-3ds-download':
-				return handleTrack3dsDownload(request, env);
+			case '/events':
+				return handleTrackEvent(request, env);
 			case '/stats':
 				return handleGetStats(request, env);
 			case '/count-map-load':
@@ -65,7 +147,7 @@ export default {
 				return handleCheckMapLimit(request, env);
 			case '/':
 				return new Response(
-					'Strava OAuth Worker - Endpoints: /exchange, /refresh, /count-pgs-download, /count-3ds-download, /stats, /count-map-load, /check-map-limit',
+					'Strava OAuth Worker - Endpoints: /exchange, /refresh, /events, /stats, /count-map-load, /check-map-limit, /activities, /strava/budget, /webhook, /changes',
 					{
 						headers: corsHeaders,
 					}
@@ -132,6 +214,8 @@ async function handleTokenExchange(request: Request, env: Env): Promise<Response
 				refresh_token: tokenData.refresh_token,
 				expires_at: tokenData.expires_at,
 				expires_in: tokenData.expires_in,
+				// Lets the frontend keep per-athlete state apart on a shared browser
+				athlete_id: tokenData.athlete?.id ?? null,
 			}),
 			{
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -214,9 +298,9 @@ async function handleTokenRefresh(request: Request, env: Env): Promise<Response>
 }
 
 /**
- * Track a Pink Green activity download event by incrementing the counter
+ * Record a template event (e.g. a download) in the analytics counter
  */
-async function handleTrackPgsDownload(request: Request, env: Env): Promise<Response> {
+async function handleTrackEvent(request: Request, env: Env): Promise<Response> {
 	if (request.method !== 'POST') {
 		return new Response('Method not allowed', {
 			status: 405,
@@ -225,28 +309,30 @@ async function handleTrackPgsDownload(request: Request, env: Env): Promise<Respo
 	}
 
 	try {
-		const downloadCountKey = 'total_pgs_downloads';
+		const { template_id, event_type } = (await request.json()) as { template_id?: string; event_type?: string };
 
-		// Get current count, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(downloadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+		if (!template_id || !TEMPLATE_IDS.includes(template_id) || !event_type || !EVENT_TYPES.includes(event_type)) {
+			return new Response(JSON.stringify({ error: 'Unknown template id or event type' }), {
+				status: 400,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
 
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(downloadCountKey, newCount.toString());
+		const counts = await getAnalyticsCounter(env).increment(template_id, event_type);
 
-		// Return the new count
 		return new Response(
 			JSON.stringify({
 				success: true,
-				total_pgs_downloads: newCount,
+				template_id,
+				event_type,
+				...counts,
 			}),
 			{
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
 			}
 		);
 	} catch (error) {
-		console.error('PGS download tracking error:', error);
+		console.error('Event tracking error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -255,9 +341,9 @@ async function handleTrackPgsDownload(request: Request, env: Env): Promise<Respo
 }
 
 /**
- * Track a Modern Minimalist activity download event by incrementing the counter
+ * Legacy /count-<template>-download endpoints, kept for clients that haven't updated yet
  */
-async function handleTrackMmDownload(request: Request, env: Env): Promise<Response> {
+async function handleLegacyDownloadCount(request: Request, env: Env, templateId: string): Promise<Response> {
 	if (request.method !== 'POST') {
 		return new Response('Method not allowed', {
 			status: 405,
@@ -266,28 +352,19 @@ async function handleTrackMmDownload(request: Request, env: Env): Promise<Respon
 	}
 
 	try {
-		const downloadCountKey = 'total_mm_downloads';
+		const counts = await getAnalyticsCounter(env).increment(templateId, 'download');
 
-		// Get current count, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(downloadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
-
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(downloadCountKey, newCount.toString());
-
-		// Return the new count
 		return new Response(
 			JSON.stringify({
 				success: true,
-				total_mm_downloads: newCount,
+				[`total_${templateId}_downloads`]: counts.total,
 			}),
 			{
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
 			}
 		);
 	} catch (error) {
-		console.error('MM download tracking error:', error);
+		console.error(`${templateId.toUpperCase()} download tracking error:`, error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -296,10 +373,10 @@ async function handleTrackMmDownload(request: Request, env: Env): Promise<Respon
 }
 
 /**
- * Track a Minimalist Serif With No Route activity download event by incrementing the counter
+ * Get download statistics, with daily and monthly series per template
  */
-async function handleTrackMsnDownload(request: Request, env: Env): Promise<Response> {
-	if (request.method !== 'POST') {
+async function handleGetStats(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'GET') {
 		return new Response('Method not allowed', {
 			status: 405,
 			headers: corsHeaders,
@@ -307,28 +384,46 @@ async function handleTrackMsnDownload(request: Request, env: Env): Promise<Respo
 	}
 
 	try {
-		const downloadCountKey = 'total_msn_downloads';
+		const url = new URL(request.url);
+		const days = Math.min(Math.max(parseInt(url.searchParams.get('days') || '30', 10) || 30, 1), 366);
+		const months = Math.min(Math.max(parseInt(url.searchParams.get('months') || '12', 10) || 12, 1), 60);
 
-		// Get current count, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(downloadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+		const stats = await getAnalyticsCounter(env).getStats(days, months);
 
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(downloadCountKey, newCount.toString());
+		// Counts recorded in KV before the analytics counter existed are added to the totals
+		const totalDownloads = async (templateId: string) => {
+			const legacyCountString = await env.PINGGERR_STATS.get(`total_${templateId}_downloads`);
+			const legacyCount = legacyCountString ? parseInt(legacyCountString, 10) : 0;
+			return legacyCount + (stats.totals[templateId]?.download ?? 0);
+		};
+
+		const [pgsDownloads, mmDownloads, msnDownloads, msrDownloads, lgDownloads, sdsDownloads, threeDsDownloads] = await Promise.all(
+			['pgs', 'mm', 'msn', 'msr', 'lg', 'sds', '3ds'].map(totalDownloads)
+		);
 
-		// Return the new count
+		// Get current month's map loads
+		const { map_loads_this_month: mapLoads, month_key: monthKey } = await getMapLoadLimiter(env).getLoadsThisMonth();
+
+		// Return the current stats
 		return new Response(
 			JSON.stringify({
-				success: true,
-				total_msn_downloads: newCount,
+				total_pgs_downloads: pgsDownloads,
+				total_mm_downloads: mmDownloads,
+				total_minimalist_serif_no_route_downloads: msnDownloads,
+				total_minimalist_serif_with_route_downloads: msrDownloads,
+				total_lg_downloads: lgDownloads,
+				total_sds_downloads: sdsDownloads,
+				total_3ds_downloads: threeDsDownloads,
+				map_loads_this_month: mapLoads,
+				month_key: monthKey,
+				events: stats,
 			}),
 			{
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
 			}
 		);
 	} catch (error) {
-		console.error('MSN download tracking error:', error);
+		console.error('Stats retrieval error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -337,9 +432,134 @@ async function handleTrackMsnDownload(request: Request, env: Env): Promise<Respo
 }
 
 /**
- * Track a Minimalist Serif With Route activity download event by incrementing the counter
+ * Hex-encoded SHA-256 of a value, so raw IPs and tokens are never stored
+ */
+async function sha256Hex(value: string): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+	return Array.from(new Uint8Array(digest))
+		.map((b) => b.toString(16).padStart(2, '0'))
+		.join('');
+}
+
+/**
+ * Base64url encode bytes or a string
+ */
+function toBase64Url(data: Uint8Array | string): string {
+	const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+	return btoa(String.fromCharCode(...bytes))
+		.replace(/\+/g, '-')
+		.replace(/\//g, '_')
+		.replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url string to text
+ */
+function fromBase64Url(value: string): string {
+	const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+	const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+	return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+}
+
+/**
+ * HMAC-SHA256 signature of a ticket payload
+ */
+async function signMapTicketPayload(env: Env, payload: string): Promise<string> {
+	if (!env.MAP_TICKET_SECRET) {
+		throw new Error('MAP_TICKET_SECRET is not configured');
+	}
+
+	const key = await crypto.subtle.importKey(
+		'raw',
+		new TextEncoder().encode(env.MAP_TICKET_SECRET),
+		{ name: 'HMAC', hash: 'SHA-256' },
+		false,
+		['sign']
+	);
+	const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(payload));
+	return toBase64Url(new Uint8Array(signature));
+}
+
+interface MapLoadTicket {
+	nonce: string;
+	client: string; // hashed client IP
+	athlete: number | null;
+	exp: number; // seconds since epoch
+}
+
+/**
+ * Sign a short-lived ticket allowing one map load for this client
  */
-async function handleTrackMsrDownload(request: Request, env: Env): Promise<Response> {
+async function issueMapTicket(env: Env, ticket: MapLoadTicket) {
+	const payload = toBase64Url(JSON.stringify(ticket));
+	const signature = await signMapTicketPayload(env, payload);
+
+	return { token: `${payload}.${signature}`, expiresAt: ticket.exp };
+}
+
+/**
+ * Verify a ticket's signature, expiry and client binding
+ * Returns null for invalid tickets
+ */
+async function verifyMapTicket(env: Env, token: string, client: string): Promise<MapLoadTicket | null> {
+	const [payload, signature] = token.split('.');
+	if (!payload || !signature) {
+		return null;
+	}
+
+	const actual = new TextEncoder().encode(signature);
+	const expected = new TextEncoder().encode(await signMapTicketPayload(env, payload));
+	if (actual.byteLength !== expected.byteLength || !crypto.subtle.timingSafeEqual(actual, expected)) {
+		return null;
+	}
+
+	let ticket: MapLoadTicket;
+	try {
+		ticket = JSON.parse(fromBase64Url(payload));
+	} catch {
+		return null;
+	}
+
+	if (ticket.exp < Math.floor(Date.now() / 1000) || ticket.client !== client) {
+		return null;
+	}
+
+	return ticket;
+}
+
+/**
+ * Hashed client IP used to key per-IP map load limits
+ */
+function getMapClientId(request: Request): Promise<string> {
+	return sha256Hex(request.headers.get('CF-Connecting-IP') || 'unknown');
+}
+
+/**
+ * Identify the requesting client (hashed IP) and, if signed in, the athlete
+ */
+async function identifyMapClient(request: Request, env: Env): Promise<{ client: string; athleteId: number | null }> {
+	const client = await getMapClientId(request);
+	const athleteId = getBearerToken(request) ? await authenticateAthlete(request, env) : null;
+
+	return { client, athleteId };
+}
+
+/**
+ * Map loads are refused rather than failing on every request when tickets can't be signed
+ */
+function mapTicketsNotConfigured(): Response {
+	console.error('MAP_TICKET_SECRET is not configured, map loads are disabled');
+	return new Response(JSON.stringify({ error: 'Map loads are not configured' }), {
+		status: 503,
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * Track a map load event by redeeming a map-load ticket
+ * Counts toward the monthly total and the client's sliding-window limits
+ */
+async function handleTrackMapLoad(request: Request, env: Env): Promise<Response> {
 	if (request.method !== 'POST') {
 		return new Response('Method not allowed', {
 			status: 405,
@@ -347,29 +567,44 @@ async function handleTrackMsrDownload(request: Request, env: Env): Promise<Respo
 		});
 	}
 
-	try {
-		const downloadCountKey = 'total_msr_downloads';
-
-		// Get current count, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(downloadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+	if (!env.MAP_TICKET_SECRET) {
+		return mapTicketsNotConfigured();
+	}
 
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(downloadCountKey, newCount.toString());
+	try {
+		const { ticket: token } = (await request.json().catch(() => ({}))) as { ticket?: string };
+		const client = await getMapClientId(request);
+		const ticket = token ? await verifyMapTicket(env, token, client) : null;
+
+		// Each ticket can only be redeemed once, and the load counts toward the client's windows and the month
+		const result = ticket ? await getMapLoadLimiter(env).redeem(ticket.nonce, client, ticket.athlete) : null;
+		if (!result || result.status === 'invalid') {
+			return new Response(JSON.stringify({ error: 'Invalid or expired map load ticket' }), {
+				status: 403,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+		if (result.status === 'limited') {
+			return new Response(JSON.stringify({ error: 'Map load limit reached', limit_reason: result.limit_reason }), {
+				status: 429,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
 
-		// Return the new count
+		// Return the new count and monthly key
 		return new Response(
 			JSON.stringify({
 				success: true,
-				total_msr_downloads: newCount,
+				map_loads_this_month: result.map_loads_this_month,
+				client_remaining_loads: result.client_remaining_loads,
+				month_key: result.month_key,
 			}),
 			{
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
 			}
 		);
 	} catch (error) {
-		console.error('MSR download tracking error:', error);
+		console.error('Map load tracking error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -378,39 +613,47 @@ async function handleTrackMsrDownload(request: Request, env: Env): Promise<Respo
 }
 
 /**
- * Track a Liquid Glass activity download event by incrementing the counter
+ * Check if map loading is allowed (monthly and per-client limits)
+ * When allowed, returns a signed ticket to redeem with /count-map-load
  */
-async function handleTrackLgDownload(request: Request, env: Env): Promise<Response> {
-	if (request.method !== 'POST') {
+async function handleCheckMapLimit(request: Request, env: Env): Promise<Response> {
+	if (request.method !== 'GET') {
 		return new Response('Method not allowed', {
 			status: 405,
 			headers: corsHeaders,
 		});
 	}
 
-	try {
-		const downloadCountKey = 'total_lg_downloads';
+	if (!env.MAP_TICKET_SECRET) {
+		return mapTicketsNotConfigured();
+	}
 
-		// Get current count, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(downloadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+	try {
+		const limits = getMapLoadLimits(env);
+		const { client, athleteId } = await identifyMapClient(request, env);
 
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(downloadCountKey, newCount.toString());
+		// The ticket's load is held until it's redeemed or expires
+		const nonce = crypto.randomUUID();
+		const expiresAt = Math.floor(Date.now() / 1000) + limits.ticketTtlSeconds;
+		const status = await getMapLoadLimiter(env).reserve(nonce, client, athleteId, expiresAt);
+		const ticket = status.can_load_map ? await issueMapTicket(env, { nonce, client, athlete: athleteId, exp: expiresAt }) : null;
 
-		// Return the new count
+		// Return the limit check result
 		return new Response(
 			JSON.stringify({
-				success: true,
-				total_lg_downloads: newCount,
+				...status,
+				monthly_limit: limits.monthly,
+				remaining_loads: Math.max(0, limits.monthly - status.map_loads_this_month),
+				client_window_seconds: limits.windowSeconds,
+				ticket: ticket?.token ?? null,
+				ticket_expires_at: ticket?.expiresAt ?? null,
 			}),
 			{
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
 			}
 		);
 	} catch (error) {
-		console.error('LG download tracking error:', error);
+		console.error('Map limit check error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -419,10 +662,70 @@ async function handleTrackLgDownload(request: Request, env: Env): Promise<Respon
 }
 
 /**
- * Track a 3D Stories download event by incrementing the counter
+ * Read the Strava access token from the Authorization header
  */
-async function handleTrack3dsDownload(request: Request, env: Env): Promise<Response> {
-	if (request.method !== 'POST') {
+function getBearerToken(request: Request): string {
+	const authorization = request.headers.get('Authorization');
+	return authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : '';
+}
+
+/**
+ * Resolve the Strava athlete id for the bearer token on the request
+ * Verified athlete ids are cached per token hash so Strava is only asked once per hour,
+ * and each hash is listed under the athlete so deauthorizing can drop their entries
+ */
+async function authenticateAthlete(request: Request, env: Env): Promise<number | null> {
+	const accessToken = getBearerToken(request);
+	if (!accessToken) {
+		return null;
+	}
+
+	// Never store raw access tokens, only a hash of them
+	const authCacheKey = `auth_${await sha256Hex(accessToken)}`;
+
+	const cachedAthleteId = await env.PINGGERR_ACTIVITIES.get(authCacheKey);
+	if (cachedAthleteId) {
+		return parseInt(cachedAthleteId, 10);
+	}
+
+	const athleteResponse = await fetchFromStrava(env, '/athlete', accessToken);
+	if (!athleteResponse.ok) {
+		return null;
+	}
+
+	const athlete: StravaAthleteResponse = await athleteResponse.json();
+	await Promise.all([
+		env.PINGGERR_ACTIVITIES.put(authCacheKey, athlete.id.toString(), { expirationTtl: 60 * 60 }),
+		env.PINGGERR_ACTIVITIES.put(`athlete_${athlete.id}_${authCacheKey}`, '', { expirationTtl: 60 * 60 }),
+	]);
+
+	return athlete.id;
+}
+
+/**
+ * Handle CRUD requests for an athlete's saved activities and their streams
+ *
+ * GET    /activities              - list saved activities
+ * GET    /activities/:id          - get a saved activity
+ * PUT    /activities/:id          - save an activity (trackpoints are stored as streams)
+ * DELETE /activities/:id          - delete an activity and its streams
+ * GET    /activities/:id/streams  - get saved trackpoints
+ * PUT    /activities/:id/streams  - save trackpoints
+ * DELETE /activities/:id/streams  - delete saved trackpoints
+ */
+async function handleActivityStorage(request: Request, env: Env, url: URL): Promise<Response> {
+	const match = url.pathname.match(/^\/activities(?:\/(\d+)(\/streams)?)?\/?$/);
+	if (!match) {
+		return new Response('Not Found', {
+			status: 404,
+			headers: corsHeaders,
+		});
+	}
+
+	const activityId = match[1] ? parseInt(match[1], 10) : null;
+	const isStreams = !!match[2];
+	const allowedMethods = activityId === null ? ['GET'] : ['GET', 'PUT', 'DELETE'];
+	if (!allowedMethods.includes(request.method)) {
 		return new Response('Method not allowed', {
 			status: 405,
 			headers: corsHeaders,
@@ -430,28 +733,105 @@ async function handleTrack3dsDownload(request: Request, env: Env): Promise<Respo
 	}
 
 	try {
-		const downloadCountKey = 'total_3ds_downloads';
+		const athleteId = await authenticateAthlete(request, env);
+		if (athleteId === null) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
 
-		// Get current count, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(downloadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+		if (activityId === null) {
+			return await listSavedActivities(env, athleteId);
+		}
 
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(downloadCountKey, newCount.toString());
+		const activityKey = `athlete_${athleteId}_activity_${activityId}`;
+		const streamsKey = `athlete_${athleteId}_streams_${activityId}`;
 
-		// Return the new count
-		return new Response(
-			JSON.stringify({
-				success: true,
-				total_3ds_downloads: newCount,
-			}),
-			{
+		if (request.method === 'GET') {
+			const stored = await env.PINGGERR_ACTIVITIES.get(isStreams ? streamsKey : activityKey);
+			if (stored === null) {
+				return new Response(JSON.stringify({ error: isStreams ? 'Streams not found' : 'Activity not found' }), {
+					status: 404,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			return new Response(stored, {
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+
+		if (request.method === 'DELETE') {
+			if (isStreams) {
+				await env.PINGGERR_ACTIVITIES.delete(streamsKey);
+			} else {
+				await Promise.all([env.PINGGERR_ACTIVITIES.delete(activityKey), env.PINGGERR_ACTIVITIES.delete(streamsKey)]);
 			}
-		);
+
+			return new Response(JSON.stringify({ success: true }), {
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+
+		// PUT
+		const body = await request.text();
+		// The KV limit is in bytes, string length undercounts non-ASCII text
+		if (new TextEncoder().encode(body).byteLength > MAX_STORED_VALUE_BYTES) {
+			return new Response(JSON.stringify({ error: 'Payload too large' }), {
+				status: 413,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+
+		let payload: unknown;
+		try {
+			payload = JSON.parse(body);
+		} catch {
+			payload = undefined;
+		}
+
+		if (isStreams) {
+			if (!Array.isArray(payload)) {
+				return new Response(JSON.stringify({ error: 'Streams must be an array of trackpoints' }), {
+					status: 400,
+					headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+				});
+			}
+
+			await env.PINGGERR_ACTIVITIES.put(streamsKey, body);
+			return new Response(JSON.stringify({ success: true, trackpoints: payload.length }), {
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+
+		const activity = payload as { id?: number; name?: string; start_date?: string; trackpoints?: unknown[] } | undefined;
+		if (!activity || typeof activity !== 'object' || activity.id !== activityId) {
+			return new Response(JSON.stringify({ error: 'Activity id does not match the request path' }), {
+				status: 400,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+
+		// Keep large trackpoint arrays out of the activity record
+		const { trackpoints, ...activityWithoutStreams } = activity;
+		const metadata: SavedActivityMetadata = {
+			id: activityId,
+			name: activity.name || '',
+			start_date: activity.start_date || '',
+			saved_at: Date.now(),
+		};
+
+		await env.PINGGERR_ACTIVITIES.put(activityKey, JSON.stringify(activityWithoutStreams), { metadata });
+		if (Array.isArray(trackpoints)) {
+			await env.PINGGERR_ACTIVITIES.put(streamsKey, JSON.stringify(trackpoints));
+		}
+
+		return new Response(JSON.stringify({ success: true, activity: metadata }), {
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
 	} catch (error) {
-		console.error('3DS download tracking error:', error);
+		console.error('Activity storage error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -460,9 +840,95 @@ async function handleTrack3dsDownload(request: Request, env: Env): Promise<Respo
 }
 
 /**
- * Get download statistics
+ * List all saved activities for an athlete, newest first
  */
-async function handleGetStats(request: Request, env: Env): Promise<Response> {
+async function listSavedActivities(env: Env, athleteId: number): Promise<Response> {
+	const activities: SavedActivityMetadata[] = [];
+	let cursor: string | undefined;
+
+	do {
+		const page = await env.PINGGERR_ACTIVITIES.list<SavedActivityMetadata>({
+			prefix: `athlete_${athleteId}_activity_`,
+			cursor,
+		});
+
+		for (const key of page.keys) {
+			if (key.metadata) {
+				activities.push(key.metadata);
+			}
+		}
+
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+
+	activities.sort((a, b) => b.start_date.localeCompare(a.start_date));
+
+	return new Response(JSON.stringify({ activities }), {
+		headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+	});
+}
+
+/**
+ * Call the Strava API and record the quota usage it reports
+ */
+async function fetchFromStrava(env: Env, path: string, accessToken: string): Promise<Response> {
+	const response = await fetch(`https://www.strava.com/api/v3${path}`, {
+		headers: { Authorization: `Bearer ${accessToken}` },
+	});
+
+	// The response is still good when the usage can't be recorded
+	await recordStravaRateLimit(env, response).catch((error) => console.error('Strava rate limit record error:', error));
+	return response;
+}
+
+/**
+ * Store the usage reported by Strava's rate limit headers
+ * Read limits are preferred when present, since the proxy only reads
+ */
+async function recordStravaRateLimit(env: Env, response: Response): Promise<void> {
+	const limitHeader = response.headers.get('X-ReadRateLimit-Limit') || response.headers.get('X-RateLimit-Limit');
+	const usageHeader = response.headers.get('X-ReadRateLimit-Usage') || response.headers.get('X-RateLimit-Usage');
+	if (!limitHeader || !usageHeader) {
+		return;
+	}
+
+	const [limit15min, limitDaily] = limitHeader.split(',').map((value) => parseInt(value, 10));
+	const [usage15min, usageDaily] = usageHeader.split(',').map((value) => parseInt(value, 10));
+	if ([limit15min, limitDaily, usage15min, usageDaily].some((value) => Number.isNaN(value))) {
+		return;
+	}
+
+	await getStravaRateLimiter(env).record({
+		limit_15min: limit15min,
+		limit_daily: limitDaily,
+		usage_15min: response.status === 429 ? Math.max(usage15min, limit15min) : usage15min,
+		usage_daily: usageDaily,
+	});
+}
+
+/**
+ * Get the remaining shared Strava budget
+ */
+function getStravaBudget(env: Env): Promise<StravaRateLimitBudget> {
+	return getStravaRateLimiter(env).getBudget();
+}
+
+/**
+ * Response headers describing the shared budget (remaining 15-minute and daily requests)
+ */
+function stravaBudgetHeaders(budget: StravaRateLimitBudget): Record<string, string> {
+	return {
+		'X-RateLimit-Limit': `${budget.limit_15min},${budget.limit_daily}`,
+		'X-RateLimit-Usage': `${budget.usage_15min},${budget.usage_daily}`,
+		'X-Pinggerr-Budget-Remaining': `${budget.remaining_15min},${budget.remaining_daily}`,
+		'X-Pinggerr-Budget-Exhausted': budget.exhausted.toString(),
+	};
+}
+
+/**
+ * Get the remaining shared Strava API budget
+ */
+async function handleGetStravaBudget(request: Request, env: Env): Promise<Response> {
 	if (request.method !== 'GET') {
 		return new Response('Method not allowed', {
 			status: 405,
@@ -471,46 +937,90 @@ async function handleGetStats(request: Request, env: Env): Promise<Response> {
 	}
 
 	try {
-		// Get all download counts
-		const pgsDownloadsString = await env.PINGGERR_STATS.get('total_pgs_downloads');
-		const mmDownloadsString = await env.PINGGERR_STATS.get('total_mm_downloads');
-		const msnDownloadsString = await env.PINGGERR_STATS.get('total_msn_downloads');
-		const msrDownloadsString = await env.PINGGERR_STATS.get('total_msr_downloads');
-		const lgDownloadsString = await env.PINGGERR_STATS.get('total_lg_downloads');
-		const threeDsDownloadsString = await env.PINGGERR_STATS.get('total_3ds_downloads');
-
-		const pgsDownloads = pgsDownloadsString ? parseInt(pgsDownloadsString, 10) : 0;
-		const mmDownloads = mmDownloadsString ? parseInt(mmDownloadsString, 10) : 0;
-		const msnDownloads = msnDownloadsString ? parseInt(msnDownloadsString, 10) : 0;
-		const msrDownloads = msrDownloadsString ? parseInt(msrDownloadsString, 10) : 0;
-		const lgDownloads = lgDownloadsString ? parseInt(lgDownloadsString, 10) : 0;
-		const threeDsDownloads = threeDsDownloadsString ? parseInt(threeDsDownloadsString, 10) : 0;
+		const budget = await getStravaBudget(env);
 
-		// Get current month's map loads
-		const now = new Date();
-		const monthKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-		const mapLoadCountKey = `map_loads_${monthKey}`;
-		const mapLoadsString = await env.PINGGERR_STATS.get(mapLoadCountKey);
-		const mapLoads = mapLoadsString ? parseInt(mapLoadsString, 10) : 0;
+		return new Response(JSON.stringify(budget), {
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	} catch (error) {
+		console.error('Strava budget error:', error);
+		return new Response(JSON.stringify({ error: 'Internal server error' }), {
+			status: 500,
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
+	}
+}
 
-		// Return the current stats
-		return new Response(
-			JSON.stringify({
-				total_pgs_downloads: pgsDownloads,
-				total_mm_downloads: mmDownloads,
-				total_minimalist_serif_no_route_downloads: msnDownloads,
-				total_minimalist_serif_with_route_downloads: msrDownloads,
-				total_lg_downloads: lgDownloads,
-				total_3ds_downloads: threeDsDownloads,
-				map_loads_this_month: mapLoads,
-				month_key: monthKey,
-			}),
-			{
+/**
+ * Forward activity, laps and streams requests to Strava
+ * Successful responses are cached per athlete and served instead of calling
+ * Strava once the shared budget is used up
+ */
+async function handleStravaProxy(request: Request, env: Env, url: URL): Promise<Response> {
+	const stravaPath = url.pathname.slice('/strava'.length);
+	if (!/^\/activities\/\d+(\/laps|\/streams)?$/.test(stravaPath)) {
+		return new Response('Not Found', {
+			status: 404,
+			headers: corsHeaders,
+		});
+	}
+
+	if (request.method !== 'GET') {
+		return new Response('Method not allowed', {
+			status: 405,
+			headers: corsHeaders,
+		});
+	}
+
+	try {
+		const athleteId = await authenticateAthlete(request, env);
+		if (athleteId === null) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
 				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
+
+		const requestPath = `${stravaPath}${url.search}`;
+		const cacheKey = `strava_cache_${athleteId}_${requestPath}`;
+
+		const serveCached = async (budget: StravaRateLimitBudget): Promise<Response> => {
+			const cached = await env.PINGGERR_ACTIVITIES.get(cacheKey);
+			if (cached === null) {
+				return new Response(JSON.stringify({ error: 'Strava API budget exhausted', budget }), {
+					status: 429,
+					headers: { ...corsHeaders, ...stravaBudgetHeaders(budget), 'Content-Type': 'application/json' },
+				});
 			}
-		);
+
+			return new Response(cached, {
+				headers: { ...corsHeaders, ...stravaBudgetHeaders(budget), 'X-Pinggerr-Cache': 'HIT', 'Content-Type': 'application/json' },
+			});
+		};
+
+		const budget = await getStravaBudget(env);
+		if (budget.exhausted) {
+			return serveCached(budget);
+		}
+
+		const stravaResponse = await fetchFromStrava(env, requestPath, getBearerToken(request));
+		const updatedBudget = await getStravaBudget(env);
+
+		if (stravaResponse.status === 429) {
+			return serveCached(updatedBudget);
+		}
+
+		const body = await stravaResponse.text();
+		if (stravaResponse.ok && new TextEncoder().encode(body).byteLength <= MAX_STORED_VALUE_BYTES) {
+			await env.PINGGERR_ACTIVITIES.put(cacheKey, body, { expirationTtl: STRAVA_CACHE_TTL_SECONDS });
+		}
+
+		return new Response(body, {
+			status: stravaResponse.status,
+			headers: { ...corsHeaders, ...stravaBudgetHeaders(updatedBudget), 'X-Pinggerr-Cache': 'MISS', 'Content-Type': 'application/json' },
+		});
 	} catch (error) {
-		console.error('Stats retrieval error:', error);
+		console.error('Strava proxy error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -519,54 +1029,159 @@ async function handleGetStats(request: Request, env: Env): Promise<Response> {
 }
 
 /**
- * Track a map load event by incrementing the monthly counter
+ * Strava push subscription endpoint
+ * GET verifies the subscription (hub.challenge), POST receives events
  */
-async function handleTrackMapLoad(request: Request, env: Env): Promise<Response> {
+async function handleStravaWebhook(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
+	if (request.method === 'GET') {
+		const url = new URL(request.url);
+		const mode = url.searchParams.get('hub.mode');
+		const verifyToken = url.searchParams.get('hub.verify_token');
+		const challenge = url.searchParams.get('hub.challenge');
+
+		if (mode !== 'subscribe' || !challenge || !env.STRAVA_WEBHOOK_VERIFY_TOKEN || verifyToken !== env.STRAVA_WEBHOOK_VERIFY_TOKEN) {
+			return new Response(JSON.stringify({ error: 'Invalid subscription verification' }), {
+				status: 403,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
+
+		return new Response(JSON.stringify({ 'hub.challenge': challenge }), {
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}
+
 	if (request.method !== 'POST') {
 		return new Response('Method not allowed', {
 			status: 405,
-			headers: corsHeaders,
 		});
 	}
 
 	try {
-		// Generate monthly key (YYYY-MM format)
-		const now = new Date();
-		const monthKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-		const mapLoadCountKey = `map_loads_${monthKey}`;
+		const event = (await request.json()) as StravaWebhookEvent;
 
-		// Get current count for this month, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(mapLoadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+		if (!event?.object_type || !event.owner_id) {
+			return new Response(JSON.stringify({ error: 'Invalid event' }), {
+				status: 400,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
 
-		// Increment and store the new count
-		const newCount = currentCount + 1;
-		await env.PINGGERR_STATS.put(mapLoadCountKey, newCount.toString());
+		// Only events for our own subscription are trusted, anyone can POST here
+		if (!env.STRAVA_WEBHOOK_SUBSCRIPTION_ID) {
+			console.error('STRAVA_WEBHOOK_SUBSCRIPTION_ID is not configured, rejecting webhook event');
+		}
+		if (!env.STRAVA_WEBHOOK_SUBSCRIPTION_ID || String(event.subscription_id) !== env.STRAVA_WEBHOOK_SUBSCRIPTION_ID) {
+			return new Response(JSON.stringify({ error: 'Unknown subscription' }), {
+				status: 403,
+				headers: { 'Content-Type': 'application/json' },
+			});
+		}
 
-		// Return the new count and monthly key
-		return new Response(
-			JSON.stringify({
-				success: true,
-				map_loads_this_month: newCount,
-				month_key: monthKey,
-			}),
-			{
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-			}
+		// Strava expects a 200 within two seconds, so process the event in the background
+		ctx.waitUntil(
+			processStravaWebhookEvent(env, event).catch((error) => {
+				console.error('Webhook event processing error:', error);
+			})
 		);
+
+		return new Response(JSON.stringify({ success: true }), {
+			headers: { 'Content-Type': 'application/json' },
+		});
 	} catch (error) {
-		console.error('Map load tracking error:', error);
+		console.error('Webhook error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
-			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			headers: { 'Content-Type': 'application/json' },
 		});
 	}
 }
 
 /**
- * Check if map loading is allowed (under 50,000 monthly limit)
+ * Apply a Strava push event: drop stale stored data and record the change
  */
-async function handleCheckMapLimit(request: Request, env: Env): Promise<Response> {
+async function processStravaWebhookEvent(env: Env, event: StravaWebhookEvent): Promise<void> {
+	const athleteId = event.owner_id;
+
+	if (event.object_type === 'athlete') {
+		// Deauthorization - Strava requires removing the athlete's data
+		if (event.updates?.authorized === 'false') {
+			await deleteAthleteData(env, athleteId);
+		}
+		return;
+	}
+
+	if (event.object_type !== 'activity') {
+		return;
+	}
+
+	const activityId = event.object_id;
+
+	// Stored copies and cached proxy responses are outdated once the activity changes
+	if (event.aspect_type !== 'create') {
+		await Promise.all([
+			env.PINGGERR_ACTIVITIES.delete(`athlete_${athleteId}_activity_${activityId}`),
+			env.PINGGERR_ACTIVITIES.delete(`athlete_${athleteId}_streams_${activityId}`),
+			deleteKeysWithPrefix(env, `strava_cache_${athleteId}_/activities/${activityId}`, (name) =>
+				new RegExp(`^strava_cache_${athleteId}_/activities/${activityId}(/|\\?|$)`).test(name)
+			),
+		]);
+	}
+
+	await getActivityChangeLog(env, athleteId).append({
+		activity_id: activityId,
+		aspect_type: event.aspect_type,
+		updates: event.updates,
+		event_time: event.event_time,
+	});
+}
+
+/**
+ * Delete everything stored for an athlete (saved activities, streams, cached responses,
+ * cached token lookups and changes)
+ */
+async function deleteAthleteData(env: Env, athleteId: number): Promise<void> {
+	// A cached lookup would keep a revoked token working until it expires. The athlete's
+	// list of them goes with the rest of their keys, so it's read first
+	await deleteAuthCache(env, athleteId);
+	await Promise.all([
+		deleteKeysWithPrefix(env, `athlete_${athleteId}_`),
+		deleteKeysWithPrefix(env, `strava_cache_${athleteId}_`),
+		getActivityChangeLog(env, athleteId).clear(),
+	]);
+}
+
+/**
+ * Delete the cached athlete id of every token hash listed under the athlete
+ */
+async function deleteAuthCache(env: Env, athleteId: number): Promise<void> {
+	const prefix = `athlete_${athleteId}_`;
+	let cursor: string | undefined;
+
+	do {
+		const page = await env.PINGGERR_ACTIVITIES.list({ prefix: `${prefix}auth_`, cursor });
+		await Promise.all(page.keys.map((key) => env.PINGGERR_ACTIVITIES.delete(key.name.slice(prefix.length))));
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+}
+
+/**
+ * Delete all KV keys starting with a prefix, optionally filtered by name
+ */
+async function deleteKeysWithPrefix(env: Env, prefix: string, filter: (name: string) => boolean = () => true): Promise<void> {
+	let cursor: string | undefined;
+
+	do {
+		const page = await env.PINGGERR_ACTIVITIES.list({ prefix, cursor });
+		await Promise.all(page.keys.filter((key) => filter(key.name)).map((key) => env.PINGGERR_ACTIVITIES.delete(key.name)));
+		cursor = page.list_complete ? undefined : page.cursor;
+	} while (cursor);
+}
+
+/**
+ * Get the authenticated athlete's activity changes received after `since` (ms timestamp)
+ */
+async function handleGetChanges(request: Request, env: Env, url: URL): Promise<Response> {
 	if (request.method !== 'GET') {
 		return new Response('Method not allowed', {
 			status: 405,
@@ -575,33 +1190,23 @@ async function handleCheckMapLimit(request: Request, env: Env): Promise<Response
 	}
 
 	try {
-		// Generate monthly key (YYYY-MM format)
-		const now = new Date();
-		const monthKey = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
-		const mapLoadCountKey = `map_loads_${monthKey}`;
-
-		// Get current count for this month, default to 0 if not exists
-		const currentCountString = await env.PINGGERR_STATS.get(mapLoadCountKey);
-		const currentCount = currentCountString ? parseInt(currentCountString, 10) : 0;
+		const athleteId = await authenticateAthlete(request, env);
+		if (athleteId === null) {
+			return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+				status: 401,
+				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+			});
+		}
 
-		const MONTHLY_LIMIT = 50000;
-		const canLoadMap = currentCount < MONTHLY_LIMIT;
+		const since = parseInt(url.searchParams.get('since') || '0', 10) || 0;
+		// `latest` is the cursor to pass as `since` on the next request
+		const { changes, latest } = await getActivityChangeLog(env, athleteId).list(since);
 
-		// Return the limit check result
-		return new Response(
-			JSON.stringify({
-				can_load_map: canLoadMap,
-				map_loads_this_month: currentCount,
-				monthly_limit: MONTHLY_LIMIT,
-				remaining_loads: Math.max(0, MONTHLY_LIMIT - currentCount),
-				month_key: monthKey,
-			}),
-			{
-				headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-			}
-		);
+		return new Response(JSON.stringify({ athlete_id: athleteId, changes, latest }), {
+			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+		});
 	} catch (error) {
-		console.error('Map limit check error:', error);
+		console.error('Changes retrieval error:', error);
 		return new Response(JSON.stringify({ error: 'Internal server error' }), {
 			status: 500,
 			headers: { ...corsHeaders, 'Content-Type': 'application/json' },
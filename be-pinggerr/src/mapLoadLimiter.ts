@@ -0,0 +1,230 @@
+/**
+ * Map Load Limiter Durable Object
+ *
+ * Keeps the Mapbox map load limits: the monthly total, per-IP and per-athlete sliding
+ * windows and the tickets issued against them. A single instance handles every check
+ * and redemption, so two loads at once can't both pass a limit or redeem one ticket
+ * the way they could with KV get-then-put
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+interface MapLoadTicketReservation {
+	nonce: string;
+	exp: number; // seconds since epoch
+}
+
+// Loads recorded in a window, plus tickets issued but not yet redeemed
+interface MapLoadWindow {
+	loads: number[]; // ms timestamps
+	tickets: MapLoadTicketReservation[];
+}
+
+export interface MapLoadStatus {
+	can_load_map: boolean;
+	limit_reason: 'monthly' | 'client' | null;
+	map_loads_this_month: number;
+	client_remaining_loads: number;
+	month_key: string;
+}
+
+export type MapLoadRedemption =
+	| { status: 'redeemed'; map_loads_this_month: number; client_remaining_loads: number; month_key: string }
+	| { status: 'invalid' }
+	| { status: 'limited'; limit_reason: 'monthly' | 'client' };
+
+/**
+ * Map load limits from wrangler vars, with defaults for local development
+ */
+export function getMapLoadLimits(env: Env) {
+	const readLimit = (value: string | undefined, fallback: number) => parseInt(value || '', 10) || fallback;
+
+	return {
+		monthly: readLimit(env.MAP_LOAD_MONTHLY_LIMIT, 50000),
+		perIp: readLimit(env.MAP_LOAD_IP_LIMIT, 20),
+		perAthlete: readLimit(env.MAP_LOAD_ATHLETE_LIMIT, 30),
+		windowSeconds: readLimit(env.MAP_LOAD_WINDOW_SECONDS, 60 * 60),
+		ticketTtlSeconds: readLimit(env.MAP_LOAD_TICKET_TTL_SECONDS, 120),
+	};
+}
+
+/**
+ * Month bucket key (YYYY-MM) for the current map load count
+ */
+export function getMapLoadMonthKey(date = new Date()): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export class MapLoadLimiter extends DurableObject<Env> {
+	/**
+	 * A client's window with loads outside it and expired tickets dropped
+	 */
+	private async getWindow(key: string): Promise<MapLoadWindow> {
+		const stored = await this.ctx.storage.get<MapLoadWindow>(key);
+		const windowStart = Date.now() - getMapLoadLimits(this.env).windowSeconds * 1000;
+		const now = Math.floor(Date.now() / 1000);
+
+		return {
+			loads: (stored?.loads ?? []).filter((timestamp) => timestamp > windowStart),
+			tickets: (stored?.tickets ?? []).filter((ticket) => ticket.exp >= now),
+		};
+	}
+
+	/**
+	 * Store a window, or drop it once nothing in it counts anymore
+	 */
+	private async putWindow(key: string, window: MapLoadWindow): Promise<void> {
+		if (window.loads.length === 0 && window.tickets.length === 0) {
+			await this.ctx.storage.delete(key);
+			return;
+		}
+		await this.ctx.storage.put(key, window);
+
+		// Windows of clients that never come back are cleared by the alarm
+		if ((await this.ctx.storage.getAlarm()) === null) {
+			await this.ctx.storage.setAlarm(Date.now() + getMapLoadLimits(this.env).windowSeconds * 1000);
+		}
+	}
+
+	/**
+	 * Loads left for a client (and athlete, if known); unredeemed tickets count as loads
+	 */
+	private remaining(ipWindow: MapLoadWindow, athleteWindow: MapLoadWindow | null): number {
+		const limits = getMapLoadLimits(this.env);
+		const used = (window: MapLoadWindow) => window.loads.length + window.tickets.length;
+
+		return Math.max(0, Math.min(limits.perIp - used(ipWindow), athleteWindow ? limits.perAthlete - used(athleteWindow) : Infinity));
+	}
+
+	private async getMonthlyLoads(monthKey: string): Promise<number> {
+		return (await this.ctx.storage.get<number>(`month:${monthKey}`)) ?? 0;
+	}
+
+	/**
+	 * Tickets issued against the monthly limit and not yet redeemed; an expired
+	 * ticket gives its load back
+	 */
+	private async getMonthlyTickets(): Promise<MapLoadTicketReservation[]> {
+		const now = Math.floor(Date.now() / 1000);
+		const tickets = (await this.ctx.storage.get<MapLoadTicketReservation[]>('month_tickets')) ?? [];
+		return tickets.filter((ticket) => ticket.exp >= now);
+	}
+
+	/**
+	 * Map loads counted this month, for /stats
+	 */
+	async getLoadsThisMonth(): Promise<{ map_loads_this_month: number; month_key: string }> {
+		const monthKey = getMapLoadMonthKey();
+		return { map_loads_this_month: await this.getMonthlyLoads(monthKey), month_key: monthKey };
+	}
+
+	/**
+	 * Check the limits and, when a load is allowed, hold one for the ticket with this nonce
+	 * Each ticket takes a load from the client's and the monthly limit until it's
+	 * redeemed or expires, so asking again (or from several tabs) can't hand out
+	 * more tickets than there are loads left
+	 */
+	async reserve(nonce: string, client: string, athleteId: number | null, exp: number): Promise<MapLoadStatus> {
+		const limits = getMapLoadLimits(this.env);
+		const monthKey = getMapLoadMonthKey();
+		const ipKey = `ip:${client}`;
+		const athleteKey = athleteId !== null ? `athlete:${athleteId}` : null;
+
+		const mapLoads = await this.getMonthlyLoads(monthKey);
+		const monthlyTickets = await this.getMonthlyTickets();
+		const ipWindow = await this.getWindow(ipKey);
+		const athleteWindow = athleteKey ? await this.getWindow(athleteKey) : null;
+		const remaining = this.remaining(ipWindow, athleteWindow);
+
+		const underMonthlyLimit = mapLoads + monthlyTickets.length < limits.monthly;
+		const canLoadMap = underMonthlyLimit && remaining > 0;
+		if (canLoadMap) {
+			const ticket = { nonce, exp };
+			await this.ctx.storage.put('month_tickets', [...monthlyTickets, ticket]);
+			await this.putWindow(ipKey, { ...ipWindow, tickets: [...ipWindow.tickets, ticket] });
+			if (athleteKey && athleteWindow) {
+				await this.putWindow(athleteKey, { ...athleteWindow, tickets: [...athleteWindow.tickets, ticket] });
+			}
+		}
+
+		return {
+			can_load_map: canLoadMap,
+			limit_reason: canLoadMap ? null : underMonthlyLimit ? 'client' : 'monthly',
+			map_loads_this_month: mapLoads,
+			// The load held for the ticket is the client's to use
+			client_remaining_loads: remaining,
+			month_key: monthKey,
+		};
+	}
+
+	/**
+	 * Redeem a ticket reserved for this client: record the load and count it for the month
+	 * Tickets that were never reserved, already redeemed or expired are invalid
+	 */
+	async redeem(nonce: string, client: string, athleteId: number | null): Promise<MapLoadRedemption> {
+		const limits = getMapLoadLimits(this.env);
+		const monthKey = getMapLoadMonthKey();
+		const ipKey = `ip:${client}`;
+		const athleteKey = athleteId !== null ? `athlete:${athleteId}` : null;
+
+		const ipWindow = await this.getWindow(ipKey);
+		if (!ipWindow.tickets.some((ticket) => ticket.nonce === nonce)) {
+			return { status: 'invalid' };
+		}
+		const athleteWindow = athleteKey ? await this.getWindow(athleteKey) : null;
+		const monthlyTickets = await this.getMonthlyTickets();
+		await this.ctx.storage.put(
+			'month_tickets',
+			monthlyTickets.filter((ticket) => ticket.nonce !== nonce)
+		);
+
+		const withoutTicket = (window: MapLoadWindow) => ({ ...window, tickets: window.tickets.filter((ticket) => ticket.nonce !== nonce) });
+		const withLoad = (window: MapLoadWindow) => ({ ...withoutTicket(window), loads: [...window.loads, Date.now()] });
+
+		const mapLoads = await this.getMonthlyLoads(monthKey);
+		if (mapLoads >= limits.monthly) {
+			await this.putWindow(ipKey, withoutTicket(ipWindow));
+			if (athleteKey && athleteWindow) {
+				await this.putWindow(athleteKey, withoutTicket(athleteWindow));
+			}
+			return { status: 'limited', limit_reason: 'monthly' };
+		}
+
+		const updatedIpWindow = withLoad(ipWindow);
+		const updatedAthleteWindow = athleteWindow && withLoad(athleteWindow);
+		await this.putWindow(ipKey, updatedIpWindow);
+		if (athleteKey && updatedAthleteWindow) {
+			await this.putWindow(athleteKey, updatedAthleteWindow);
+		}
+		await this.ctx.storage.put(`month:${monthKey}`, mapLoads + 1);
+
+		return {
+			status: 'redeemed',
+			map_loads_this_month: mapLoads + 1,
+			client_remaining_loads: this.remaining(updatedIpWindow, updatedAthleteWindow),
+			month_key: monthKey,
+		};
+	}
+
+	/**
+	 * Clear out windows with nothing left in them
+	 */
+	async alarm(): Promise<void> {
+		let pending = false;
+		for (const prefix of ['ip:', 'athlete:']) {
+			const windows = await this.ctx.storage.list<MapLoadWindow>({ prefix });
+			for (const key of windows.keys()) {
+				const window = await this.getWindow(key);
+				if (window.loads.length === 0 && window.tickets.length === 0) {
+					await this.ctx.storage.delete(key);
+				} else {
+					pending = true;
+				}
+			}
+		}
+
+		if (pending) {
+			await this.ctx.storage.setAlarm(Date.now() + getMapLoadLimits(this.env).windowSeconds * 1000);
+		}
+	}
+}
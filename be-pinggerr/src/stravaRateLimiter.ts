@@ -0,0 +1,94 @@
+/**
+ * Strava Rate Limiter Durable Object
+ *
+ * Keeps the usage of the app's shared Strava quota, as reported by Strava's rate limit
+ * headers. A single instance takes every report, so concurrent requests don't fail on
+ * KV's per-key write limit, and a late report can't set usage back to a lower count
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+
+// Last known usage of the app's shared Strava quota, as reported by Strava
+export interface StravaRateLimitState {
+	limit_15min: number;
+	limit_daily: number;
+	usage_15min: number;
+	usage_daily: number;
+	updated_at: number;
+}
+
+export interface StravaRateLimitBudget extends StravaRateLimitState {
+	remaining_15min: number;
+	remaining_daily: number;
+	exhausted: boolean;
+}
+
+// Strava's default read limits, used until the first response reports the real ones
+const DEFAULT_STRAVA_LIMIT_15MIN = 100;
+const DEFAULT_STRAVA_LIMIT_DAILY = 1000;
+
+// Requests held back from the shared budget so token exchange and auth keep working
+const STRAVA_BUDGET_RESERVE_15MIN = 5;
+const STRAVA_BUDGET_RESERVE_DAILY = 25;
+
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+const ONE_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * State with usage from earlier windows discarded
+ * Strava resets usage every quarter hour and at midnight UTC
+ */
+function withCurrentUsage(state: StravaRateLimitState, now: number): StravaRateLimitState {
+	return {
+		...state,
+		usage_15min: Math.floor(state.updated_at / FIFTEEN_MINUTES) === Math.floor(now / FIFTEEN_MINUTES) ? state.usage_15min : 0,
+		usage_daily: Math.floor(state.updated_at / ONE_DAY) === Math.floor(now / ONE_DAY) ? state.usage_daily : 0,
+	};
+}
+
+export class StravaRateLimiter extends DurableObject<Env> {
+	private async getState(): Promise<StravaRateLimitState> {
+		const stored = await this.ctx.storage.get<StravaRateLimitState>('state');
+		return withCurrentUsage(
+			stored ?? {
+				limit_15min: DEFAULT_STRAVA_LIMIT_15MIN,
+				limit_daily: DEFAULT_STRAVA_LIMIT_DAILY,
+				usage_15min: 0,
+				usage_daily: 0,
+				updated_at: 0,
+			},
+			Date.now()
+		);
+	}
+
+	/**
+	 * Record the usage a Strava response reported
+	 * Responses finish out of order, so usage in the current windows only goes up
+	 */
+	async record(report: Omit<StravaRateLimitState, 'updated_at'>): Promise<void> {
+		const current = await this.getState();
+		await this.ctx.storage.put('state', {
+			limit_15min: report.limit_15min,
+			limit_daily: report.limit_daily,
+			usage_15min: Math.max(current.usage_15min, report.usage_15min),
+			usage_daily: Math.max(current.usage_daily, report.usage_daily),
+			updated_at: Date.now(),
+		} satisfies StravaRateLimitState);
+	}
+
+	/**
+	 * Get the remaining shared Strava budget
+	 */
+	async getBudget(): Promise<StravaRateLimitBudget> {
+		const state = await this.getState();
+		const remaining15min = Math.max(0, state.limit_15min - state.usage_15min);
+		const remainingDaily = Math.max(0, state.limit_daily - state.usage_daily);
+
+		return {
+			...state,
+			remaining_15min: remaining15min,
+			remaining_daily: remainingDaily,
+			exhausted: remaining15min <= STRAVA_BUDGET_RESERVE_15MIN || remainingDaily <= STRAVA_BUDGET_RESERVE_DAILY,
+		};
+	}
+}
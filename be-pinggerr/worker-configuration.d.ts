@@ -5,7 +5,20 @@ declare namespace Cloudflare {
 	interface Env {
 		STRAVA_CLIENT_ID: string;
 		STRAVA_CLIENT_SECRET: string;
+		STRAVA_WEBHOOK_VERIFY_TOKEN: string;
+		STRAVA_WEBHOOK_SUBSCRIPTION_ID: string;
+		MAP_TICKET_SECRET: string;
+		MAP_LOAD_MONTHLY_LIMIT: string;
+		MAP_LOAD_IP_LIMIT: string;
+		MAP_LOAD_ATHLETE_LIMIT: string;
+		MAP_LOAD_WINDOW_SECONDS: string;
+		MAP_LOAD_TICKET_TTL_SECONDS: string;
 		PINGGERR_STATS: KVNamespace;
+		PINGGERR_ACTIVITIES: KVNamespace;
+		ANALYTICS_COUNTER: DurableObjectNamespace<import('./src/analyticsCounter').AnalyticsCounter>;
+		ACTIVITY_CHANGE_LOG: DurableObjectNamespace<import('./src/activityChangeLog').ActivityChangeLog>;
+		MAP_LOAD_LIMITER: DurableObjectNamespace<import('./src/mapLoadLimiter').MapLoadLimiter>;
+		STRAVA_RATE_LIMITER: DurableObjectNamespace<import('./src/stravaRateLimiter').StravaRateLimiter>;
 	}
 }
 interface Env extends Cloudflare.Env {}
@@ -67,10 +67,12 @@ deploy_backend() {
     print_warning "Make sure you have set the following secrets:"
     echo "  - STRAVA_CLIENT_ID"
     echo "  - STRAVA_CLIENT_SECRET"
+    echo "  - MAP_TICKET_SECRET (Mapbox map loads answer 503 without it)"
     echo ""
     echo "Set them with:"
     echo "  wrangler secret put STRAVA_CLIENT_ID"
     echo "  wrangler secret put STRAVA_CLIENT_SECRET"
+    echo "  wrangler secret put MAP_TICKET_SECRET"
     echo ""
     
     read -p "Have you set the required secrets? (y/N): " -n 1 -r
@@ -80,7 +82,7 @@ deploy_backend() {
         exit 1
     fi
     
-    # Deploy worker
+    # Deploy worker (creates the saved activities KV namespace on the first deploy)
     print_status "Deploying Cloudflare Worker..."
     npm run deploy
     
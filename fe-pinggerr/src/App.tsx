@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import {
   BrowserRouter as Router,
   Routes,
@@ -19,12 +19,24 @@ import { AuthCallback } from "@/components/AuthCallback";
 import { ActivityList } from "@/components/ActivityList";
 import { PinggerrLayout } from "@/components/PinggerrLayout";
 import { Footer } from "@/components/Footer";
-import { PinkGreenActivity } from "@/pages/PinkGreenActivity";
-// import { ThreeDStories } from "@/pages/ThreeDStories";
-import { StravaDefaultStyle } from "@/pages/StravaDefaultStyle";
+import { TemplatePoster } from "@/pages/TemplatePoster";
+import { TemplateDesigner } from "@/pages/TemplateDesigner";
+import { ThreeDStories } from "@/pages/ThreeDStories";
 import { useStravaAuth } from "@/hooks/useStravaAuth";
-import { useStravaActivityDetails } from "@/hooks/useStravaQueries";
-import { processTcxFromFile } from "@/lib/tcxParser";
+import {
+  useStravaActivityDetails,
+  useStravaActivityChanges,
+} from "@/hooks/useStravaQueries";
+import { useStravaBudget } from "@/hooks/useStravaBudget";
+import { useCustomTemplates } from "@/hooks/useCustomTemplates";
+import {
+  processActivityFiles,
+  SUPPORTED_ACTIVITY_FILE_EXTENSIONS,
+} from "@/lib/activityFile";
+import {
+  getConfiguredElevationModel,
+  loadGeoTiffModel,
+} from "@/lib/elevationModels";
 import {
   loadActivityFromLocalStorage,
   isCachedActivityStale,
@@ -33,13 +45,10 @@ import {
 import type { StravaActivity } from "@/types/strava";
 import { useQueryClient } from "@tanstack/react-query";
 import { CACHE_KEYS } from "@/lib/queryClient";
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from "@/templates";
 
 // Import Connect with Strava SVG
 import StravaConnectButton from "@/assets/btn_strava_connect_with_orange_x2.svg";
-import { LiquidGlassActivity } from "./pages/LiquidGlassActivity";
-import { ModernMinimalistActivity } from "./pages/ModernMinimalistActivity";
-import { MinimalistSerifWithRoute } from "./pages/MinimalistSerifWithRoute";
-import { MinimalistSerifWithNoRoute } from "./pages/MinimalistSerifWithNoRoute";
 
 function MainApp() {
   const { isAuthenticated, login, logout, error } = useStravaAuth();
@@ -50,9 +59,13 @@ function MainApp() {
   const [selectedActivityId, setSelectedActivityId] = useState<number | null>(
     null
   );
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isProcessingTcx, setIsProcessingTcx] = useState<boolean>(false);
+  const [tcxProgress, setTcxProgress] = useState<number | null>(null);
+  const tcxAbortControllerRef = useRef<AbortController | null>(null);
   const [tcxError, setTcxError] = useState<string | null>(null);
+  const [correctElevation, setCorrectElevation] = useState<boolean>(false);
+  const [demFile, setDemFile] = useState<File | null>(null);
   const [showInstructions, setShowInstructions] = useState<boolean>(false);
   const [showDisconnectNotice, setShowDisconnectNotice] =
     useState<boolean>(false);
@@ -70,6 +83,16 @@ function MainApp() {
   const { data: cachedActivityDetails, rateLimitInfo } =
     useStravaActivityDetails(selectedActivityId);
 
+  // Shared Strava API budget reported by the Worker proxy
+  const stravaBudget = useStravaBudget();
+
+  // Templates saved from the template designer
+  const customTemplates = useCustomTemplates();
+  const posterTemplates = [...BUILT_IN_TEMPLATES, ...customTemplates];
+
+  // Invalidate cached activities when Strava pushes changes
+  useStravaActivityChanges();
+
   // Handle OAuth callback
   const isCallbackRoute = location.pathname === "/auth/callback";
 
@@ -136,7 +159,7 @@ function MainApp() {
   const handleBackToList = () => {
     setSelectedActivity(null);
     setSelectedActivityId(null);
-    setSelectedFile(null);
+    setSelectedFiles([]);
     setTcxError(null);
     setShowInstructions(false);
   };
@@ -152,35 +175,67 @@ function MainApp() {
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setSelectedFile(file);
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      setSelectedFiles(files);
       setTcxError(null);
     }
   };
 
   const handleProcessTcx = async () => {
-    if (!selectedFile) return;
-    console.log("Processing TCX file:", selectedFile);
+    if (selectedFiles.length === 0) return;
+    console.log("Processing activity files:", selectedFiles);
+
+    const abortController = new AbortController();
+    tcxAbortControllerRef.current = abortController;
 
     setIsProcessingTcx(true);
+    setTcxProgress(null);
     setTcxError(null);
 
     try {
-      const stravaActivity = await processTcxFromFile(selectedFile);
-      console.log("Processed TCX file:", stravaActivity);
+      // A picked GeoTIFF wins over the configured DEM tiles
+      const elevationModel = correctElevation
+        ? demFile
+          ? await loadGeoTiffModel(demFile)
+          : getConfiguredElevationModel()
+        : undefined;
+      if (elevationModel === null) {
+        throw new Error(
+          language === "en"
+            ? "Select a GeoTIFF elevation model to correct elevation"
+            : "Pilih model elevasi GeoTIFF untuk mengoreksi elevasi"
+        );
+      }
+      const stravaActivity = await processActivityFiles(selectedFiles, {
+        onProgress: setTcxProgress,
+        signal: abortController.signal,
+        elevationModel,
+      });
+      console.log("Processed activity file:", stravaActivity);
       setSelectedActivity(stravaActivity);
       // Navigate to default visualization (pinkgreen-activity)
       navigate("/visualization/pinkgreen-activity");
     } catch (error) {
+      // Cancelled by the user, nothing to report
+      if (abortController.signal.aborted) return;
+
       const errorMessage =
         error instanceof Error ? error.message : "Failed to process activity";
       setTcxError(errorMessage);
     } finally {
+      if (tcxAbortControllerRef.current === abortController) {
+        tcxAbortControllerRef.current = null;
+      }
       setIsProcessingTcx(false);
+      setTcxProgress(null);
     }
   };
 
+  const handleCancelProcessTcx = () => {
+    tcxAbortControllerRef.current?.abort();
+  };
+
   if (isCallbackRoute) {
     return (
       <AuthCallback onSuccess={handleAuthSuccess} onError={handleAuthError} />
@@ -200,34 +255,17 @@ function MainApp() {
       if (pathname.includes("3d-stories")) {
         return lang === "en" ? "3D Stories" : "Cerita 3D";
       }
-      if (pathname.includes("liquid-glass-activity")) {
-        return lang === "en" ? "Liquid Glass Activity" : "Aktivitas Kaca Cair";
+      if (pathname.includes("designer")) {
+        return lang === "en" ? "Template Designer" : "Desainer Template";
       }
-      if (pathname.includes("modern-minimalist-activity")) {
-        return lang === "en"
-          ? "Modern Minimalist Activity"
-          : "Aktivitas Minimalist Modern";
-      }
-      if (pathname.includes("strava-default-style")) {
-        return lang === "en"
-          ? "White Orange Activity"
-          : "Aktivitas Orange Putih";
-      }
-      if (pathname.includes("pinkgreen-activity")) {
-        return lang === "en" ? "PinkGreen Activity" : "Aktivitas PinkGreen";
-      }
-      if (pathname.includes("minimalist-serif-with-route")) {
-        return lang === "en"
-          ? "Minimalist Serif With Route"
-          : "Serif Minimalis Dengan Rute";
-      }
-      if (pathname.includes("minimalist-serif-no-route")) {
-        return lang === "en"
-          ? "Minimalist Serif No Route"
-          : "Serif Minimalis Tanpa Rute";
+      const template = posterTemplates.find((t) =>
+        pathname.endsWith(`/${t.id}`)
+      );
+      if (template) {
+        return template.title[lang];
       }
       // Default fallback
-      return lang === "en" ? "PinkGreen Activity" : "Aktivitas PinkGreen";
+      return DEFAULT_TEMPLATE.title[lang];
     };
 
     const currentVisualizationType = getVisualizationType(
@@ -238,7 +276,7 @@ function MainApp() {
     return (
       <>
         {/* Rate Limit Warning Banner */}
-        {rateLimitInfo.isLimited && (
+        {(rateLimitInfo.isLimited || stravaBudget?.exhausted) && (
           <div className="fixed top-0 left-0 right-0 z-50 bg-amber-500 text-white px-4 py-3 shadow-lg">
             <div className="container mx-auto flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -249,10 +287,18 @@ function MainApp() {
                     : "Batas API Strava tercapai. Menampilkan data cache."}
                 </p>
               </div>
-              {rateLimitInfo.usage && (
+              {stravaBudget ? (
                 <p className="text-xs opacity-90">
-                  Usage: {rateLimitInfo.usage}
+                  {language === "en"
+                    ? `Remaining: ${stravaBudget.remaining15min} (15 min) · ${stravaBudget.remainingDaily} (today)`
+                    : `Sisa: ${stravaBudget.remaining15min} (15 menit) · ${stravaBudget.remainingDaily} (hari ini)`}
                 </p>
+              ) : (
+                rateLimitInfo.usage && (
+                  <p className="text-xs opacity-90">
+                    Usage: {rateLimitInfo.usage}
+                  </p>
+                )
               )}
             </div>
           </div>
@@ -269,30 +315,33 @@ function MainApp() {
         >
           <Routes>
             <Route
-              path="/visualization/pinkgreen-activity"
+              path="/visualization/designer"
               element={
-                <PinkGreenActivity
+                <TemplateDesigner
+                  key={location.search}
                   activity={activityToShow}
                   language={language}
-                  onDownload={(imageUrl) => {
-                    console.log("Image downloaded:", imageUrl);
-                  }}
                 />
               }
             />
+            {posterTemplates.map((template) => (
+              <Route
+                key={template.id}
+                path={`/visualization/${template.id}`}
+                element={
+                  <TemplatePoster
+                    key={template.id}
+                    template={template}
+                    activity={activityToShow}
+                    language={language}
+                    onDownload={(imageUrl) => {
+                      console.log("Image downloaded:", imageUrl);
+                    }}
+                  />
+                }
+              />
+            ))}
             <Route
-              path="/visualization/strava-default-style"
-              element={
-                <StravaDefaultStyle
-                  activity={activityToShow}
-                  language={language}
-                  onDownload={(imageUrl) => {
-                    console.log("Image downloaded:", imageUrl);
-                  }}
-                />
-              }
-            />
-            {/* <Route
               path="/visualization/3d-stories"
               element={
                 <ThreeDStories
@@ -303,60 +352,14 @@ function MainApp() {
                   }}
                 />
               }
-            /> */}
-            <Route
-              path="/visualization/liquid-glass-activity"
-              element={
-                <LiquidGlassActivity
-                  activity={activityToShow}
-                  language={language}
-                  onDownload={(imageUrl) => {
-                    console.log("Image downloaded:", imageUrl);
-                  }}
-                />
-              }
-            />
-            <Route
-              path="/visualization/modern-minimalist-activity"
-              element={
-                <ModernMinimalistActivity
-                  activity={activityToShow}
-                  language={language}
-                  onDownload={(imageUrl) => {
-                    console.log("Image downloaded:", imageUrl);
-                  }}
-                />
-              }
-            />
-            <Route
-              path="/visualization/minimalist-serif-with-route"
-              element={
-                <MinimalistSerifWithRoute
-                  activity={activityToShow}
-                  language={language}
-                  onDownload={(imageUrl) => {
-                    console.log("Image downloaded:", imageUrl);
-                  }}
-                />
-              }
-            />
-            <Route
-              path="/visualization/minimalist-serif-no-route"
-              element={
-                <MinimalistSerifWithNoRoute
-                  activity={activityToShow}
-                  language={language}
-                  onDownload={(imageUrl) => {
-                    console.log("Image downloaded:", imageUrl);
-                  }}
-                />
-              }
             />
             {/* Default redirect to pinkgreen activity */}
             <Route
               path="*"
               element={
-                <PinkGreenActivity
+                <TemplatePoster
+                  key={DEFAULT_TEMPLATE.id}
+                  template={DEFAULT_TEMPLATE}
                   activity={activityToShow}
                   language={language}
                   onDownload={(imageUrl) => {
@@ -512,13 +515,13 @@ function MainApp() {
                 <CardHeader className="text-center">
                   <CardTitle className="text-orange-800">
                     {language === "en"
-                      ? "2. Upload TCX File"
-                      : "2. Unggah File TCX"}
+                      ? "2. Upload TCX, GPX or FIT File"
+                      : "2. Unggah File TCX, GPX atau FIT"}
                   </CardTitle>
                   <CardDescription className="text-orange-700">
                     {language === "en"
-                      ? "Upload your activity's TCX file for complete privacy and control"
-                      : "Unggah file TCX aktivitas Anda untuk privasi dan kontrol penuh"}
+                      ? "Upload your activity's TCX, GPX or FIT file for complete privacy and control"
+                      : "Unggah file TCX, GPX atau FIT aktivitas Anda untuk privasi dan kontrol penuh"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
@@ -542,6 +545,22 @@ function MainApp() {
                         ? "Training Center XML - Strava's export format containing all your workout details like route, pace, elevation, and heart rate data."
                         : "Training Center XML - format ekspor Strava yang berisi semua detail latihan seperti rute, kecepatan, elevasi, dan data detak jantung."}
                     </p>
+                    <p className="text-sm text-blue-700 mt-1">
+                      <strong>
+                        {language === "en" ? "What's GPX?" : "Apa itu GPX?"}
+                      </strong>{" "}
+                      {language === "en"
+                        ? "GPS Exchange Format - exported by most watches and route planners, including heart rate and cadence when recorded."
+                        : "GPS Exchange Format - diekspor oleh sebagian besar jam dan perencana rute, termasuk detak jantung dan kadens jika direkam."}
+                    </p>
+                    <p className="text-sm text-blue-700 mt-1">
+                      <strong>
+                        {language === "en" ? "What's FIT?" : "Apa itu FIT?"}
+                      </strong>{" "}
+                      {language === "en"
+                        ? "The original file recorded by Garmin, Wahoo, COROS and most other devices, with power, temperature and lap data intact."
+                        : "File asli yang direkam oleh Garmin, Wahoo, COROS dan sebagian besar perangkat lain, lengkap dengan data daya, suhu dan lap."}
+                    </p>
                   </div>
 
                   {/* Instructions Button */}
@@ -586,34 +605,104 @@ function MainApp() {
                     <div className="flex flex-col sm:flex-row gap-2">
                       <input
                         type="file"
-                        accept=".tcx"
+                        accept={SUPPORTED_ACTIVITY_FILE_EXTENSIONS.join(",")}
+                        multiple
                         onChange={handleFileSelect}
                         className="w-full px-3 py-2 border border-orange-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-pink focus:border-transparent"
                         disabled={isProcessingTcx}
                       />
                       <Button
                         onClick={handleProcessTcx}
-                        disabled={!selectedFile || isProcessingTcx}
+                        disabled={selectedFiles.length === 0 || isProcessingTcx}
                         className="bg-brand-green hover:bg-brand-pink/90 text-white text-sm px-4 py-2 w-full sm:w-auto sm:min-w-[140px]"
                       >
                         {isProcessingTcx
-                          ? language === "en"
-                            ? "Processing..."
-                            : "Memproses..."
+                          ? `${language === "en" ? "Processing" : "Memproses"}${
+                              tcxProgress !== null
+                                ? ` ${Math.round(tcxProgress * 100)}%`
+                                : "..."
+                            }`
                           : language === "en"
                           ? "Create Graphic"
                           : "Buat Grafik"}
                       </Button>
                     </div>
 
-                    {selectedFile && (
-                      <div className="text-sm text-orange-700">
+                    {isProcessingTcx && (
+                      <div className="flex items-center gap-2">
+                        <div className="h-2 flex-1 overflow-hidden rounded-full bg-orange-100">
+                          <div
+                            className="h-full bg-brand-green transition-[width] duration-200"
+                            style={{
+                              width: `${Math.round((tcxProgress ?? 0) * 100)}%`,
+                            }}
+                          />
+                        </div>
+                        <Button
+                          onClick={handleCancelProcessTcx}
+                          variant="outline"
+                          size="sm"
+                          className="text-orange-700 border-orange-300 hover:bg-orange-100"
+                        >
+                          {language === "en" ? "Cancel" : "Batal"}
+                        </Button>
+                      </div>
+                    )}
+
+                    {selectedFiles.map((file) => (
+                      <div key={file.name} className="text-sm text-orange-700">
                         📁 {language === "en" ? "Selected:" : "Terpilih:"}{" "}
-                        {selectedFile.name} (
-                        {(selectedFile.size / 1024 / 1024).toFixed(1)} MB)
+                        {file.name} ({(file.size / 1024 / 1024).toFixed(1)} MB)
                       </div>
+                    ))}
+
+                    {selectedFiles.length > 1 && (
+                      <p className="text-xs text-orange-700">
+                        {language === "en"
+                          ? "Multiple files will be merged into one activity in time order (e.g. a recording split after a watch crash)."
+                          : "Beberapa file akan digabung menjadi satu aktivitas sesuai urutan waktu (misalnya rekaman yang terpisah karena jam mati)."}
+                      </p>
                     )}
 
+                    <div className="space-y-2">
+                      <label className="flex items-center gap-2 cursor-pointer text-sm text-orange-700">
+                        <input
+                          type="checkbox"
+                          checked={correctElevation}
+                          onChange={(e) =>
+                            setCorrectElevation(e.target.checked)
+                          }
+                          disabled={isProcessingTcx}
+                          className="rounded"
+                        />
+                        {language === "en"
+                          ? "Correct elevation with a terrain model (DEM)"
+                          : "Koreksi elevasi dengan model medan (DEM)"}
+                      </label>
+                      {correctElevation && (
+                        <>
+                          <input
+                            type="file"
+                            accept=".tif,.tiff"
+                            onChange={(e) =>
+                              setDemFile(e.target.files?.[0] ?? null)
+                            }
+                            className="w-full px-3 py-2 border border-orange-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-brand-pink focus:border-transparent"
+                            disabled={isProcessingTcx}
+                          />
+                          <p className="text-xs text-orange-700">
+                            {getConfiguredElevationModel()
+                              ? language === "en"
+                                ? "Optional GeoTIFF covering the route; without one the configured elevation tiles are used."
+                                : "GeoTIFF opsional yang mencakup rute; tanpa itu, tile elevasi yang dikonfigurasi akan digunakan."
+                              : language === "en"
+                              ? "Pick a single-band GeoTIFF (uncompressed or Deflate) in latitude/longitude covering the route. It stays on your device."
+                              : "Pilih GeoTIFF satu band (tanpa kompresi atau Deflate) dalam lintang/bujur yang mencakup rute. File tetap di perangkat Anda."}
+                          </p>
+                        </>
+                      )}
+                    </div>
+
                     {tcxError && (
                       <div className="text-red-600 text-xs bg-red-50 p-2 rounded border border-red-200">
                         {tcxError}
@@ -0,0 +1,293 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Clapperboard, Crosshair, Plus, Trash2 } from "lucide-react";
+import type { CameraKeyframe } from "@/types/strava";
+
+interface CameraKeyframeEditorProps {
+  keyframes: CameraKeyframe[];
+  trackpointCount: number;
+  currentTrackpointIndex: number;
+  onKeyframesChange: (keyframes: CameraKeyframe[]) => void;
+  onKeyframeAdd: () => void;
+  onCinematicApply: () => void;
+  disabled?: boolean;
+  language: "en" | "id";
+}
+
+type NumericField = "zoom" | "pitch" | "altitude" | "dwell" | "speed";
+
+const NUMERIC_FIELDS: {
+  field: NumericField;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { field: "zoom", min: 10, max: 20, step: 0.5 },
+  { field: "pitch", min: 0, max: 85, step: 5 },
+  { field: "altitude", min: 0, max: 5000, step: 50 },
+  { field: "dwell", min: 0, max: 30, step: 0.5 },
+  { field: "speed", min: 0.1, max: 4, step: 0.1 },
+];
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, value));
+
+export const CameraKeyframeEditor: React.FC<CameraKeyframeEditorProps> = ({
+  keyframes,
+  trackpointCount,
+  currentTrackpointIndex,
+  onKeyframesChange,
+  onKeyframeAdd,
+  onCinematicApply,
+  disabled = false,
+  language,
+}) => {
+  const texts = {
+    en: {
+      title: "Camera Path",
+      description:
+        "Keyframes set the camera at a point of the route. Values ease from one keyframe to the next, dwell holds the camera in place.",
+      noKeyframes:
+        "No keyframes yet, the camera follows the route at a steady pace.",
+      add: "Add at Current Position",
+      cinematic: "Cinematic",
+      cinematicConfirm:
+        "Replace the current keyframes with the cinematic preset?",
+      clear: "Clear",
+      point: "Point",
+      zoom: "Zoom",
+      pitch: "Pitch",
+      bearing: "Bearing",
+      altitude: "Min. height (m)",
+      dwell: "Dwell (s)",
+      speed: "Speed",
+      auto: "Auto",
+      useCurrent: "Move to current position",
+      delete: "Delete keyframe",
+    },
+    id: {
+      title: "Jalur Kamera",
+      description:
+        "Keyframe mengatur kamera di satu titik rute. Nilai berubah halus dari satu keyframe ke berikutnya, jeda menahan kamera di tempat.",
+      noKeyframes:
+        "Belum ada keyframe, kamera mengikuti rute dengan kecepatan tetap.",
+      add: "Tambah di Posisi Saat Ini",
+      cinematic: "Sinematik",
+      cinematicConfirm: "Ganti keyframe saat ini dengan preset sinematik?",
+      clear: "Hapus Semua",
+      point: "Titik",
+      zoom: "Zoom",
+      pitch: "Kemiringan",
+      bearing: "Arah",
+      altitude: "Tinggi min. (m)",
+      dwell: "Jeda (d)",
+      speed: "Kecepatan",
+      auto: "Otomatis",
+      useCurrent: "Pindahkan ke posisi saat ini",
+      delete: "Hapus keyframe",
+    },
+  };
+
+  const t = texts[language];
+
+  const updateKeyframe = (id: string, updates: Partial<CameraKeyframe>) => {
+    onKeyframesChange(
+      keyframes
+        .map((keyframe) =>
+          keyframe.id === id ? { ...keyframe, ...updates } : keyframe
+        )
+        .sort((a, b) => a.trackpointIndex - b.trackpointIndex)
+    );
+  };
+
+  const handleCinematic = () => {
+    if (keyframes.length === 0 || window.confirm(t.cinematicConfirm)) {
+      onCinematicApply();
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <span className="text-orange-600">🎥</span>
+            {t.title}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onKeyframeAdd}
+              disabled={disabled}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              {t.add}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleCinematic}
+              disabled={disabled}
+            >
+              <Clapperboard className="w-4 h-4 mr-1" />
+              {t.cinematic}
+            </Button>
+            {keyframes.length > 0 && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onKeyframesChange([])}
+                disabled={disabled}
+                className="text-red-600 hover:text-red-700"
+              >
+                {t.clear}
+              </Button>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">{t.description}</p>
+
+        {keyframes.length === 0 ? (
+          <p className="text-gray-500 text-center py-4">{t.noKeyframes}</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs font-medium text-gray-500 uppercase tracking-wide text-left">
+                  <th className="pb-2 pr-2">{t.point}</th>
+                  {NUMERIC_FIELDS.slice(0, 2).map(({ field }) => (
+                    <th key={field} className="pb-2 pr-2">
+                      {t[field]}
+                    </th>
+                  ))}
+                  <th className="pb-2 pr-2">{t.bearing}</th>
+                  {NUMERIC_FIELDS.slice(2).map(({ field }) => (
+                    <th key={field} className="pb-2 pr-2">
+                      {t[field]}
+                    </th>
+                  ))}
+                  <th className="pb-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {keyframes.map((keyframe) => {
+                  const numericInput = ({
+                    field,
+                    min,
+                    max,
+                    step,
+                  }: (typeof NUMERIC_FIELDS)[number]) => (
+                    <td key={field} className="py-1 pr-2">
+                      <Input
+                        type="number"
+                        min={min}
+                        max={max}
+                        step={step}
+                        value={keyframe[field]}
+                        onChange={(e) => {
+                          const value = parseFloat(e.target.value);
+                          if (Number.isNaN(value)) return;
+                          updateKeyframe(keyframe.id, {
+                            [field]: clamp(value, min, max),
+                          });
+                        }}
+                        disabled={disabled}
+                        className="h-8 w-20"
+                      />
+                    </td>
+                  );
+
+                  return (
+                    <tr key={keyframe.id} className="border-t">
+                      <td className="py-1 pr-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={trackpointCount - 1}
+                          step={1}
+                          value={keyframe.trackpointIndex}
+                          onChange={(e) => {
+                            const value = parseInt(e.target.value, 10);
+                            if (Number.isNaN(value)) return;
+                            updateKeyframe(keyframe.id, {
+                              trackpointIndex: clamp(
+                                value,
+                                0,
+                                trackpointCount - 1
+                              ),
+                            });
+                          }}
+                          disabled={disabled}
+                          className="h-8 w-24"
+                        />
+                      </td>
+                      {NUMERIC_FIELDS.slice(0, 2).map(numericInput)}
+                      <td className="py-1 pr-2">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={359}
+                          step={5}
+                          value={keyframe.bearing ?? ""}
+                          placeholder={t.auto}
+                          onChange={(e) => {
+                            const value = parseFloat(e.target.value);
+                            updateKeyframe(keyframe.id, {
+                              bearing: Number.isNaN(value)
+                                ? null
+                                : ((value % 360) + 360) % 360,
+                            });
+                          }}
+                          disabled={disabled}
+                          className="h-8 w-20"
+                        />
+                      </td>
+                      {NUMERIC_FIELDS.slice(2).map(numericInput)}
+                      <td className="py-1 whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            updateKeyframe(keyframe.id, {
+                              trackpointIndex: currentTrackpointIndex,
+                            })
+                          }
+                          disabled={disabled}
+                          title={t.useCurrent}
+                          aria-label={t.useCurrent}
+                          className="mr-1"
+                        >
+                          <Crosshair className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() =>
+                            onKeyframesChange(
+                              keyframes.filter(({ id }) => id !== keyframe.id)
+                            )
+                          }
+                          disabled={disabled}
+                          title={t.delete}
+                          aria-label={t.delete}
+                          className="text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useStravaAuth } from "@/hooks/useStravaAuth";
+import {
+  downloadActivityFile,
+  type ActivityExportFormat,
+} from "@/lib/activityExport";
+import type { StravaActivity } from "@/types/strava";
+
+interface ExportActivityMenuProps {
+  activity: StravaActivity;
+  language: "en" | "id";
+}
+
+const exportFormats: {
+  format: ActivityExportFormat;
+  label: string;
+  description: { en: string; id: string };
+}[] = [
+  {
+    format: "tcx",
+    label: "TCX",
+    description: { en: "Garmin, TrainingPeaks", id: "Garmin, TrainingPeaks" },
+  },
+  {
+    format: "gpx",
+    label: "GPX",
+    description: { en: "Maps & route planners", id: "Peta & perencana rute" },
+  },
+  {
+    format: "fit",
+    label: "FIT",
+    description: { en: "Devices & analysis tools", id: "Perangkat & analisis" },
+  },
+  {
+    format: "csv",
+    label: "CSV",
+    description: { en: "Spreadsheets", id: "Spreadsheet" },
+  },
+];
+
+export function ExportActivityMenu({
+  activity,
+  language,
+}: ExportActivityMenuProps) {
+  const { fetchActivityLaps, fetchActivityStreams } = useStravaAuth();
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: ActivityExportFormat) => {
+    setIsExporting(true);
+    setError(null);
+
+    try {
+      let activityToExport = activity;
+
+      // Strava summaries don't include streams; load them on demand
+      if (activity.source === "strava" && !activity.trackpoints) {
+        const [laps, trackpoints] = await Promise.all([
+          activity.laps
+            ? Promise.resolve(activity.laps)
+            : fetchActivityLaps(activity.id),
+          fetchActivityStreams(activity.id),
+        ]);
+        activityToExport = { ...activity, laps, trackpoints };
+      }
+
+      downloadActivityFile(activityToExport, format);
+    } catch (err) {
+      console.error("Failed to export activity:", err);
+      setError(
+        language === "en"
+          ? "Export failed. Please try again."
+          : "Ekspor gagal. Silakan coba lagi."
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            size="sm"
+            variant="outline"
+            className="text-xs"
+            disabled={isExporting}
+          >
+            <Download className="h-3 w-3" />
+            {isExporting
+              ? language === "en"
+                ? "Exporting..."
+                : "Mengekspor..."
+              : language === "en"
+              ? "Export"
+              : "Ekspor"}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>
+            {language === "en" ? "Download activity as" : "Unduh aktivitas"}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {exportFormats.map(({ format, label, description }) => (
+            <DropdownMenuItem
+              key={format}
+              onSelect={() => handleExport(format)}
+              className="flex justify-between gap-4"
+            >
+              <span className="font-medium">{label}</span>
+              <span className="text-xs text-muted-foreground">
+                {description[language]}
+              </span>
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
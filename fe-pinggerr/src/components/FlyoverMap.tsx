@@ -5,10 +5,21 @@ import React, {
   useCallback,
   useMemo,
 } from "react";
-import mapboxgl from "mapbox-gl";
-import "mapbox-gl/dist/mapbox-gl.css";
 import { config } from "@/config/env";
 import { useMapLoadGuard } from "@/hooks/useMapLoadGuard";
+import {
+  getRouteBounds,
+  mapProviders,
+  type GeoJSONRouteSource,
+  type LngLatTuple,
+  type MapMarker,
+  type MapProvider,
+  type RouteMap,
+} from "@/lib/mapProviders";
+import type { FlyoverRecorder } from "@/lib/flyoverVideo";
+import { lerpBearing, type CameraPath } from "@/lib/cameraPath";
+import { getRouteGradientStops, ROUTE_COLOR_METRICS } from "@/lib/routeColors";
+import type { RouteColorMetric } from "@/lib/posterTemplate";
 import type {
   StravaActivity,
   ActivityTrackpoint,
@@ -20,51 +31,85 @@ interface FlyoverMapProps {
   activity: StravaActivity;
   segments?: ActivitySegment[];
   flyoverState: FlyoverState;
+  cameraPath: CameraPath;
+  routeColor?: RouteColorMetric | null; // single color when unset
   onTrackpointClick?: (index: number, trackpoint: ActivityTrackpoint) => void;
   onSegmentReach?: (segment: ActivitySegment) => void;
   onFlyoverEnd?: () => void;
+  onRecorderUpdate?: (recorder: FlyoverRecorder | null) => void;
   className?: string;
 }
 
+// Give up waiting for tiles after this long rather than stall an export
+const FRAME_RENDER_TIMEOUT = 10000;
+
 export const FlyoverMap: React.FC<FlyoverMapProps> = ({
   activity,
   segments = [],
   flyoverState,
+  cameraPath,
+  routeColor = null,
   onTrackpointClick,
   onSegmentReach,
   onFlyoverEnd,
+  onRecorderUpdate,
   className = "",
 }) => {
   const mapContainer = useRef<HTMLDivElement>(null);
-  const map = useRef<mapboxgl.Map | null>(null);
+  const map = useRef<RouteMap | null>(null);
+  const provider = useRef<MapProvider | null>(null);
+  const segmentMarkers = useRef<MapMarker[]>([]);
+  const pauseMarkers = useRef<MapMarker[]>([]);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
   const [mapError, setMapError] = useState<string | null>(null);
+  // Only a Mapbox map counts against the map load quota
   const {
     canLoadMap,
+    limitReason,
     trackMapLoad,
     isLoading: isCheckingLimit,
-  } = useMapLoadGuard();
+  } = useMapLoadGuard(config.maps.provider !== "maplibre");
+  // With Mapbox forced there's no fallback when the quota is used up
+  const isMapBlocked = config.maps.provider === "mapbox" && !canLoadMap;
+  // Read by the init effect without being its dependencies: redeeming a
+  // ticket updates both, which would cancel the run that redeemed it
+  const mapLoadGuard = useRef({ canLoadMap, trackMapLoad });
+  mapLoadGuard.current = { canLoadMap, trackMapLoad };
 
   // Path and camera animation refs
   const animationFrame = useRef<number | null>(null);
 
   // Initialize map
   useEffect(() => {
-    if (!mapContainer.current || map.current || !canLoadMap || isCheckingLimit)
+    if (!mapContainer.current || map.current || isMapBlocked || isCheckingLimit)
       return;
 
-    const initializeMap = async () => {
-      try {
-        // Track map load
-        await trackMapLoad();
-
-        // Set Mapbox access token
-        mapboxgl.accessToken = config.mapbox.accessToken;
+    let cancelled = false;
+
+    // Mapbox needs a redeemed map load ticket. In auto mode MapLibre takes
+    // over when there's no token, the quota is used up or the load is refused
+    // Null when the effect was cancelled first
+    const chooseProvider = async (): Promise<MapProvider | null> => {
+      const mapbox = mapProviders.mapbox;
+      const isAuto = config.maps.provider === "auto";
+      const { canLoadMap, trackMapLoad } = mapLoadGuard.current;
+      if (config.maps.provider === "maplibre") return mapProviders.maplibre;
+      if (isAuto && (!canLoadMap || !mapbox.isConfigured())) {
+        return mapProviders.maplibre;
+      }
 
-        if (!config.mapbox.accessToken) {
-          throw new Error("Mapbox access token is required");
-        }
+      // Redeem the map load ticket, unless this run was cancelled by then;
+      // stop if this load isn't allowed
+      if (cancelled) return null;
+      const mapLoad = await trackMapLoad(() => cancelled);
+      if (cancelled) return null;
+      if (mapLoad) return mapbox;
+      if (isAuto) return mapProviders.maplibre;
+      throw new Error("Map load was not allowed. Please try again later.");
+    };
 
+    const initializeMap = async () => {
+      try {
         // Calculate bounds from trackpoints
         const trackpoints = activity.trackpoints || [];
         if (trackpoints.length === 0) {
@@ -78,47 +123,32 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
           throw new Error("No valid GPS coordinates found");
         }
 
-        const bounds = new mapboxgl.LngLatBounds();
-        validTrackpoints.forEach((tp) => {
-          if (tp.latitude && tp.longitude) {
-            bounds.extend([tp.longitude, tp.latitude]);
-          }
-        });
+        const { bounds, center } = getRouteBounds(
+          validTrackpoints.map((tp) => [tp.longitude!, tp.latitude!])
+        );
+
+        const mapProvider = await chooseProvider();
+        if (!mapProvider || cancelled) return;
 
         // Initialize map with 3D terrain
-        const mapInstance = new mapboxgl.Map({
+        const mapInstance = await mapProvider.createMap({
           container: mapContainer.current!,
-          style: "mapbox://styles/mapbox/satellite-v9",
-          center: bounds.getCenter(),
+          center,
           zoom: 10,
           pitch: 60,
           bearing: 0,
-          antialias: true,
         });
+        if (cancelled) {
+          mapInstance.remove();
+          return;
+        }
 
+        provider.current = mapProvider;
         map.current = mapInstance;
 
         mapInstance.on("load", () => {
-          // Add terrain source and layer
-          mapInstance.addSource("mapbox-dem", {
-            type: "raster-dem",
-            url: "mapbox://mapbox.mapbox-terrain-dem-v1",
-            tileSize: 512,
-            maxzoom: 14,
-          });
-
-          mapInstance.setTerrain({ source: "mapbox-dem", exaggeration: 1.5 });
-
-          // Add sky layer for better 3D effect
-          mapInstance.addLayer({
-            id: "sky",
-            type: "sky",
-            paint: {
-              "sky-type": "atmosphere",
-              "sky-atmosphere-sun": [0.0, 0.0],
-              "sky-atmosphere-sun-intensity": 15,
-            },
-          });
+          // Add terrain and sky for the 3D effect
+          mapProvider.addTerrain(mapInstance);
 
           // Add GPS path
           addGpsPath(mapInstance, validTrackpoints);
@@ -154,28 +184,32 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
     initializeMap();
 
     return () => {
+      cancelled = true;
       if (map.current) {
         map.current.remove();
         map.current = null;
       }
+      segmentMarkers.current = [];
+      pauseMarkers.current = [];
       if (animationFrame.current) {
         cancelAnimationFrame(animationFrame.current);
       }
     };
-  }, [canLoadMap, isCheckingLimit, activity.trackpoints, trackMapLoad]);
+  }, [isMapBlocked, isCheckingLimit, activity.trackpoints]);
 
   // Add GPS path to map
   const addGpsPath = useCallback(
-    (mapInstance: mapboxgl.Map, trackpoints: ActivityTrackpoint[]) => {
+    (mapInstance: RouteMap, trackpoints: ActivityTrackpoint[]) => {
       const coordinates = trackpoints
         .filter((tp) => tp.latitude && tp.longitude)
         .map((tp) => [tp.longitude!, tp.latitude!]);
 
       if (coordinates.length === 0) return;
 
-      // Add path source
+      // Add path source; line metrics let the path be colored along its length
       mapInstance.addSource("gps-path", {
         type: "geojson",
+        lineMetrics: true,
         data: {
           type: "Feature",
           properties: {},
@@ -233,7 +267,7 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
   // Add segment markers
   const addSegmentMarkers = useCallback(
     (
-      mapInstance: mapboxgl.Map,
+      mapInstance: RouteMap,
       segments: ActivitySegment[],
       trackpoints: ActivityTrackpoint[]
     ) => {
@@ -270,9 +304,11 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
         });
 
         // Create marker
-        new mapboxgl.Marker(markerElement)
-          .setLngLat([startTrackpoint.longitude!, startTrackpoint.latitude!])
-          .addTo(mapInstance);
+        const marker = provider.current?.addMarker(mapInstance, markerElement, [
+          startTrackpoint.longitude!,
+          startTrackpoint.latitude!,
+        ]);
+        if (marker) segmentMarkers.current.push(marker);
       });
     },
     [onTrackpointClick]
@@ -288,21 +324,75 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
     if (trackpoints.length === 0) return;
 
     // Remove existing segment markers
-    const existingMarkers = document.querySelectorAll(".segment-marker");
-    existingMarkers.forEach((marker) => {
-      const parent = marker.parentElement;
-      if (parent && parent.classList.contains("mapboxgl-marker")) {
-        parent.remove();
-      }
-    });
+    segmentMarkers.current.forEach((marker) => marker.remove());
+    segmentMarkers.current = [];
 
     // Add new segment markers
     addSegmentMarkers(map.current, segments, trackpoints);
   }, [segments, isMapLoaded, activity.trackpoints, addSegmentMarkers]);
 
+  // Mark where the athlete stopped, with how long for on hover
+  useEffect(() => {
+    if (!map.current || !isMapLoaded || !activity.trackpoints) return;
+
+    pauseMarkers.current.forEach((marker) => marker.remove());
+    pauseMarkers.current = [];
+
+    (activity.pauses ?? []).forEach((pause) => {
+      const trackpoint = activity.trackpoints![pause.endIndex];
+      if (!trackpoint?.latitude || !trackpoint?.longitude) return;
+
+      const duration = Math.round(pause.duration);
+      const minutes = Math.floor(duration / 60);
+      const seconds = duration % 60;
+      const markerElement = document.createElement("div");
+      markerElement.className = "pause-marker";
+      markerElement.title = `Paused ${minutes}:${seconds
+        .toString()
+        .padStart(2, "0")}`;
+      markerElement.style.cssText = `
+        background: #F59E0B;
+        width: 12px;
+        height: 12px;
+        border-radius: 50%;
+        border: 2px solid white;
+        box-shadow: 0 1px 3px rgba(0,0,0,0.3);
+      `;
+
+      const marker = provider.current?.addMarker(map.current!, markerElement, [
+        trackpoint.longitude,
+        trackpoint.latitude,
+      ]);
+      if (marker) pauseMarkers.current.push(marker);
+    });
+  }, [isMapLoaded, activity.trackpoints, activity.pauses]);
+
+  // Color the path by the chosen metric, or go back to its single color
+  useEffect(() => {
+    if (!map.current || !isMapLoaded || !activity.trackpoints) return;
+
+    const trackpoints = activity.trackpoints.filter(
+      (tp) => tp.latitude && tp.longitude
+    );
+    const stops = routeColor
+      ? getRouteGradientStops(
+          trackpoints,
+          routeColor,
+          ROUTE_COLOR_METRICS[routeColor].ramp
+        )
+      : [];
+    map.current.setPaintProperty(
+      "gps-path-line",
+      "line-gradient",
+      stops.length > 1
+        ? ["interpolate", ["linear"], ["line-progress"], ...stops.flat()]
+        : undefined
+    );
+  }, [routeColor, isMapLoaded, activity.trackpoints]);
+
   // Add click handler for trackpoint selection
   const addTrackpointClickHandler = useCallback(
-    (mapInstance: mapboxgl.Map, trackpoints: ActivityTrackpoint[]) => {
+    (mapInstance: RouteMap, trackpoints: ActivityTrackpoint[]) => {
       mapInstance.on("click", "gps-path-line", (e) => {
         if (!onTrackpointClick) return;
 
@@ -497,6 +587,152 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
     );
   }, [simplifiedTrackpoints, getSmoothedBearing]);
 
+  const trackpointCount = useMemo(
+    () =>
+      activity.trackpoints?.filter((tp) => tp.latitude && tp.longitude)
+        .length ?? 0,
+    [activity.trackpoints]
+  );
+
+  // Place the camera at a (fractional) trackpoint index: the position follows
+  // the simplified path, zoom, pitch and bearing come from the camera path
+  const placeCamera = useCallback(
+    (trackpointIndex: number) => {
+      const mapInstance = map.current;
+      if (!mapInstance || simplifiedTrackpoints.length === 0) return;
+
+      // Map original trackpoint index to simplified trackpoint index
+      const position =
+        (trackpointIndex / Math.max(1, trackpointCount - 1)) *
+        Math.max(0, simplifiedTrackpoints.length - 1);
+      const index = Math.min(
+        Math.floor(position),
+        simplifiedTrackpoints.length - 1
+      );
+      const next = Math.min(index + 1, simplifiedTrackpoints.length - 1);
+      const t = position - index;
+      const from = simplifiedTrackpoints[index];
+      const to = simplifiedTrackpoints[next];
+      const center: LngLatTuple = [
+        from.longitude! + (to.longitude! - from.longitude!) * t,
+        from.latitude! + (to.latitude! - from.latitude!) * t,
+      ];
+      const pose = cameraPath.poseAt(
+        trackpointIndex,
+        lerpBearing(
+          trackpointBearings[index] || 0,
+          trackpointBearings[next] || 0,
+          t
+        )
+      );
+
+      mapInstance.jumpTo({
+        center,
+        zoom: pose.zoom,
+        pitch: pose.pitch,
+        bearing: pose.bearing,
+      });
+
+      // Lift the camera when the terrain under it comes too close
+      provider.current?.keepCameraAbove(mapInstance, center, pose.altitude);
+    },
+    [simplifiedTrackpoints, trackpointBearings, trackpointCount, cameraPath]
+  );
+
+  // Expose frame-by-frame camera control for video export. Unlike playback,
+  // the camera jumps straight to each position and every capture waits for
+  // the map to go idle, so the recording doesn't depend on device speed
+  useEffect(() => {
+    const mapInstance = map.current;
+    const container = mapContainer.current;
+    if (!onRecorderUpdate || !mapInstance || !container || !isMapLoaded) return;
+
+    const trackpoints = (activity.trackpoints || []).filter(
+      (tp) => tp.latitude && tp.longitude
+    );
+    if (trackpoints.length === 0 || simplifiedTrackpoints.length === 0) return;
+
+    const waitForRender = () =>
+      new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, FRAME_RENDER_TIMEOUT);
+        mapInstance.once("idle", () => {
+          clearTimeout(timer);
+          resolve();
+        });
+        mapInstance.triggerRepaint();
+      });
+
+    const setProgressPoint = (trackpointIndex: number) => {
+      const index = Math.min(trackpoints.length - 1, trackpointIndex);
+      const before = trackpoints[Math.floor(index)];
+      const after = trackpoints[Math.ceil(index)];
+      const t = index - Math.floor(index);
+      const progressSource = mapInstance.getSource("progress-point") as
+        | GeoJSONRouteSource
+        | undefined;
+      progressSource?.setData({
+        type: "Feature",
+        properties: {},
+        geometry: {
+          type: "Point",
+          coordinates: [
+            before.longitude! + (after.longitude! - before.longitude!) * t,
+            before.latitude! + (after.latitude! - before.latitude!) * t,
+          ],
+        },
+      });
+    };
+
+    let originalStyle: string | null = null;
+
+    const recorder: FlyoverRecorder = {
+      start: async (width, height) => {
+        originalStyle = container.style.cssText;
+        const ratio = window.devicePixelRatio || 1;
+        container.style.width = `${width / ratio}px`;
+        container.style.height = `${height / ratio}px`;
+        container.style.minHeight = "0";
+        mapInstance.resize();
+        await waitForRender();
+      },
+      captureFrame: async (trackpointIndex) => {
+        placeCamera(trackpointIndex);
+        setProgressPoint(trackpointIndex);
+        await waitForRender();
+        return mapInstance.getCanvas();
+      },
+      captureOverview: async () => {
+        const { bounds } = getRouteBounds(
+          trackpoints.map((tp) => [tp.longitude!, tp.latitude!])
+        );
+        mapInstance.fitBounds(bounds, {
+          padding: 100,
+          pitch: 0,
+          bearing: 0,
+          duration: 0,
+        });
+        setProgressPoint(trackpoints.length - 1);
+        await waitForRender();
+        return mapInstance.getCanvas();
+      },
+      finish: () => {
+        if (originalStyle === null) return;
+        container.style.cssText = originalStyle;
+        originalStyle = null;
+        mapInstance.resize();
+      },
+    };
+
+    onRecorderUpdate(recorder);
+    return () => onRecorderUpdate(null);
+  }, [
+    onRecorderUpdate,
+    isMapLoaded,
+    activity.trackpoints,
+    simplifiedTrackpoints,
+    placeCamera,
+  ]);
+
   // Show final overview of the entire course
   const showFinalView = useCallback(() => {
     if (!map.current || !activity.trackpoints) return;
@@ -507,16 +743,13 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
     if (trackpoints.length === 0) return;
 
     // Calculate bounds for the entire course
-    const bounds = new mapboxgl.LngLatBounds();
-    trackpoints.forEach((tp) => {
-      if (tp.latitude && tp.longitude) {
-        bounds.extend([tp.longitude, tp.latitude]);
-      }
-    });
+    const { bounds, center } = getRouteBounds(
+      trackpoints.map((tp) => [tp.longitude!, tp.latitude!])
+    );
 
     // Fly to overview of entire course
     map.current.flyTo({
-      center: bounds.getCenter(),
+      center,
       zoom: Math.max(10, map.current.getZoom() - 3), // Zoom out to show more context
       pitch: 0, // Top-down view
       bearing: 0, // North-up orientation
@@ -553,6 +786,7 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
       return Promise.resolve();
 
     isTransitioningToStart.current = true;
+    const pose = cameraPath.poseAt(0, trackpointBearings[0] || 0);
 
     return new Promise<void>((resolve) => {
       const startOptions = {
@@ -560,9 +794,9 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
           number,
           number
         ],
-        zoom: 15,
-        pitch: 60,
-        bearing: trackpointBearings[0] || 0, // Use pre-computed smooth bearing
+        zoom: pose.zoom,
+        pitch: pose.pitch,
+        bearing: pose.bearing,
         speed: 0.8,
         curve: 1.4,
         easing: (t: number) => (t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t),
@@ -580,52 +814,7 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
         resolve();
       }, 2000); // 2 second transition to start
     });
-  }, [simplifiedTrackpoints, trackpointBearings]);
-
-  // Update camera position for flyover effect with smooth transitions
-  const updateCameraPosition = useCallback(
-    (trackpointIndex: number) => {
-      if (!map.current || isTransitioningToStart.current) return;
-
-      // Map original trackpoint index to simplified trackpoint index
-      const simplifiedIndex = Math.floor(
-        (trackpointIndex /
-          Math.max(
-            1,
-            (activity.trackpoints?.filter((tp) => tp.latitude && tp.longitude)
-              .length || 1) - 1
-          )) *
-          Math.max(1, simplifiedTrackpoints.length - 1)
-      );
-
-      const trackpoint = simplifiedTrackpoints[simplifiedIndex];
-      if (!trackpoint?.latitude || !trackpoint?.longitude) return;
-
-      const bearing = trackpointBearings[simplifiedIndex] || 0;
-
-      const cameraOptions = {
-        center: [trackpoint.longitude, trackpoint.latitude] as [number, number],
-        zoom: 15,
-        pitch: 60,
-        bearing: bearing,
-      };
-
-      // Use flyTo for smoother transitions instead of easeTo
-      map.current.flyTo({
-        ...cameraOptions,
-        speed: 1.2 / flyoverState.playbackSpeed, // Adjust speed based on playback rate
-        curve: 1.2, // Smooth curved path
-        easing: (t) => t, // Linear easing for consistent movement
-        essential: true,
-      });
-    },
-    [
-      flyoverState.playbackSpeed,
-      simplifiedTrackpoints,
-      trackpointBearings,
-      activity.trackpoints,
-    ]
-  );
+  }, [simplifiedTrackpoints, trackpointBearings, cameraPath]);
 
   // Handle flyover start with smooth transition to starting point
   useEffect(() => {
@@ -661,9 +850,9 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
     if (!currentTrackpoint?.latitude || !currentTrackpoint?.longitude) return;
 
     // Update progress point (use original trackpoint for accurate progress visualization)
-    const progressSource = map.current.getSource(
-      "progress-point"
-    ) as mapboxgl.GeoJSONSource;
+    const progressSource = map.current.getSource("progress-point") as
+      | GeoJSONRouteSource
+      | undefined;
     if (progressSource) {
       progressSource.setData({
         type: "Feature",
@@ -678,9 +867,15 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
       });
     }
 
-    // Update camera position if playing and after initial transition (use simplified trackpoints for smooth camera)
-    if (flyoverState.isPlaying && hasStartedFlyover.current) {
-      updateCameraPosition(flyoverState.currentTrackpointIndex);
+    // Update camera position if playing and after initial transition
+    if (
+      flyoverState.isPlaying &&
+      hasStartedFlyover.current &&
+      !isTransitioningToStart.current
+    ) {
+      placeCamera(
+        flyoverState.cameraPosition ?? flyoverState.currentTrackpointIndex
+      );
     }
 
     // Check if we've reached a segment
@@ -721,7 +916,8 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
     onFlyoverEnd,
     flyoverState.currentSegment,
     showFinalView,
-    updateCameraPosition,
+    placeCamera,
+    flyoverState.cameraPosition,
   ]);
 
   // Render loading state
@@ -739,7 +935,7 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
   }
 
   // Render limit exceeded state
-  if (!canLoadMap) {
+  if (isMapBlocked) {
     return (
       <div
         className={`flex items-center justify-center min-h-[400px] bg-red-50 border border-red-200 rounded-lg ${className}`}
@@ -750,8 +946,9 @@ export const FlyoverMap: React.FC<FlyoverMapProps> = ({
             Map Unavailable
           </h3>
           <p className="text-red-700 max-w-md">
-            Cannot load map right now. Monthly limit reached. Please wait until
-            next month.
+            {limitReason === "client"
+              ? "Cannot load map right now. You've loaded the map too many times recently. Please try again later."
+              : "Cannot load map right now. Monthly limit reached. Please wait until next month."}
           </p>
         </div>
       </div>
@@ -0,0 +1,205 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { StravaActivity } from "@/types/strava";
+import { toWebMercator } from "@/lib/basemap";
+
+interface GpsCleanupPreviewProps {
+  activity: StravaActivity;
+  language: "en" | "id";
+}
+
+const PREVIEW_WIDTH = 320;
+const PREVIEW_HEIGHT = 200;
+const PREVIEW_PADDING = 8;
+// More points than the preview has pixels to draw them with
+const MAX_PREVIEW_POINTS = 2000;
+
+interface PreviewPoint {
+  x: number;
+  y: number;
+  synthetic?: boolean;
+}
+
+const toPath = (points: PreviewPoint[]) =>
+  points
+    .map(
+      ({ x, y }, i) => `${i === 0 ? "M" : "L"}${x.toFixed(1)} ${y.toFixed(1)}`
+    )
+    .join(" ");
+
+/**
+ * Route before and after GPS cleanup, drawn on the same frame so spikes and
+ * filled-in gaps stand out when switching between them
+ */
+export function GpsCleanupPreview({
+  activity,
+  language,
+}: GpsCleanupPreviewProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [showCleaned, setShowCleaned] = useState(true);
+  const cleanup = activity.gpsCleanup;
+
+  const routes = useMemo(() => {
+    if (!cleanup) return null;
+    const raw = (cleanup.rawRoute ?? []).map(([lat, lng]) =>
+      toWebMercator(lat, lng)
+    );
+    const cleaned = (activity.trackpoints ?? [])
+      .filter((tp) => tp.latitude !== undefined && tp.longitude !== undefined)
+      .map((tp) => ({
+        ...toWebMercator(tp.latitude!, tp.longitude!),
+        synthetic: tp.synthetic,
+      }));
+    const all = [...raw, ...cleaned];
+    if (all.length === 0) return null;
+
+    // Reduced rather than spread, long routes overflow the call stack
+    const bounds = all.reduce(
+      (b, p) => ({
+        minX: Math.min(b.minX, p.x),
+        minY: Math.min(b.minY, p.y),
+        maxX: Math.max(b.maxX, p.x),
+        maxY: Math.max(b.maxY, p.y),
+      }),
+      { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    );
+    const { minX, minY } = bounds;
+    const span = Math.max(bounds.maxX - minX, bounds.maxY - minY);
+    const scale =
+      span > 0
+        ? Math.min(
+            PREVIEW_WIDTH - 2 * PREVIEW_PADDING,
+            PREVIEW_HEIGHT - 2 * PREVIEW_PADDING
+          ) / span
+        : 1;
+    const project = (points: PreviewPoint[]): PreviewPoint[] => {
+      const step = Math.ceil(points.length / MAX_PREVIEW_POINTS);
+      return points
+        .filter((_, i) => i % step === 0 || i === points.length - 1)
+        .map((p) => ({
+          x: PREVIEW_PADDING + (p.x - minX) * scale,
+          y: PREVIEW_PADDING + (p.y - minY) * scale,
+          synthetic: p.synthetic,
+        }));
+    };
+    return { raw: project(raw), cleaned: project(cleaned) };
+  }, [activity.trackpoints, cleanup]);
+
+  if (!cleanup || (cleanup.removed === 0 && cleanup.synthetic === 0)) {
+    return null;
+  }
+
+  // Activities loaded from storage don't have the recorded route
+  const hasRawRoute = (routes?.raw.length ?? 0) > 0;
+  const showingCleaned = showCleaned || !hasRawRoute;
+
+  // Filled-in stretches drawn dashed, each including the recorded points
+  // on either side so they join up
+  const syntheticPaths: PreviewPoint[][] = [];
+  routes?.cleaned.forEach((point, i, points) => {
+    if (!point.synthetic) return;
+    const current = syntheticPaths[syntheticPaths.length - 1];
+    if (current && points[i - 1]?.synthetic) {
+      current.push(point);
+    } else {
+      syntheticPaths.push(i > 0 ? [points[i - 1], point] : [point]);
+    }
+    if (points[i + 1] && !points[i + 1].synthetic) {
+      syntheticPaths[syntheticPaths.length - 1].push(points[i + 1]);
+    }
+  });
+
+  return (
+    <div className="mt-3 text-sm text-muted-foreground">
+      <div className="flex flex-wrap items-center gap-2">
+        <span>
+          🛰️{" "}
+          {language === "en"
+            ? `GPS cleanup: ${cleanup.removed} spikes removed, ${cleanup.synthetic} points filled in`
+            : `Pembersihan GPS: ${cleanup.removed} lonjakan dihapus, ${cleanup.synthetic} titik diisi`}
+        </span>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setIsOpen(!isOpen)}
+        >
+          {isOpen
+            ? language === "en"
+              ? "Hide preview"
+              : "Sembunyikan pratinjau"
+            : language === "en"
+            ? "Preview"
+            : "Pratinjau"}
+        </Button>
+      </div>
+
+      {isOpen && routes && (
+        <div className="mt-2 space-y-2">
+          {hasRawRoute && (
+            <div className="flex gap-1">
+              {[false, true].map((cleaned) => (
+                <Button
+                  key={String(cleaned)}
+                  variant={showCleaned === cleaned ? "default" : "outline"}
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => setShowCleaned(cleaned)}
+                >
+                  {cleaned
+                    ? language === "en"
+                      ? "After"
+                      : "Sesudah"
+                    : language === "en"
+                    ? "Before"
+                    : "Sebelum"}
+                </Button>
+              ))}
+            </div>
+          )}
+          <svg
+            viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+            className="w-full max-w-sm rounded-md border bg-white"
+          >
+            {showingCleaned ? (
+              <>
+                <path
+                  d={toPath(routes.cleaned)}
+                  fill="none"
+                  stroke="#165027"
+                  strokeWidth={2}
+                  strokeLinejoin="round"
+                />
+                {syntheticPaths.map((points, i) => (
+                  <path
+                    key={i}
+                    d={toPath(points)}
+                    fill="none"
+                    stroke="#F99FD2"
+                    strokeWidth={3}
+                    strokeDasharray="4 3"
+                  />
+                ))}
+              </>
+            ) : (
+              <path
+                d={toPath(routes.raw)}
+                fill="none"
+                stroke="#dc2626"
+                strokeWidth={2}
+                strokeLinejoin="round"
+              />
+            )}
+          </svg>
+          {showingCleaned && cleanup.synthetic > 0 && (
+            <p className="text-xs">
+              {language === "en"
+                ? "Dashed: interpolated through gaps in the recording"
+                : "Putus-putus: diinterpolasi melalui celah rekaman"}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
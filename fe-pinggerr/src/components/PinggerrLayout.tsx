@@ -18,6 +18,8 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { PinggerrSidebar } from "./PinggerrSidebar";
 import { Footer } from "./Footer";
+import { ExportActivityMenu } from "./ExportActivityMenu";
+import { GpsCleanupPreview } from "./GpsCleanupPreview";
 import type { StravaActivity } from "@/types/strava";
 import { ArrowLeft } from "lucide-react";
 
@@ -116,30 +118,36 @@ export function PinggerrLayout({
                     <span className="truncate">{activity.name}</span>
                   )} */}
                   <span className="truncate">{activity.name}</span>
-                  {isAuthenticated ? (
-                    <></>
-                  ) : (
+                  {activity.source !== "strava" && (
                     <Badge className="bg-brand-green text-white text-xs">
-                      Data from TCX file
+                      {language === "en"
+                        ? `Data from ${activity.source.toUpperCase()} file`
+                        : `Data dari file ${activity.source.toUpperCase()}`}
                     </Badge>
                   )}
 
-                  {activity.id && isAuthenticated && (
-                    <Button
-                      size="sm"
-                      onClick={() =>
-                        window.open(
-                          `https://www.strava.com/activities/${activity.id}`,
-                          "_blank",
-                          "noopener,noreferrer"
-                        )
-                      }
-                      className="text-xs hover:text-white font-medium bg-orange-500 hover:bg-orange-600 text-white"
-                      // disabled={isLoadingActivity}
-                    >
-                      {language === "en" ? "View on Strava" : "Lihat di Strava"}
-                    </Button>
-                  )}
+                  {activity.id &&
+                    isAuthenticated &&
+                    activity.source === "strava" && (
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          window.open(
+                            `https://www.strava.com/activities/${activity.id}`,
+                            "_blank",
+                            "noopener,noreferrer"
+                          )
+                        }
+                        className="text-xs hover:text-white font-medium bg-orange-500 hover:bg-orange-600 text-white"
+                        // disabled={isLoadingActivity}
+                      >
+                        {language === "en"
+                          ? "View on Strava"
+                          : "Lihat di Strava"}
+                      </Button>
+                    )}
+
+                  <ExportActivityMenu activity={activity} language={language} />
                 </div>
               </CardTitle>
             </CardHeader>
@@ -165,8 +173,30 @@ export function PinggerrLayout({
                 <span>📏 {formatDistance(activity.distance)}</span>
                 <span>⏱️ {Math.floor(activity.moving_time / 60)} min</span>
                 <span>📈 {formatElevation(activity.total_elevation_gain)}</span>
+                {activity.elevation && (
+                  <>
+                    <span>
+                      📉 {formatElevation(activity.elevation.corrected.loss)}
+                      {activity.elevation.source === "dem" && " (DEM)"}
+                    </span>
+                    {activity.elevation.raw && (
+                      <span
+                        title={
+                          language === "en"
+                            ? "Every recorded altitude change summed, before smoothing"
+                            : "Setiap perubahan ketinggian tercatat dijumlahkan, sebelum dihaluskan"
+                        }
+                      >
+                        {language === "en" ? "Raw" : "Mentah"}: +
+                        {formatElevation(activity.elevation.raw.gain)} / -
+                        {formatElevation(activity.elevation.raw.loss)}
+                      </span>
+                    )}
+                  </>
+                )}
                 {activity.type && <span>🏃 {activity.type}</span>}
               </div>
+              <GpsCleanupPreview activity={activity} language={language} />
             </CardContent>
           </Card>
         </div>
@@ -1,7 +1,20 @@
 import * as React from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { Glasses, LayoutGrid, Palette, Sun, Contrast } from "lucide-react";
+import {
+  Glasses,
+  LayoutGrid,
+  Palette,
+  Sun,
+  Contrast,
+  PenTool,
+  Shapes,
+  Layers3,
+  type LucideIcon,
+} from "lucide-react";
 import PinggerrLogo from "@/assets/pinggerr_logo.svg";
+import { BUILT_IN_TEMPLATES } from "@/templates";
+import type { PosterTemplate } from "@/lib/posterTemplate";
+import { useCustomTemplates } from "@/hooks/useCustomTemplates";
 
 import {
   Sidebar,
@@ -20,87 +33,36 @@ interface PinggerrSidebarProps extends React.ComponentProps<typeof Sidebar> {
   onLogoClick: () => void;
 }
 
+const TEMPLATE_ICONS: Record<string, LucideIcon> = {
+  Palette,
+  Glasses,
+  LayoutGrid,
+  Sun,
+  Contrast,
+  Shapes,
+};
+
+const toVisualizationType = (template: PosterTemplate) => ({
+  id: template.id,
+  title: template.title,
+  path: `/visualization/${template.id}`,
+  icon: TEMPLATE_ICONS[template.icon] ?? Palette,
+  description: template.description,
+});
+
 const visualizationTypes = [
+  ...BUILT_IN_TEMPLATES.map(toVisualizationType),
+
   {
-    id: "pinkgreen-activity",
-    title: { en: "PinkGreen Activity", id: "Aktivitas PinkGreen" },
-    path: "/visualization/pinkgreen-activity",
-    icon: Palette,
-    description: {
-      en: "Classic pink & green visualization",
-      id: "Visualisasi klasik pink & hijau",
-    },
-  },
-  {
-    id: "liquid-glass-activity",
-    title: { en: "Liquid Glass Activity", id: "Aktivitas Kaca Cair" },
-    path: "/visualization/liquid-glass-activity",
-    icon: Glasses,
-    description: {
-      en: "Liquid glass activity visualization",
-      id: "Visualisasi aktivitas kaca cair",
-    },
-  },
-  {
-    id: "modern-minimalist-activity",
-    title: {
-      en: "Modern Minimalist Activity",
-      id: "Aktivitas Minimalist Modern",
-    },
-    path: "/visualization/modern-minimalist-activity",
-    icon: LayoutGrid,
-    description: {
-      en: "Modern minimalist activity visualization",
-      id: "Visualisasi aktivitas minimalist modern",
-    },
-  },
-  {
-    id: "strava-default-style",
-    title: { en: "White Orange Activity", id: "Aktivitas Orange Putih" },
-    path: "/visualization/strava-default-style",
-    icon: Sun,
-    description: {
-      en: "White stats with Strava orange route",
-      id: "Stat putih dengan rute oranye Strava",
-    },
-  },
-  {
-    id: "minimalist-serif-with-route",
-    title: {
-      en: "Minimalist Serif With Route",
-      id: "Serif Minimalis Dengan Rute",
-    },
-    path: "/visualization/minimalist-serif-with-route",
-    icon: Contrast,
-    description: {
-      en: "Minimalist black background with activity title, white route and stats",
-      id: "Latar belakang hitam minimalis dengan judul aktivitas, rute dan statistik putih",
-    },
-  },
-  {
-    id: "minimalist-serif-no-route",
-    title: {
-      en: "Minimalist Serif No Route",
-      id: "Serif Minimalis Tanpa Rute",
-    },
-    path: "/visualization/minimalist-serif-no-route",
-    icon: Contrast,
+    id: "3d-stories",
+    title: { en: "3D Stories", id: "Cerita 3D" },
+    path: "/visualization/3d-stories",
+    icon: Layers3,
     description: {
-      en: "Minimalist black background with title and stats grid (no route)",
-      id: "Latar belakang hitam minimalis dengan judul dan grid statistik (tanpa rute)",
+      en: "Immersive 3D activity stories",
+      id: "Cerita aktivitas 3D yang imersif",
     },
   },
-
-  // {
-  //   id: "3d-stories",
-  //   title: { en: "3D Stories", id: "Cerita 3D" },
-  //   path: "/visualization/3d-stories",
-  //   icon: Layers3,
-  //   description: {
-  //     en: "Immersive 3D activity stories",
-  //     id: "Cerita aktivitas 3D yang imersif",
-  //   },
-  // },
 ];
 
 export function PinggerrSidebar({
@@ -110,6 +72,22 @@ export function PinggerrSidebar({
 }: PinggerrSidebarProps) {
   const navigate = useNavigate();
   const location = useLocation();
+  const customTemplates = useCustomTemplates();
+
+  const allVisualizationTypes = [
+    ...visualizationTypes,
+    ...customTemplates.map(toVisualizationType),
+    {
+      id: "designer",
+      title: { en: "Template Designer", id: "Desainer Template" },
+      path: "/visualization/designer",
+      icon: PenTool,
+      description: {
+        en: "Design your own poster template",
+        id: "Rancang template poster Anda sendiri",
+      },
+    },
+  ];
 
   const handleNavigation = (path: string) => {
     navigate(path);
@@ -143,7 +121,7 @@ export function PinggerrSidebar({
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {visualizationTypes.map((type) => (
+              {allVisualizationTypes.map((type) => (
                 <SidebarMenuItem key={type.id}>
                   <SidebarMenuButton
                     onClick={() => handleNavigation(type.path)}
@@ -0,0 +1,217 @@
+import { useEffect, useRef, useState } from "react";
+import { Film, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { StravaActivity } from "@/types/strava";
+import { trackTemplateEvent } from "@/lib/analytics";
+import type {
+  PosterTemplate,
+  StatKey,
+  TemplateOptionValues,
+} from "@/lib/posterTemplate";
+import {
+  exportPosterVideo,
+  POSTER_VIDEO_SIZES,
+  type PosterVideoFormat,
+  type PosterVideoSize,
+} from "@/lib/posterVideo";
+
+interface PosterVideoExportProps {
+  template: PosterTemplate;
+  activity: StravaActivity;
+  stats: StatKey[];
+  options: TemplateOptionValues;
+  language: "en" | "id";
+}
+
+const videoFormats: {
+  format: PosterVideoFormat;
+  label: string;
+  description: { en: string; id: string };
+}[] = [
+  {
+    format: "mp4",
+    label: "MP4",
+    description: {
+      en: "Plays everywhere, encoded in your browser",
+      id: "Diputar di mana saja, dienkode di browser Anda",
+    },
+  },
+  {
+    format: "webm",
+    label: "WebM",
+    description: {
+      en: "Faster, not supported by every app",
+      id: "Lebih cepat, tidak didukung semua aplikasi",
+    },
+  },
+];
+
+/**
+ * Export a template as a video where the route draws itself and stats count up
+ */
+export function PosterVideoExport({
+  template,
+  activity,
+  stats,
+  options,
+  language,
+}: PosterVideoExportProps) {
+  const [size, setSize] = useState<PosterVideoSize>("story");
+  const [format, setFormat] = useState<PosterVideoFormat>("mp4");
+  const [background, setBackground] = useState(
+    template.canvas.background ?? "#000000"
+  );
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Stop a running export when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setError(null);
+    setProgress(0);
+
+    try {
+      const blob = await exportPosterVideo(template, activity, {
+        stats,
+        options,
+        size,
+        format,
+        background,
+        signal: controller.signal,
+        onProgress: setProgress,
+      });
+
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.download = `${activity.name
+        .replace(/[^a-z0-9]/gi, "_")
+        .toLowerCase()}_${template.filename}_${size}.${format}`;
+      link.href = url;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      if (template.analyticsId) {
+        await trackTemplateEvent(template.analyticsId, "video_download");
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error(`Error exporting ${template.id} video:`, err);
+      setError(
+        language === "en"
+          ? "Video export failed. Please try again."
+          : "Ekspor video gagal. Silakan coba lagi."
+      );
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const isExporting = progress !== null;
+
+  return (
+    <div className="mt-4 border rounded-lg p-4 space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Film className="w-4 h-4" />
+        {language === "en" ? "Animated video" : "Video animasi"}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {language === "en"
+          ? "The route draws itself following your activity's timing while the stats count up."
+          : "Rute tergambar mengikuti waktu aktivitas Anda sementara statistik menghitung naik."}
+      </p>
+
+      <div className="flex flex-wrap gap-4">
+        {(Object.keys(POSTER_VIDEO_SIZES) as PosterVideoSize[]).map((key) => (
+          <label key={key} className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="radio"
+              name={`${template.id}-video-size`}
+              checked={size === key}
+              onChange={() => setSize(key)}
+              disabled={isExporting}
+            />
+            <span className="text-sm">
+              {POSTER_VIDEO_SIZES[key].label[language]}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-4">
+        {videoFormats.map(({ format: value, label, description }) => (
+          <label
+            key={value}
+            className="flex items-center gap-2 cursor-pointer"
+            title={description[language]}
+          >
+            <input
+              type="radio"
+              name={`${template.id}-video-format`}
+              checked={format === value}
+              onChange={() => setFormat(value)}
+              disabled={isExporting}
+            />
+            <span className="text-sm">{label}</span>
+            <span className="text-xs text-muted-foreground">
+              {description[language]}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="color"
+          value={background}
+          onChange={(e) => setBackground(e.target.value)}
+          disabled={isExporting}
+          className="h-8 w-10 rounded border border-input bg-background p-0.5"
+        />
+        <span className="text-sm">
+          {language === "en" ? "Background color" : "Warna latar"}
+        </span>
+      </label>
+
+      <div className="flex items-center gap-2">
+        <Button
+          onClick={handleExport}
+          disabled={isExporting}
+          className={template.ui.buttonClassName}
+        >
+          {isExporting
+            ? language === "en"
+              ? `Exporting... ${Math.round(progress * 100)}%`
+              : `Mengekspor... ${Math.round(progress * 100)}%`
+            : language === "en"
+            ? "🎬 Export video"
+            : "🎬 Ekspor video"}
+        </Button>
+        {isExporting && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => {
+              abortControllerRef.current?.abort();
+              abortControllerRef.current = null;
+              setProgress(null);
+            }}
+            aria-label={language === "en" ? "Cancel" : "Batal"}
+          >
+            <X />
+          </Button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -22,6 +22,8 @@ interface SegmentManagerProps {
   onSegmentDelete: (segmentId: string) => void;
   onSegmentPlay: (segment: ActivitySegment) => void;
   onVideoUpload: (segmentId: string, file: File) => void;
+  onSegmentExport: (segment: ActivitySegment) => void;
+  isExporting?: boolean;
   language: "en" | "id";
 }
 
@@ -38,6 +40,8 @@ export const SegmentManager: React.FC<SegmentManagerProps> = ({
   onSegmentDelete,
   onSegmentPlay,
   onVideoUpload,
+  onSegmentExport,
+  isExporting = false,
   language,
 }) => {
   const [editingSegment, setEditingSegment] = useState<EditingSegment | null>(
@@ -319,9 +323,8 @@ export const SegmentManager: React.FC<SegmentManagerProps> = ({
                     size="sm"
                     variant="outline"
                     className="text-indigo-600 hover:text-indigo-700"
-                    onClick={() => {
-                      /* TODO: Implement export - use track3dDownload() from use3dDownloadTracker hook */
-                    }}
+                    onClick={() => onSegmentExport(segment)}
+                    disabled={isExporting}
                   >
                     <Download className="w-4 h-4 mr-1" />
                     {t.download}
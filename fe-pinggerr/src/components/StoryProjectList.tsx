@@ -0,0 +1,205 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Copy, FolderOpen, Plus, Trash2 } from "lucide-react";
+import type { StoryProject } from "@/lib/storyProjects";
+
+export type StorySaveStatus = "saving" | "saved" | "error";
+
+interface StoryProjectListProps {
+  projects: StoryProject[];
+  currentProjectId: string | null;
+  projectName: string;
+  saveStatus: StorySaveStatus | null;
+  onProjectNameChange: (name: string) => void;
+  onProjectResume: (projectId: string) => void;
+  onProjectDuplicate: (projectId: string) => void;
+  onProjectDelete: (projectId: string) => void;
+  onProjectNew: () => void;
+  disabled?: boolean;
+  language: "en" | "id";
+}
+
+export const StoryProjectList: React.FC<StoryProjectListProps> = ({
+  projects,
+  currentProjectId,
+  projectName,
+  saveStatus,
+  onProjectNameChange,
+  onProjectResume,
+  onProjectDuplicate,
+  onProjectDelete,
+  onProjectNew,
+  disabled = false,
+  language,
+}) => {
+  const texts = {
+    en: {
+      title: "Stories",
+      name: "Story name",
+      newStory: "New Story",
+      resume: "Resume",
+      duplicate: "Duplicate",
+      delete: "Delete",
+      current: "Editing",
+      segments: "segments",
+      updated: "Updated",
+      noProjects:
+        "Your story is saved in this browser as soon as you add a segment.",
+      saving: "Saving...",
+      saved: "Saved",
+      saveError: "Could not save, storage may be full",
+      deleteConfirm:
+        "Delete this story and its uploaded videos? This cannot be undone.",
+    },
+    id: {
+      title: "Cerita",
+      name: "Nama cerita",
+      newStory: "Cerita Baru",
+      resume: "Lanjutkan",
+      duplicate: "Duplikat",
+      delete: "Hapus",
+      current: "Sedang diedit",
+      segments: "segmen",
+      updated: "Diperbarui",
+      noProjects:
+        "Cerita Anda disimpan di browser ini begitu Anda menambahkan segmen.",
+      saving: "Menyimpan...",
+      saved: "Tersimpan",
+      saveError: "Gagal menyimpan, penyimpanan mungkin penuh",
+      deleteConfirm:
+        "Hapus cerita ini beserta video yang diunggah? Tindakan ini tidak dapat dibatalkan.",
+    },
+  };
+
+  const t = texts[language];
+
+  const formatUpdatedAt = (timestamp: number): string =>
+    new Date(timestamp).toLocaleString(language === "en" ? "en-US" : "id-ID", {
+      dateStyle: "medium",
+      timeStyle: "short",
+    });
+
+  const handleDelete = (projectId: string) => {
+    if (window.confirm(t.deleteConfirm)) {
+      onProjectDelete(projectId);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <span className="text-blue-600">📁</span>
+            {t.title}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onProjectNew}
+            disabled={disabled}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {t.newStory}
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3">
+          <Input
+            value={projectName}
+            onChange={(e) => onProjectNameChange(e.target.value)}
+            placeholder={t.name}
+            aria-label={t.name}
+            disabled={disabled}
+          />
+          {saveStatus && (
+            <span
+              className={`text-xs whitespace-nowrap ${
+                saveStatus === "error" ? "text-red-600" : "text-gray-500"
+              }`}
+            >
+              {saveStatus === "saving"
+                ? t.saving
+                : saveStatus === "saved"
+                ? t.saved
+                : t.saveError}
+            </span>
+          )}
+        </div>
+
+        {projects.length === 0 ? (
+          <p className="text-sm text-gray-500">{t.noProjects}</p>
+        ) : (
+          <div className="space-y-2">
+            {projects.map((project) => {
+              const isCurrent = project.id === currentProjectId;
+
+              return (
+                <div
+                  key={project.id}
+                  className={`flex items-center justify-between border rounded-lg p-3 ${
+                    isCurrent ? "border-blue-300 bg-blue-50" : "bg-white"
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium truncate">
+                        {project.name}
+                      </span>
+                      {isCurrent && (
+                        <Badge variant="secondary">{t.current}</Badge>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {project.segments.length} {t.segments} · {t.updated}{" "}
+                      {formatUpdatedAt(project.updatedAt)}
+                    </div>
+                  </div>
+
+                  <div className="flex gap-1 ml-4">
+                    {!isCurrent && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => onProjectResume(project.id)}
+                        disabled={disabled}
+                        title={t.resume}
+                        className="text-green-600 hover:text-green-700"
+                      >
+                        <FolderOpen className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onProjectDuplicate(project.id)}
+                      disabled={disabled}
+                      title={t.duplicate}
+                      className="text-blue-600 hover:text-blue-700"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(project.id)}
+                      disabled={disabled}
+                      title={t.delete}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,163 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Image as KonvaImage,
+  Layer,
+  Rect,
+  Stage,
+  Transformer,
+} from "react-konva";
+import type Konva from "konva";
+import type { StravaActivity } from "@/types/strava";
+import type { PosterTemplate, TemplateLayer } from "@/lib/posterTemplate";
+import { getLayerBounds } from "@/lib/posterRenderer";
+import { moveLayer, resizeLayer } from "@/lib/customTemplates";
+
+interface TemplateDesignerCanvasProps {
+  template: PosterTemplate;
+  activity: StravaActivity;
+  statsCount: number;
+  previewUrl: string | null;
+  selectedIndex: number | null;
+  onSelect: (index: number | null) => void;
+  onLayerChange: (index: number, layer: TemplateLayer) => void;
+  maxWidth?: number;
+  maxHeight?: number;
+}
+
+/**
+ * Rendered poster with a draggable, resizable box over each layer
+ * The poster itself comes from the regular renderer so the preview always
+ * matches the downloaded image
+ */
+export function TemplateDesignerCanvas({
+  template,
+  activity,
+  statsCount,
+  previewUrl,
+  selectedIndex,
+  onSelect,
+  onLayerChange,
+  maxWidth = 640,
+  maxHeight = 720,
+}: TemplateDesignerCanvasProps) {
+  const [previewImage, setPreviewImage] = useState<HTMLImageElement | null>(
+    null
+  );
+  const boxRefs = useRef<(Konva.Rect | null)[]>([]);
+  const transformerRef = useRef<Konva.Transformer>(null);
+
+  const { width, height, offsetY = 0 } = template.canvas;
+  const scale = Math.min(1, maxWidth / width, maxHeight / height);
+  const bounds = template.layers.map((layer) =>
+    getLayerBounds(template, layer, activity, statsCount)
+  );
+
+  useEffect(() => {
+    if (!previewUrl) return;
+    const image = new window.Image();
+    image.onload = () => setPreviewImage(image);
+    image.src = previewUrl;
+  }, [previewUrl]);
+
+  // Attach the transformer to the selected layer's box
+  useEffect(() => {
+    const transformer = transformerRef.current;
+    if (!transformer) return;
+    const box = selectedIndex !== null ? boxRefs.current[selectedIndex] : null;
+    transformer.nodes(box ? [box] : []);
+    transformer.getLayer()?.batchDraw();
+  }, [selectedIndex, template]);
+
+  const handleStageMouseDown = (
+    e: Konva.KonvaEventObject<MouseEvent | TouchEvent>
+  ) => {
+    if (e.target === e.target.getStage() || e.target.name() === "preview") {
+      onSelect(null);
+    }
+  };
+
+  return (
+    <div
+      className="inline-block border rounded-lg overflow-hidden bg-[repeating-conic-gradient(#e5e7eb_0%_25%,#ffffff_0%_50%)] bg-[length:24px_24px]"
+      style={{ width: width * scale, height: height * scale }}
+    >
+      <Stage
+        width={width * scale}
+        height={height * scale}
+        scaleX={scale}
+        scaleY={scale}
+        onMouseDown={handleStageMouseDown}
+        onTouchStart={handleStageMouseDown}
+      >
+        <Layer>
+          {previewImage && (
+            <KonvaImage
+              name="preview"
+              image={previewImage}
+              width={width}
+              height={height}
+            />
+          )}
+          {template.layers.map((layer, index) => {
+            const box = bounds[index];
+            const selected = index === selectedIndex;
+            return (
+              <Rect
+                key={index}
+                ref={(node) => {
+                  boxRefs.current[index] = node;
+                }}
+                x={box.x}
+                y={box.y + offsetY}
+                width={Math.max(box.width, 1)}
+                height={Math.max(box.height, 1)}
+                fill="rgba(0, 0, 0, 0.001)"
+                stroke={selected ? "#F99FD2" : "rgba(128, 128, 128, 0.6)"}
+                strokeWidth={selected ? 2 : 1}
+                dash={selected ? undefined : [6, 4]}
+                strokeScaleEnabled={false}
+                draggable
+                onMouseDown={() => onSelect(index)}
+                onTouchStart={() => onSelect(index)}
+                onDragEnd={(e) =>
+                  onLayerChange(
+                    index,
+                    moveLayer(
+                      layer,
+                      e.target.x() - box.x,
+                      e.target.y() - offsetY - box.y
+                    )
+                  )
+                }
+                onTransformEnd={(e) => {
+                  const node = e.target;
+                  const scaleX = node.scaleX();
+                  const scaleY = node.scaleY();
+                  node.scaleX(1);
+                  node.scaleY(1);
+                  onLayerChange(
+                    index,
+                    resizeLayer(layer, box, {
+                      dx: node.x() - box.x,
+                      dy: node.y() - offsetY - box.y,
+                      scaleX,
+                      scaleY,
+                    })
+                  );
+                }}
+              />
+            );
+          })}
+          <Transformer
+            ref={transformerRef}
+            rotateEnabled={false}
+            ignoreStroke
+            boundBoxFunc={(oldBox, newBox) =>
+              newBox.width < 8 || newBox.height < 8 ? oldBox : newBox
+            }
+          />
+        </Layer>
+      </Stage>
+    </div>
+  );
+}
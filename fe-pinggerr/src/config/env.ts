@@ -28,4 +28,52 @@ export const config = {
   mapbox: {
     accessToken: import.meta.env.VITE_MAPBOX_ACCESS_TOKEN || "",
   },
+
+  // Map provider for the 3D flyover: "mapbox", "maplibre", or "auto" to use
+  // Mapbox while the token and quota allow it and fall back to MapLibre
+  maps: {
+    provider: (import.meta.env.VITE_MAP_PROVIDER || "auto") as
+      | "auto"
+      | "mapbox"
+      | "maplibre",
+    maplibre: {
+      // Full style JSON, replaces the satellite style built from imageryUrl
+      styleUrl: import.meta.env.VITE_MAPLIBRE_STYLE_URL || "",
+      // Raster tiles as a {z}/{x}/{y} template, TileJSON or pmtiles:// URL
+      imageryUrl:
+        import.meta.env.VITE_MAPLIBRE_IMAGERY_URL ||
+        "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}",
+      imageryAttribution:
+        import.meta.env.VITE_MAPLIBRE_IMAGERY_ATTRIBUTION ||
+        "Imagery © Esri, Maxar, Earthstar Geographics",
+      // Raster-DEM tiles, same URL forms as the imagery
+      demUrl:
+        import.meta.env.VITE_MAPLIBRE_DEM_URL ||
+        "https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png",
+      demEncoding: (import.meta.env.VITE_MAPLIBRE_DEM_ENCODING ||
+        "terrarium") as "terrarium" | "mapbox",
+    },
+  },
+
+  // "Local tiles" basemap for posters, e.g. a self-hosted raster tile server
+  basemap: {
+    localUrl: import.meta.env.VITE_BASEMAP_TILE_URL || "",
+    localAttribution: import.meta.env.VITE_BASEMAP_TILE_ATTRIBUTION || "",
+    localMaxZoom: Number(import.meta.env.VITE_BASEMAP_TILE_MAX_ZOOM) || 18,
+  },
+
+  // Terrain-RGB or terrarium tiles ({z}/{x}/{y}) to correct uploaded
+  // activities' altitude with, off when unset
+  elevation: {
+    demUrl: import.meta.env.VITE_ELEVATION_DEM_URL || "",
+    demEncoding: (import.meta.env.VITE_ELEVATION_DEM_ENCODING ||
+      "terrarium") as "terrarium" | "mapbox",
+  },
+
+  // ffmpeg.wasm core, loaded on demand for video exports
+  ffmpeg: {
+    coreUrl:
+      import.meta.env.VITE_FFMPEG_CORE_URL ||
+      "https://unpkg.com/@ffmpeg/core@0.12.10/dist/esm",
+  },
 } as const;
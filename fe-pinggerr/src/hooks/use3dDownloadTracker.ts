@@ -1,23 +1,11 @@
-import { config } from "@/config/env";
+import { trackTemplateEvent } from "@/lib/analytics";
 
 /**
  * Hook to track 3D Stories downloads
  */
 export const use3dDownloadTracker = () => {
   // Track 3D download in the backend
-  const track3dDownload = async () => {
-    try {
-      await fetch(`${config.workerUrl}/count-3ds-download`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-    } catch (error) {
-      // Do nothing if counting download fails
-      console.warn("Failed to track 3D download:", error);
-    }
-  };
+  const track3dDownload = () => trackTemplateEvent("3ds");
 
   return { track3dDownload };
 };
@@ -0,0 +1,27 @@
+import { useState, useEffect } from "react";
+import {
+  CUSTOM_TEMPLATES_EVENT,
+  loadCustomTemplates,
+} from "@/lib/customTemplates";
+
+/**
+ * Hook to list the poster templates saved from the template designer
+ * Follows saves from this tab and other tabs sharing the same storage
+ */
+export const useCustomTemplates = () => {
+  const [templates, setTemplates] = useState(loadCustomTemplates);
+
+  useEffect(() => {
+    const refresh = () => setTemplates(loadCustomTemplates());
+
+    window.addEventListener(CUSTOM_TEMPLATES_EVENT, refresh);
+    window.addEventListener("storage", refresh);
+
+    return () => {
+      window.removeEventListener(CUSTOM_TEMPLATES_EVENT, refresh);
+      window.removeEventListener("storage", refresh);
+    };
+  }, []);
+
+  return templates;
+};
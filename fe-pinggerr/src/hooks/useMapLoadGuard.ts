@@ -1,11 +1,15 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { config } from "@/config/env";
+import { useStravaAuth } from "./useStravaAuth";
 
 interface MapLoadStatus {
   canLoadMap: boolean;
+  // Why maps are unavailable: the global monthly limit or this client's limit
+  limitReason: "monthly" | "client" | null;
   mapLoadsThisMonth: number;
   monthlyLimit: number;
   remainingLoads: number;
+  clientRemainingLoads: number;
   monthKey: string;
   isLoading: boolean;
   error: string | null;
@@ -13,42 +17,62 @@ interface MapLoadStatus {
 
 /**
  * Hook to manage map load limits and track usage
+ * The limit check returns a short-lived ticket that trackMapLoad redeems
+ * Pass enabled=false when no Mapbox map will be loaded to skip the check
  */
-export const useMapLoadGuard = () => {
+export const useMapLoadGuard = (enabled = true) => {
+  const { tokens } = useStravaAuth();
+  const ticketRef = useRef<string | null>(null);
   const [status, setStatus] = useState<MapLoadStatus>({
     canLoadMap: false,
+    limitReason: null,
     mapLoadsThisMonth: 0,
     monthlyLimit: 50000,
     remainingLoads: 50000,
+    clientRemainingLoads: 0,
     monthKey: "",
-    isLoading: true,
+    isLoading: enabled,
     error: null,
   });
 
-  // Check current map load status
-  const checkMapLimit = useCallback(async () => {
-    setStatus((prev) => ({ ...prev, isLoading: true, error: null }));
+  // Fetch the map load status and a ticket, leaving isLoading as it is
+  const fetchTicket = useCallback(async (): Promise<boolean> => {
+    // Signed-in athletes get their own limit in addition to the per-IP one
+    const response = await fetch(`${config.workerUrl}/check-map-limit`, {
+      headers: tokens?.access_token
+        ? { Authorization: `Bearer ${tokens.access_token}` }
+        : undefined,
+    });
 
-    try {
-      const response = await fetch(`${config.workerUrl}/check-map-limit`);
+    if (!response.ok) {
+      throw new Error("Failed to check map limit");
+    }
 
-      if (!response.ok) {
-        throw new Error("Failed to check map limit");
-      }
+    const data = await response.json();
+    ticketRef.current = data.ticket;
 
-      const data = await response.json();
+    setStatus((prev) => ({
+      ...prev,
+      canLoadMap: data.can_load_map,
+      limitReason: data.limit_reason,
+      mapLoadsThisMonth: data.map_loads_this_month,
+      monthlyLimit: data.monthly_limit,
+      remainingLoads: data.remaining_loads,
+      clientRemainingLoads: data.client_remaining_loads,
+      monthKey: data.month_key,
+    }));
 
-      setStatus({
-        canLoadMap: data.can_load_map,
-        mapLoadsThisMonth: data.map_loads_this_month,
-        monthlyLimit: data.monthly_limit,
-        remainingLoads: data.remaining_loads,
-        monthKey: data.month_key,
-        isLoading: false,
-        error: null,
-      });
+    return data.can_load_map;
+  }, [tokens?.access_token]);
 
-      return data.can_load_map;
+  // Check current map load status and get a map load ticket
+  const checkMapLimit = useCallback(async () => {
+    setStatus((prev) => ({ ...prev, isLoading: true, error: null }));
+
+    try {
+      const canLoadMap = await fetchTicket();
+      setStatus((prev) => ({ ...prev, isLoading: false, error: null }));
+      return canLoadMap;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -59,46 +83,76 @@ export const useMapLoadGuard = () => {
       }));
       return false;
     }
-  }, []);
+  }, [fetchTicket]);
 
-  // Track a map load (call this when initializing a map)
-  const trackMapLoad = useCallback(async () => {
-    try {
-      const response = await fetch(`${config.workerUrl}/count-map-load`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to track map load");
+  // Track a map load by redeeming the ticket (call this when initializing a map)
+  // Returns null if the load was not allowed, or was cancelled before the
+  // ticket was redeemed
+  const trackMapLoad = useCallback(
+    async (isCancelled?: () => boolean) => {
+      // Tickets are single-use, so a map loaded again (StrictMode, a new track,
+      // another provider) gets a fresh one instead of redeeming nothing. It's
+      // fetched quietly: toggling isLoading restarts effects waiting on it
+      if (!ticketRef.current && !(await fetchTicket().catch(() => false))) {
+        return null;
       }
+      // A cancelled load leaves the ticket for the next one
+      if (isCancelled?.()) return null;
+      const ticket = ticketRef.current;
+      ticketRef.current = null;
 
-      const data = await response.json();
+      try {
+        const response = await fetch(`${config.workerUrl}/count-map-load`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ ticket }),
+        });
 
-      // Update local status
-      setStatus((prev) => ({
-        ...prev,
-        mapLoadsThisMonth: data.map_loads_this_month,
-        remainingLoads: Math.max(
-          0,
-          prev.monthlyLimit - data.map_loads_this_month
-        ),
-        canLoadMap: data.map_loads_this_month < prev.monthlyLimit,
-      }));
+        if (!response.ok) {
+          if (response.status === 403 || response.status === 429) {
+            // The monthly limit can also be reached between check and load
+            const { limit_reason } = await response.json().catch(() => ({}));
+            setStatus((prev) => ({
+              ...prev,
+              canLoadMap: false,
+              limitReason: limit_reason === "monthly" ? "monthly" : "client",
+              clientRemainingLoads: 0,
+            }));
+          }
+          throw new Error("Failed to track map load");
+        }
 
-      return data;
-    } catch (error) {
-      console.error("Failed to track map load:", error);
-      return null;
-    }
-  }, []);
+        const data = await response.json();
+
+        // Update local status
+        setStatus((prev) => ({
+          ...prev,
+          mapLoadsThisMonth: data.map_loads_this_month,
+          remainingLoads: Math.max(
+            0,
+            prev.monthlyLimit - data.map_loads_this_month
+          ),
+          clientRemainingLoads: data.client_remaining_loads,
+        }));
+
+        return data;
+      } catch (error) {
+        console.error("Failed to track map load:", error);
+        return null;
+      }
+    },
+    [fetchTicket]
+  );
 
-  // Check limit on mount
+  // Check limit on mount. Through a ref so a token refresh doesn't check
+  // again and leave the ticket already held unused
+  const checkMapLimitRef = useRef(checkMapLimit);
+  checkMapLimitRef.current = checkMapLimit;
   useEffect(() => {
-    checkMapLimit();
-  }, []);
+    if (enabled) checkMapLimitRef.current();
+  }, [enabled]);
 
   return {
     ...status,
@@ -0,0 +1,34 @@
+import { useState, useEffect } from "react";
+import {
+  STORY_PROJECTS_EVENT,
+  listStoryProjects,
+  type StoryProject,
+} from "@/lib/storyProjects";
+
+/**
+ * Hook to list the saved 3D Stories projects of an activity
+ * Refreshes whenever a project is saved, duplicated or deleted
+ */
+export const useStoryProjects = (activityId: number) => {
+  const [projects, setProjects] = useState<StoryProject[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () =>
+      listStoryProjects(activityId)
+        .then((list) => {
+          if (!cancelled) setProjects(list);
+        })
+        .catch((err) => console.error("Failed to list story projects:", err));
+
+    refresh();
+    window.addEventListener(STORY_PROJECTS_EVENT, refresh);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(STORY_PROJECTS_EVENT, refresh);
+    };
+  }, [activityId]);
+
+  return projects;
+};
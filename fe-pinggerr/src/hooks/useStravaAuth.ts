@@ -161,7 +161,14 @@ export const useStravaAuth = () => {
         throw new Error(errorData.error || "Token refresh failed");
       }
 
-      const tokenData: StravaTokens = await response.json();
+      // Refresh responses don't say who the athlete is, keep it from before
+      const previousTokens: Partial<StravaTokens> = JSON.parse(
+        localStorage.getItem("strava_tokens") || "{}"
+      );
+      const tokenData: StravaTokens = {
+        ...(await response.json()),
+        athlete_id: previousTokens.athlete_id,
+      };
       setTokens(tokenData);
       localStorage.setItem("strava_tokens", JSON.stringify(tokenData));
     } catch (err) {
@@ -0,0 +1,42 @@
+import { useState, useEffect } from "react";
+import {
+  type StravaBudget,
+  STRAVA_BUDGET_EVENT,
+  fetchStravaBudget,
+} from "@/lib/stravaBudget";
+
+/**
+ * Hook to follow the app-wide Strava API budget tracked by the Worker proxy
+ * Loads the current budget on mount, then updates from proxied responses
+ */
+export const useStravaBudget = () => {
+  const [budget, setBudget] = useState<StravaBudget | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchStravaBudget()
+      .then((initialBudget) => {
+        if (!cancelled) {
+          // Don't overwrite a fresher value from a proxied response
+          setBudget((prev) => prev ?? initialBudget);
+        }
+      })
+      .catch((error) => {
+        console.warn("Failed to load Strava API budget:", error);
+      });
+
+    const handleBudgetUpdate = (e: Event) => {
+      setBudget((e as CustomEvent<StravaBudget>).detail);
+    };
+
+    window.addEventListener(STRAVA_BUDGET_EVENT, handleBudgetUpdate);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener(STRAVA_BUDGET_EVENT, handleBudgetUpdate);
+    };
+  }, []);
+
+  return budget;
+};
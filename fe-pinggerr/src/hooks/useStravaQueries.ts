@@ -3,16 +3,26 @@
  * This provides an optimized layer on top of useStravaAuth to reduce API calls
  */
 
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  type QueryClient,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { useStravaAuth } from "./useStravaAuth";
-import type { StravaActivity } from "@/types/strava";
+import type { StravaActivity, ActivityTrackpoint } from "@/types/strava";
 import { isRateLimitError, parseRateLimitError } from "@/lib/stravaApi";
+import { withCleanTrackpoints } from "@/lib/gpsCleanup";
+import {
+  type ActivityStorageApi,
+  createActivityStorageApi,
+} from "@/lib/activityStorage";
 import {
   CACHE_KEYS,
   persistActivityToLocalStorage,
   loadActivityFromLocalStorage,
+  isCachedActivityStale,
 } from "@/lib/queryClient";
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 
 export interface RateLimitInfo {
   isLimited: boolean;
@@ -21,6 +31,54 @@ export interface RateLimitInfo {
   message?: string;
 }
 
+/**
+ * Read an activity from backend storage
+ * Storage is a cache, so failures fall through to the Strava API
+ */
+async function loadActivityFromStorage(
+  storageApi: ActivityStorageApi | null,
+  activityId: number
+): Promise<StravaActivity | null> {
+  if (!storageApi) return null;
+
+  try {
+    return await storageApi.getActivity(activityId);
+  } catch (error) {
+    console.warn("Failed to load activity from storage:", error);
+    return null;
+  }
+}
+
+/**
+ * Check a stored activity against the (fresher) activity list entry, if the
+ * list has been loaded, so edits made on Strava aren't hidden by storage
+ */
+function isStoredActivityStale(
+  queryClient: QueryClient,
+  activity: StravaActivity
+): boolean {
+  const listedActivity = queryClient
+    .getQueriesData<StravaActivity[]>({ queryKey: [CACHE_KEYS.activities] })
+    .flatMap(([, activities]) => activities ?? [])
+    .find((listed) => listed.id === activity.id);
+
+  return listedActivity
+    ? isCachedActivityStale(activity, listedActivity)
+    : false;
+}
+
+/**
+ * Save an activity to backend storage without blocking the caller
+ */
+function persistActivityToStorage(
+  storageApi: ActivityStorageApi | null,
+  activity: StravaActivity
+) {
+  storageApi?.saveActivity(activity).catch((error) => {
+    console.warn("Failed to persist activity to storage:", error);
+  });
+}
+
 /**
  * Hook to fetch activities with caching
  * Cache for 5 minutes to balance fresh data with API rate limits
@@ -70,10 +128,13 @@ export function useStravaActivities(page = 1, perPage = 10) {
 /**
  * Hook to fetch activity details with aggressive caching
  * Cache for 1 hour since activity details rarely change
- * Also uses localStorage for persistent cross-session caching
+ * Also uses localStorage and backend activity storage for persistent,
+ * cross-session (and cross-device) caching
  */
 export function useStravaActivityDetails(activityId: number | null) {
-  const { fetchActivityDetails, isAuthenticated } = useStravaAuth();
+  const queryClient = useQueryClient();
+  const { fetchActivityDetails, isAuthenticated, tokens } = useStravaAuth();
+  const storageApi = useMemo(() => createActivityStorageApi(tokens), [tokens]);
   const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo>({
     isLimited: false,
   });
@@ -90,13 +151,22 @@ export function useStravaActivityDetails(activityId: number | null) {
         return cached as StravaActivity;
       }
 
-      // Fetch from API if not in localStorage
+      // Then try the athlete's saved activities on the backend
+      const stored = await loadActivityFromStorage(storageApi, activityId);
+      if (stored && !isStoredActivityStale(queryClient, stored)) {
+        console.log(`Using stored activity ${activityId} from backend`);
+        persistActivityToLocalStorage(activityId, stored);
+        return stored;
+      }
+
+      // Fetch from API if not cached anywhere
       try {
         setRateLimitInfo({ isLimited: false });
         const activity = await fetchActivityDetails(activityId);
 
-        // Persist to localStorage for future use
+        // Persist to localStorage and backend storage for future use
         persistActivityToLocalStorage(activityId, activity);
+        persistActivityToStorage(storageApi, activity);
 
         return activity;
       } catch (error) {
@@ -129,13 +199,103 @@ export function useStravaActivityDetails(activityId: number | null) {
   };
 }
 
+/**
+ * Hook to fetch activity streams (trackpoints)
+ * Streams are too large for localStorage, so they are read through backend storage only
+ */
+export function useStravaActivityStreams(activityId: number | null) {
+  const { fetchActivityStreams, isAuthenticated, tokens } = useStravaAuth();
+  const storageApi = useMemo(() => createActivityStorageApi(tokens), [tokens]);
+  const [rateLimitInfo, setRateLimitInfo] = useState<RateLimitInfo>({
+    isLimited: false,
+  });
+
+  const query = useQuery({
+    queryKey: [CACHE_KEYS.activityStreams(activityId || 0)],
+    queryFn: async (): Promise<ActivityTrackpoint[] | null> => {
+      if (!activityId) return null;
+
+      try {
+        const stored = await storageApi?.getActivityStreams(activityId);
+        if (stored) {
+          console.log(`Using stored streams for ${activityId} from backend`);
+          return stored;
+        }
+      } catch (error) {
+        console.warn("Failed to load streams from storage:", error);
+      }
+
+      try {
+        setRateLimitInfo({ isLimited: false });
+        const trackpoints = await fetchActivityStreams(activityId);
+
+        storageApi
+          ?.saveActivityStreams(activityId, trackpoints)
+          .catch((error) => {
+            console.warn("Failed to persist streams to storage:", error);
+          });
+
+        return trackpoints;
+      } catch (error) {
+        if (error instanceof Error && isRateLimitError(error)) {
+          const { limit, usage } = parseRateLimitError(error);
+          setRateLimitInfo({
+            isLimited: true,
+            limit,
+            usage,
+            message: `Rate limit exceeded. Limit: ${limit}, Usage: ${usage}`,
+          });
+        }
+        throw error;
+      }
+    },
+    enabled: isAuthenticated && !!activityId,
+    staleTime: 1000 * 60 * 60, // 1 hour - recorded streams don't change
+    gcTime: 1000 * 60 * 60 * 2, // Keep in memory cache for 2 hours
+    retry: (failureCount, error) => {
+      if (error instanceof Error && isRateLimitError(error)) {
+        return false;
+      }
+      return failureCount < 2;
+    },
+  });
+
+  return {
+    ...query,
+    rateLimitInfo,
+  };
+}
+
+/**
+ * Activity with its trackpoints, loading Strava streams when asked to and
+ * the activity doesn't carry them yet (uploaded files always do)
+ */
+export function useActivityWithTrackpoints(
+  activity: StravaActivity,
+  enabled: boolean
+): StravaActivity {
+  const needsStreams =
+    enabled && activity.source === "strava" && !activity.trackpoints;
+  const { data: streams } = useStravaActivityStreams(
+    needsStreams ? activity.id : null
+  );
+  return useMemo(
+    () =>
+      needsStreams && streams
+        ? withCleanTrackpoints(activity, streams)
+        : activity,
+    [activity, needsStreams, streams]
+  );
+}
+
 /**
  * Hook to prefetch activity details (useful for hover states)
  * This allows loading data before user clicks, improving UX
  */
 export function useStravaActivityPrefetch() {
   const queryClient = useQueryClient();
-  const { fetchActivityDetails, isAuthenticated } = useStravaAuth();
+  const { fetchActivityDetails, isAuthenticated, tokens } = useStravaAuth();
+  const storageApi = useMemo(() => createActivityStorageApi(tokens), [tokens]);
 
   const prefetchActivity = useCallback(
     async (activityId: number) => {
@@ -162,19 +322,88 @@ export function useStravaActivityPrefetch() {
       await queryClient.prefetchQuery({
         queryKey: [CACHE_KEYS.activityDetails(activityId)],
         queryFn: async () => {
+          const stored = await loadActivityFromStorage(storageApi, activityId);
+          if (stored && !isStoredActivityStale(queryClient, stored)) {
+            persistActivityToLocalStorage(activityId, stored);
+            return stored;
+          }
+
           const activity = await fetchActivityDetails(activityId);
           persistActivityToLocalStorage(activityId, activity);
+          persistActivityToStorage(storageApi, activity);
           return activity;
         },
         staleTime: 1000 * 60 * 60, // 1 hour
       });
     },
-    [queryClient, fetchActivityDetails, isAuthenticated]
+    [queryClient, fetchActivityDetails, isAuthenticated, storageApi]
   );
 
   return { prefetchActivity };
 }
 
+/**
+ * Hook to follow activity changes pushed by Strava to the Worker webhook
+ * Invalidates exactly the activities that were created, updated or deleted
+ */
+export function useStravaActivityChanges() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated, tokens } = useStravaAuth();
+  const storageApi = useMemo(() => createActivityStorageApi(tokens), [tokens]);
+
+  const athleteId = tokens?.athlete_id ?? null;
+
+  return useQuery({
+    queryKey: [CACHE_KEYS.activityChanges, athleteId],
+    queryFn: async () => {
+      if (!storageApi) return [];
+
+      // The cursor is per athlete so another athlete signing in on this
+      // browser neither skips nor replays changes. Sessions from before the
+      // athlete id was kept ask for everything and filter by the cursor of
+      // the athlete the backend answers for
+      const readCursor = (id: number | null) =>
+        id === null
+          ? 0
+          : Number(
+              localStorage.getItem(CACHE_KEYS.activityChangesCursor(id))
+            ) || 0;
+      const response = await storageApi.getChanges(readCursor(athleteId));
+      if (response.athleteId === null) return [];
+      const cursor = readCursor(response.athleteId);
+      const changes = response.changes.filter(
+        (change) => change.received_at > cursor
+      );
+      const latest = Math.max(cursor, response.latest);
+
+      changes.forEach((change) => {
+        localStorage.removeItem(CACHE_KEYS.activityDetails(change.activity_id));
+        queryClient.invalidateQueries({
+          queryKey: [CACHE_KEYS.activityDetails(change.activity_id)],
+        });
+        queryClient.invalidateQueries({
+          queryKey: [CACHE_KEYS.activityStreams(change.activity_id)],
+        });
+      });
+
+      // New, deleted or renamed activities also change the activity list
+      if (changes.length > 0) {
+        queryClient.invalidateQueries({ queryKey: [CACHE_KEYS.activities] });
+      }
+
+      localStorage.setItem(
+        CACHE_KEYS.activityChangesCursor(response.athleteId),
+        String(latest)
+      );
+      return changes;
+    },
+    enabled: isAuthenticated && !!storageApi,
+    staleTime: 0,
+    refetchInterval: 1000 * 60 * 2, // 2 minutes - cheap, never calls Strava
+    refetchOnWindowFocus: true,
+  });
+}
+
 /**
  * Hook to invalidate activity queries (useful after data changes)
  */
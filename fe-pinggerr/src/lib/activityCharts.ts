@@ -0,0 +1,161 @@
+/**
+ * Activity chart data
+ * Elevation, heart rate and pace series for the poster chart layers. Series
+ * run along the activity's distance as fractions (0-1) so charts stacked on a
+ * poster line up with each other
+ */
+
+import type { StravaActivity } from "@/types/strava";
+import { getTrackpointDistances } from "@/lib/trackpoints";
+import { generateSplits, SPLIT_DISTANCES } from "@/lib/activitySplits";
+
+export interface ElevationSample {
+  at: number; // fraction of the distance
+  altitude: number; // meters
+  grade: number; // percent, averaged since the previous sample
+}
+
+export interface HeartRateBand {
+  start: number; // fraction of the distance
+  end: number;
+  zone: number; // 0-based, lowest first
+}
+
+export interface PaceSplit {
+  distance: number; // meters
+  time: number; // seconds
+  speed: number; // m/s
+}
+
+// Zone lower bounds as a fraction of max heart rate, Z1 to Z5
+export const HEART_RATE_ZONES = [0.5, 0.6, 0.7, 0.8, 0.9];
+export const DEFAULT_MAX_HEART_RATE = 190;
+
+// A poster is at most a couple of thousand pixels wide
+const MAX_PROFILE_SAMPLES = 400;
+// Shorter stretches make grades jump around on GPS noise
+const MIN_GRADE_DISTANCE = 20;
+// A trailing split shorter than this is folded into the one before
+const MIN_SPLIT_DISTANCE = 100;
+
+/**
+ * Altitude along the distance, thinned to one sample per stretch of route
+ */
+export function getElevationProfile(
+  activity: StravaActivity
+): ElevationSample[] {
+  const trackpoints = activity.trackpoints ?? [];
+  const distances = getTrackpointDistances(trackpoints);
+  const total = distances[distances.length - 1] ?? 0;
+  if (total <= 0) return [];
+
+  const step = Math.max(MIN_GRADE_DISTANCE, total / MAX_PROFILE_SAMPLES);
+  const samples: ElevationSample[] = [];
+  let previous: { distance: number; altitude: number } | undefined;
+  trackpoints.forEach((tp, i) => {
+    if (tp.altitude === undefined) return;
+    const distance = distances[i];
+    const isLast = i === trackpoints.length - 1;
+    if (previous && distance - previous.distance < step && !isLast) return;
+    const run = previous ? distance - previous.distance : 0;
+    samples.push({
+      at: distance / total,
+      altitude: tp.altitude,
+      grade:
+        previous && run > 0
+          ? ((tp.altitude - previous.altitude) / run) * 100
+          : 0,
+    });
+    previous = { distance, altitude: tp.altitude };
+  });
+  // The first sample has no run of its own, give it the next one's grade
+  if (samples.length > 1) samples[0].grade = samples[1].grade;
+  return samples.length > 1 ? samples : [];
+}
+
+/**
+ * Stretches of the distance spent in each heart rate zone, merging
+ * neighbouring trackpoints in the same zone
+ */
+export function getHeartRateBands(
+  activity: StravaActivity,
+  maxHeartRate: number
+): HeartRateBand[] {
+  const trackpoints = activity.trackpoints ?? [];
+  const distances = getTrackpointDistances(trackpoints);
+  const total = distances[distances.length - 1] ?? 0;
+  if (total <= 0) return [];
+
+  const zoneOf = (heartRate: number) => {
+    const ratio = heartRate / maxHeartRate;
+    let zone = 0;
+    HEART_RATE_ZONES.forEach((bound, i) => {
+      if (ratio >= bound) zone = i;
+    });
+    return zone;
+  };
+
+  const bands: HeartRateBand[] = [];
+  trackpoints.forEach((tp, i) => {
+    if (!tp.heartRate) return;
+    const at = distances[i] / total;
+    const zone = zoneOf(tp.heartRate);
+    const last = bands[bands.length - 1];
+    if (last) last.end = at;
+    if (last?.zone !== zone) bands.push({ start: at, end: at, zone });
+  });
+  return bands.filter((band) => band.end > band.start);
+}
+
+/**
+ * Pace per split: the activity's laps when it has more than one, splits
+ * every splitDistance meters otherwise
+ */
+export function getPaceSplits(
+  activity: StravaActivity,
+  splitDistance: number = SPLIT_DISTANCES.km
+): PaceSplit[] {
+  const laps = (activity.laps ?? []).filter(
+    (lap) => lap.distance > 0 && (lap.movingTime ?? lap.elapsedTime) > 0
+  );
+  if (laps.length > 1) {
+    return laps.map((lap) => {
+      const time = lap.movingTime ?? lap.elapsedTime;
+      return {
+        distance: lap.distance,
+        time,
+        speed: lap.averageSpeed ?? lap.distance / time,
+      };
+    });
+  }
+
+  const splits =
+    activity.splits && splitDistance === SPLIT_DISTANCES.km
+      ? activity.splits
+      : generateSplits(activity.trackpoints ?? [], splitDistance);
+  const paceSplits = splits.map((split) => ({
+    distance: split.distance,
+    time: split.movingTime || split.elapsedTime,
+    speed: split.averageSpeed,
+  }));
+  // Fold a short trailing split into the one before, its pace is mostly noise
+  const last = paceSplits[paceSplits.length - 1];
+  if (paceSplits.length > 1 && last.distance < MIN_SPLIT_DISTANCE) {
+    paceSplits.pop();
+    const previous = paceSplits[paceSplits.length - 1];
+    previous.distance += last.distance;
+    previous.time += last.time;
+    previous.speed = previous.distance / previous.time;
+  }
+  return paceSplits;
+}
+
+/**
+ * A split's pace as "m:ss" per kilometre
+ */
+export function formatSplitPace(split: PaceSplit): string {
+  const secondsPerKm = Math.round(1000 / split.speed);
+  const minutes = Math.floor(secondsPerKm / 60);
+  const seconds = secondsPerKm % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
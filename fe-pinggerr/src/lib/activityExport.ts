@@ -0,0 +1,726 @@
+/**
+ * Activity export
+ * Serializes any loaded activity (Strava streams or uploaded files) back to
+ * TCX, GPX, FIT and CSV so it can be taken into other tools
+ */
+
+import type {
+  StravaActivity,
+  ActivityLap,
+  ActivityTrackpoint,
+} from "@/types/strava";
+
+export type ActivityExportFormat = "tcx" | "gpx" | "fit" | "csv";
+
+interface ExportLap {
+  lap: ActivityLap;
+  trackpoints: { trackpoint: ActivityTrackpoint; time: Date }[];
+}
+
+const EXPORT_MIME_TYPES: Record<ActivityExportFormat, string> = {
+  tcx: "application/vnd.garmin.tcx+xml",
+  gpx: "application/gpx+xml",
+  fit: "application/vnd.ant.fit",
+  csv: "text/csv",
+};
+
+/**
+ * Activity types counted as running for TCX sport and cadence fields
+ */
+const RUN_TYPES = ["Run", "TrailRun", "VirtualRun", "Running"];
+const RIDE_TYPES = [
+  "Ride",
+  "VirtualRide",
+  "MountainBikeRide",
+  "GravelRide",
+  "EBikeRide",
+  "Biking",
+];
+
+const isRun = (activity: StravaActivity) => RUN_TYPES.includes(activity.type);
+const isRide = (activity: StravaActivity) => RIDE_TYPES.includes(activity.type);
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Absolute timestamp of a trackpoint
+ * Strava streams only carry offsets from the activity start
+ */
+function getTrackpointTime(
+  activity: StravaActivity,
+  trackpoint: ActivityTrackpoint,
+  index: number
+): Date {
+  if (trackpoint.time) {
+    return new Date(trackpoint.time);
+  }
+
+  const start = Date.parse(activity.start_date);
+  return new Date(start + (trackpoint.timeOffset ?? index) * 1000);
+}
+
+const isRecorded = ({ trackpoint }: { trackpoint: ActivityTrackpoint }) =>
+  !trackpoint.synthetic;
+
+/**
+ * Group trackpoints by lap using lap start/end indices
+ * Activities without usable laps are exported as a single lap
+ * Points GPS cleanup interpolated into gaps weren't recorded and are left out
+ */
+function groupTrackpointsByLap(activity: StravaActivity): ExportLap[] {
+  const trackpoints = (activity.trackpoints || []).map((trackpoint, index) => ({
+    trackpoint,
+    time: getTrackpointTime(activity, trackpoint, index),
+  }));
+
+  const laps = (activity.laps || []).filter(
+    (lap) => lap.startIndex !== undefined && lap.endIndex !== undefined
+  );
+
+  if (laps.length === 0) {
+    return [
+      {
+        lap: {
+          startTime: (
+            trackpoints[0]?.time ?? new Date(activity.start_date)
+          ).toISOString(),
+          elapsedTime: activity.elapsed_time,
+          movingTime: activity.moving_time,
+          distance: activity.distance,
+          averageSpeed: activity.average_speed,
+          maxSpeed: activity.max_speed,
+          averageHeartrate: activity.average_heartrate,
+          maxHeartrate: activity.max_heartrate,
+          averageCadence: activity.average_cadence,
+          averageWatts: activity.average_watts,
+          maxWatts: activity.max_watts,
+          calories: activity.calories,
+          totalElevationGain: activity.total_elevation_gain,
+          startIndex: 0,
+          endIndex: trackpoints.length - 1,
+          lapIndex: 1,
+        },
+        trackpoints: trackpoints.filter(isRecorded),
+      },
+    ];
+  }
+
+  return laps.map((lap) => ({
+    lap,
+    trackpoints: trackpoints
+      .slice(lap.startIndex!, lap.endIndex! + 1)
+      .filter(isRecorded),
+  }));
+}
+
+const formatNumber = (value: number, digits: number) =>
+  Number(value.toFixed(digits)).toString();
+
+/**
+ * Serialize an activity as Garmin Training Center XML
+ */
+export function activityToTcx(activity: StravaActivity): string {
+  const sport = isRun(activity)
+    ? "Running"
+    : isRide(activity)
+    ? "Biking"
+    : "Other";
+  const runCadence = isRun(activity);
+  const laps = groupTrackpointsByLap(activity);
+  const lines: string[] = [];
+
+  lines.push(
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:ns3="http://www.garmin.com/xmlschemas/ActivityExtension/v2">',
+    "  <Activities>",
+    `    <Activity Sport="${sport}">`,
+    `      <Id>${new Date(activity.start_date).toISOString()}</Id>`
+  );
+
+  for (const { lap, trackpoints } of laps) {
+    lines.push(
+      `      <Lap StartTime="${new Date(lap.startTime).toISOString()}">`,
+      `        <TotalTimeSeconds>${formatNumber(
+        lap.elapsedTime,
+        1
+      )}</TotalTimeSeconds>`,
+      `        <DistanceMeters>${formatNumber(
+        lap.distance,
+        2
+      )}</DistanceMeters>`
+    );
+    if (lap.maxSpeed !== undefined) {
+      lines.push(
+        `        <MaximumSpeed>${formatNumber(lap.maxSpeed, 3)}</MaximumSpeed>`
+      );
+    }
+    lines.push(`        <Calories>${Math.round(lap.calories ?? 0)}</Calories>`);
+    if (lap.averageHeartrate !== undefined) {
+      lines.push(
+        `        <AverageHeartRateBpm><Value>${Math.round(
+          lap.averageHeartrate
+        )}</Value></AverageHeartRateBpm>`
+      );
+    }
+    if (lap.maxHeartrate !== undefined) {
+      lines.push(
+        `        <MaximumHeartRateBpm><Value>${Math.round(
+          lap.maxHeartrate
+        )}</Value></MaximumHeartRateBpm>`
+      );
+    }
+    lines.push("        <Intensity>Active</Intensity>");
+    if (lap.averageCadence !== undefined) {
+      lines.push(
+        `        <Cadence>${Math.round(lap.averageCadence)}</Cadence>`
+      );
+    }
+    lines.push(
+      "        <TriggerMethod>Manual</TriggerMethod>",
+      "        <Track>"
+    );
+
+    for (const { trackpoint: tp, time } of trackpoints) {
+      lines.push(
+        "          <Trackpoint>",
+        `            <Time>${time.toISOString()}</Time>`
+      );
+      if (tp.latitude !== undefined && tp.longitude !== undefined) {
+        lines.push(
+          `            <Position><LatitudeDegrees>${tp.latitude}</LatitudeDegrees><LongitudeDegrees>${tp.longitude}</LongitudeDegrees></Position>`
+        );
+      }
+      if (tp.altitude !== undefined) {
+        lines.push(
+          `            <AltitudeMeters>${formatNumber(
+            tp.altitude,
+            2
+          )}</AltitudeMeters>`
+        );
+      }
+      if (tp.distance !== undefined) {
+        lines.push(
+          `            <DistanceMeters>${formatNumber(
+            tp.distance,
+            2
+          )}</DistanceMeters>`
+        );
+      }
+      if (tp.heartRate !== undefined) {
+        lines.push(
+          `            <HeartRateBpm><Value>${Math.round(
+            tp.heartRate
+          )}</Value></HeartRateBpm>`
+        );
+      }
+      if (tp.cadence !== undefined && !runCadence) {
+        lines.push(`            <Cadence>${Math.round(tp.cadence)}</Cadence>`);
+      }
+
+      const extensions: string[] = [];
+      if (tp.speed !== undefined) {
+        extensions.push(`<ns3:Speed>${formatNumber(tp.speed, 3)}</ns3:Speed>`);
+      }
+      if (tp.cadence !== undefined && runCadence) {
+        extensions.push(
+          `<ns3:RunCadence>${Math.round(tp.cadence)}</ns3:RunCadence>`
+        );
+      }
+      if (tp.watts !== undefined) {
+        extensions.push(`<ns3:Watts>${Math.round(tp.watts)}</ns3:Watts>`);
+      }
+      if (extensions.length > 0) {
+        lines.push(
+          `            <Extensions><ns3:TPX>${extensions.join(
+            ""
+          )}</ns3:TPX></Extensions>`
+        );
+      }
+
+      lines.push("          </Trackpoint>");
+    }
+
+    lines.push("        </Track>", "      </Lap>");
+  }
+
+  lines.push(
+    "    </Activity>",
+    "  </Activities>",
+    "</TrainingCenterDatabase>",
+    ""
+  );
+
+  return lines.join("\n");
+}
+
+/**
+ * Serialize an activity as GPX 1.1 with Garmin TrackPointExtension sensor data
+ * Each lap is written as its own track segment
+ */
+export function activityToGpx(activity: StravaActivity): string {
+  const type = isRun(activity)
+    ? "running"
+    : isRide(activity)
+    ? "cycling"
+    : activity.type.toLowerCase();
+  const laps = groupTrackpointsByLap(activity);
+  const lines: string[] = [];
+
+  lines.push(
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Pinggerr" xmlns="http://www.topografix.com/GPX/1/1" xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v1">',
+    "  <metadata>",
+    `    <name>${escapeXml(activity.name)}</name>`,
+    `    <time>${new Date(activity.start_date).toISOString()}</time>`,
+    "  </metadata>",
+    "  <trk>",
+    `    <name>${escapeXml(activity.name)}</name>`,
+    `    <type>${escapeXml(type)}</type>`
+  );
+
+  for (const { trackpoints } of laps) {
+    lines.push("    <trkseg>");
+
+    for (const { trackpoint: tp, time } of trackpoints) {
+      // GPX requires a position for every track point
+      if (tp.latitude === undefined || tp.longitude === undefined) continue;
+
+      lines.push(`      <trkpt lat="${tp.latitude}" lon="${tp.longitude}">`);
+      if (tp.altitude !== undefined) {
+        lines.push(`        <ele>${formatNumber(tp.altitude, 2)}</ele>`);
+      }
+      lines.push(`        <time>${time.toISOString()}</time>`);
+
+      const extensions: string[] = [];
+      if (tp.temperature !== undefined) {
+        extensions.push(`<gpxtpx:atemp>${tp.temperature}</gpxtpx:atemp>`);
+      }
+      if (tp.heartRate !== undefined) {
+        extensions.push(`<gpxtpx:hr>${Math.round(tp.heartRate)}</gpxtpx:hr>`);
+      }
+      if (tp.cadence !== undefined) {
+        extensions.push(`<gpxtpx:cad>${Math.round(tp.cadence)}</gpxtpx:cad>`);
+      }
+      if (extensions.length > 0 || tp.watts !== undefined) {
+        lines.push(
+          `        <extensions>${
+            tp.watts !== undefined
+              ? `<power>${Math.round(tp.watts)}</power>`
+              : ""
+          }${
+            extensions.length > 0
+              ? `<gpxtpx:TrackPointExtension>${extensions.join(
+                  ""
+                )}</gpxtpx:TrackPointExtension>`
+              : ""
+          }</extensions>`
+        );
+      }
+
+      lines.push("      </trkpt>");
+    }
+
+    lines.push("    </trkseg>");
+  }
+
+  lines.push("  </trk>", "</gpx>", "");
+
+  return lines.join("\n");
+}
+
+/**
+ * Serialize trackpoints as CSV, one row per trackpoint with its lap number
+ */
+export function activityToCsv(activity: StravaActivity): string {
+  const columns = [
+    "lap",
+    "time",
+    "elapsed_seconds",
+    "latitude",
+    "longitude",
+    "altitude_m",
+    "distance_m",
+    "heart_rate_bpm",
+    "speed_mps",
+    "cadence",
+    "watts",
+    "temperature_c",
+    "grade_pct",
+    "moving",
+  ];
+  const startTime = Date.parse(activity.start_date);
+  const rows = [columns.join(",")];
+
+  for (const { lap, trackpoints } of groupTrackpointsByLap(activity)) {
+    for (const { trackpoint: tp, time } of trackpoints) {
+      const values = [
+        lap.lapIndex,
+        time.toISOString(),
+        tp.timeOffset ?? (time.getTime() - startTime) / 1000,
+        tp.latitude,
+        tp.longitude,
+        tp.altitude,
+        tp.distance,
+        tp.heartRate,
+        tp.speed,
+        tp.cadence,
+        tp.watts,
+        tp.temperature,
+        tp.grade,
+        tp.moving,
+      ];
+      rows.push(
+        values.map((v) => (v === undefined ? "" : String(v))).join(",")
+      );
+    }
+  }
+
+  return rows.join("\n") + "\n";
+}
+
+/**
+ * FIT base types used by the encoder
+ */
+const FIT_BASE_TYPE = {
+  enum: { id: 0x00, size: 1, invalid: 0xff },
+  sint8: { id: 0x01, size: 1, invalid: 0x7f },
+  uint8: { id: 0x02, size: 1, invalid: 0xff },
+  sint16: { id: 0x83, size: 2, invalid: 0x7fff },
+  uint16: { id: 0x84, size: 2, invalid: 0xffff },
+  sint32: { id: 0x85, size: 4, invalid: 0x7fffffff },
+  uint32: { id: 0x86, size: 4, invalid: 0xffffffff },
+} as const;
+
+type FitBaseType = (typeof FIT_BASE_TYPE)[keyof typeof FIT_BASE_TYPE];
+
+type FitFieldSpec = [fieldNumber: number, baseType: FitBaseType];
+
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+const DEGREES_TO_SEMICIRCLES = 2 ** 31 / 180;
+
+const FIT_SPORTS: Record<string, number> = {
+  Run: 1,
+  TrailRun: 1,
+  VirtualRun: 1,
+  Running: 1,
+  Ride: 2,
+  VirtualRide: 2,
+  MountainBikeRide: 2,
+  GravelRide: 2,
+  EBikeRide: 2,
+  Biking: 2,
+  Swim: 5,
+  Walk: 11,
+  Hike: 17,
+};
+
+const FIT_CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001,
+  0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+function fitCrc(bytes: Uint8Array, start = 0, end = bytes.length): number {
+  let crc = 0;
+  for (let i = start; i < end; i++) {
+    const byte = bytes[i];
+    let tmp = FIT_CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ FIT_CRC_TABLE[byte & 0xf];
+    tmp = FIT_CRC_TABLE[crc & 0xf];
+    crc = (crc >> 4) & 0x0fff;
+    crc = crc ^ tmp ^ FIT_CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+/**
+ * Minimal little-endian FIT message writer
+ */
+class FitWriter {
+  private bytes: number[] = [];
+  private definitions = new Map<number, FitFieldSpec[]>();
+
+  define(
+    localType: number,
+    globalMessageNumber: number,
+    fields: FitFieldSpec[]
+  ) {
+    this.definitions.set(localType, fields);
+    this.bytes.push(0x40 | localType, 0, 0);
+    this.pushUint(globalMessageNumber, 2);
+    this.bytes.push(fields.length);
+    for (const [fieldNumber, baseType] of fields) {
+      this.bytes.push(fieldNumber, baseType.size, baseType.id);
+    }
+  }
+
+  write(localType: number, values: (number | undefined)[]) {
+    const fields = this.definitions.get(localType)!;
+    this.bytes.push(localType);
+
+    fields.forEach(([, baseType], index) => {
+      const value = values[index];
+      const valid =
+        value !== undefined &&
+        Number.isFinite(value) &&
+        (baseType === FIT_BASE_TYPE.sint8 ||
+        baseType === FIT_BASE_TYPE.sint16 ||
+        baseType === FIT_BASE_TYPE.sint32
+          ? Math.abs(value) < baseType.invalid
+          : value >= 0 && value < baseType.invalid);
+
+      this.pushUint(
+        valid ? Math.round(value) : baseType.invalid,
+        baseType.size
+      );
+    });
+  }
+
+  toUint8Array(): Uint8Array {
+    const header = new Uint8Array(14);
+    const headerView = new DataView(header.buffer);
+    headerView.setUint8(0, 14);
+    headerView.setUint8(1, 0x20); // protocol version 2.0
+    headerView.setUint16(2, 2132, true); // profile version 21.32
+    headerView.setUint32(4, this.bytes.length, true);
+    header.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    headerView.setUint16(12, fitCrc(header, 0, 12), true);
+
+    const file = new Uint8Array(14 + this.bytes.length + 2);
+    file.set(header, 0);
+    file.set(this.bytes, 14);
+    const crc = fitCrc(file, 0, file.length - 2);
+    file[file.length - 2] = crc & 0xff;
+    file[file.length - 1] = (crc >> 8) & 0xff;
+
+    return file;
+  }
+
+  private pushUint(value: number, size: number) {
+    for (let i = 0; i < size; i++) {
+      this.bytes.push((value >>> (8 * i)) & 0xff);
+    }
+  }
+}
+
+const toFitTimestamp = (date: Date) =>
+  Math.round(date.getTime() / 1000) - FIT_EPOCH_OFFSET_SECONDS;
+
+/**
+ * Serialize an activity as a FIT activity file
+ * (file_id, records, laps, session and activity messages)
+ */
+export function activityToFit(activity: StravaActivity): Uint8Array {
+  const {
+    enum: fitEnum,
+    sint8,
+    uint8,
+    sint16,
+    uint16,
+    sint32,
+    uint32,
+  } = FIT_BASE_TYPE;
+  const laps = groupTrackpointsByLap(activity);
+  const startDate = new Date(activity.start_date);
+  const lastTrackpoints = laps[laps.length - 1]?.trackpoints;
+  const endDate =
+    lastTrackpoints?.[lastTrackpoints.length - 1]?.time ??
+    new Date(startDate.getTime() + activity.elapsed_time * 1000);
+  const writer = new FitWriter();
+
+  // file_id
+  writer.define(0, 0, [
+    [0, fitEnum],
+    [1, uint16],
+    [2, uint16],
+    [4, uint32],
+  ]);
+  writer.write(0, [4, 255, 0, toFitTimestamp(startDate)]);
+
+  // record
+  writer.define(1, 20, [
+    [253, uint32],
+    [0, sint32],
+    [1, sint32],
+    [78, uint32],
+    [5, uint32],
+    [73, uint32],
+    [3, uint8],
+    [4, uint8],
+    [7, uint16],
+    [13, sint8],
+    [9, sint16],
+  ]);
+
+  // lap
+  writer.define(2, 19, [
+    [253, uint32],
+    [2, uint32],
+    [7, uint32],
+    [8, uint32],
+    [9, uint32],
+    [11, uint16],
+    [110, uint32],
+    [111, uint32],
+    [15, uint8],
+    [16, uint8],
+    [17, uint8],
+    [19, uint16],
+    [20, uint16],
+    [21, uint16],
+    [254, uint16],
+    [0, fitEnum],
+    [1, fitEnum],
+  ]);
+
+  laps.forEach(({ lap, trackpoints }, index) => {
+    for (const { trackpoint: tp, time } of trackpoints) {
+      writer.write(1, [
+        toFitTimestamp(time),
+        tp.latitude !== undefined
+          ? tp.latitude * DEGREES_TO_SEMICIRCLES
+          : undefined,
+        tp.longitude !== undefined
+          ? tp.longitude * DEGREES_TO_SEMICIRCLES
+          : undefined,
+        tp.altitude !== undefined ? (tp.altitude + 500) * 5 : undefined,
+        tp.distance !== undefined ? tp.distance * 100 : undefined,
+        tp.speed !== undefined ? tp.speed * 1000 : undefined,
+        tp.heartRate,
+        tp.cadence,
+        tp.watts,
+        tp.temperature,
+        tp.grade !== undefined ? tp.grade * 100 : undefined,
+      ]);
+    }
+
+    const lapStart = new Date(lap.startTime);
+    const lapEnd =
+      trackpoints[trackpoints.length - 1]?.time ??
+      new Date(lapStart.getTime() + lap.elapsedTime * 1000);
+
+    writer.write(2, [
+      toFitTimestamp(lapEnd),
+      toFitTimestamp(lapStart),
+      lap.elapsedTime * 1000,
+      (lap.movingTime ?? lap.elapsedTime) * 1000,
+      lap.distance * 100,
+      lap.calories,
+      lap.averageSpeed !== undefined ? lap.averageSpeed * 1000 : undefined,
+      lap.maxSpeed !== undefined ? lap.maxSpeed * 1000 : undefined,
+      lap.averageHeartrate,
+      lap.maxHeartrate,
+      lap.averageCadence,
+      lap.averageWatts,
+      lap.maxWatts,
+      lap.totalElevationGain,
+      index,
+      9, // event: lap
+      1, // event_type: stop
+    ]);
+  });
+
+  // session
+  writer.define(3, 18, [
+    [253, uint32],
+    [2, uint32],
+    [5, fitEnum],
+    [7, uint32],
+    [8, uint32],
+    [9, uint32],
+    [11, uint16],
+    [124, uint32],
+    [125, uint32],
+    [16, uint8],
+    [17, uint8],
+    [18, uint8],
+    [20, uint16],
+    [21, uint16],
+    [22, uint16],
+    [25, uint16],
+    [26, uint16],
+    [0, fitEnum],
+    [1, fitEnum],
+  ]);
+  writer.write(3, [
+    toFitTimestamp(endDate),
+    toFitTimestamp(startDate),
+    FIT_SPORTS[activity.type] ?? 0,
+    activity.elapsed_time * 1000,
+    activity.moving_time * 1000,
+    activity.distance * 100,
+    activity.calories,
+    activity.average_speed !== undefined
+      ? activity.average_speed * 1000
+      : undefined,
+    activity.max_speed !== undefined ? activity.max_speed * 1000 : undefined,
+    activity.average_heartrate,
+    activity.max_heartrate,
+    activity.average_cadence,
+    activity.average_watts,
+    activity.max_watts,
+    activity.total_elevation_gain,
+    0,
+    laps.length,
+    8, // event: session
+    1, // event_type: stop
+  ]);
+
+  // activity
+  writer.define(4, 34, [
+    [253, uint32],
+    [0, uint32],
+    [1, uint16],
+    [2, fitEnum],
+    [3, fitEnum],
+    [4, fitEnum],
+  ]);
+  writer.write(4, [
+    toFitTimestamp(endDate),
+    activity.moving_time * 1000,
+    1,
+    0, // type: manual
+    26, // event: activity
+    1, // event_type: stop
+  ]);
+
+  return writer.toUint8Array();
+}
+
+/**
+ * Serialize an activity in the given format and trigger a browser download
+ */
+export function downloadActivityFile(
+  activity: StravaActivity,
+  format: ActivityExportFormat
+) {
+  const content =
+    format === "tcx"
+      ? activityToTcx(activity)
+      : format === "gpx"
+      ? activityToGpx(activity)
+      : format === "fit"
+      ? activityToFit(activity)
+      : activityToCsv(activity);
+
+  const blob = new Blob([content], { type: EXPORT_MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+
+  // Create download link
+  const link = document.createElement("a");
+  link.download = `${activity.name
+    .replace(/[^a-z0-9]/gi, "_")
+    .toLowerCase()}.${format}`;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
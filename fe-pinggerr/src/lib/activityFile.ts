@@ -0,0 +1,110 @@
+/**
+ * Activity file import
+ * Routes uploaded activity files to the matching parser
+ */
+
+import type { StravaActivity } from "@/types/strava";
+import { processTcxFromFile } from "@/lib/tcxParser";
+import { processGpxFromFile } from "@/lib/gpxParser";
+import { processFitFromFile } from "@/lib/fitParser";
+import { mergeActivities } from "@/lib/activityMerge";
+import {
+  correctActivityElevation,
+  type ElevationModel,
+} from "@/lib/elevationModels";
+
+export interface ActivityFileProcessingOptions {
+  // Called with parsing progress from 0 to 1 (only for parsers that stream)
+  onProgress?: (progress: number) => void;
+  // Aborting cancels processing and rejects with an AbortError
+  signal?: AbortSignal;
+  // Recompute altitude from this model once the files are parsed
+  elevationModel?: ElevationModel;
+}
+
+const activityFileProcessors: Record<
+  string,
+  (
+    file: File,
+    options: ActivityFileProcessingOptions
+  ) => Promise<StravaActivity>
+> = {
+  ".tcx": processTcxFromFile,
+  ".gpx": processGpxFromFile,
+  ".fit": processFitFromFile,
+};
+
+/**
+ * File extensions accepted by the upload flow (for `<input accept>`)
+ */
+export const SUPPORTED_ACTIVITY_FILE_EXTENSIONS = Object.keys(
+  activityFileProcessors
+);
+
+/**
+ * Process an uploaded activity file based on its extension
+ */
+export async function processActivityFile(
+  file: File,
+  options: ActivityFileProcessingOptions = {}
+): Promise<StravaActivity> {
+  const fileName = file.name.toLowerCase();
+  const extension = SUPPORTED_ACTIVITY_FILE_EXTENSIONS.find((ext) =>
+    fileName.endsWith(ext)
+  );
+
+  if (!extension) {
+    throw new Error(
+      `Unsupported file type. Please select a ${SUPPORTED_ACTIVITY_FILE_EXTENSIONS.join(
+        " or "
+      )} file`
+    );
+  }
+
+  return activityFileProcessors[extension](file, options);
+}
+
+// Parse the files and merge them when there are several
+const parseActivityFiles = async (
+  files: File[],
+  { onProgress, signal }: ActivityFileProcessingOptions
+): Promise<StravaActivity> => {
+  if (files.length === 1) {
+    return processActivityFile(files[0], { onProgress, signal });
+  }
+
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0) || 1;
+  const activities: StravaActivity[] = [];
+  let processedBytes = 0;
+
+  for (const file of files) {
+    const activity = await processActivityFile(file, {
+      onProgress: (progress) =>
+        onProgress?.((processedBytes + progress * file.size) / totalBytes),
+      signal,
+    });
+    signal?.throwIfAborted();
+
+    activities.push(activity);
+    processedBytes += file.size;
+    onProgress?.(processedBytes / totalBytes);
+  }
+
+  return mergeActivities(activities);
+};
+
+/**
+ * Process several files of one split recording and merge them into a
+ * single activity, optionally correcting its altitude from an elevation
+ * model. Progress is weighted by file size.
+ */
+export async function processActivityFiles(
+  files: File[],
+  { onProgress, signal, elevationModel }: ActivityFileProcessingOptions = {}
+): Promise<StravaActivity> {
+  const activity = await parseActivityFiles(files, { onProgress, signal });
+  if (!elevationModel) return activity;
+  const corrected = await correctActivityElevation(activity, elevationModel);
+  signal?.throwIfAborted();
+  return corrected;
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import type { StravaActivity } from "@/types/strava";
+import { mergeActivities } from "@/lib/activityMerge";
+
+// A 1 km file at 3.33 m/s (300 s), one trackpoint every 10 s
+const createActivity = (name: string, startDate: string): StravaActivity =>
+  ({
+    id: 1,
+    name,
+    source: "tcx",
+    start_date: startDate,
+    distance: 1000,
+    moving_time: 300,
+    elapsed_time: 300,
+    total_elevation_gain: 0,
+    trackpoints: Array.from({ length: 31 }, (_, i) => ({
+      time: new Date(Date.parse(startDate) + i * 10_000).toISOString(),
+      distance: (1000 / 30) * i,
+      latitude: 50,
+      longitude: 8,
+      moving: true,
+    })),
+  } as unknown as StravaActivity);
+
+describe("mergeActivities", () => {
+  const merged = mergeActivities([
+    // Second file after a 10 minute break, given out of order
+    createActivity("second", "2024-05-01T08:15:00Z"),
+    createActivity("first", "2024-05-01T08:00:00Z"),
+  ]);
+
+  it("continues distances from the previous file's last trackpoint", () => {
+    const distances = merged.trackpoints!.map((tp) => tp.distance!);
+    expect(distances[30]).toBeCloseTo(1000);
+    expect(distances[31]).toBeCloseTo(1000);
+    expect(distances[distances.length - 1]).toBeCloseTo(2000);
+  });
+
+  it("records the gap between files as a pause", () => {
+    expect(merged.pauses).toContainEqual({
+      startIndex: 30,
+      endIndex: 31,
+      duration: 600,
+    });
+    expect(merged.moving_time).toBe(600);
+  });
+
+  it("leaves the gap between files out of the split moving times", () => {
+    expect(merged.splits!.map((split) => split.movingTime)).toEqual([
+      expect.closeTo(300),
+      expect.closeTo(300),
+    ]);
+    expect(merged.splits![1].elapsedTime).toBeCloseTo(900);
+  });
+
+  it("puts files without a start time last", () => {
+    const undated = createActivity("undated", "2024-05-01T09:00:00Z");
+    undated.start_date = "";
+    undated.trackpoints = undated.trackpoints!.map((tp, i) => ({
+      ...tp,
+      time: undefined,
+      timeOffset: i * 10,
+    }));
+    const result = mergeActivities([
+      undated,
+      createActivity("first", "2024-05-01T08:00:00Z"),
+    ]);
+    expect(result.name).toBe("first");
+  });
+
+  it("rejects files that overlap in time", () => {
+    expect(() =>
+      mergeActivities([
+        createActivity("first", "2024-05-01T08:00:00Z"),
+        createActivity("second", "2024-05-01T08:02:00Z"),
+      ])
+    ).toThrow(/overlap/);
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * Activity merge
+ * Combines split recordings of one effort (e.g. after a watch crash) into a
+ * single activity with continuous distance and renumbered laps
+ */
+
+import type {
+  StravaActivity,
+  ActivityLap,
+  ActivityPause,
+  ActivityTrackpoint,
+} from "@/types/strava";
+import { encode } from "@mapbox/polyline";
+import { generateSplits } from "@/lib/activitySplits";
+
+/**
+ * Start time of an activity in milliseconds (first trackpoint, then start_date)
+ */
+function getStartTime(activity: StravaActivity): number {
+  const firstTime = activity.trackpoints?.find((tp) => tp.time)?.time;
+  return Date.parse(firstTime || activity.start_date);
+}
+
+/**
+ * End time of an activity in milliseconds (last trackpoint, then elapsed time)
+ */
+function getEndTime(activity: StravaActivity): number {
+  const lastTime = [...(activity.trackpoints || [])]
+    .reverse()
+    .find((tp) => tp.time)?.time;
+  return lastTime
+    ? Date.parse(lastTime)
+    : getStartTime(activity) + activity.elapsed_time * 1000;
+}
+
+/**
+ * Distance of the last trackpoint that has one, where the next file's
+ * distances continue from
+ */
+function getLastTrackpointDistance(
+  activity: StravaActivity
+): number | undefined {
+  return [...(activity.trackpoints || [])]
+    .reverse()
+    .find((tp) => tp.distance !== undefined)?.distance;
+}
+
+const formatStart = (activity: StravaActivity) =>
+  new Date(getStartTime(activity)).toISOString();
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, v) => sum + v, 0) / values.length
+    : undefined;
+
+/**
+ * Merge several activities into one, ordered by start time
+ * Gaps between files are recorded as pauses and excluded from moving time
+ * Files without a usable start time go last; files overlapping in time are
+ * not parts of one recording and are rejected
+ */
+export function mergeActivities(activities: StravaActivity[]): StravaActivity {
+  if (activities.length === 0) {
+    throw new Error("No activities to merge");
+  }
+  if (activities.length === 1) {
+    return activities[0];
+  }
+
+  const sortKey = (activity: StravaActivity) => {
+    const start = getStartTime(activity);
+    return Number.isNaN(start) ? Infinity : start;
+  };
+  const sorted = [...activities].sort((a, b) => {
+    const [startA, startB] = [sortKey(a), sortKey(b)];
+    return startA === startB ? 0 : startA < startB ? -1 : 1;
+  });
+  const firstStart = getStartTime(sorted[0]);
+
+  sorted.slice(1).forEach((activity, i) => {
+    if (getStartTime(activity) < getEndTime(sorted[i])) {
+      throw new Error(
+        `Files overlap in time (${activity.name} starts ${formatStart(
+          activity
+        )}, before ${sorted[i].name} ends), they can't be merged`
+      );
+    }
+  });
+
+  const trackpoints: ActivityTrackpoint[] = [];
+  const laps: ActivityLap[] = [];
+  const pauses: ActivityPause[] = [];
+
+  let distanceOffset = 0;
+  let previousEnd: number | undefined;
+
+  sorted.forEach((activity) => {
+    const indexOffset = trackpoints.length;
+    const start = getStartTime(activity);
+    const timeOffsetBase = (start - firstStart) / 1000;
+
+    // Gap between the end of the previous file and the start of this one
+    if (previousEnd !== undefined && indexOffset > 0) {
+      const gapSeconds = Math.max(0, (start - previousEnd) / 1000) || 0;
+      pauses.push({
+        startIndex: indexOffset - 1,
+        endIndex: indexOffset,
+        duration: gapSeconds,
+      });
+    }
+
+    (activity.trackpoints || []).forEach((tp, i) => {
+      trackpoints.push({
+        ...tp,
+        // The stretch up to a later file's first point is the gap between
+        // files, which isn't moving time
+        ...(indexOffset > 0 && i === 0 && { moving: false }),
+        timeOffset:
+          tp.time !== undefined
+            ? (Date.parse(tp.time) - firstStart) / 1000
+            : tp.timeOffset !== undefined
+            ? tp.timeOffset + timeOffsetBase
+            : undefined,
+        distance:
+          tp.distance !== undefined ? tp.distance + distanceOffset : undefined,
+      });
+    });
+
+    (activity.pauses || []).forEach((pause) => {
+      pauses.push({
+        ...pause,
+        startIndex: pause.startIndex + indexOffset,
+        endIndex: pause.endIndex + indexOffset,
+      });
+    });
+
+    (activity.laps || []).forEach((lap) => {
+      laps.push({
+        ...lap,
+        startIndex:
+          lap.startIndex !== undefined
+            ? lap.startIndex + indexOffset
+            : undefined,
+        endIndex:
+          lap.endIndex !== undefined ? lap.endIndex + indexOffset : undefined,
+        lapIndex: laps.length + 1, // 1-based lap number across all files
+      });
+    });
+
+    // Continue from where this file's track ends, the summary distance
+    // can differ from it (e.g. lap totals or moving distance)
+    distanceOffset += getLastTrackpointDistance(activity) ?? activity.distance;
+    previousEnd = getEndTime(activity);
+  });
+
+  const last = sorted[sorted.length - 1];
+  const totalDistance = sorted.reduce((sum, a) => sum + a.distance, 0);
+  const movingTime = sorted.reduce((sum, a) => sum + a.moving_time, 0);
+  const elapsedTime = Math.max(
+    sorted.reduce((sum, a) => sum + a.elapsed_time, 0),
+    (getEndTime(last) - firstStart) / 1000
+  );
+
+  // Generate polyline from the merged track
+  const coordinates: [number, number][] = trackpoints
+    .filter((tp) => tp.latitude && tp.longitude)
+    .map((tp) => [tp.latitude!, tp.longitude!] as [number, number]);
+  const polyline = coordinates.length > 0 ? encode(coordinates, 5) : undefined;
+
+  // Recalculate sensor averages across all files
+  const heartRates = trackpoints
+    .filter((tp) => tp.heartRate && tp.heartRate > 0)
+    .map((tp) => tp.heartRate!);
+  const cadences = trackpoints
+    .filter((tp) => tp.cadence && tp.cadence > 0)
+    .map((tp) => tp.cadence!);
+  const watts = trackpoints
+    .filter((tp) => tp.watts && tp.watts > 0)
+    .map((tp) => tp.watts!);
+
+  // Elevation totals add up across files when every file has them
+  const elevations = sorted.map((a) => a.elevation);
+  const sumTotals = (key: "raw" | "corrected") => ({
+    gain: elevations.reduce((sum, e) => sum + (e?.[key]?.gain ?? 0), 0),
+    loss: elevations.reduce((sum, e) => sum + (e?.[key]?.loss ?? 0), 0),
+  });
+  const elevation = elevations.every(Boolean)
+    ? {
+        raw: elevations.every((e) => e!.raw) ? sumTotals("raw") : undefined,
+        corrected: sumTotals("corrected"),
+        source: "recorded" as const, // DEM correction runs after merging
+      }
+    : undefined;
+
+  // GPS cleanup of the files that had it, for the before/after preview
+  const cleanups = sorted.flatMap((a) => (a.gpsCleanup ? [a.gpsCleanup] : []));
+  const gpsCleanup =
+    cleanups.length > 0
+      ? {
+          removed: cleanups.reduce((sum, c) => sum + c.removed, 0),
+          synthetic: cleanups.reduce((sum, c) => sum + c.synthetic, 0),
+          rawRoute: cleanups.flatMap((c) => c.rawRoute ?? []),
+        }
+      : undefined;
+
+  const maxValue = (values: (number | undefined)[]) => {
+    const defined = values.filter((v): v is number => v !== undefined);
+    return defined.length > 0 ? Math.max(...defined) : undefined;
+  };
+
+  return {
+    ...sorted[0],
+    distance: totalDistance,
+    moving_time: movingTime,
+    elapsed_time: elapsedTime,
+    total_elevation_gain: sorted.reduce(
+      (sum, a) => sum + a.total_elevation_gain,
+      0
+    ),
+    start_latlng: coordinates[0] ?? sorted[0].start_latlng,
+    end_latlng: coordinates[coordinates.length - 1] ?? last.end_latlng,
+    map: polyline
+      ? {
+          id: `${sorted[0].source}_map`,
+          polyline: polyline,
+          summary_polyline: polyline,
+          resource_state: 2,
+        }
+      : undefined,
+    average_speed: movingTime > 0 ? totalDistance / movingTime : 0,
+    max_speed: maxValue(sorted.map((a) => a.max_speed)),
+    average_cadence: average(cadences),
+    average_watts: average(watts),
+    max_watts: maxValue(sorted.map((a) => a.max_watts)),
+    calories: sorted.some((a) => a.calories !== undefined)
+      ? sorted.reduce((sum, a) => sum + (a.calories ?? 0), 0)
+      : undefined,
+    has_heartrate: heartRates.length > 0,
+    average_heartrate: average(heartRates),
+    max_heartrate: maxValue(sorted.map((a) => a.max_heartrate)),
+    laps,
+    splits: generateSplits(trackpoints),
+    trackpoints,
+    pauses,
+    elevation,
+    gpsCleanup,
+  };
+}
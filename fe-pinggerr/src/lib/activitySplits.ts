@@ -0,0 +1,135 @@
+/**
+ * Activity splits
+ * Virtual splits at a fixed distance from the trackpoints, for split tables
+ * when the recorded laps don't provide them. Boundaries are interpolated
+ * between trackpoints, so every split but the last is exactly the distance
+ */
+
+import type { ActivitySplit, ActivityTrackpoint } from "@/types/strava";
+import {
+  getTrackpointDistances,
+  getTrackpointMovingTimes,
+  getTrackpointTimes,
+} from "@/lib/trackpoints";
+
+export const SPLIT_DISTANCES = {
+  km: 1000,
+  mile: 1609.344,
+};
+
+// A trailing split shorter than this is GPS drift past the finish
+const MIN_LAST_SPLIT_DISTANCE = 10;
+
+interface SplitBoundary {
+  index: number; // trackpoint at or before the boundary
+  distance: number;
+  time: number;
+  movingTime: number;
+  altitude?: number;
+}
+
+const interpolate = (from: number, to: number, fraction: number) =>
+  from + (to - from) * fraction;
+
+/**
+ * Split the trackpoints every splitDistance meters. Trackpoints without a time
+ * are skipped; an activity without timed trackpoints has no splits
+ */
+export function generateSplits(
+  trackpoints: ActivityTrackpoint[],
+  splitDistance: number = SPLIT_DISTANCES.km
+): ActivitySplit[] {
+  const distances = getTrackpointDistances(trackpoints);
+  const times = getTrackpointTimes(trackpoints);
+  const movingTimes = getTrackpointMovingTimes(trackpoints);
+  const splits: ActivitySplit[] = [];
+  if (splitDistance <= 0) return splits;
+
+  let start: SplitBoundary | undefined;
+  let previous = -1; // last timed trackpoint
+  let heartRates: number[] = [];
+
+  const pushSplit = (end: SplitBoundary, endIndex: number) => {
+    if (!start) return;
+    const distance = end.distance - start.distance;
+    const elapsedTime = end.time - start.time;
+    const movingTime = end.movingTime - start.movingTime;
+    if (distance <= 0 || elapsedTime <= 0) return;
+    splits.push({
+      splitIndex: splits.length + 1,
+      distance,
+      elapsedTime,
+      movingTime,
+      averageSpeed: distance / (movingTime > 0 ? movingTime : elapsedTime),
+      averageHeartrate: heartRates.length
+        ? heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length
+        : undefined,
+      elevationDelta:
+        start.altitude !== undefined && end.altitude !== undefined
+          ? end.altitude - start.altitude
+          : undefined,
+      startIndex: start.index,
+      endIndex,
+    });
+  };
+
+  trackpoints.forEach((tp, i) => {
+    if (!Number.isFinite(times[i])) return;
+    if (!start) {
+      start = {
+        index: i,
+        distance: distances[i],
+        time: times[i],
+        movingTime: movingTimes[i],
+        altitude: tp.altitude,
+      };
+      previous = i;
+      return;
+    }
+
+    // One stretch between trackpoints can cross several boundaries
+    while (distances[i] - start.distance >= splitDistance) {
+      const distance = start.distance + splitDistance;
+      const span = distances[i] - distances[previous];
+      const fraction = span > 0 ? (distance - distances[previous]) / span : 1;
+      const from = trackpoints[previous].altitude;
+      const boundary: SplitBoundary = {
+        index: previous,
+        distance,
+        time: interpolate(times[previous], times[i], fraction),
+        movingTime: interpolate(
+          movingTimes[previous],
+          movingTimes[i],
+          fraction
+        ),
+        altitude:
+          from !== undefined && tp.altitude !== undefined
+            ? interpolate(from, tp.altitude, fraction)
+            : tp.altitude ?? from,
+      };
+      pushSplit(boundary, i);
+      start = boundary;
+      heartRates = [];
+    }
+
+    if (tp.heartRate) heartRates.push(tp.heartRate);
+    previous = i;
+  });
+
+  if (
+    start &&
+    distances[previous] - start.distance >= MIN_LAST_SPLIT_DISTANCE
+  ) {
+    pushSplit(
+      {
+        index: previous,
+        distance: distances[previous],
+        time: times[previous],
+        movingTime: movingTimes[previous],
+        altitude: trackpoints[previous].altitude,
+      },
+      previous
+    );
+  }
+  return splits;
+}
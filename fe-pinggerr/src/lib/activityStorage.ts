@@ -0,0 +1,186 @@
+/**
+ * Activity storage service
+ * Client for the Worker's per-athlete saved activity storage, used as a
+ * durable, cross-device cache in front of the Strava API, and for the
+ * activity changes Strava pushes to the Worker
+ */
+
+import { config } from "@/config/env";
+import type {
+  StravaTokens,
+  StravaActivity,
+  ActivityTrackpoint,
+} from "@/types/strava";
+
+export interface SavedActivitySummary {
+  id: number;
+  name: string;
+  start_date: string;
+  saved_at: number;
+}
+
+export interface ActivityChange {
+  activity_id: number;
+  aspect_type: "create" | "update" | "delete";
+  updates?: Record<string, string>;
+  event_time: number;
+  received_at: number;
+}
+
+export class ActivityStorageApi {
+  private baseUrl = config.workerUrl;
+  private tokens: StravaTokens;
+
+  constructor(tokens: StravaTokens) {
+    this.tokens = tokens;
+  }
+
+  /**
+   * Make authenticated request to the storage endpoints
+   * Returns null when the requested item has not been saved
+   */
+  private async makeRequest<T>(
+    endpoint: string,
+    options?: RequestInit
+  ): Promise<T | null> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      ...options,
+      headers: {
+        Authorization: `Bearer ${this.tokens.access_token}`,
+        ...options?.headers,
+      },
+    });
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      if (response.status === 401) {
+        throw new Error("UNAUTHORIZED");
+      }
+      throw new Error(`Activity storage error: ${response.statusText}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * List the athlete's saved activities (newest first)
+   */
+  async listActivities(): Promise<SavedActivitySummary[]> {
+    const result = await this.makeRequest<{
+      activities: SavedActivitySummary[];
+    }>("/activities");
+    return result?.activities ?? [];
+  }
+
+  /**
+   * Get a saved activity without its trackpoints
+   */
+  async getActivity(activityId: number): Promise<StravaActivity | null> {
+    return this.makeRequest<StravaActivity>(`/activities/${activityId}`);
+  }
+
+  /**
+   * Get a saved activity together with its trackpoints, if any were saved
+   */
+  async getActivityWithStreams(
+    activityId: number
+  ): Promise<StravaActivity | null> {
+    const [activity, trackpoints] = await Promise.all([
+      this.getActivity(activityId),
+      this.getActivityStreams(activityId),
+    ]);
+
+    if (!activity) return null;
+    return trackpoints ? { ...activity, trackpoints } : activity;
+  }
+
+  /**
+   * Save an activity (trackpoints, if present, are stored as its streams)
+   * The recorded route kept for the GPS cleanup preview is left out, it
+   * would store the route twice
+   */
+  async saveActivity(activity: StravaActivity): Promise<void> {
+    const { gpsCleanup } = activity;
+    const stored: StravaActivity = gpsCleanup
+      ? {
+          ...activity,
+          gpsCleanup: {
+            removed: gpsCleanup.removed,
+            synthetic: gpsCleanup.synthetic,
+          },
+        }
+      : activity;
+    await this.makeRequest(`/activities/${activity.id}`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(stored),
+    });
+  }
+
+  /**
+   * Delete a saved activity and its streams
+   */
+  async deleteActivity(activityId: number): Promise<void> {
+    await this.makeRequest(`/activities/${activityId}`, { method: "DELETE" });
+  }
+
+  /**
+   * Get saved trackpoints for an activity
+   */
+  async getActivityStreams(
+    activityId: number
+  ): Promise<ActivityTrackpoint[] | null> {
+    return this.makeRequest<ActivityTrackpoint[]>(
+      `/activities/${activityId}/streams`
+    );
+  }
+
+  /**
+   * Save trackpoints for an activity
+   */
+  async saveActivityStreams(
+    activityId: number,
+    trackpoints: ActivityTrackpoint[]
+  ): Promise<void> {
+    await this.makeRequest(`/activities/${activityId}/streams`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(trackpoints),
+    });
+  }
+
+  /**
+   * Get activity changes pushed by Strava since the given cursor
+   * Pass the returned `latest` as `since` on the next call
+   */
+  async getChanges(since: number): Promise<{
+    athleteId: number | null;
+    changes: ActivityChange[];
+    latest: number;
+  }> {
+    const result = await this.makeRequest<{
+      athlete_id: number;
+      changes: ActivityChange[];
+      latest: number;
+    }>(`/changes?since=${since}`);
+    return result
+      ? {
+          athleteId: result.athlete_id,
+          changes: result.changes,
+          latest: result.latest,
+        }
+      : { athleteId: null, changes: [], latest: since };
+  }
+}
+
+/**
+ * Create ActivityStorageApi instance with tokens
+ */
+export function createActivityStorageApi(
+  tokens: StravaTokens | null
+): ActivityStorageApi | null {
+  if (!tokens?.access_token) return null;
+  return new ActivityStorageApi(tokens);
+}
@@ -0,0 +1,30 @@
+/**
+ * Analytics service
+ * Records template events (e.g. downloads) in the Worker's analytics counter
+ */
+
+import { config } from "@/config/env";
+
+export type TemplateId = "pgs" | "mm" | "msn" | "msr" | "lg" | "sds" | "3ds";
+export type TemplateEventType = "download" | "video_download";
+
+/**
+ * Record an event for a template
+ * Failures are ignored so analytics never block the user
+ */
+export async function trackTemplateEvent(
+  templateId: TemplateId,
+  eventType: TemplateEventType = "download"
+): Promise<void> {
+  try {
+    await fetch(`${config.workerUrl}/events`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ template_id: templateId, event_type: eventType }),
+    });
+  } catch (error) {
+    console.warn(`Failed to track ${templateId} ${eventType}:`, error);
+  }
+}
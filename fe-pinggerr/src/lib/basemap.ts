@@ -0,0 +1,213 @@
+/**
+ * Poster basemaps
+ * Raster tiles drawn under a poster's route. Positions are Web Mercator
+ * world coordinates (0-1 across and down the world), the projection the
+ * route is drawn in, so streets and coastline line up with the track
+ */
+
+import { config } from "@/config/env";
+import type { BasemapStyle, Bilingual } from "@/lib/posterTemplate";
+
+export interface BasemapSource {
+  label: Bilingual;
+  // {z}/{x}/{y} template, {s} picks a subdomain and {r} the retina suffix
+  url: string;
+  subdomains?: string[];
+  retina?: boolean; // tiles have an @2x version
+  maxZoom: number;
+  attribution: string;
+  // Legible on top of the tiles
+  attributionColor: string;
+  attributionBackground: string;
+}
+
+export interface WorldPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * How world coordinates land on the poster: pixel = origin + world * scale
+ */
+export interface MercatorView {
+  scale: number;
+  originX: number;
+  originY: number;
+}
+
+export interface BasemapTile {
+  image: HTMLImageElement;
+  x: number; // poster pixels
+  y: number;
+  size: number;
+}
+
+const TILE_SIZE = 256;
+// Don't hammer tile servers for one poster, zoom out instead
+const MAX_TILES = 64;
+const MAX_LATITUDE = 85.0511;
+
+const OSM_ATTRIBUTION = "© OpenStreetMap contributors";
+
+export const BASEMAP_SOURCES: Record<BasemapStyle, BasemapSource> = {
+  dark: {
+    label: { en: "Dark", id: "Gelap" },
+    url: "https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png",
+    subdomains: ["a", "b", "c", "d"],
+    retina: true,
+    maxZoom: 19,
+    attribution: `${OSM_ATTRIBUTION} © CARTO`,
+    attributionColor: "rgba(255, 255, 255, 0.8)",
+    attributionBackground: "rgba(0, 0, 0, 0.5)",
+  },
+  light: {
+    label: { en: "Light", id: "Terang" },
+    url: "https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png",
+    subdomains: ["a", "b", "c", "d"],
+    retina: true,
+    maxZoom: 19,
+    attribution: `${OSM_ATTRIBUTION} © CARTO`,
+    attributionColor: "rgba(0, 0, 0, 0.75)",
+    attributionBackground: "rgba(255, 255, 255, 0.6)",
+  },
+  terrain: {
+    label: { en: "Terrain", id: "Medan" },
+    url: "https://{s}.tile.opentopomap.org/{z}/{x}/{y}.png",
+    subdomains: ["a", "b", "c"],
+    maxZoom: 17,
+    attribution: `${OSM_ATTRIBUTION}, SRTM | © OpenTopoMap (CC-BY-SA)`,
+    attributionColor: "rgba(0, 0, 0, 0.75)",
+    attributionBackground: "rgba(255, 255, 255, 0.6)",
+  },
+  local: {
+    label: { en: "Local tiles", id: "Tile lokal" },
+    url: config.basemap.localUrl,
+    maxZoom: config.basemap.localMaxZoom,
+    attribution: config.basemap.localAttribution,
+    attributionColor: "rgba(255, 255, 255, 0.8)",
+    attributionBackground: "rgba(0, 0, 0, 0.5)",
+  },
+};
+
+/**
+ * Styles this build can draw; local tiles need a configured url
+ */
+export function getBasemapStyles(): BasemapStyle[] {
+  return (Object.keys(BASEMAP_SOURCES) as BasemapStyle[]).filter(
+    (style) => BASEMAP_SOURCES[style].url
+  );
+}
+
+/**
+ * Choices for a basemap option, "none" first
+ */
+export function getBasemapChoices(): { value: string; label: Bilingual }[] {
+  return [
+    { value: "none", label: { en: "No map", id: "Tanpa peta" } },
+    ...getBasemapStyles().map((style) => ({
+      value: style,
+      label: BASEMAP_SOURCES[style].label,
+    })),
+  ];
+}
+
+export function isBasemapStyle(value: unknown): value is BasemapStyle {
+  return getBasemapStyles().includes(value as BasemapStyle);
+}
+
+export function toWebMercator(lat: number, lng: number): WorldPoint {
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin((clamped * Math.PI) / 180);
+  return {
+    x: (lng + 180) / 360,
+    y: 0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI),
+  };
+}
+
+const tileUrl = (source: BasemapSource, z: number, x: number, y: number) => {
+  const subdomains = source.subdomains ?? [];
+  return source.url
+    .replace("{s}", subdomains[(x + y) % subdomains.length] ?? "")
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+    .replace("{r}", source.retina ? "@2x" : "");
+};
+
+// Tiles must allow CORS, otherwise they'd taint the poster's canvas
+const loadTile = (url: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Tile ${url} failed to load`));
+    img.src = url;
+  });
+
+/**
+ * Tiles covering a box of the poster, at the zoom closest to the poster's
+ * scale. Tiles that fail to load are left out
+ */
+export async function loadBasemapTiles(
+  style: BasemapStyle,
+  box: { x: number; y: number; width: number; height: number },
+  view: MercatorView
+): Promise<BasemapTile[]> {
+  const source = BASEMAP_SOURCES[style];
+  const west = (box.x - view.originX) / view.scale;
+  const east = (box.x + box.width - view.originX) / view.scale;
+  const north = Math.max(0, (box.y - view.originY) / view.scale);
+  const south = Math.min(1, (box.y + box.height - view.originY) / view.scale);
+
+  const tileRange = (zoom: number) => {
+    const count = 2 ** zoom;
+    return {
+      count,
+      minX: Math.floor(west * count),
+      maxX: Math.floor(east * count),
+      minY: Math.max(0, Math.floor(north * count)),
+      maxY: Math.min(count - 1, Math.floor(south * count)),
+    };
+  };
+
+  let zoom = Math.max(
+    0,
+    Math.min(source.maxZoom, Math.round(Math.log2(view.scale / TILE_SIZE)))
+  );
+  let range = tileRange(zoom);
+  while (
+    zoom > 0 &&
+    (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1) > MAX_TILES
+  ) {
+    zoom--;
+    range = tileRange(zoom);
+  }
+
+  const size = view.scale / range.count;
+  const requests: Promise<BasemapTile>[] = [];
+  for (let y = range.minY; y <= range.maxY; y++) {
+    for (let x = range.minX; x <= range.maxX; x++) {
+      // Wrap around the antimeridian
+      const wrappedX = ((x % range.count) + range.count) % range.count;
+      requests.push(
+        loadTile(tileUrl(source, zoom, wrappedX, y)).then((image) => ({
+          image,
+          x: view.originX + x * size,
+          y: view.originY + y * size,
+          size,
+        }))
+      );
+    }
+  }
+
+  const results = await Promise.allSettled(requests);
+  const failed = results.filter((result) => result.status === "rejected");
+  if (failed.length > 0) {
+    console.warn(
+      `${failed.length} of ${results.length} basemap tiles failed to load`
+    );
+  }
+  return results.flatMap((result) =>
+    result.status === "fulfilled" ? [result.value] : []
+  );
+}
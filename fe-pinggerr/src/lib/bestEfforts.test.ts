@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { ActivityTrackpoint, StravaActivity } from "@/types/strava";
+import {
+  findBestAverageEffort,
+  findBestDistanceEffort,
+  getBestEfforts,
+} from "@/lib/bestEfforts";
+
+/**
+ * One trackpoint per interval at the speed given for each second
+ */
+const createTrackpoints = (
+  speedAt: (second: number) => number,
+  seconds: number,
+  interval = 1
+): ActivityTrackpoint[] => {
+  const trackpoints: ActivityTrackpoint[] = [];
+  let distance = 0;
+  for (let second = 0; second <= seconds; second++) {
+    if (second % interval === 0) {
+      trackpoints.push({ timeOffset: second, distance });
+    }
+    distance += speedAt(second);
+  }
+  return trackpoints;
+};
+
+describe("findBestDistanceEffort", () => {
+  it("times the distance at a steady pace", () => {
+    const effort = findBestDistanceEffort(
+      createTrackpoints(() => 4, 600),
+      1000
+    );
+
+    expect(effort?.time).toBeCloseTo(250);
+  });
+
+  it("finds the fastest stretch", () => {
+    // 5 m/s from minute 5 to 10, 3 m/s otherwise
+    const trackpoints = createTrackpoints(
+      (second) => (second >= 300 && second < 600 ? 5 : 3),
+      900
+    );
+
+    const effort = findBestDistanceEffort(trackpoints, 1000);
+
+    expect(effort?.time).toBeCloseTo(200);
+    expect(effort?.startIndex).toBeGreaterThanOrEqual(300);
+    expect(effort?.endIndex).toBeLessThanOrEqual(600);
+  });
+
+  it("interpolates the start between sparse trackpoints", () => {
+    const effort = findBestDistanceEffort(
+      createTrackpoints(() => 3.7, 600, 10),
+      1000
+    );
+
+    expect(effort?.time).toBeCloseTo(1000 / 3.7);
+  });
+
+  it("has no effort longer than the activity", () => {
+    expect(
+      findBestDistanceEffort(
+        createTrackpoints(() => 4, 600),
+        5000
+      )
+    ).toBeNull();
+  });
+});
+
+describe("findBestAverageEffort", () => {
+  // 200 W for ten minutes, then 300 W for two
+  const trackpoints = createTrackpoints(() => 3, 720).map((tp) => ({
+    ...tp,
+    watts: tp.timeOffset! < 600 ? 200 : 300,
+  }));
+  const watts = (tp: ActivityTrackpoint) => tp.watts;
+
+  it("finds the highest average over the duration", () => {
+    expect(findBestAverageEffort(trackpoints, watts, 60)?.average).toBe(300);
+    expect(findBestAverageEffort(trackpoints, watts, 300)?.average).toBeCloseTo(
+      240
+    );
+  });
+
+  it("counts a gap in the recording as zero", () => {
+    // Two minutes without samples between the halves
+    const withGap = trackpoints.map((tp) => ({
+      ...tp,
+      watts: 250,
+      timeOffset: tp.timeOffset! < 360 ? tp.timeOffset : tp.timeOffset! + 120,
+    }));
+
+    const effort = findBestAverageEffort(withGap, watts, 600);
+
+    expect(effort?.average).toBeLessThan(250);
+  });
+
+  it("has no effort longer than the activity", () => {
+    expect(findBestAverageEffort(trackpoints, watts, 3600)).toBeNull();
+  });
+});
+
+describe("getBestEfforts", () => {
+  const activity = {
+    trackpoints: createTrackpoints(() => 4, 1800).map((tp) => ({
+      ...tp,
+      heartRate: 150,
+    })),
+  } as StravaActivity;
+
+  it("finds the distances and averages the activity covers", () => {
+    const efforts = getBestEfforts(activity);
+
+    expect(Object.keys(efforts.distances)).toEqual(["400m", "1k", "1mi", "5k"]);
+    expect(efforts.distances["5k"]?.time).toBeCloseTo(1250);
+    expect(efforts.heartRate[20]?.average).toBeCloseTo(150);
+    expect(efforts.power).toEqual({});
+  });
+
+  it("reuses the efforts of the same trackpoints", () => {
+    expect(getBestEfforts(activity)).toBe(getBestEfforts(activity));
+  });
+});
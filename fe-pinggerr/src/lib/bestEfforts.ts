@@ -0,0 +1,191 @@
+/**
+ * Best efforts
+ * Fastest time over a distance and highest average over a duration, found
+ * with a sliding window over the trackpoints. Works on anything with
+ * distance or coordinates plus time or timeOffset, so Strava streams and
+ * uploaded files alike; times are elapsed, pauses included, as Strava does
+ */
+
+import type { ActivityTrackpoint, StravaActivity } from "@/types/strava";
+import { getTrackpointDistances, getTrackpointTimes } from "@/lib/trackpoints";
+
+export interface DistanceEffort {
+  distance: number; // meters
+  time: number; // seconds
+  startIndex: number; // trackpoints array
+  endIndex: number;
+}
+
+export interface AverageEffort {
+  duration: number; // seconds
+  average: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+export type EffortDistance = "400m" | "1k" | "1mi" | "5k" | "10k" | "half";
+
+export const EFFORT_DISTANCES: Record<EffortDistance, number> = {
+  "400m": 400,
+  "1k": 1000,
+  "1mi": 1609.344,
+  "5k": 5000,
+  "10k": 10000,
+  half: 21097.5,
+};
+
+// A sample is held at most this long; longer gaps are pauses and count as 0
+const MAX_SAMPLE_SECONDS = 10;
+
+interface TimedTrack {
+  indexes: number[]; // into the original trackpoints
+  times: number[];
+  distances: number[];
+}
+
+/**
+ * Trackpoints with a known time, in order
+ */
+const getTimedTrack = (trackpoints: ActivityTrackpoint[]): TimedTrack => {
+  const times = getTrackpointTimes(trackpoints);
+  const distances = getTrackpointDistances(trackpoints);
+  const track: TimedTrack = { indexes: [], times: [], distances: [] };
+  times.forEach((time, i) => {
+    const last = track.times[track.times.length - 1];
+    if (!Number.isFinite(time) || (last !== undefined && time < last)) return;
+    track.indexes.push(i);
+    track.times.push(time);
+    track.distances.push(distances[i]);
+  });
+  return track;
+};
+
+/**
+ * Fastest stretch covering the distance. The window's start is interpolated
+ * between trackpoints so every window is exactly that long
+ */
+export function findBestDistanceEffort(
+  trackpoints: ActivityTrackpoint[],
+  distance: number
+): DistanceEffort | null {
+  const { indexes, times, distances } = getTimedTrack(trackpoints);
+  let best: DistanceEffort | null = null;
+  let start = 0;
+  for (let end = 1; end < times.length; end++) {
+    if (distances[end] - distances[0] < distance) continue;
+    // Latest start that still leaves the whole distance
+    while (distances[end] - distances[start + 1] >= distance) start++;
+
+    const span = distances[start + 1] - distances[start];
+    const over = distances[end] - distances[start] - distance;
+    const startTime =
+      span > 0
+        ? times[start] + ((times[start + 1] - times[start]) * over) / span
+        : times[start];
+    const time = times[end] - startTime;
+    if (time > 0 && (!best || time < best.time)) {
+      best = {
+        distance,
+        time,
+        startIndex: indexes[start],
+        endIndex: indexes[end],
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Highest time-weighted average of a trackpoint value over the duration,
+ * e.g. best 20 minute power. Each sample holds until the next one
+ */
+export function findBestAverageEffort(
+  trackpoints: ActivityTrackpoint[],
+  valueOf: (trackpoint: ActivityTrackpoint) => number | undefined,
+  duration: number
+): AverageEffort | null {
+  const { indexes, times } = getTimedTrack(trackpoints);
+  if (times.length < 2 || times[times.length - 1] - times[0] < duration) {
+    return null;
+  }
+
+  // integral[k]: value summed over time up to the k-th timed trackpoint
+  const integral = [0];
+  for (let k = 1; k < times.length; k++) {
+    const held = Math.min(times[k] - times[k - 1], MAX_SAMPLE_SECONDS);
+    const value = valueOf(trackpoints[indexes[k - 1]]) ?? 0;
+    integral.push(integral[k - 1] + value * held);
+  }
+
+  let best: AverageEffort | null = null;
+  let start = 0;
+  for (let end = 1; end < times.length; end++) {
+    if (times[end] - times[0] < duration) continue;
+    while (times[end] - times[start + 1] >= duration) start++;
+    const average =
+      (integral[end] - integral[start]) / (times[end] - times[start]);
+    if (average > 0 && (!best || average > best.average)) {
+      best = {
+        duration,
+        average,
+        startIndex: indexes[start],
+        endIndex: indexes[end],
+      };
+    }
+  }
+  return best;
+}
+
+export interface BestEfforts {
+  distances: Partial<Record<EffortDistance, DistanceEffort>>;
+  // By window length in minutes
+  power: Partial<Record<number, AverageEffort>>;
+  heartRate: Partial<Record<number, AverageEffort>>;
+}
+
+export const POWER_EFFORT_MINUTES = [1, 5, 20];
+export const HEART_RATE_EFFORT_MINUTES = [20];
+
+// Stats ask for efforts on every render; trackpoint arrays aren't mutated
+const cache = new WeakMap<ActivityTrackpoint[], BestEfforts>();
+
+const bestAverages = (
+  trackpoints: ActivityTrackpoint[],
+  valueOf: (trackpoint: ActivityTrackpoint) => number | undefined,
+  minutesList: number[]
+): Partial<Record<number, AverageEffort>> => {
+  if (!trackpoints.some(valueOf)) return {};
+  const averages: Partial<Record<number, AverageEffort>> = {};
+  minutesList.forEach((minutes) => {
+    const effort = findBestAverageEffort(trackpoints, valueOf, minutes * 60);
+    if (effort) averages[minutes] = effort;
+  });
+  return averages;
+};
+
+/**
+ * Every best effort of an activity, empty when it has no timed trackpoints
+ */
+export function getBestEfforts(activity: StravaActivity): BestEfforts {
+  const trackpoints = activity.trackpoints ?? [];
+  const cached = cache.get(trackpoints);
+  if (cached) return cached;
+
+  const distances: BestEfforts["distances"] = {};
+  (Object.keys(EFFORT_DISTANCES) as EffortDistance[]).forEach((key) => {
+    const effort = findBestDistanceEffort(trackpoints, EFFORT_DISTANCES[key]);
+    if (effort) distances[key] = effort;
+  });
+  const efforts: BestEfforts = {
+    distances,
+    power: bestAverages(trackpoints, (tp) => tp.watts, POWER_EFFORT_MINUTES),
+    heartRate: bestAverages(
+      trackpoints,
+      (tp) => tp.heartRate,
+      HEART_RATE_EFFORT_MINUTES
+    ),
+  };
+
+  cache.set(trackpoints, efforts);
+  return efforts;
+}
@@ -0,0 +1,317 @@
+/**
+ * Flyover camera paths
+ * Keyframes anchored to trackpoints set the camera's zoom, pitch, bearing,
+ * ground clearance and pace. Between keyframes every value is eased, and a
+ * keyframe's dwell time holds the camera in place before moving on
+ */
+
+import type {
+  ActivitySegment,
+  ActivityTrackpoint,
+  CameraKeyframe,
+  FlyoverCameraSettings,
+} from "@/types/strava";
+import { haversineDistance } from "@/lib/geo";
+
+export const DEFAULT_CAMERA_ALTITUDE = 150;
+const MIN_SPEED = 0.1;
+
+// Cinematic preset tuning
+const CLIMB_WINDOW_METERS = 200;
+const CLIMB_MIN_GRADE = 0.04;
+const CLIMB_MIN_LENGTH_METERS = 300;
+const APPROACH_SHARE = 0.03; // of the route, to ease into a slowdown
+
+export interface CameraPose {
+  zoom: number;
+  pitch: number;
+  bearing: number;
+  altitude: number;
+}
+
+export interface CameraPath {
+  duration: number; // seconds, including dwell time
+  // Seconds at which the camera reaches a (fractional) trackpoint index,
+  // or leaves it again after the keyframe's dwell
+  timeAt: (trackpointIndex: number, afterDwell?: boolean) => number;
+  // Fractional trackpoint index the camera is at after some seconds
+  indexAt: (seconds: number) => number;
+  // Camera values at a trackpoint, heading fills in keyframes without a bearing
+  poseAt: (trackpointIndex: number, heading: number) => CameraPose;
+}
+
+const easeInOut = (t: number) =>
+  t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Interpolate between two bearings the short way around
+export const lerpBearing = (from: number, to: number, t: number) => {
+  const delta = ((((to - from) % 360) + 540) % 360) - 180;
+  return (from + delta * t + 360) % 360;
+};
+
+const createKeyframeId = () =>
+  `keyframe_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+export function createCameraKeyframe(
+  trackpointIndex: number,
+  settings: FlyoverCameraSettings,
+  overrides: Partial<Omit<CameraKeyframe, "id" | "trackpointIndex">> = {}
+): CameraKeyframe {
+  return {
+    id: createKeyframeId(),
+    trackpointIndex,
+    zoom: settings.zoom,
+    pitch: settings.pitch,
+    bearing: null,
+    altitude: DEFAULT_CAMERA_ALTITUDE,
+    dwell: 0,
+    speed: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * Find the keyframes around a trackpoint and the eased progress between them
+ */
+const locate = (
+  keyframes: CameraKeyframe[],
+  trackpointIndex: number
+): { from: CameraKeyframe; to: CameraKeyframe; t: number } => {
+  const last = keyframes[keyframes.length - 1];
+  if (trackpointIndex <= keyframes[0].trackpointIndex) {
+    return { from: keyframes[0], to: keyframes[0], t: 0 };
+  }
+  if (trackpointIndex >= last.trackpointIndex) {
+    return { from: last, to: last, t: 0 };
+  }
+
+  let low = 0;
+  let high = keyframes.length - 1;
+  while (high - low > 1) {
+    const middle = (low + high) >> 1;
+    if (keyframes[middle].trackpointIndex <= trackpointIndex) low = middle;
+    else high = middle;
+  }
+  const from = keyframes[low];
+  const to = keyframes[high];
+  return {
+    from,
+    to,
+    t: easeInOut(
+      (trackpointIndex - from.trackpointIndex) /
+        (to.trackpointIndex - from.trackpointIndex)
+    ),
+  };
+};
+
+/**
+ * Build the timing and camera values of a flyover. Without keyframes the
+ * camera follows the route at a steady pace using the story's camera settings
+ */
+export function createCameraPath(
+  trackpointCount: number,
+  keyframes: CameraKeyframe[],
+  settings: FlyoverCameraSettings,
+  baseDuration: number
+): CameraPath {
+  const sorted = [...keyframes]
+    .filter(
+      (keyframe) =>
+        keyframe.trackpointIndex >= 0 &&
+        keyframe.trackpointIndex < trackpointCount
+    )
+    .sort((a, b) => a.trackpointIndex - b.trackpointIndex);
+  const lastIndex = Math.max(0, trackpointCount - 1);
+  const step = baseDuration / Math.max(1, lastIndex);
+
+  const speedAt = (trackpointIndex: number) => {
+    if (sorted.length === 0) return 1;
+    const { from, to, t } = locate(sorted, trackpointIndex);
+    return Math.max(MIN_SPEED, lerp(from.speed, to.speed, t));
+  };
+
+  // Arrival and departure time at every trackpoint, departure includes dwell
+  const arrival = new Float64Array(lastIndex + 1);
+  const departure = new Float64Array(lastIndex + 1);
+  const dwell = new Float64Array(lastIndex + 1);
+  sorted.forEach((keyframe) => {
+    dwell[Math.round(keyframe.trackpointIndex)] += Math.max(0, keyframe.dwell);
+  });
+  const stepDuration = (index: number) => step / speedAt(index + 0.5);
+  for (let index = 0; index <= lastIndex; index++) {
+    if (index > 0) {
+      arrival[index] = departure[index - 1] + stepDuration(index - 1);
+    }
+    departure[index] = arrival[index] + dwell[index];
+  }
+
+  const timeAt = (trackpointIndex: number, afterDwell = false) => {
+    const clamped = Math.min(lastIndex, Math.max(0, trackpointIndex));
+    const index = Math.floor(clamped);
+    const fraction = clamped - index;
+    if (fraction > 0) return departure[index] + fraction * stepDuration(index);
+    return afterDwell ? departure[index] : arrival[index];
+  };
+
+  const indexAt = (seconds: number) => {
+    if (seconds <= 0) return 0;
+    if (seconds >= departure[lastIndex]) return lastIndex;
+
+    let low = 0;
+    let high = lastIndex;
+    while (low < high) {
+      const middle = (low + high + 1) >> 1;
+      if (arrival[middle] <= seconds) low = middle;
+      else high = middle - 1;
+    }
+    if (seconds <= departure[low] || low === lastIndex) return low;
+    return low + (seconds - departure[low]) / stepDuration(low);
+  };
+
+  const poseAt = (trackpointIndex: number, heading: number): CameraPose => {
+    if (sorted.length === 0) {
+      return {
+        zoom: settings.zoom,
+        pitch: settings.pitch,
+        bearing: heading,
+        altitude: DEFAULT_CAMERA_ALTITUDE,
+      };
+    }
+    const { from, to, t } = locate(sorted, trackpointIndex);
+    return {
+      zoom: lerp(from.zoom, to.zoom, t),
+      pitch: lerp(from.pitch, to.pitch, t),
+      bearing: lerpBearing(from.bearing ?? heading, to.bearing ?? heading, t),
+      altitude: lerp(from.altitude, to.altitude, t),
+    };
+  };
+
+  return { duration: departure[lastIndex], timeAt, indexAt, poseAt };
+}
+
+/**
+ * Climbs as trackpoint index ranges, from the grade over a rolling window
+ */
+const findClimbs = (
+  trackpoints: ActivityTrackpoint[]
+): { startIndex: number; endIndex: number }[] => {
+  if (trackpoints.every((tp) => tp.altitude === undefined)) return [];
+
+  // Cumulative distance, measured when the streams don't include it
+  const distances: number[] = [];
+  trackpoints.forEach((tp, index) => {
+    if (tp.distance !== undefined) {
+      distances.push(tp.distance);
+    } else if (index === 0) {
+      distances.push(0);
+    } else {
+      const previous = trackpoints[index - 1];
+      distances.push(
+        distances[index - 1] +
+          haversineDistance(
+            previous.latitude!,
+            previous.longitude!,
+            tp.latitude!,
+            tp.longitude!
+          )
+      );
+    }
+  });
+
+  const climbs: { startIndex: number; endIndex: number }[] = [];
+  let climbStart: number | null = null;
+  let windowStart = 0;
+
+  for (let index = 0; index < trackpoints.length; index++) {
+    while (
+      windowStart < index &&
+      distances[index] - distances[windowStart] > CLIMB_WINDOW_METERS
+    ) {
+      windowStart++;
+    }
+    const run = distances[index] - distances[windowStart];
+    const top = trackpoints[index].altitude;
+    const bottom = trackpoints[windowStart].altitude;
+    const climbing =
+      top !== undefined &&
+      bottom !== undefined &&
+      run >= CLIMB_WINDOW_METERS / 2 &&
+      (top - bottom) / run >= CLIMB_MIN_GRADE;
+
+    if (climbing && climbStart === null) {
+      climbStart = windowStart;
+    } else if (!climbing && climbStart !== null) {
+      if (distances[index] - distances[climbStart] >= CLIMB_MIN_LENGTH_METERS) {
+        climbs.push({ startIndex: climbStart, endIndex: index });
+      }
+      climbStart = null;
+    }
+  }
+  if (
+    climbStart !== null &&
+    distances[trackpoints.length - 1] - distances[climbStart] >=
+      CLIMB_MIN_LENGTH_METERS
+  ) {
+    climbs.push({ startIndex: climbStart, endIndex: trackpoints.length - 1 });
+  }
+
+  return climbs;
+};
+
+/**
+ * Keyframes for the automatic "cinematic" flyover: a tilted, slower camera
+ * on climbs, easing into a close dwell at each segment's start and end, and
+ * a pulled-back hold on the finish
+ */
+export function createCinematicKeyframes(
+  trackpoints: ActivityTrackpoint[],
+  segments: ActivitySegment[],
+  settings: FlyoverCameraSettings
+): CameraKeyframe[] {
+  const lastIndex = trackpoints.length - 1;
+  if (lastIndex < 1) return [];
+
+  const approach = Math.max(1, Math.round(trackpoints.length * APPROACH_SHARE));
+  const byIndex = new Map<number, CameraKeyframe>();
+  const add = (
+    trackpointIndex: number,
+    overrides: Partial<Omit<CameraKeyframe, "id" | "trackpointIndex">> = {}
+  ) => {
+    const index = Math.min(lastIndex, Math.max(0, trackpointIndex));
+    byIndex.set(index, createCameraKeyframe(index, settings, overrides));
+  };
+
+  add(0);
+
+  findClimbs(trackpoints).forEach(({ startIndex, endIndex }) => {
+    const climb = {
+      speed: 0.5,
+      pitch: Math.min(80, settings.pitch + 10),
+      zoom: settings.zoom + 0.5,
+    };
+    add(startIndex, climb);
+    add(endIndex, climb);
+    add(endIndex + approach);
+  });
+
+  // Segments are added last so they win over climbs at the same trackpoint
+  segments.forEach((segment) => {
+    const highlight = { speed: 0.6, zoom: settings.zoom + 1, dwell: 1.5 };
+    add(segment.startIndex - approach);
+    add(segment.startIndex, highlight);
+    add(segment.endIndex, { ...highlight, dwell: 1 });
+    add(segment.endIndex + approach);
+  });
+
+  add(lastIndex, {
+    zoom: Math.max(10, settings.zoom - 2),
+    pitch: Math.max(0, settings.pitch - 15),
+    dwell: 2,
+  });
+
+  return [...byIndex.values()].sort(
+    (a, b) => a.trackpointIndex - b.trackpointIndex
+  );
+}
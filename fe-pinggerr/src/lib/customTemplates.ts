@@ -0,0 +1,580 @@
+/**
+ * Custom poster templates
+ * Templates saved from the designer are kept in localStorage and announced
+ * through a window event so the sidebar and routes pick them up right away
+ */
+
+import type { StravaActivity } from "@/types/strava";
+import {
+  applyVariants,
+  getDefaultOptions,
+  getDefaultStats,
+  hasActivityRoute,
+  matchesWhen,
+  resolvePalette,
+  type Bilingual,
+  type ChartLayer,
+  type ElevationChartLayer,
+  type PosterTemplate,
+  type RouteColorLegend,
+  type RouteLayer,
+  type StatKey,
+  type TemplateCanvas,
+  type TemplateContext,
+  type TemplateFont,
+  type TemplateLayer,
+  type TemplateTextStyle,
+  type TemplateVariant,
+} from "@/lib/posterTemplate";
+import { TEMPLATE_IMAGE_ASSETS, type LayerBounds } from "@/lib/posterRenderer";
+import { isRouteColorMetric } from "@/lib/routeColors";
+
+const CUSTOM_TEMPLATES_KEY = "pinggerr_custom_templates";
+
+export const CUSTOM_TEMPLATES_EVENT = "pinggerr-custom-templates-changed";
+
+export type DesignerLayerType = "text" | "stats" | "route" | "image" | "chart";
+
+/**
+ * Fonts the designer offers; all of them are declared in index.css
+ */
+export const DESIGNER_FONTS: {
+  label: string;
+  fontFamily: string;
+  font: TemplateFont;
+}[] = [
+  {
+    label: "Funnel Display",
+    fontFamily: "'Funnel Display', sans-serif",
+    font: { family: "Funnel Display", weights: ["400", "700"] },
+  },
+  {
+    label: "Special Gothic Expanded One",
+    fontFamily: "'Special Gothic Expanded One', 'Arial Black', sans-serif",
+    font: {
+      family: "Special Gothic Expanded One",
+      url: "/fonts/SpecialGothicExpandedOne-Regular.ttf",
+    },
+  },
+  {
+    label: "Instrument Serif",
+    fontFamily: "'Instrument Serif', serif",
+    font: {
+      family: "Instrument Serif",
+      url: "/fonts/InstrumentSerif-Regular.ttf",
+    },
+  },
+  {
+    label: "PP Telegraf",
+    fontFamily: "PP Telegraf",
+    font: { family: "PP Telegraf", weights: ["400", "200"] },
+  },
+];
+
+export const DESIGNER_STAT_KEYS: StatKey[] = [
+  "distance",
+  "pace",
+  "time",
+  "elapsed",
+  "speed",
+  "elevation",
+  "date",
+  "calories",
+  "cadence",
+  "power",
+  "temperature",
+  "heartrate",
+  "best400m",
+  "best1k",
+  "best1mi",
+  "best5k",
+  "best10k",
+  "bestHalf",
+  "bestPower1m",
+  "bestPower5m",
+  "bestPower20m",
+  "bestHeartrate20m",
+];
+
+const DEFAULT_STAT_LABELS: Record<StatKey, string> = {
+  distance: "DISTANCE",
+  pace: "AVG PACE",
+  time: "MOVING TIME",
+  elapsed: "ELAPSED TIME",
+  speed: "AVG SPEED",
+  elevation: "ELEVATION GAIN",
+  date: "DATE",
+  calories: "CALORIES",
+  cadence: "AVG CADENCE",
+  power: "AVG POWER",
+  temperature: "AVG TEMP",
+  heartrate: "AVG HEART RATE",
+  best400m: "BEST 400M",
+  best1k: "BEST 1K",
+  best1mi: "BEST MILE",
+  best5k: "BEST 5K",
+  best10k: "BEST 10K",
+  bestHalf: "BEST HALF",
+  bestPower1m: "BEST 1 MIN POWER",
+  bestPower5m: "BEST 5 MIN POWER",
+  bestPower20m: "BEST 20 MIN POWER",
+  bestHeartrate20m: "BEST 20 MIN HR",
+};
+
+/**
+ * Activity fields a text layer can bind to as "{field}"
+ */
+export const DESIGNER_TEXT_FIELDS: { field: string; label: Bilingual }[] = [
+  { field: "name", label: { en: "Activity name", id: "Nama aktivitas" } },
+  { field: "type", label: { en: "Activity type", id: "Jenis aktivitas" } },
+  ...DESIGNER_STAT_KEYS.map((key) => ({
+    field: key,
+    label: { en: DEFAULT_STAT_LABELS[key], id: DEFAULT_STAT_LABELS[key] },
+  })),
+];
+
+export const DESIGNER_CANVAS_PRESETS: {
+  label: Bilingual;
+  width: number;
+  height: number;
+}[] = [
+  { label: { en: "Square", id: "Persegi" }, width: 1080, height: 1080 },
+  { label: { en: "Portrait", id: "Potret" }, width: 1080, height: 1350 },
+  { label: { en: "Story", id: "Story" }, width: 1080, height: 1920 },
+];
+
+const textStyle = (
+  fontSize: number,
+  overrides?: Partial<TemplateTextStyle>
+): TemplateTextStyle => ({
+  fontFamily: DESIGNER_FONTS[0].fontFamily,
+  fontSize,
+  fill: "#FFFFFF",
+  align: "left",
+  ...overrides,
+});
+
+/**
+ * A new layer of the given kind, placed relative to the canvas size
+ */
+export function createDesignerLayer(
+  type: DesignerLayerType,
+  canvas: Pick<TemplateCanvas, "width" | "height">
+): TemplateLayer {
+  const margin = Math.round(canvas.width * 0.08);
+  switch (type) {
+    case "text":
+      return {
+        type: "text",
+        text: "{name}",
+        fallback: "Activity",
+        maxLength: 40,
+        x: margin,
+        y: margin,
+        style: textStyle(56, { fontStyle: "bold" }),
+      };
+    case "stats":
+      return {
+        type: "stats",
+        layout: "grid",
+        x: margin,
+        y: Math.round(canvas.height * 0.7),
+        width: canvas.width - margin * 2,
+        columns: "auto",
+        rowHeight: 90,
+        align: "left",
+        label: textStyle(20),
+        value: {
+          ...textStyle(44, { fontFamily: DESIGNER_FONTS[1].fontFamily }),
+          offsetY: 28,
+        },
+      };
+    case "route":
+      return {
+        type: "route",
+        x: margin,
+        y: Math.round(canvas.height * 0.2),
+        width: canvas.width - margin * 2,
+        height: Math.round(canvas.height * 0.45),
+        stroke: "#FC5200",
+        strokeWidth: 6,
+      };
+    case "image": {
+      const asset = TEMPLATE_IMAGE_ASSETS["strava-stack-white"];
+      return {
+        type: "image",
+        src: "asset:strava-stack-white",
+        x: canvas.width - margin - asset.width,
+        y: canvas.height - margin - asset.height,
+        width: asset.width,
+        height: asset.height,
+      };
+    }
+    case "chart":
+      return createDesignerChart("elevation", {
+        x: margin,
+        y: Math.round(canvas.height * 0.5),
+        width: canvas.width - margin * 2,
+        height: Math.round(canvas.height * 0.15),
+      });
+  }
+}
+
+// Climbs from 4% and 8% stand out on the elevation profile
+export const DESIGNER_GRADE_COLORS: ElevationChartLayer["gradeColors"] = [
+  { minGrade: 4, color: "#EF4444" },
+  { minGrade: 8, color: "#B91C1C" },
+];
+
+/**
+ * Legend under a colored route, in the route's coordinates
+ */
+export function createRouteLegend(
+  layer: Pick<RouteLayer, "width" | "height">
+): RouteColorLegend {
+  return {
+    x: 0,
+    y: layer.height + 16,
+    width: Math.min(layer.width, 320),
+    height: 10,
+    label: textStyle(16),
+  };
+}
+
+/**
+ * A chart of the given kind filling a box, so switching kinds keeps its place
+ */
+export function createDesignerChart(
+  chart: ChartLayer["chart"],
+  box: LayerBounds
+): ChartLayer {
+  const { x, y, width, height } = box;
+  switch (chart) {
+    case "elevation":
+      return {
+        type: "chart",
+        chart,
+        x,
+        y,
+        width,
+        height,
+        fill: "#FC5200",
+        gradeColors: DESIGNER_GRADE_COLORS,
+      };
+    case "heartrate":
+      return {
+        type: "chart",
+        chart,
+        x,
+        y,
+        width,
+        height,
+        fill: "#EF4444",
+        cornerRadius: 8,
+      };
+    case "pace":
+      return {
+        type: "chart",
+        chart,
+        x,
+        y,
+        width,
+        height,
+        fill: "#FFFFFF",
+        highlight: "#FC5200",
+        gap: 6,
+        cornerRadius: 4,
+        label: textStyle(16),
+      };
+  }
+}
+
+/**
+ * Starting point for a new template: title, route, stats and Strava logo
+ */
+export function createTemplateDraft(): PosterTemplate {
+  const canvas: TemplateCanvas = {
+    width: 1080,
+    height: 1080,
+    pixelRatio: 2,
+    background: "#111111",
+  };
+  return {
+    id: "",
+    custom: true,
+    title: { en: "My Template", id: "My Template" },
+    description: { en: "Custom template", id: "Template kustom" },
+    icon: "Shapes",
+    filename: "my_template",
+    canvas,
+    palette: {},
+    stats: {
+      keys: [...DESIGNER_STAT_KEYS],
+      defaults: ["distance", "pace", "time"],
+      max: 3,
+      fillToMax: true,
+      labels: { ...DEFAULT_STAT_LABELS },
+    },
+    layers: (["text", "route", "stats", "image"] as const).map((type) =>
+      createDesignerLayer(type, canvas)
+    ),
+    ui: {
+      emoji: "✨",
+      buttonClassName: "bg-gray-900 hover:bg-gray-800 text-white",
+      spinnerClassName: "border-gray-600",
+      previewClassName: "bg-gray-100",
+    },
+  };
+}
+
+const resolveLayerColors = (
+  layer: TemplateLayer,
+  palette: Record<string, string>
+): TemplateLayer =>
+  JSON.parse(JSON.stringify(layer), (_, value) =>
+    typeof value === "string" && value.startsWith("$")
+      ? palette[value.slice(1)] ?? value
+      : value
+  );
+
+/**
+ * Copy any template into an editable custom template. Options, variants and
+ * palette references are resolved for the given activity, since the
+ * designer edits a single concrete layout
+ */
+export function copyTemplateForDesigner(
+  template: PosterTemplate,
+  activity: StravaActivity
+): PosterTemplate {
+  if (template.custom) return structuredClone(template);
+
+  const context: TemplateContext = {
+    options: getDefaultOptions(template),
+    statsCount: getDefaultStats(template, activity).length,
+    hasRoute: hasActivityRoute(activity),
+  };
+  const palette = resolvePalette(template, context);
+  const { width, height, pixelRatio, offsetY, transparencyAnchors } =
+    applyVariants<TemplateCanvas>(
+      template.canvas,
+      template.canvas.variants,
+      context
+    );
+  const layers = template.layers
+    .filter((layer) => matchesWhen(layer.when, context))
+    .map((layer) => {
+      const resolved = resolveLayerColors(
+        applyVariants(
+          layer as TemplateLayer,
+          layer.variants as TemplateVariant<TemplateLayer>[] | undefined,
+          context
+        ),
+        palette
+      );
+      delete resolved.when;
+      delete resolved.variants;
+      if (offsetY) resolved.y += offsetY;
+      if (resolved.type === "route" && resolved.colorBy?.option) {
+        const metric = context.options[resolved.colorBy.option];
+        resolved.colorBy = isRouteColorMetric(metric)
+          ? { ...resolved.colorBy, option: undefined, metric }
+          : undefined;
+      }
+      return resolved;
+    });
+
+  return {
+    ...structuredClone(template),
+    id: "",
+    analyticsId: undefined,
+    custom: true,
+    title: {
+      en: `${template.title.en} (copy)`,
+      id: `${template.title.id} (salinan)`,
+    },
+    icon: "Shapes",
+    canvas: { width, height, pixelRatio, transparencyAnchors },
+    palette: {},
+    paletteVariants: undefined,
+    options: undefined,
+    layers,
+  };
+}
+
+/**
+ * Move a layer by a drag delta
+ */
+export function moveLayer(
+  layer: TemplateLayer,
+  dx: number,
+  dy: number
+): TemplateLayer {
+  return { ...layer, x: round(layer.x + dx), y: round(layer.y + dy) };
+}
+
+/**
+ * Apply a resize from the designer's transformer. bounds is the layer's box
+ * before the resize, (dx, dy) how far its top-left corner moved
+ */
+export function resizeLayer(
+  layer: TemplateLayer,
+  bounds: LayerBounds,
+  change: { dx: number; dy: number; scaleX: number; scaleY: number }
+): TemplateLayer {
+  const { dx, dy, scaleX, scaleY } = change;
+  switch (layer.type) {
+    case "rect":
+    case "image":
+    case "route":
+    case "chart":
+      return {
+        ...layer,
+        x: round(layer.x + dx),
+        y: round(layer.y + dy),
+        width: round(layer.width * scaleX),
+        height: round(layer.height * scaleY),
+      };
+    case "star": {
+      const radius = layer.radius * Math.max(scaleX, scaleY);
+      return {
+        ...layer,
+        x: round(layer.x + dx + radius - layer.radius),
+        y: round(layer.y + dy + radius - layer.radius),
+        radius: round(radius),
+      };
+    }
+    case "text": {
+      // x is the align anchor when the text has no box
+      const growth = bounds.width * (scaleX - 1);
+      const anchorShift = layer.style.width
+        ? 0
+        : layer.style.align === "center"
+        ? growth / 2
+        : layer.style.align === "right"
+        ? growth
+        : 0;
+      return {
+        ...layer,
+        x: round(layer.x + dx + anchorShift),
+        y: round(layer.y + dy),
+        style: {
+          ...layer.style,
+          fontSize: Math.max(8, round(layer.style.fontSize * scaleY)),
+          width: layer.style.width && round(layer.style.width * scaleX),
+        },
+      };
+    }
+    case "stats": {
+      if (layer.layout === "capsules") {
+        const rowHeight = layer.rowHeight * scaleY;
+        return {
+          ...layer,
+          x: round(layer.x + dx),
+          y: round(layer.y + dy + (rowHeight - layer.rowHeight) / 2),
+          width: round(layer.width * scaleX),
+          rowHeight: round(rowHeight),
+        };
+      }
+      const scaleText = <T extends TemplateTextStyle & { offsetY?: number }>(
+        style: T
+      ): T => ({
+        ...style,
+        fontSize: Math.max(8, round(style.fontSize * scaleY)),
+        offsetY: style.offsetY && round(style.offsetY * scaleY),
+      });
+      return {
+        ...layer,
+        x: round(layer.x + dx),
+        y: round(layer.y + dy),
+        width: layer.width && round(layer.width * scaleX),
+        columnWidth: layer.columnWidth && round(layer.columnWidth * scaleX),
+        rowHeight: round(layer.rowHeight * scaleY),
+        label: scaleText(layer.label),
+        value: scaleText(layer.value),
+      };
+    }
+  }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Fonts used by the template's layers, so they load before rendering
+ */
+const collectTemplateFonts = (template: PosterTemplate): TemplateFont[] => {
+  const families = new Set(
+    template.layers.flatMap((layer) => {
+      if (layer.type === "text") return [layer.style.fontFamily];
+      if (layer.type === "stats") {
+        return [layer.label.fontFamily, layer.value.fontFamily];
+      }
+      if (layer.type === "chart" && layer.chart === "pace" && layer.label) {
+        return [layer.label.fontFamily];
+      }
+      return [];
+    })
+  );
+  const fonts = DESIGNER_FONTS.filter((choice) =>
+    families.has(choice.fontFamily)
+  ).map((choice) => choice.font);
+  // Keep fonts a copied template declared itself
+  const extra = (template.fonts ?? []).filter(
+    (font) => !fonts.some((f) => f.family === font.family)
+  );
+  return [...fonts, ...extra];
+};
+
+export function loadCustomTemplates(): PosterTemplate[] {
+  try {
+    const stored = localStorage.getItem(CUSTOM_TEMPLATES_KEY);
+    const templates = stored ? JSON.parse(stored) : [];
+    return Array.isArray(templates) ? templates : [];
+  } catch (error) {
+    console.warn("Failed to read custom templates:", error);
+    return [];
+  }
+}
+
+const storeCustomTemplates = (templates: PosterTemplate[]) => {
+  localStorage.setItem(CUSTOM_TEMPLATES_KEY, JSON.stringify(templates));
+  window.dispatchEvent(
+    new CustomEvent(CUSTOM_TEMPLATES_EVENT, { detail: templates })
+  );
+};
+
+/**
+ * Create or update a custom template, returning it with its final id
+ */
+export function saveCustomTemplate(template: PosterTemplate): PosterTemplate {
+  const saved: PosterTemplate = {
+    ...template,
+    id: template.id || `custom-${Date.now().toString(36)}`,
+    custom: true,
+    filename:
+      template.title.en
+        .replace(/[^a-z0-9]+/gi, "_")
+        .replace(/^_+|_+$/g, "")
+        .toLowerCase() || "custom_template",
+    fonts: collectTemplateFonts(template),
+  };
+  const templates = loadCustomTemplates();
+  const index = templates.findIndex((t) => t.id === saved.id);
+  if (index >= 0) {
+    templates[index] = saved;
+  } else {
+    templates.push(saved);
+  }
+  storeCustomTemplates(templates);
+  return saved;
+}
+
+export function deleteCustomTemplate(id: string): void {
+  storeCustomTemplates(loadCustomTemplates().filter((t) => t.id !== id));
+}
+
+/**
+ * Keep the template's font list in sync while it is being edited
+ */
+export function withTemplateFonts(template: PosterTemplate): PosterTemplate {
+  return { ...template, fonts: collectTemplateFonts(template) };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  getElevationTotals,
+  getRawElevationTotals,
+  summarizeElevation,
+} from "@/lib/elevation";
+import type { ActivityTrackpoint } from "@/types/strava";
+
+const createTrackpoints = (altitudes: (number | undefined)[]) =>
+  altitudes.map(
+    (altitude, i): ActivityTrackpoint => ({
+      latitude: 50 + i * 0.0003,
+      longitude: 8,
+      altitude,
+    })
+  );
+
+// Climbs 100 m, with GPS noise of ±1.5 m on every fix
+const noisyClimb = Array.from(
+  { length: 101 },
+  (_, i) => i + (i % 2 === 0 ? 1.5 : -1.5)
+);
+
+describe("getRawElevationTotals", () => {
+  it("sums every altitude change", () => {
+    expect(getRawElevationTotals([100, 105, 102, 110])).toEqual({
+      gain: 13,
+      loss: 3,
+    });
+  });
+});
+
+describe("getElevationTotals", () => {
+  it("leaves noise below the threshold out", () => {
+    const raw = getRawElevationTotals(noisyClimb);
+    const corrected = getElevationTotals(noisyClimb);
+
+    expect(raw.gain).toBeGreaterThan(190);
+    expect(corrected.gain).toBeGreaterThan(95);
+    expect(corrected.gain).toBeLessThanOrEqual(100);
+    expect(corrected.loss).toBe(0);
+  });
+
+  it("counts nothing on flat ground", () => {
+    expect(getElevationTotals([200, 201, 200, 202, 200, 201])).toEqual({
+      gain: 0,
+      loss: 0,
+    });
+  });
+});
+
+describe("summarizeElevation", () => {
+  it("takes raw totals from the recorded altitudes", () => {
+    const elevation = summarizeElevation(createTrackpoints([10, 20, 15]));
+
+    expect(elevation.raw).toEqual({ gain: 10, loss: 5 });
+    expect(elevation.source).toBe("recorded");
+  });
+
+  it("has no raw totals without recorded altitudes", () => {
+    const elevation = summarizeElevation(createTrackpoints([undefined]));
+
+    expect(elevation.raw).toBeUndefined();
+    expect(elevation.corrected).toEqual({ gain: 0, loss: 0 });
+  });
+
+  it("keeps the recorded raw totals for DEM altitudes", () => {
+    const elevation = summarizeElevation(createTrackpoints(noisyClimb), "dem", {
+      gain: 10,
+      loss: 5,
+    });
+
+    expect(elevation.raw).toEqual({ gain: 10, loss: 5 });
+    expect(elevation.corrected.gain).toBeGreaterThan(95);
+  });
+
+  it("has no raw totals of DEM altitudes alone", () => {
+    // Nothing was recorded, so the DEM altitudes aren't raw totals
+    const elevation = summarizeElevation(createTrackpoints(noisyClimb), "dem");
+
+    expect(elevation.raw).toBeUndefined();
+    expect(elevation.source).toBe("dem");
+  });
+});
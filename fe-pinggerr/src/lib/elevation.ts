@@ -0,0 +1,96 @@
+/**
+ * Elevation processing
+ * Gain and loss from altitudes. Summing every rise overstates climbing badly:
+ * barometers drift by a meter here and there and GPS altitude wanders by
+ * several, so altitudes are smoothed first and a change only counts once it
+ * clears a threshold
+ */
+
+import type {
+  ActivityElevation,
+  ActivityTrackpoint,
+  ElevationTotals,
+} from "@/types/strava";
+
+// Trackpoints on either side averaged into each altitude
+const SMOOTHING_RADIUS = 2;
+// Rise or drop needed before it counts as climbing or descending
+const ELEVATION_THRESHOLD = 3; // meters
+
+/**
+ * Altitudes of the trackpoints that have one, in order
+ */
+export function getTrackpointAltitudes(
+  trackpoints: ActivityTrackpoint[]
+): number[] {
+  return trackpoints
+    .filter((tp) => tp.altitude !== undefined)
+    .map((tp) => tp.altitude!);
+}
+
+/**
+ * Every altitude change summed, as devices and the old parsers did
+ */
+export function getRawElevationTotals(altitudes: number[]): ElevationTotals {
+  const totals: ElevationTotals = { gain: 0, loss: 0 };
+  for (let i = 1; i < altitudes.length; i++) {
+    const change = altitudes[i] - altitudes[i - 1];
+    if (change > 0) totals.gain += change;
+    else totals.loss -= change;
+  }
+  return totals;
+}
+
+const smooth = (altitudes: number[]): number[] =>
+  altitudes.map((_, i) => {
+    const from = Math.max(0, i - SMOOTHING_RADIUS);
+    const to = Math.min(altitudes.length - 1, i + SMOOTHING_RADIUS);
+    let sum = 0;
+    for (let j = from; j <= to; j++) sum += altitudes[j];
+    return sum / (to - from + 1);
+  });
+
+/**
+ * Gain and loss of the smoothed altitudes, with hysteresis: the altitude
+ * has to move threshold meters away from the last counted one to count
+ */
+export function getElevationTotals(
+  altitudes: number[],
+  threshold: number = ELEVATION_THRESHOLD
+): ElevationTotals {
+  const totals: ElevationTotals = { gain: 0, loss: 0 };
+  const smoothed = smooth(altitudes);
+  let reference = smoothed[0];
+  smoothed.forEach((altitude) => {
+    if (altitude - reference >= threshold) {
+      totals.gain += altitude - reference;
+      reference = altitude;
+    } else if (reference - altitude >= threshold) {
+      totals.loss += reference - altitude;
+      reference = altitude;
+    }
+  });
+  return totals;
+}
+
+/**
+ * Raw and corrected elevation of the trackpoints. Raw totals can be passed
+ * in when the trackpoints' altitudes are no longer the recorded ones; DEM
+ * altitudes were never recorded, so they get none of their own
+ */
+export function summarizeElevation(
+  trackpoints: ActivityTrackpoint[],
+  source: ActivityElevation["source"] = "recorded",
+  raw?: ElevationTotals
+): ActivityElevation {
+  const altitudes = getTrackpointAltitudes(trackpoints);
+  const recordedRaw =
+    source === "recorded" && altitudes.length > 0
+      ? getRawElevationTotals(altitudes)
+      : undefined;
+  return {
+    raw: raw ?? recordedRaw,
+    corrected: getElevationTotals(altitudes),
+    source,
+  };
+}
@@ -0,0 +1,519 @@
+/**
+ * Elevation models
+ * Digital elevation models (DEMs) to recompute an activity's altitude from,
+ * where the recorded one is GPS-only or drifted. Either a GeoTIFF the user
+ * picks, read in the browser, or terrain-RGB / terrarium PNG tiles from a
+ * self-hosted tile server. Nothing is sent to a third party
+ */
+
+import type { StravaActivity } from "@/types/strava";
+import { config } from "@/config/env";
+import { toWebMercator } from "@/lib/basemap";
+import { summarizeElevation } from "@/lib/elevation";
+import { generateSplits } from "@/lib/activitySplits";
+
+export interface ElevationModel {
+  // Altitude in meters at each [latitude, longitude], null outside the model
+  sample(points: [number, number][]): Promise<(number | null)[]>;
+}
+
+export type TerrainTileEncoding = "terrarium" | "mapbox";
+
+// Tiles are ~10 m per pixel at this zoom, finer than GPS altitude
+const DEM_ZOOM = 14;
+// Zoom out rather than fetch hundreds of tiles for a long ride
+const MAX_DEM_TILES = 256;
+
+/**
+ * Bilinear interpolation between the four grid values around (x, y), null
+ * when any of them is missing
+ */
+const bilinear = (
+  x: number,
+  y: number,
+  valueAt: (col: number, row: number) => number | null
+): number | null => {
+  const col = Math.floor(x);
+  const row = Math.floor(y);
+  const fx = x - col;
+  const fy = y - row;
+  const corners = [
+    valueAt(col, row),
+    valueAt(col + 1, row),
+    valueAt(col, row + 1),
+    valueAt(col + 1, row + 1),
+  ];
+  if (corners.some((value) => value === null)) return null;
+  const [topLeft, topRight, bottomLeft, bottomRight] = corners as number[];
+  const top = topLeft + (topRight - topLeft) * fx;
+  const bottom = bottomLeft + (bottomRight - bottomLeft) * fx;
+  return top + (bottom - top) * fy;
+};
+
+// TIFF tags and GeoTIFF keys read below
+const TAG = {
+  width: 256,
+  height: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  predictor: 317,
+  tileWidth: 322,
+  tileHeight: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  pixelScale: 33550,
+  tiepoint: 33922,
+  geoKeys: 34735,
+  noData: 42113,
+};
+const MODEL_TYPE_KEY = 1024;
+const MODEL_TYPE_GEOGRAPHIC = 2;
+const RASTER_TYPE_KEY = 1025;
+const RASTER_PIXEL_IS_POINT = 2;
+
+const COMPRESSION_NONE = 1;
+// Deflate, under its current and its old code
+const COMPRESSION_DEFLATE = [8, 32946];
+const PREDICTOR_NONE = 1;
+const PREDICTOR_HORIZONTAL = 2;
+const PREDICTOR_FLOATING_POINT = 3;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  5: 8, // RATIONAL
+  6: 1, // SBYTE
+  7: 1, // UNDEFINED
+  8: 2, // SSHORT
+  9: 4, // SLONG
+  10: 8, // SRATIONAL
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+/**
+ * Inflate zlib-wrapped Deflate data, as TIFF stores it
+ */
+const inflate = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> =>
+  new Uint8Array(
+    await new Response(
+      new Blob([bytes]).stream().pipeThrough(new DecompressionStream("deflate"))
+    ).arrayBuffer()
+  );
+
+/**
+ * Undo a TIFF predictor in place, row by row. Horizontal differencing stores
+ * each value as the difference from the one before it; the floating point
+ * predictor does the same on each row's bytes, split into planes by
+ * significance (most significant first)
+ */
+const undoPredictor = (
+  data: Uint8Array,
+  predictor: number,
+  rowLength: number,
+  bytes: number,
+  little: boolean
+) => {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const rowBytes = rowLength * bytes;
+  for (let start = 0; start + rowBytes <= data.length; start += rowBytes) {
+    if (predictor === PREDICTOR_HORIZONTAL) {
+      for (let i = 1; i < rowLength; i++) {
+        const at = start + i * bytes;
+        const previous = at - bytes;
+        if (bytes === 1) data[at] += data[previous];
+        else if (bytes === 2) {
+          view.setUint16(
+            at,
+            view.getUint16(at, little) + view.getUint16(previous, little),
+            little
+          );
+        } else {
+          view.setUint32(
+            at,
+            view.getUint32(at, little) + view.getUint32(previous, little),
+            little
+          );
+        }
+      }
+      continue;
+    }
+
+    const row = data.slice(start, start + rowBytes);
+    for (let i = 1; i < rowBytes; i++) row[i] += row[i - 1];
+    for (let i = 0; i < rowLength; i++) {
+      for (let b = 0; b < bytes; b++) {
+        // Plane b holds byte b of each value counting from the most significant
+        const to = little ? bytes - 1 - b : b;
+        data[start + i * bytes + to] = row[b * rowLength + i];
+      }
+    }
+  }
+};
+
+/**
+ * Read a GeoTIFF into an elevation model. Only what DEM exports commonly use
+ * is supported: uncompressed or Deflate, one band, in latitude/longitude
+ */
+export async function loadGeoTiffModel(file: File): Promise<ElevationModel> {
+  const view = new DataView(await file.arrayBuffer());
+  const byteOrder = view.getUint16(0);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) {
+    throw new Error("Not a GeoTIFF file");
+  }
+  const little = byteOrder === 0x4949;
+  if (view.getUint16(2, little) !== 42) {
+    throw new Error("BigTIFF files aren't supported");
+  }
+
+  // Tags of the first image
+  const tags = new Map<number, number[] | string>();
+  const ifd = view.getUint32(4, little);
+  const entries = view.getUint16(ifd, little);
+  for (let e = 0; e < entries; e++) {
+    const entry = ifd + 2 + e * 12;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const count = view.getUint32(entry + 4, little);
+    const size = TYPE_SIZES[type];
+    if (!size) continue;
+    const offset =
+      size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+    if (type === 2) {
+      const bytes = new Uint8Array(view.buffer, offset, count);
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ""));
+      continue;
+    }
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+      const at = offset + i * size;
+      switch (type) {
+        case 3:
+          values.push(view.getUint16(at, little));
+          break;
+        case 4:
+          values.push(view.getUint32(at, little));
+          break;
+        case 8:
+          values.push(view.getInt16(at, little));
+          break;
+        case 9:
+          values.push(view.getInt32(at, little));
+          break;
+        case 11:
+          values.push(view.getFloat32(at, little));
+          break;
+        case 12:
+          values.push(view.getFloat64(at, little));
+          break;
+        default:
+          values.push(view.getUint8(at));
+      }
+    }
+    tags.set(tag, values);
+  }
+  const numbers = (tag: number) => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : undefined;
+  };
+
+  const compression = numbers(TAG.compression)?.[0] ?? COMPRESSION_NONE;
+  const isDeflate = COMPRESSION_DEFLATE.includes(compression);
+  if (compression !== COMPRESSION_NONE && !isDeflate) {
+    throw new Error(
+      "Only uncompressed and Deflate GeoTIFFs are supported, convert it first (e.g. gdal_translate -co COMPRESS=DEFLATE)"
+    );
+  }
+  const predictor = numbers(TAG.predictor)?.[0] ?? PREDICTOR_NONE;
+  if (
+    ![PREDICTOR_NONE, PREDICTOR_HORIZONTAL, PREDICTOR_FLOATING_POINT].includes(
+      predictor
+    )
+  ) {
+    throw new Error("The GeoTIFF uses an unknown predictor");
+  }
+  if ((numbers(TAG.samplesPerPixel)?.[0] ?? 1) !== 1) {
+    throw new Error("The GeoTIFF must have a single elevation band");
+  }
+  const scale = numbers(TAG.pixelScale);
+  const tiepoint = numbers(TAG.tiepoint);
+  if (!scale || !tiepoint) {
+    throw new Error("The GeoTIFF has no georeferencing");
+  }
+
+  // GeoKeyDirectory: a header of four shorts, then four shorts per key
+  const geoKeys = numbers(TAG.geoKeys) ?? [];
+  const geoKey = (id: number) => {
+    for (let k = 4; k + 3 < geoKeys.length; k += 4) {
+      if (geoKeys[k] === id && geoKeys[k + 1] === 0) return geoKeys[k + 3];
+    }
+    return undefined;
+  };
+  const modelType = geoKey(MODEL_TYPE_KEY);
+  if (modelType !== undefined && modelType !== MODEL_TYPE_GEOGRAPHIC) {
+    throw new Error(
+      "The GeoTIFF must be in latitude/longitude (EPSG:4326), reproject it first"
+    );
+  }
+  // Area pixels are referenced by their corner, their value is at the center
+  const centerOffset =
+    geoKey(RASTER_TYPE_KEY) === RASTER_PIXEL_IS_POINT ? 0 : 0.5;
+
+  const width = numbers(TAG.width)![0];
+  const height = numbers(TAG.height)![0];
+  const bits = numbers(TAG.bitsPerSample)?.[0] ?? 16;
+  const format = numbers(TAG.sampleFormat)?.[0] ?? 1; // 1 uint, 2 int, 3 float
+  const bytes = bits / 8;
+  const noDataTag = tags.get(TAG.noData);
+  const noData =
+    typeof noDataTag === "string" ? parseFloat(noDataTag) : undefined;
+
+  const read = (data: DataView, at: number): number => {
+    if (format === 3) {
+      return bits === 64
+        ? data.getFloat64(at, little)
+        : data.getFloat32(at, little);
+    }
+    if (bits === 8) return format === 2 ? data.getInt8(at) : data.getUint8(at);
+    if (bits === 16) {
+      return format === 2
+        ? data.getInt16(at, little)
+        : data.getUint16(at, little);
+    }
+    return format === 2
+      ? data.getInt32(at, little)
+      : data.getUint32(at, little);
+  };
+
+  // Pixels are stored in blocks, tiles or strips of whole rows
+  const tileOffsets = numbers(TAG.tileOffsets);
+  const stripOffsets = numbers(TAG.stripOffsets);
+  const blockOffsets = tileOffsets ?? stripOffsets;
+  if (!blockOffsets) {
+    throw new Error("The GeoTIFF has no image data");
+  }
+  const blockByteCounts = numbers(
+    tileOffsets ? TAG.tileByteCounts : TAG.stripByteCounts
+  );
+  const blockWidth = tileOffsets ? numbers(TAG.tileWidth)![0] : width;
+  const blockHeight = tileOffsets
+    ? numbers(TAG.tileHeight)![0]
+    : numbers(TAG.rowsPerStrip)?.[0] ?? height;
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const blockIndex = (col: number, row: number) =>
+    Math.floor(row / blockHeight) * blocksAcross + Math.floor(col / blockWidth);
+
+  // Blocks are decompressed when a point first needs them
+  const blocks = new Map<number, Promise<DataView>>();
+  const decodeBlock = async (index: number): Promise<DataView> => {
+    const offset = blockOffsets[index];
+    const length = Math.min(
+      blockByteCounts?.[index] ?? blockWidth * blockHeight * bytes,
+      view.byteLength - offset
+    );
+    const stored = new Uint8Array(view.buffer, offset, length);
+    if (!isDeflate && predictor === PREDICTOR_NONE) {
+      return new DataView(view.buffer, offset, length);
+    }
+    const data = isDeflate ? await inflate(stored) : stored.slice();
+    if (predictor !== PREDICTOR_NONE) {
+      undoPredictor(data, predictor, blockWidth, bytes, little);
+    }
+    return new DataView(data.buffer, data.byteOffset, data.byteLength);
+  };
+  const getBlock = (index: number) => {
+    if (!blocks.has(index)) blocks.set(index, decodeBlock(index));
+    return blocks.get(index)!;
+  };
+
+  const [, , , originLng, originLat] = tiepoint;
+  const [scaleX, scaleY] = scale;
+  return {
+    sample: async (points) => {
+      const positions = points.map(([lat, lng]) => ({
+        x: (lng - originLng) / scaleX + tiepoint[0] - centerOffset,
+        y: (originLat - lat) / scaleY + tiepoint[1] - centerOffset,
+      }));
+      const inImage = (col: number, row: number) =>
+        col >= 0 && row >= 0 && col < width && row < height;
+
+      // Every block the points and their neighbours fall in, decoded first
+      const needed = new Set<number>();
+      positions.forEach(({ x, y }) => {
+        const col = Math.floor(x);
+        const row = Math.floor(y);
+        [col, col + 1].forEach((c) =>
+          [row, row + 1].forEach((r) => {
+            if (inImage(c, r)) needed.add(blockIndex(c, r));
+          })
+        );
+      });
+      const decoded = new Map(
+        await Promise.all(
+          [...needed].map(
+            async (index) => [index, await getBlock(index)] as const
+          )
+        )
+      );
+
+      const valueAt = (col: number, row: number): number | null => {
+        if (!inImage(col, row)) return null;
+        const at =
+          ((row % blockHeight) * blockWidth + (col % blockWidth)) * bytes;
+        const data = decoded.get(blockIndex(col, row))!;
+        if (at + bytes > data.byteLength) return null;
+        const value = read(data, at);
+        return Number.isFinite(value) && value !== noData ? value : null;
+      };
+      return positions.map(({ x, y }) => bilinear(x, y, valueAt));
+    },
+  };
+}
+
+const decodeTerrainPixel = (
+  data: Uint8ClampedArray,
+  index: number,
+  encoding: TerrainTileEncoding
+) => {
+  const [r, g, b] = [data[index], data[index + 1], data[index + 2]];
+  return encoding === "mapbox"
+    ? -10000 + (r * 256 * 256 + g * 256 + b) * 0.1
+    : r * 256 + g + b / 256 - 32768;
+};
+
+const loadTerrainTile = async (url: string): Promise<ImageData | null> => {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const bitmap = await createImageBitmap(await response.blob());
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+    const context = canvas.getContext("2d")!;
+    context.drawImage(bitmap, 0, 0);
+    return context.getImageData(0, 0, bitmap.width, bitmap.height);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Elevation model backed by terrain-RGB or terrarium PNG tiles at a
+ * {z}/{x}/{y} URL. Points on tiles that fail to load get no altitude
+ */
+export function createTerrainTileModel(
+  url: string,
+  encoding: TerrainTileEncoding
+): ElevationModel {
+  return {
+    sample: async (points) => {
+      const world = points.map(([lat, lng]) => toWebMercator(lat, lng));
+      const tileKeys = (zoom: number) =>
+        new Set(
+          world.map(
+            ({ x, y }) =>
+              `${Math.floor(x * 2 ** zoom)}/${Math.floor(y * 2 ** zoom)}`
+          )
+        );
+      let zoom = DEM_ZOOM;
+      while (zoom > 0 && tileKeys(zoom).size > MAX_DEM_TILES) zoom--;
+
+      const tiles = new Map<string, ImageData | null>();
+      await Promise.all(
+        [...tileKeys(zoom)].map(async (key) => {
+          const [x, y] = key.split("/");
+          tiles.set(
+            key,
+            await loadTerrainTile(
+              url
+                .replace("{z}", String(zoom))
+                .replace("{x}", x)
+                .replace("{y}", y)
+            )
+          );
+        })
+      );
+
+      const count = 2 ** zoom;
+      return world.map(({ x, y }) => {
+        const tileX = Math.floor(x * count);
+        const tileY = Math.floor(y * count);
+        const tile = tiles.get(`${tileX}/${tileY}`);
+        if (!tile) return null;
+        const size = tile.width;
+        // Neighbouring pixels past the edge are clamped to this tile
+        const valueAt = (col: number, row: number) => {
+          const clampedCol = Math.min(size - 1, Math.max(0, col));
+          const clampedRow = Math.min(size - 1, Math.max(0, row));
+          return decodeTerrainPixel(
+            tile.data,
+            (clampedRow * size + clampedCol) * 4,
+            encoding
+          );
+        };
+        return bilinear(
+          (x * count - tileX) * size - 0.5,
+          (y * count - tileY) * size - 0.5,
+          valueAt
+        );
+      });
+    },
+  };
+}
+
+/**
+ * The configured tile DEM, or null when none is set up
+ */
+export function getConfiguredElevationModel(): ElevationModel | null {
+  const { demUrl, demEncoding } = config.elevation;
+  return demUrl ? createTerrainTileModel(demUrl, demEncoding) : null;
+}
+
+/**
+ * The activity with its altitude taken from the model. Trackpoints the model
+ * doesn't cover keep their recorded altitude; the recorded totals stay as
+ * the raw elevation
+ */
+export async function correctActivityElevation(
+  activity: StravaActivity,
+  model: ElevationModel
+): Promise<StravaActivity> {
+  const trackpoints = activity.trackpoints ?? [];
+  const located = trackpoints.filter(
+    (tp) => tp.latitude !== undefined && tp.longitude !== undefined
+  );
+  if (located.length === 0) return activity;
+
+  const altitudes = await model.sample(
+    located.map((tp) => [tp.latitude!, tp.longitude!])
+  );
+  if (altitudes.every((altitude) => altitude === null)) {
+    throw new Error("The elevation model doesn't cover this activity");
+  }
+
+  let next = 0;
+  const corrected = trackpoints.map((tp) => {
+    if (tp.latitude === undefined || tp.longitude === undefined) return tp;
+    const altitude = altitudes[next++];
+    return altitude === null ? tp : { ...tp, altitude };
+  });
+  // Raw totals stay those of the recorded altitudes; without any there are none
+  const elevation = summarizeElevation(
+    corrected,
+    "dem",
+    activity.elevation?.raw
+  );
+  return {
+    ...activity,
+    trackpoints: corrected,
+    splits: generateSplits(corrected),
+    total_elevation_gain: elevation.corrected.gain,
+    elevation,
+  };
+}
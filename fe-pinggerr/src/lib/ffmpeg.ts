@@ -0,0 +1,91 @@
+/**
+ * ffmpeg.wasm loader
+ * The library and its core are only fetched when a video export starts,
+ * then shared by every export in the session
+ */
+
+import type { FFmpeg } from "@ffmpeg/ffmpeg";
+import { config } from "@/config/env";
+
+let ffmpegPromise: Promise<FFmpeg> | null = null;
+
+export function loadFFmpeg(): Promise<FFmpeg> {
+  if (!ffmpegPromise) {
+    ffmpegPromise = (async () => {
+      const [{ FFmpeg }, { toBlobURL }] = await Promise.all([
+        import("@ffmpeg/ffmpeg"),
+        import("@ffmpeg/util"),
+      ]);
+      const ffmpeg = new FFmpeg();
+      const { coreUrl } = config.ffmpeg;
+      await ffmpeg.load({
+        coreURL: await toBlobURL(
+          `${coreUrl}/ffmpeg-core.js`,
+          "text/javascript"
+        ),
+        wasmURL: await toBlobURL(
+          `${coreUrl}/ffmpeg-core.wasm`,
+          "application/wasm"
+        ),
+      });
+      return ffmpeg;
+    })();
+    // Allow a retry after a failed download
+    ffmpegPromise.catch(() => {
+      ffmpegPromise = null;
+    });
+  }
+  return ffmpegPromise;
+}
+
+/**
+ * Read an output file from ffmpeg's virtual filesystem as a Blob
+ */
+export async function readFFmpegFile(
+  ffmpeg: FFmpeg,
+  name: string,
+  type: string
+): Promise<Blob> {
+  const data = await ffmpeg.readFile(name);
+  const bytes =
+    typeof data === "string" ? new TextEncoder().encode(data) : data;
+  return new Blob([bytes], { type });
+}
+
+/**
+ * Run an ffmpeg command, failing on a non-zero exit code
+ */
+export async function runFFmpeg(
+  ffmpeg: FFmpeg,
+  args: string[],
+  signal?: AbortSignal
+): Promise<void> {
+  const exitCode = await ffmpeg.exec(args, undefined, { signal });
+  if (exitCode !== 0) {
+    throw new Error(`ffmpeg exited with code ${exitCode}`);
+  }
+}
+
+/**
+ * Encode a canvas as image bytes to write into ffmpeg's filesystem
+ */
+export const canvasToBytes = (
+  canvas: HTMLCanvasElement,
+  type = "image/jpeg",
+  quality = 0.92
+): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("Failed to encode video frame"));
+          return;
+        }
+        blob
+          .arrayBuffer()
+          .then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      },
+      type,
+      quality
+    );
+  });
@@ -0,0 +1,150 @@
+/**
+ * Final stats summary shown after a 3D Stories flyover
+ * Shared by the overlay and the exported video's outro so both read the same
+ */
+
+import type { StravaActivity } from "@/types/strava";
+
+export type FinalStatTone =
+  | "blue"
+  | "green"
+  | "purple"
+  | "orange"
+  | "yellow"
+  | "red";
+
+export interface FinalStatItem {
+  key: string;
+  label: string;
+  value: string;
+  tone: FinalStatTone;
+}
+
+export interface FinalStats {
+  title: string;
+  items: FinalStatItem[];
+  name: string;
+  date: string;
+}
+
+const texts = {
+  en: {
+    title: "Activity Complete!",
+    distance: "Distance",
+    duration: "Duration",
+    pace: "Average Pace",
+    speed: "Average Speed",
+    elevation: "Elevation Gain",
+    heartRate: "Average Heart Rate",
+  },
+  id: {
+    title: "Aktivitas Selesai!",
+    distance: "Jarak",
+    duration: "Durasi",
+    pace: "Kecepatan Rata-rata",
+    speed: "Kecepatan Rata-rata",
+    elevation: "Naik Elevasi",
+    heartRate: "Detak Jantung Rata-rata",
+  },
+};
+
+const formatDistance = (meters: number): string => {
+  return `${(meters / 1000).toFixed(2)} km`;
+};
+
+const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  }
+  return `${minutes}m ${secs}s`;
+};
+
+const formatPace = (distanceMeters: number, timeSeconds: number): string => {
+  const minutes = timeSeconds / 60;
+  const km = distanceMeters / 1000;
+  const paceMinPerKm = minutes / km;
+  const paceMin = Math.floor(paceMinPerKm);
+  const paceSec = Math.round((paceMinPerKm - paceMin) * 60);
+  return `${paceMin}:${paceSec.toString().padStart(2, "0")}/km`;
+};
+
+const formatSpeed = (distanceMeters: number, timeSeconds: number): string => {
+  const kmh = distanceMeters / 1000 / (timeSeconds / 3600);
+  return `${kmh.toFixed(1)} km/h`;
+};
+
+const formatElevation = (meters: number): string => {
+  return `${meters.toFixed(0)} m`;
+};
+
+const formatHeartRate = (bpm: number): string => {
+  return `${Math.round(bpm)} BPM`;
+};
+
+export function getFinalStats(
+  activity: StravaActivity,
+  language: "en" | "id"
+): FinalStats {
+  const t = texts[language];
+
+  const items: FinalStatItem[] = [
+    {
+      key: "distance",
+      label: t.distance,
+      value: formatDistance(activity.distance),
+      tone: "blue",
+    },
+    {
+      key: "duration",
+      label: t.duration,
+      value: formatDuration(activity.moving_time),
+      tone: "green",
+    },
+    {
+      key: "pace",
+      label: t.pace,
+      value: formatPace(activity.distance, activity.moving_time),
+      tone: "purple",
+    },
+    {
+      key: "speed",
+      label: t.speed,
+      value: formatSpeed(activity.distance, activity.moving_time),
+      tone: "orange",
+    },
+    {
+      key: "elevation",
+      label: t.elevation,
+      value: formatElevation(activity.total_elevation_gain),
+      tone: "yellow",
+    },
+  ];
+
+  if (activity.has_heartrate && activity.average_heartrate) {
+    items.push({
+      key: "heartRate",
+      label: t.heartRate,
+      value: formatHeartRate(activity.average_heartrate),
+      tone: "red",
+    });
+  }
+
+  return {
+    title: t.title,
+    items,
+    name: activity.name,
+    date: new Date(activity.start_date).toLocaleDateString(
+      language === "en" ? "en-US" : "id-ID",
+      {
+        weekday: "long",
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      }
+    ),
+  };
+}
@@ -0,0 +1,220 @@
+import { describe, expect, it } from "vitest";
+import type { FitActivity, FitRecord } from "@/lib/fitParser";
+import { convertFitToStravaActivity, parseFitContent } from "@/lib/fitParser";
+
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+const START = Date.parse("2024-05-01T08:00:00Z");
+const fitTime = (seconds: number) =>
+  START / 1000 - FIT_EPOCH_OFFSET_SECONDS + seconds;
+const toSemicircles = (degrees: number) =>
+  Math.round((degrees / 180) * 2 ** 31);
+
+// Base types with the endian bit set, and their sizes
+const UINT8 = 0x02;
+const UINT16 = 0x84;
+const SINT32 = 0x85;
+const UINT32 = 0x86;
+const SIZES: Record<number, number> = {
+  [UINT8]: 1,
+  [UINT16]: 2,
+  [SINT32]: 4,
+  [UINT32]: 4,
+};
+
+interface FitMessage {
+  globalMessageNumber: number;
+  fields: [fieldNumber: number, baseType: number, value: number][];
+  compressedTimeOffset?: number; // sent with a compressed timestamp header
+}
+
+/**
+ * A little-endian FIT file with a definition before each message (local
+ * message 0, or 1 for compressed timestamp headers). The CRC isn't checked
+ */
+const buildFit = (messages: FitMessage[]): ArrayBuffer => {
+  const data: number[] = [];
+  const push = (value: number, size: number) => {
+    for (let i = 0; i < size; i++) data.push((value >>> (8 * i)) & 0xff);
+  };
+
+  messages.forEach(({ globalMessageNumber, fields, compressedTimeOffset }) => {
+    const local = compressedTimeOffset === undefined ? 0 : 1;
+    data.push(0x40 | local, 0, 0);
+    push(globalMessageNumber, 2);
+    data.push(fields.length);
+    fields.forEach(([number, baseType]) =>
+      data.push(number, SIZES[baseType], baseType)
+    );
+
+    data.push(
+      compressedTimeOffset === undefined
+        ? local
+        : 0x80 | (local << 5) | compressedTimeOffset
+    );
+    fields.forEach(([, baseType, value]) => push(value, SIZES[baseType]));
+  });
+
+  // 12-byte header (size, protocol, profile, data size, ".FIT"), data, CRC
+  const bytes = new Uint8Array(12 + data.length + 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, 12);
+  view.setUint8(1, 0x10);
+  view.setUint32(4, data.length, true);
+  bytes.set(
+    [...".FIT"].map((char) => char.charCodeAt(0)),
+    8
+  );
+  bytes.set(data, 12);
+  return bytes.buffer;
+};
+
+const record = (seconds: number, distance: number, heartRate = 150) => ({
+  globalMessageNumber: 20,
+  fields: [
+    [253, UINT32, fitTime(seconds)],
+    [0, SINT32, toSemicircles(50 + distance / 111_195)],
+    [1, SINT32, toSemicircles(8)],
+    [5, UINT32, distance * 100],
+    [3, UINT8, heartRate],
+  ] as FitMessage["fields"],
+});
+
+describe("parseFitContent", () => {
+  it("decodes record fields with their scale", () => {
+    const activity = parseFitContent(buildFit([record(0, 0), record(10, 33)]));
+
+    expect(activity.records).toHaveLength(2);
+    expect(activity.records[1].timestamp?.toISOString()).toBe(
+      "2024-05-01T08:00:10.000Z"
+    );
+    expect(activity.records[1].distance).toBe(33);
+    expect(activity.records[1].latitude).toBeCloseTo(50 + 33 / 111_195, 6);
+    expect(activity.records[1].longitude).toBeCloseTo(8, 6);
+    expect(activity.records[1].heartRate).toBe(150);
+  });
+
+  it("leaves out values set to the invalid sentinel", () => {
+    const activity = parseFitContent(buildFit([record(0, 0, 0xff)]));
+
+    expect(activity.records[0].heartRate).toBeUndefined();
+  });
+
+  it("resolves compressed timestamps from the last full one", () => {
+    const lastTime = fitTime(10);
+    const activity = parseFitContent(
+      buildFit([
+        record(10, 0),
+        {
+          globalMessageNumber: 20,
+          fields: [[5, UINT32, 1000]],
+          compressedTimeOffset: (lastTime + 5) & 0x1f,
+        },
+      ])
+    );
+
+    expect(activity.records[1].timestamp?.toISOString()).toBe(
+      "2024-05-01T08:00:15.000Z"
+    );
+  });
+
+  it("reads the session's sport", () => {
+    const activity = parseFitContent(
+      buildFit([
+        record(0, 0),
+        {
+          globalMessageNumber: 18,
+          fields: [
+            [5, UINT8, 1],
+            [9, UINT32, 500_000],
+            [22, UINT16, 42],
+          ],
+        },
+      ])
+    );
+
+    expect(activity.sessions[0]).toMatchObject({
+      sport: "Run",
+      totalDistance: 5000,
+      totalAscent: 42,
+    });
+  });
+
+  it("rejects files without a FIT header", () => {
+    expect(() => parseFitContent(new Uint8Array(16).buffer)).toThrow(
+      "Invalid FIT file format"
+    );
+  });
+});
+
+describe("convertFitToStravaActivity", () => {
+  // One record every 10 s for 10 minutes at 3 m/s
+  const records: FitRecord[] = Array.from({ length: 61 }, (_, i) => ({
+    timestamp: new Date(START + i * 10_000),
+    latitude: 50 + (i * 30) / 111_195,
+    longitude: 8,
+    distance: i * 30,
+    heartRate: 150,
+  }));
+  const createFitActivity = (
+    overrides: Partial<FitActivity> = {}
+  ): FitActivity => ({
+    records,
+    laps: [],
+    sessions: [],
+    devices: [],
+    ...overrides,
+  });
+
+  it("matches laps to records by their end time", () => {
+    const activity = convertFitToStravaActivity(
+      createFitActivity({
+        laps: [
+          { timestamp: new Date(START + 300_000), totalDistance: 900 },
+          { timestamp: new Date(START + 600_000), totalDistance: 900 },
+        ],
+      })
+    );
+
+    expect(activity.laps).toMatchObject([
+      { lapIndex: 1, startIndex: 0, endIndex: 30, distance: 900 },
+      { lapIndex: 2, startIndex: 31, endIndex: 60, distance: 900 },
+    ]);
+  });
+
+  it("takes totals from the session", () => {
+    const activity = convertFitToStravaActivity(
+      createFitActivity({
+        sessions: [
+          {
+            sport: "Ride",
+            totalDistance: 2000,
+            totalElapsedTime: 660,
+            totalTimerTime: 600,
+            totalAscent: 12,
+          },
+        ],
+      })
+    );
+
+    expect(activity).toMatchObject({
+      sport_type: "Ride",
+      distance: 2000,
+      elapsed_time: 660,
+      total_elevation_gain: 12,
+    });
+    expect(activity.moving_time).toBeLessThanOrEqual(600);
+  });
+
+  it("falls back to totals from the records", () => {
+    const activity = convertFitToStravaActivity(createFitActivity());
+
+    expect(activity).toMatchObject({
+      sport_type: "Workout",
+      distance: 1800,
+      elapsed_time: 600,
+      moving_time: 600,
+      average_heartrate: 150,
+    });
+    expect(activity.start_latlng).toEqual([50, 8]);
+  });
+});
@@ -0,0 +1,760 @@
+/**
+ * FIT (Flexible and Interoperable Data Transfer) Parser
+ * Decodes binary FIT activity files and converts them to Strava activity format
+ *
+ * Only the messages needed for visualizations are decoded (file_id, record,
+ * lap, session, device_info). Every other message, and any developer data
+ * fields, are skipped using the sizes from their definition messages.
+ */
+
+import type {
+  StravaActivity,
+  ActivityLap,
+  ActivityTrackpoint,
+} from "@/types/strava";
+import { encode } from "@mapbox/polyline";
+import { generateSplits } from "@/lib/activitySplits";
+import { analyzeMovingTime } from "@/lib/movingTime";
+import { summarizeElevation } from "@/lib/elevation";
+
+export interface FitRecord {
+  timestamp?: Date;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number; // meters
+  distance?: number; // cumulative meters
+  heartRate?: number; // bpm
+  speed?: number; // m/s
+  cadence?: number; // steps/min or rpm
+  watts?: number;
+  temperature?: number; // celsius
+  grade?: number; // percentage
+}
+
+export interface FitLap {
+  startTime?: Date;
+  timestamp?: Date;
+  totalElapsedTime?: number; // seconds
+  totalTimerTime?: number; // seconds
+  totalDistance?: number; // meters
+  totalCalories?: number;
+  averageSpeed?: number; // m/s
+  maxSpeed?: number; // m/s
+  averageHeartRate?: number;
+  maxHeartRate?: number;
+  averageCadence?: number;
+  averagePower?: number;
+  maxPower?: number;
+  totalAscent?: number; // meters
+}
+
+export interface FitSession extends FitLap {
+  sport?: string;
+  subSport?: number;
+  totalDescent?: number; // meters
+  averageTemperature?: number; // celsius
+}
+
+export interface FitDeviceInfo {
+  deviceIndex?: number;
+  manufacturer?: number;
+  product?: number;
+  productName?: string;
+  serialNumber?: number;
+  softwareVersion?: number;
+}
+
+export interface FitActivity {
+  timeCreated?: Date;
+  manufacturer?: number;
+  records: FitRecord[];
+  laps: FitLap[];
+  sessions: FitSession[];
+  devices: FitDeviceInfo[];
+}
+
+interface FitFieldDefinition {
+  fieldNumber: number;
+  size: number;
+  baseType: number;
+}
+
+interface FitMessageDefinition {
+  globalMessageNumber: number;
+  littleEndian: boolean;
+  fields: FitFieldDefinition[];
+  developerDataSize: number;
+}
+
+type FitFieldValues = Record<number, number | string>;
+
+/**
+ * Global message numbers from the FIT profile
+ */
+const FIT_MESSAGE = {
+  fileId: 0,
+  session: 18,
+  lap: 19,
+  record: 20,
+  deviceInfo: 23,
+} as const;
+
+/**
+ * FIT timestamps count seconds from 1989-12-31T00:00:00Z
+ */
+const FIT_EPOCH_OFFSET_SECONDS = 631065600;
+
+const SEMICIRCLES_TO_DEGREES = 180 / 2 ** 31;
+
+/**
+ * FIT sport enum values mapped to Strava sport types
+ */
+const FIT_SPORT_TYPES: Record<number, string> = {
+  0: "Workout",
+  1: "Run",
+  2: "Ride",
+  5: "Swim",
+  11: "Walk",
+  17: "Hike",
+};
+
+/**
+ * Read a single value of the given base type, returning undefined for the
+ * FIT "invalid" sentinel of that type
+ */
+function readBaseTypeValue(
+  view: DataView,
+  offset: number,
+  field: FitFieldDefinition,
+  littleEndian: boolean
+): number | string | undefined {
+  switch (field.baseType & 0x1f) {
+    case 0x00: // enum
+    case 0x02: // uint8
+    case 0x0d: {
+      // byte
+      const value = view.getUint8(offset);
+      return value === 0xff ? undefined : value;
+    }
+    case 0x01: {
+      // sint8
+      const value = view.getInt8(offset);
+      return value === 0x7f ? undefined : value;
+    }
+    case 0x0a: {
+      // uint8z
+      const value = view.getUint8(offset);
+      return value === 0x00 ? undefined : value;
+    }
+    case 0x03: {
+      // sint16
+      if (field.size < 2) return undefined;
+      const value = view.getInt16(offset, littleEndian);
+      return value === 0x7fff ? undefined : value;
+    }
+    case 0x04: {
+      // uint16
+      if (field.size < 2) return undefined;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0xffff ? undefined : value;
+    }
+    case 0x0b: {
+      // uint16z
+      if (field.size < 2) return undefined;
+      const value = view.getUint16(offset, littleEndian);
+      return value === 0x0000 ? undefined : value;
+    }
+    case 0x05: {
+      // sint32
+      if (field.size < 4) return undefined;
+      const value = view.getInt32(offset, littleEndian);
+      return value === 0x7fffffff ? undefined : value;
+    }
+    case 0x06: {
+      // uint32
+      if (field.size < 4) return undefined;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0xffffffff ? undefined : value;
+    }
+    case 0x0c: {
+      // uint32z
+      if (field.size < 4) return undefined;
+      const value = view.getUint32(offset, littleEndian);
+      return value === 0x00000000 ? undefined : value;
+    }
+    case 0x08: {
+      // float32
+      if (field.size < 4) return undefined;
+      const value = view.getFloat32(offset, littleEndian);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 0x09: {
+      // float64
+      if (field.size < 8) return undefined;
+      const value = view.getFloat64(offset, littleEndian);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 0x07: {
+      // string (null-terminated UTF-8)
+      const bytes = new Uint8Array(
+        view.buffer,
+        view.byteOffset + offset,
+        field.size
+      );
+      const end = bytes.indexOf(0);
+      const text = new TextDecoder().decode(
+        end === -1 ? bytes : bytes.subarray(0, end)
+      );
+      return text || undefined;
+    }
+    default:
+      // 64-bit integers and unknown types are not needed for visualizations
+      return undefined;
+  }
+}
+
+/**
+ * Convert a FIT timestamp to a Date
+ */
+function fitTimestampToDate(
+  value: number | string | undefined
+): Date | undefined {
+  if (typeof value !== "number") return undefined;
+  return new Date((value + FIT_EPOCH_OFFSET_SECONDS) * 1000);
+}
+
+/**
+ * Apply FIT scale and offset to a raw numeric field value
+ */
+function scaled(
+  value: number | string | undefined,
+  scale: number,
+  offset = 0
+): number | undefined {
+  if (typeof value !== "number") return undefined;
+  return value / scale - offset;
+}
+
+function numeric(value: number | string | undefined): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function toRecord(fields: FitFieldValues): FitRecord {
+  const lat = numeric(fields[0]);
+  const lng = numeric(fields[1]);
+
+  return {
+    timestamp: fitTimestampToDate(fields[253]),
+    latitude: lat !== undefined ? lat * SEMICIRCLES_TO_DEGREES : undefined,
+    longitude: lng !== undefined ? lng * SEMICIRCLES_TO_DEGREES : undefined,
+    // Prefer enhanced fields (32-bit) over the legacy 16-bit ones
+    altitude: scaled(fields[78], 5, 500) ?? scaled(fields[2], 5, 500),
+    distance: scaled(fields[5], 100),
+    heartRate: numeric(fields[3]),
+    speed: scaled(fields[73], 1000) ?? scaled(fields[6], 1000),
+    cadence: numeric(fields[4]),
+    watts: numeric(fields[7]),
+    grade: scaled(fields[9], 100),
+    temperature: numeric(fields[13]),
+  };
+}
+
+function toLap(fields: FitFieldValues): FitLap {
+  return {
+    timestamp: fitTimestampToDate(fields[253]),
+    startTime: fitTimestampToDate(fields[2]),
+    totalElapsedTime: scaled(fields[7], 1000),
+    totalTimerTime: scaled(fields[8], 1000),
+    totalDistance: scaled(fields[9], 100),
+    totalCalories: numeric(fields[11]),
+    averageSpeed: scaled(fields[110], 1000) ?? scaled(fields[13], 1000),
+    maxSpeed: scaled(fields[111], 1000) ?? scaled(fields[14], 1000),
+    averageHeartRate: numeric(fields[15]),
+    maxHeartRate: numeric(fields[16]),
+    averageCadence: numeric(fields[17]),
+    averagePower: numeric(fields[19]),
+    maxPower: numeric(fields[20]),
+    totalAscent: numeric(fields[21]),
+  };
+}
+
+function toSession(fields: FitFieldValues): FitSession {
+  const sport = numeric(fields[5]);
+
+  return {
+    timestamp: fitTimestampToDate(fields[253]),
+    startTime: fitTimestampToDate(fields[2]),
+    sport: sport !== undefined ? FIT_SPORT_TYPES[sport] : undefined,
+    subSport: numeric(fields[6]),
+    totalElapsedTime: scaled(fields[7], 1000),
+    totalTimerTime: scaled(fields[8], 1000),
+    totalDistance: scaled(fields[9], 100),
+    totalCalories: numeric(fields[11]),
+    averageSpeed: scaled(fields[124], 1000) ?? scaled(fields[14], 1000),
+    maxSpeed: scaled(fields[125], 1000) ?? scaled(fields[15], 1000),
+    averageHeartRate: numeric(fields[16]),
+    maxHeartRate: numeric(fields[17]),
+    averageCadence: numeric(fields[18]),
+    averagePower: numeric(fields[20]),
+    maxPower: numeric(fields[21]),
+    totalAscent: numeric(fields[22]),
+    totalDescent: numeric(fields[23]),
+    averageTemperature: numeric(fields[57]),
+  };
+}
+
+function toDeviceInfo(fields: FitFieldValues): FitDeviceInfo {
+  const productName = fields[27];
+
+  return {
+    deviceIndex: numeric(fields[0]),
+    manufacturer: numeric(fields[2]),
+    serialNumber: numeric(fields[3]),
+    product: numeric(fields[4]),
+    softwareVersion: scaled(fields[5], 100),
+    productName: typeof productName === "string" ? productName : undefined,
+  };
+}
+
+/**
+ * Parse FIT binary content and extract activity data
+ * Handles chained FIT files, compressed timestamp headers and developer fields
+ */
+export function parseFitContent(buffer: ArrayBuffer): FitActivity {
+  const view = new DataView(buffer);
+  const activity: FitActivity = {
+    records: [],
+    laps: [],
+    sessions: [],
+    devices: [],
+  };
+
+  let fileOffset = 0;
+
+  while (fileOffset + 12 <= buffer.byteLength) {
+    const headerSize = view.getUint8(fileOffset);
+    const dataSize = view.getUint32(fileOffset + 4, true);
+    const signature = String.fromCharCode(
+      view.getUint8(fileOffset + 8),
+      view.getUint8(fileOffset + 9),
+      view.getUint8(fileOffset + 10),
+      view.getUint8(fileOffset + 11)
+    );
+
+    if ((headerSize !== 12 && headerSize !== 14) || signature !== ".FIT") {
+      if (fileOffset === 0) {
+        throw new Error("Invalid FIT file format");
+      }
+      // Trailing bytes after a complete file are ignored
+      break;
+    }
+
+    const dataStart = fileOffset + headerSize;
+    const dataEnd = Math.min(dataStart + dataSize, buffer.byteLength);
+    const definitions = new Map<number, FitMessageDefinition>();
+    let lastTimestamp: number | undefined;
+    let offset = dataStart;
+
+    while (offset < dataEnd) {
+      const recordHeader = view.getUint8(offset);
+      offset += 1;
+
+      let localMessageType: number;
+      let compressedTimeOffset: number | undefined;
+
+      if (recordHeader & 0x80) {
+        // Compressed timestamp header: always a data message
+        localMessageType = (recordHeader >> 5) & 0x03;
+        compressedTimeOffset = recordHeader & 0x1f;
+      } else {
+        localMessageType = recordHeader & 0x0f;
+
+        if (recordHeader & 0x40) {
+          // Definition message
+          if (offset + 5 > dataEnd) break;
+          const littleEndian = view.getUint8(offset + 1) === 0;
+          const globalMessageNumber = view.getUint16(offset + 2, littleEndian);
+          const fieldCount = view.getUint8(offset + 4);
+          offset += 5;
+
+          const fields: FitFieldDefinition[] = [];
+          for (let i = 0; i < fieldCount && offset + 3 <= dataEnd; i++) {
+            fields.push({
+              fieldNumber: view.getUint8(offset),
+              size: view.getUint8(offset + 1),
+              baseType: view.getUint8(offset + 2),
+            });
+            offset += 3;
+          }
+
+          // Developer fields are skipped; only their total size is kept
+          let developerDataSize = 0;
+          if (recordHeader & 0x20 && offset < dataEnd) {
+            const developerFieldCount = view.getUint8(offset);
+            offset += 1;
+            for (
+              let i = 0;
+              i < developerFieldCount && offset + 3 <= dataEnd;
+              i++
+            ) {
+              developerDataSize += view.getUint8(offset + 1);
+              offset += 3;
+            }
+          }
+
+          definitions.set(localMessageType, {
+            globalMessageNumber,
+            littleEndian,
+            fields,
+            developerDataSize,
+          });
+          continue;
+        }
+      }
+
+      const definition = definitions.get(localMessageType);
+      if (!definition) {
+        throw new Error(
+          `Corrupted FIT file: missing definition for local message ${localMessageType}`
+        );
+      }
+
+      const values: FitFieldValues = {};
+      for (const field of definition.fields) {
+        if (offset + field.size > dataEnd) break;
+        const value = readBaseTypeValue(
+          view,
+          offset,
+          field,
+          definition.littleEndian
+        );
+        if (value !== undefined) {
+          values[field.fieldNumber] = value;
+        }
+        offset += field.size;
+      }
+      offset += definition.developerDataSize;
+
+      // Resolve timestamps (compressed header or explicit field)
+      if (compressedTimeOffset !== undefined && lastTimestamp !== undefined) {
+        let timestamp = (lastTimestamp & ~0x1f) + compressedTimeOffset;
+        if (compressedTimeOffset < (lastTimestamp & 0x1f)) {
+          timestamp += 0x20;
+        }
+        lastTimestamp = timestamp;
+        values[253] = timestamp;
+      } else if (typeof values[253] === "number") {
+        lastTimestamp = values[253];
+      }
+
+      switch (definition.globalMessageNumber) {
+        case FIT_MESSAGE.fileId:
+          activity.manufacturer ??= numeric(values[1]);
+          activity.timeCreated ??= fitTimestampToDate(values[4]);
+          break;
+        case FIT_MESSAGE.record:
+          activity.records.push(toRecord(values));
+          break;
+        case FIT_MESSAGE.lap:
+          activity.laps.push(toLap(values));
+          break;
+        case FIT_MESSAGE.session:
+          activity.sessions.push(toSession(values));
+          break;
+        case FIT_MESSAGE.deviceInfo:
+          activity.devices.push(toDeviceInfo(values));
+          break;
+      }
+    }
+
+    // Skip the 2-byte file CRC and continue with the next chained file
+    fileOffset = dataEnd + 2;
+  }
+
+  if (activity.records.length === 0) {
+    throw new Error("No activity records found in FIT file");
+  }
+
+  return activity;
+}
+
+/**
+ * Convert FIT records to common ActivityTrackpoint format
+ */
+function convertFitRecordsToActivityTrackpoints(
+  records: FitRecord[]
+): ActivityTrackpoint[] {
+  const startTime = records[0]?.timestamp?.getTime();
+
+  return records.map(
+    (record): ActivityTrackpoint => ({
+      time: record.timestamp?.toISOString(),
+      timeOffset:
+        record.timestamp && startTime !== undefined
+          ? (record.timestamp.getTime() - startTime) / 1000
+          : undefined,
+      latitude: record.latitude,
+      longitude: record.longitude,
+      altitude: record.altitude,
+      distance: record.distance,
+      heartRate: record.heartRate,
+      speed: record.speed,
+      cadence: record.cadence,
+      watts: record.watts,
+      grade: record.grade,
+      temperature: record.temperature,
+    })
+  );
+}
+
+/**
+ * Convert FIT lap messages to common ActivityLap format
+ * Trackpoint ranges are matched by record timestamps
+ */
+function convertFitLapsToActivityLaps(
+  fitLaps: FitLap[],
+  records: FitRecord[]
+): ActivityLap[] {
+  let currentTrackpointIndex = 0;
+
+  return fitLaps.map((lap, index) => {
+    const startIndex = currentTrackpointIndex;
+    const lapEnd = lap.timestamp?.getTime();
+
+    let endIndex = startIndex;
+    while (
+      endIndex + 1 < records.length &&
+      (lapEnd === undefined ||
+        (records[endIndex + 1].timestamp?.getTime() ?? 0) <= lapEnd)
+    ) {
+      endIndex++;
+    }
+    // Last lap always runs to the end of the recording
+    if (index === fitLaps.length - 1) {
+      endIndex = Math.max(startIndex, records.length - 1);
+    }
+    currentTrackpointIndex = endIndex + 1;
+
+    const elapsedTime = lap.totalElapsedTime ?? 0;
+    const distance = lap.totalDistance ?? 0;
+
+    return {
+      startTime:
+        (lap.startTime ?? records[startIndex]?.timestamp)?.toISOString() ?? "",
+      elapsedTime,
+      movingTime: lap.totalTimerTime,
+      distance,
+      averageSpeed:
+        lap.averageSpeed ??
+        (lap.totalTimerTime ? distance / lap.totalTimerTime : undefined),
+      maxSpeed: lap.maxSpeed,
+      averageHeartrate: lap.averageHeartRate,
+      maxHeartrate: lap.maxHeartRate,
+      averageCadence: lap.averageCadence,
+      averageWatts: lap.averagePower,
+      maxWatts: lap.maxPower,
+      calories: lap.totalCalories,
+      totalElevationGain: lap.totalAscent,
+      startIndex,
+      endIndex,
+      lapIndex: index + 1, // 1-based lap number
+    };
+  });
+}
+
+/**
+ * Convert FIT activity data to Strava activity format
+ */
+export function convertFitToStravaActivity(
+  fitActivity: FitActivity
+): StravaActivity {
+  const session = fitActivity.sessions[0];
+  const records = fitActivity.records;
+
+  const {
+    trackpoints,
+    movingTime: detectedMovingTime,
+    pauses,
+  } = analyzeMovingTime(convertFitRecordsToActivityTrackpoints(records));
+  const laps = convertFitLapsToActivityLaps(fitActivity.laps, records);
+
+  const firstTime = records[0]?.timestamp;
+  const lastTime = records[records.length - 1]?.timestamp;
+  const recordedTime =
+    firstTime && lastTime
+      ? (lastTime.getTime() - firstTime.getTime()) / 1000
+      : 0;
+
+  // Session summary is authoritative; fall back to record-derived totals
+  const lastDistance = [...records]
+    .reverse()
+    .find((record) => record.distance !== undefined)?.distance;
+  const totalDistance = session?.totalDistance ?? lastDistance ?? 0;
+  const elapsedTime = session?.totalElapsedTime ?? recordedTime;
+  // Timer time leaves out auto-pauses but not stops the watch missed
+  const timerTime = session?.totalTimerTime ?? elapsedTime;
+  const movingTime =
+    detectedMovingTime > 0
+      ? Math.min(detectedMovingTime, timerTime)
+      : timerTime;
+
+  // The device's total ascent is already filtered; smooth ours if it's missing
+  const elevation = summarizeElevation(trackpoints);
+  const totalElevationGain = session?.totalAscent ?? elevation.corrected.gain;
+
+  // Generate polyline if GPS data is available
+  const coordinates: [number, number][] = records
+    .filter(
+      (record) =>
+        record.latitude !== undefined && record.longitude !== undefined
+    )
+    .map((record) => [record.latitude!, record.longitude!] as [number, number]);
+  const polyline = coordinates.length > 0 ? encode(coordinates, 5) : undefined;
+
+  // Calculate heart rate stats
+  const heartRates = records
+    .filter((record) => record.heartRate && record.heartRate > 0)
+    .map((record) => record.heartRate!);
+  const hasHeartRate = heartRates.length > 0;
+
+  // Calculate power stats
+  const watts = records
+    .filter((record) => record.watts !== undefined)
+    .map((record) => record.watts!);
+  const hasPower = watts.length > 0;
+
+  // Calculate temperature
+  const temperatures = records
+    .filter((record) => record.temperature !== undefined)
+    .map((record) => record.temperature!);
+
+  const average = (values: number[]) =>
+    values.length > 0
+      ? values.reduce((sum, v) => sum + v, 0) / values.length
+      : undefined;
+
+  const speeds = records
+    .filter((record) => record.speed && record.speed > 0)
+    .map((record) => record.speed!);
+
+  const startDate = (
+    session?.startTime ??
+    firstTime ??
+    fitActivity.timeCreated ??
+    new Date()
+  ).toISOString();
+
+  const sportType = session?.sport || "Workout";
+
+  return {
+    resource_state: 2,
+    athlete: {
+      id: 0, // Unknown athlete
+      resource_state: 1,
+    },
+    name: `${sportType} Activity`,
+    distance: totalDistance,
+    moving_time: movingTime,
+    elapsed_time: elapsedTime,
+    total_elevation_gain: totalElevationGain,
+    type: sportType,
+    sport_type: sportType,
+    id: Math.floor(Math.random() * 1000000), // Generate random ID
+    start_date: startDate,
+    start_date_local: startDate,
+    timezone: "UTC",
+    utc_offset: 0,
+    start_latlng: coordinates[0] ?? null,
+    end_latlng: coordinates[coordinates.length - 1] ?? null,
+    achievement_count: 0,
+    kudos_count: 0,
+    comment_count: 0,
+    athlete_count: 1,
+    photo_count: 0,
+    map: polyline
+      ? {
+          id: "fit_map",
+          polyline: polyline,
+          summary_polyline: polyline,
+          resource_state: 2,
+        }
+      : undefined,
+    trainer: false,
+    commute: false,
+    manual: false,
+    private: false,
+    flagged: false,
+    average_speed:
+      session?.averageSpeed ??
+      (movingTime > 0 ? totalDistance / movingTime : 0),
+    max_speed:
+      session?.maxSpeed ??
+      (speeds.length > 0 ? Math.max(...speeds) : undefined),
+    average_cadence:
+      session?.averageCadence ??
+      average(
+        records
+          .filter((record) => record.cadence && record.cadence > 0)
+          .map((record) => record.cadence!)
+      ),
+    average_watts: session?.averagePower ?? average(watts),
+    max_watts: session?.maxPower ?? (hasPower ? Math.max(...watts) : undefined),
+    device_watts: hasPower,
+    calories: session?.totalCalories,
+    average_temp: session?.averageTemperature ?? average(temperatures),
+    has_heartrate: hasHeartRate,
+    average_heartrate: session?.averageHeartRate ?? average(heartRates),
+    max_heartrate:
+      session?.maxHeartRate ??
+      (hasHeartRate ? Math.max(...heartRates) : undefined),
+    pr_count: 0,
+    total_photo_count: 0,
+    has_kudoed: false,
+    source: "fit", // Mark as FIT data source
+    laps, // Include the converted lap data
+    splits: generateSplits(trackpoints), // Virtual kilometre splits
+    trackpoints, // Include the converted trackpoint data
+    pauses, // Stops found in the trackpoints
+    elevation,
+  };
+}
+
+/**
+ * Process uploaded FIT file
+ */
+export async function processFitFromFile(file: File): Promise<StravaActivity> {
+  try {
+    // Validate file type
+    if (!file.name.toLowerCase().endsWith(".fit")) {
+      throw new Error("Please select a FIT file (.fit extension)");
+    }
+
+    // Check file size (50MB limit)
+    const fileSizeMB = file.size / (1024 * 1024);
+    if (fileSizeMB > 50) {
+      throw new Error(
+        `File too large (${fileSizeMB.toFixed(
+          1
+        )}MB). Maximum supported size is 50MB.`
+      );
+    }
+
+    // Read file content
+    const buffer = await file.arrayBuffer();
+
+    if (buffer.byteLength === 0) {
+      throw new Error("Empty FIT file");
+    }
+
+    // Parse FIT content
+    const fitActivity = parseFitContent(buffer);
+
+    // Convert to Strava format
+    return convertFitToStravaActivity(fitActivity);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error("Failed to process FIT file");
+  }
+}
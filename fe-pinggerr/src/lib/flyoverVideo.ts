@@ -0,0 +1,392 @@
+/**
+ * 3D Stories video export
+ * Records the flyover frame by frame through FlyoverMap's recorder, splices
+ * each segment's uploaded clip in where the segment starts, appends the final
+ * stats as an outro and joins the parts into one MP4 with ffmpeg.wasm
+ */
+
+import type { ActivitySegment, StravaActivity } from "@/types/strava";
+import { getFinalStats, type FinalStatTone } from "@/lib/finalStats";
+import type { CameraPath } from "@/lib/cameraPath";
+import {
+  canvasToBytes,
+  loadFFmpeg,
+  readFFmpegFile,
+  runFFmpeg,
+} from "@/lib/ffmpeg";
+
+/**
+ * Deterministic camera control exposed by FlyoverMap. Every capture waits for
+ * the map to finish rendering, so frames never show half-loaded tiles
+ */
+export interface FlyoverRecorder {
+  // Resize the map to the video's pixel size for the duration of a recording
+  start: (width: number, height: number) => Promise<void>;
+  // Place the camera at a (fractional) trackpoint index and return the map canvas
+  captureFrame: (trackpointIndex: number) => Promise<HTMLCanvasElement>;
+  // Top-down view of the whole route
+  captureOverview: () => Promise<HTMLCanvasElement>;
+  finish: () => void;
+}
+
+export const FLYOVER_VIDEO_SIZE = { width: 720, height: 1280 };
+
+const FPS = 24;
+const FRAMES_PER_CHUNK = 240; // keeps ffmpeg's in-memory filesystem small
+const OUTRO_SECONDS = 4;
+const FLYOVER_SHARE = 0.85; // of the progress bar, the rest is encoding clips
+
+// Every part is encoded with the same settings so they can be joined
+// without re-encoding. Audio is dropped, the flyover itself has none
+const ENCODE_ARGS = [
+  "-c:v",
+  "libx264",
+  "-preset",
+  "veryfast",
+  "-pix_fmt",
+  "yuv420p",
+  "-r",
+  String(FPS),
+  "-video_track_timescale",
+  "90000",
+  "-an",
+];
+
+const TONE_COLORS: Record<
+  FinalStatTone,
+  { tile: string; label: string; value: string }
+> = {
+  blue: { tile: "#EFF6FF", label: "#2563EB", value: "#1E40AF" },
+  green: { tile: "#F0FDF4", label: "#16A34A", value: "#166534" },
+  purple: { tile: "#FAF5FF", label: "#9333EA", value: "#6B21A8" },
+  orange: { tile: "#FFF7ED", label: "#EA580C", value: "#9A3412" },
+  yellow: { tile: "#FEFCE8", label: "#CA8A04", value: "#854D0E" },
+  red: { tile: "#FEF2F2", label: "#DC2626", value: "#991B1B" },
+};
+
+const FONT_FAMILY = "system-ui, -apple-system, sans-serif";
+
+export interface FlyoverVideoInput {
+  activity: StravaActivity;
+  startIndex: number;
+  endIndex: number;
+  cameraPath: CameraPath; // timing of the flyover, clips and outro come on top
+  segments: ActivitySegment[];
+  outro: boolean;
+  language: "en" | "id";
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+const drawCover = (
+  context: CanvasRenderingContext2D,
+  source: HTMLCanvasElement,
+  width: number,
+  height: number
+) => {
+  const scale = Math.max(width / source.width, height / source.height);
+  const drawWidth = source.width * scale;
+  const drawHeight = source.height * scale;
+  context.drawImage(
+    source,
+    (width - drawWidth) / 2,
+    (height - drawHeight) / 2,
+    drawWidth,
+    drawHeight
+  );
+};
+
+/**
+ * Draw the FinalStatsOverlay card over the route overview
+ */
+const drawFinalStatsOutro = (
+  context: CanvasRenderingContext2D,
+  background: HTMLCanvasElement,
+  activity: StravaActivity,
+  language: "en" | "id"
+) => {
+  const { width, height } = context.canvas;
+  const stats = getFinalStats(activity, language);
+
+  drawCover(context, background, width, height);
+  context.fillStyle = "rgba(0, 0, 0, 0.5)";
+  context.fillRect(0, 0, width, height);
+
+  const cardWidth = width * 0.86;
+  const padding = 32;
+  const gap = 16;
+  const tileWidth = (cardWidth - padding * 2 - gap) / 2;
+  const tileHeight = 104;
+  const rows = Math.ceil(stats.items.length / 2);
+  const cardHeight =
+    padding * 2 + 56 + rows * tileHeight + (rows - 1) * gap + 112;
+  const cardX = (width - cardWidth) / 2;
+  const cardY = (height - cardHeight) / 2;
+
+  context.fillStyle = "#FFFFFF";
+  context.beginPath();
+  context.roundRect(cardX, cardY, cardWidth, cardHeight, 16);
+  context.fill();
+
+  context.textBaseline = "top";
+  context.textAlign = "left";
+  context.fillStyle = "#16A34A";
+  context.font = `bold 36px ${FONT_FAMILY}`;
+  context.fillText(stats.title, cardX + padding, cardY + padding);
+
+  const gridY = cardY + padding + 56;
+  stats.items.forEach((item, index) => {
+    const colors = TONE_COLORS[item.tone];
+    const x = cardX + padding + (index % 2) * (tileWidth + gap);
+    const y = gridY + Math.floor(index / 2) * (tileHeight + gap);
+
+    context.fillStyle = colors.tile;
+    context.beginPath();
+    context.roundRect(x, y, tileWidth, tileHeight, 12);
+    context.fill();
+
+    context.textAlign = "center";
+    context.fillStyle = colors.label;
+    context.font = `500 20px ${FONT_FAMILY}`;
+    context.fillText(item.label, x + tileWidth / 2, y + 20, tileWidth - 16);
+    context.fillStyle = colors.value;
+    context.font = `bold 28px ${FONT_FAMILY}`;
+    context.fillText(item.value, x + tileWidth / 2, y + 54, tileWidth - 16);
+  });
+
+  const footerY = gridY + rows * tileHeight + (rows - 1) * gap + 32;
+  context.textAlign = "center";
+  context.fillStyle = "#1F2937";
+  context.font = `600 26px ${FONT_FAMILY}`;
+  context.fillText(stats.name, width / 2, footerY, cardWidth - padding * 2);
+  context.fillStyle = "#4B5563";
+  context.font = `20px ${FONT_FAMILY}`;
+  context.fillText(
+    stats.date,
+    width / 2,
+    footerY + 40,
+    cardWidth - padding * 2
+  );
+};
+
+/**
+ * Record the flyover between two trackpoints as an MP4, timed by the camera
+ * path. Segment clips within the range are cut in at their start point,
+ * scaled to fit the video frame
+ */
+export async function exportFlyoverVideo(
+  recorder: FlyoverRecorder,
+  input: FlyoverVideoInput
+): Promise<Blob> {
+  const { width, height } = FLYOVER_VIDEO_SIZE;
+  const { startIndex, endIndex, cameraPath, signal } = input;
+  const ffmpeg = await loadFFmpeg();
+  const prefix = `flyover-${Date.now().toString(36)}`;
+  const files: string[] = [];
+  const parts: string[] = [];
+
+  const frame = document.createElement("canvas");
+  frame.width = width;
+  frame.height = height;
+  const context = frame.getContext("2d");
+  if (!context) throw new Error("Canvas 2D context is not available");
+
+  const clips = input.segments
+    .filter(
+      (segment) =>
+        segment.videoFile &&
+        segment.startIndex >= startIndex &&
+        segment.startIndex < endIndex
+    )
+    .sort((a, b) => a.startIndex - b.startIndex);
+  const cuts = [
+    startIndex,
+    ...clips.map((segment) => segment.startIndex),
+    endIndex,
+  ];
+  // Flyover pieces between clips as time ranges along the camera path.
+  // A dwell where a clip is cut in plays after the clip, the last piece
+  // includes the dwell at its end
+  const pieces = cuts.slice(0, -1).map((from, piece) => {
+    const startTime = cameraPath.timeAt(from);
+    const endTime = cameraPath.timeAt(
+      cuts[piece + 1],
+      piece === cuts.length - 2
+    );
+    return {
+      startTime,
+      frameCount: Math.max(0, Math.round((endTime - startTime) * FPS)),
+    };
+  });
+  const totalFrames = Math.max(
+    1,
+    pieces.reduce((sum, { frameCount }) => sum + frameCount, 0)
+  );
+  const extraSteps = clips.length + (input.outro ? 1 : 0) + 1;
+  let framesDone = 0;
+  let stepsDone = 0;
+
+  const reportProgress = () =>
+    input.onProgress?.(
+      (framesDone / totalFrames) * FLYOVER_SHARE +
+        (stepsDone / extraSteps) * (1 - FLYOVER_SHARE)
+    );
+
+  const writeFile = async (name: string, data: Uint8Array) => {
+    files.push(name);
+    await ffmpeg.writeFile(name, data);
+  };
+
+  const deleteFiles = (names: string[]) =>
+    Promise.all(
+      names.map((name) => ffmpeg.deleteFile(name).catch(() => undefined))
+    );
+
+  try {
+    await recorder.start(width, height);
+    try {
+      for (let piece = 0; piece < pieces.length; piece++) {
+        const { startTime, frameCount: pieceFrames } = pieces[piece];
+
+        for (
+          let chunkStart = 0;
+          chunkStart < pieceFrames;
+          chunkStart += FRAMES_PER_CHUNK
+        ) {
+          const chunkFrames = Math.min(
+            FRAMES_PER_CHUNK,
+            pieceFrames - chunkStart
+          );
+          const frameNames: string[] = [];
+          for (let index = 0; index < chunkFrames; index++) {
+            signal?.throwIfAborted();
+            const trackpointIndex = cameraPath.indexAt(
+              startTime + (chunkStart + index) / FPS
+            );
+            drawCover(
+              context,
+              await recorder.captureFrame(trackpointIndex),
+              width,
+              height
+            );
+            const name = `${prefix}-f${String(index).padStart(5, "0")}.jpg`;
+            await writeFile(name, await canvasToBytes(frame));
+            frameNames.push(name);
+            framesDone++;
+            reportProgress();
+          }
+
+          const part = `${prefix}-p${parts.length}.mp4`;
+          files.push(part);
+          await runFFmpeg(
+            ffmpeg,
+            [
+              "-framerate",
+              String(FPS),
+              "-i",
+              `${prefix}-f%05d.jpg`,
+              ...ENCODE_ARGS,
+              part,
+            ],
+            signal
+          );
+          parts.push(part);
+          await deleteFiles(frameNames);
+        }
+
+        const clip = clips[piece];
+        if (clip?.videoFile) {
+          signal?.throwIfAborted();
+          const source = `${prefix}-clip${piece}`;
+          await writeFile(
+            source,
+            new Uint8Array(await clip.videoFile.arrayBuffer())
+          );
+          const part = `${prefix}-p${parts.length}.mp4`;
+          files.push(part);
+          await runFFmpeg(
+            ffmpeg,
+            [
+              "-i",
+              source,
+              "-vf",
+              `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1`,
+              ...ENCODE_ARGS,
+              part,
+            ],
+            signal
+          );
+          parts.push(part);
+          await deleteFiles([source]);
+          stepsDone++;
+          reportProgress();
+        }
+      }
+
+      if (input.outro) {
+        signal?.throwIfAborted();
+        drawFinalStatsOutro(
+          context,
+          await recorder.captureOverview(),
+          input.activity,
+          input.language
+        );
+        const image = `${prefix}-outro.png`;
+        await writeFile(image, await canvasToBytes(frame, "image/png"));
+        const part = `${prefix}-p${parts.length}.mp4`;
+        files.push(part);
+        await runFFmpeg(
+          ffmpeg,
+          [
+            "-loop",
+            "1",
+            "-framerate",
+            String(FPS),
+            "-t",
+            String(OUTRO_SECONDS),
+            "-i",
+            image,
+            ...ENCODE_ARGS,
+            part,
+          ],
+          signal
+        );
+        parts.push(part);
+        stepsDone++;
+        reportProgress();
+      }
+    } finally {
+      recorder.finish();
+    }
+
+    const list = `${prefix}-parts.txt`;
+    const output = `${prefix}.mp4`;
+    files.push(output);
+    await writeFile(
+      list,
+      new TextEncoder().encode(parts.map((part) => `file '${part}'`).join("\n"))
+    );
+    await runFFmpeg(
+      ffmpeg,
+      [
+        "-f",
+        "concat",
+        "-safe",
+        "0",
+        "-i",
+        list,
+        "-c",
+        "copy",
+        "-movflags",
+        "+faststart",
+        output,
+      ],
+      signal
+    );
+    stepsDone++;
+    reportProgress();
+    return await readFFmpegFile(ffmpeg, output, "video/mp4");
+  } finally {
+    await deleteFiles(files);
+  }
+}
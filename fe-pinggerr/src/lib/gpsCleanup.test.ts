@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import type { ActivityLap, ActivityTrackpoint } from "@/types/strava";
+import { cleanupTrackpoints, remapLapIndexes } from "@/lib/gpsCleanup";
+
+// Heading north one fix a second, ~3 m apart
+const METERS_PER_DEGREE = 111_195;
+const createTrackpoints = (times: number[]): ActivityTrackpoint[] =>
+  times.map((seconds) => ({
+    time: new Date(
+      Date.parse("2024-05-01T08:00:00Z") + seconds * 1000
+    ).toISOString(),
+    latitude: 50 + (seconds * 3) / METERS_PER_DEGREE,
+    longitude: 8,
+  }));
+
+const createLap = (
+  lapIndex: number,
+  startIndex: number,
+  endIndex: number
+): ActivityLap => ({
+  lapIndex,
+  startTime: "2024-05-01T08:00:00Z",
+  elapsedTime: 0,
+  distance: 0,
+  startIndex,
+  endIndex,
+});
+
+describe("remapLapIndexes", () => {
+  it("moves lap indexes to the cleaned track", () => {
+    const laps = remapLapIndexes(
+      [createLap(1, 0, 2), createLap(2, 3, 5)],
+      [0, 2, 4, 5, 7, 9]
+    );
+
+    expect(laps[0]).toMatchObject({ startIndex: 0, endIndex: 4 });
+    expect(laps[1]).toMatchObject({ startIndex: 5, endIndex: 9 });
+  });
+
+  it("starts each lap after the one before it ends", () => {
+    // The last fix of lap 1 maps past the first of lap 2
+    const laps = remapLapIndexes(
+      [createLap(1, 0, 2), createLap(2, 3, 5), createLap(3, 6, 6)],
+      [0, 1, 4, 3, 5, 6, 6]
+    );
+
+    expect(laps.map((lap) => [lap.startIndex, lap.endIndex])).toEqual([
+      [0, 4],
+      [5, 6],
+      [6, 6],
+    ]);
+  });
+
+  it("keeps laps without indexes", () => {
+    const laps = remapLapIndexes(
+      [{ ...createLap(1, 0, 0), startIndex: undefined, endIndex: undefined }],
+      [0, 1]
+    );
+
+    expect(laps[0].startIndex).toBeUndefined();
+    expect(laps[0].endIndex).toBeUndefined();
+  });
+});
+
+describe("cleanupTrackpoints", () => {
+  it("leaves no overlap between laps sharing a boundary fix", () => {
+    // Lap 2's first fix has the same time as lap 1's last one
+    const trackpoints = createTrackpoints([
+      ...Array.from({ length: 11 }, (_, i) => i),
+      ...Array.from({ length: 11 }, (_, i) => 10 + i),
+    ]);
+    const { trackpoints: cleaned, indexMap } = cleanupTrackpoints(trackpoints);
+    const laps = remapLapIndexes(
+      [createLap(1, 0, 10), createLap(2, 11, 21)],
+      indexMap
+    );
+
+    expect(laps[0].endIndex).toBeLessThan(laps[1].startIndex!);
+    expect(laps[1].endIndex).toBe(cleaned.length - 1);
+  });
+
+  it("keeps every trackpoint and index without resampling", () => {
+    const trackpoints = createTrackpoints(
+      Array.from({ length: 20 }, (_, i) => i)
+    );
+    // A 5 km jump, gone again a second later
+    trackpoints[10] = { ...trackpoints[10], latitude: 50.05 };
+
+    const {
+      trackpoints: cleaned,
+      indexMap,
+      summary,
+    } = cleanupTrackpoints(trackpoints, { resample: false });
+
+    expect(cleaned).toHaveLength(trackpoints.length);
+    expect(indexMap).toEqual(trackpoints.map((_, i) => i));
+    expect(summary.removed).toBe(1);
+    expect(cleaned[10].latitude).toBeCloseTo(trackpoints[10 - 1].latitude!, 3);
+  });
+});
@@ -0,0 +1,433 @@
+/**
+ * GPS cleanup
+ * Tunnels, tree cover and tall buildings make GPS jump hundreds of meters or
+ * drop out for a minute, which breaks up routes on posters and the flyover.
+ * Before anything is computed from a track, fixes too fast to be real are
+ * dropped, positions are median smoothed, and the track is resampled at its
+ * usual recording interval with the gaps filled by synthetic points.
+ * Strava streams keep their indexes (saved stories point into them), so
+ * their spikes are moved back onto the route instead and nothing is resampled
+ */
+
+import type {
+  ActivityGpsCleanup,
+  ActivityLap,
+  ActivityTrackpoint,
+  StravaActivity,
+} from "@/types/strava";
+import { haversineDistance } from "@/lib/geo";
+import { getTrackpointTimes } from "@/lib/trackpoints";
+import { generateSplits } from "@/lib/activitySplits";
+import { analyzeMovingTime, MIN_MOVING_SPEED } from "@/lib/movingTime";
+
+export interface GpsCleanupResult {
+  trackpoints: ActivityTrackpoint[];
+  indexMap: number[]; // cleaned index of each original trackpoint
+  summary: ActivityGpsCleanup;
+}
+
+// Faster than this from the last good fix is a jump, not the athlete
+const MAX_SPEED = 50; // m/s, 180 km/h
+// A jump the track stays at for longer is where it really went
+const MAX_SPIKE_SPAN = 30; // seconds
+// Fixes on either side each position's median is taken over
+const MEDIAN_RADIUS = 2;
+// Gaps longer than this many recording intervals, and than MIN_GAP, are
+// filled with synthetic points
+const GAP_INTERVALS = 3;
+const MIN_GAP = 10; // seconds
+// Longer gaps (a long stop with the device asleep) are left as they are
+const MAX_GAP_FILL = 600; // seconds
+
+const NUMERIC_FIELDS = [
+  "latitude",
+  "longitude",
+  "altitude",
+  "distance",
+  "heartRate",
+  "speed",
+  "cadence",
+  "watts",
+  "grade",
+  "temperature",
+] as const;
+// Recorded as whole numbers, so interpolated ones are rounded
+const INTEGER_FIELDS = new Set(["heartRate", "cadence", "watts"]);
+
+const isLocated = (tp: ActivityTrackpoint) =>
+  tp.latitude !== undefined && tp.longitude !== undefined;
+
+const fixDistance = (a: ActivityTrackpoint, b: ActivityTrackpoint) =>
+  haversineDistance(a.latitude!, a.longitude!, b.latitude!, b.longitude!);
+
+/**
+ * Whether each trackpoint survives spike removal. A fix is dropped when
+ * reaching it from the last kept one takes more than MAX_SPEED
+ */
+const rejectSpikes = (
+  trackpoints: ActivityTrackpoint[],
+  times: number[]
+): boolean[] => {
+  const keep = trackpoints.map(() => true);
+  const located = trackpoints
+    .map((_, i) => i)
+    .filter((i) => isLocated(trackpoints[i]) && Number.isFinite(times[i]));
+  const speed = (a: number, b: number) =>
+    fixDistance(trackpoints[a], trackpoints[b]) /
+    Math.max(times[b] - times[a], 1);
+
+  // Nothing comes before the first fix, so it's judged by the two after it
+  let first = 0;
+  while (
+    first + 2 < located.length &&
+    speed(located[first], located[first + 1]) > MAX_SPEED &&
+    speed(located[first + 1], located[first + 2]) <= MAX_SPEED
+  ) {
+    keep[located[first++]] = false;
+  }
+
+  let anchor = located[first];
+  located.slice(first + 1).forEach((i) => {
+    if (
+      speed(anchor, i) > MAX_SPEED &&
+      times[i] - times[anchor] <= MAX_SPIKE_SPAN
+    ) {
+      keep[i] = false;
+    } else {
+      anchor = i;
+    }
+  });
+  return keep;
+};
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Positions replaced by the median of the fixes around them, which removes
+ * jitter without rounding off corners the way an average does
+ */
+const medianSmooth = (
+  trackpoints: ActivityTrackpoint[]
+): ActivityTrackpoint[] => {
+  const located = trackpoints
+    .map((_, i) => i)
+    .filter((i) => isLocated(trackpoints[i]));
+  const smoothed = [...trackpoints];
+  located.forEach((index, k) => {
+    const window = located
+      .slice(Math.max(0, k - MEDIAN_RADIUS), k + MEDIAN_RADIUS + 1)
+      .map((i) => trackpoints[i]);
+    smoothed[index] = {
+      ...trackpoints[index],
+      latitude: median(window.map((tp) => tp.latitude!)),
+      longitude: median(window.map((tp) => tp.longitude!)),
+    };
+  });
+  return smoothed;
+};
+
+/**
+ * The usual time between trackpoints, in whole seconds
+ */
+const getRecordingInterval = (times: number[]): number => {
+  const steps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] > times[i - 1]) steps.push(times[i] - times[i - 1]);
+  }
+  return steps.length > 0 ? Math.max(1, Math.round(median(steps))) : 1;
+};
+
+/**
+ * Value of a field at any time, interpolated between the trackpoints that
+ * recorded it. Undefined outside them and across gaps too long to fill
+ */
+const createInterpolator = (
+  trackpoints: ActivityTrackpoint[],
+  times: number[],
+  field: (typeof NUMERIC_FIELDS)[number],
+  tolerance: number
+) => {
+  const samples = trackpoints
+    .map((tp, i) => ({ time: times[i], value: tp[field] }))
+    .filter(
+      (sample): sample is { time: number; value: number } =>
+        sample.value !== undefined
+    );
+  let k = 0;
+  // Called with increasing times
+  return (time: number): number | undefined => {
+    while (k + 1 < samples.length && samples[k + 1].time <= time) k++;
+    const before = samples[k];
+    const after = samples[k + 1];
+    if (!before) return undefined;
+    if (before.time > time) {
+      return before.time - time <= tolerance ? before.value : undefined;
+    }
+    if (!after || after.time - before.time > MAX_GAP_FILL) {
+      if (time - before.time <= tolerance) return before.value;
+      return after && after.time - time <= tolerance ? after.value : undefined;
+    }
+    const ratio = (time - before.time) / (after.time - before.time);
+    const value = before.value + (after.value - before.value) * ratio;
+    return INTEGER_FIELDS.has(field) ? Math.round(value) : value;
+  };
+};
+
+/**
+ * The trackpoints at every recording interval, with gaps filled in by
+ * points flagged synthetic. Gaps too long to fill are skipped and the
+ * interval restarts at the next trackpoint
+ */
+const resample = (
+  trackpoints: ActivityTrackpoint[],
+  times: number[]
+): {
+  trackpoints: ActivityTrackpoint[];
+  times: number[];
+  synthetic: number;
+} => {
+  const interval = getRecordingInterval(times);
+  const tolerance = interval / 2;
+  const gapLength = Math.max(GAP_INTERVALS * interval, MIN_GAP);
+  const interpolators = NUMERIC_FIELDS.map(
+    (field) =>
+      [field, createInterpolator(trackpoints, times, field, tolerance)] as const
+  );
+  const hasMoving = trackpoints.every((tp) => tp.moving !== undefined);
+  // Times count from the original first trackpoint, which may be dropped
+  const startTime =
+    trackpoints[0].time && Date.parse(trackpoints[0].time) - times[0] * 1000;
+  const useOffsets = trackpoints[0].timeOffset !== undefined;
+
+  const resampled: ActivityTrackpoint[] = [];
+  const resampledTimes: number[] = [];
+  let synthetic = 0;
+  let next = 0; // first trackpoint at or after the current time
+  const emit = (time: number) => {
+    while (next < times.length - 1 && times[next] < time - 1e-6) next++;
+    const previous = Math.max(0, next - 1);
+    const gap = times[next] - times[previous];
+    const recorded =
+      Math.abs(times[next] - time) <= tolerance ||
+      Math.abs(times[previous] - time) <= tolerance;
+    const isSynthetic = !recorded && gap > gapLength;
+
+    const tp: ActivityTrackpoint = {};
+    if (useOffsets) tp.timeOffset = time;
+    if (startTime) tp.time = new Date(startTime + time * 1000).toISOString();
+    interpolators.forEach(([field, valueAt]) => {
+      const value = valueAt(time);
+      if (value !== undefined) tp[field] = value;
+    });
+    if (hasMoving) {
+      // The stretch ending at the next trackpoint; a gap by how far it went
+      tp.moving = isSynthetic
+        ? isLocated(trackpoints[previous]) &&
+          isLocated(trackpoints[next]) &&
+          fixDistance(trackpoints[previous], trackpoints[next]) / gap >=
+            MIN_MOVING_SPEED
+        : trackpoints[next].moving;
+    }
+    if (isSynthetic) {
+      tp.synthetic = true;
+      synthetic++;
+    }
+    resampled.push(tp);
+    resampledTimes.push(time);
+  };
+
+  let time = times[0];
+  emit(time);
+  for (let i = 1; i < times.length; i++) {
+    if (times[i] - times[i - 1] > MAX_GAP_FILL) {
+      time = times[i];
+      emit(time);
+      continue;
+    }
+    while (time + interval <= times[i] + tolerance) {
+      time += interval;
+      emit(time);
+    }
+  }
+  return { trackpoints: resampled, times: resampledTimes, synthetic };
+};
+
+/**
+ * Dropped fixes moved onto the line between the kept fixes either side, by
+ * time where there is one, so the track keeps every trackpoint
+ */
+const replaceSpikes = (
+  trackpoints: ActivityTrackpoint[],
+  times: number[],
+  keep: boolean[]
+): ActivityTrackpoint[] => {
+  const anchors = trackpoints
+    .map((_, i) => i)
+    .filter((i) => keep[i] && isLocated(trackpoints[i]));
+  let k = 0; // first anchor after the current trackpoint
+  return trackpoints.map((tp, i) => {
+    while (k < anchors.length && anchors[k] < i) k++;
+    if (keep[i] || !isLocated(tp)) return tp;
+
+    const before = trackpoints[anchors[k - 1]];
+    const after = trackpoints[anchors[k]];
+    if (!before || !after) {
+      const nearest = before ?? after;
+      return nearest
+        ? { ...tp, latitude: nearest.latitude, longitude: nearest.longitude }
+        : tp;
+    }
+    const [from, to] = [anchors[k - 1], anchors[k]];
+    const span = times[to] - times[from];
+    const ratio =
+      span > 0 ? (times[i] - times[from]) / span : (i - from) / (to - from);
+    return {
+      ...tp,
+      latitude: before.latitude! + (after.latitude! - before.latitude!) * ratio,
+      longitude:
+        before.longitude! + (after.longitude! - before.longitude!) * ratio,
+    };
+  });
+};
+
+/**
+ * Index of the time closest to the given one, in increasing times
+ */
+const nearestIndex = (times: number[], time: number): number => {
+  let low = 0;
+  let high = times.length - 1;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (times[middle] < time) low = middle + 1;
+    else high = middle;
+  }
+  return low > 0 && time - times[low - 1] < times[low] - time ? low - 1 : low;
+};
+
+/**
+ * Clean up a track: drop GPS spikes, median smooth positions and resample
+ * at the recording interval, filling gaps with synthetic trackpoints.
+ * Tracks without times are only smoothed. With `resample: false` every
+ * trackpoint is kept, spikes moved back onto the route
+ */
+export function cleanupTrackpoints(
+  trackpoints: ActivityTrackpoint[],
+  { resample: shouldResample = true }: { resample?: boolean } = {}
+): GpsCleanupResult {
+  const rawRoute = trackpoints
+    .filter(isLocated)
+    .map((tp) => [tp.latitude!, tp.longitude!] as [number, number]);
+  const times = getTrackpointTimes(trackpoints);
+  const keep = rejectSpikes(trackpoints, times);
+
+  if (!shouldResample) {
+    return {
+      trackpoints: medianSmooth(replaceSpikes(trackpoints, times, keep)),
+      indexMap: trackpoints.map((_, i) => i),
+      summary: {
+        removed: keep.filter((kept) => !kept).length,
+        synthetic: 0,
+        rawRoute,
+      },
+    };
+  }
+
+  // Trackpoints resampling can work from: timed, in order, spikes dropped
+  const kept: number[] = [];
+  trackpoints.forEach((_, i) => {
+    const last = kept[kept.length - 1];
+    if (
+      keep[i] &&
+      Number.isFinite(times[i]) &&
+      (last === undefined || times[i] > times[last])
+    ) {
+      kept.push(i);
+    }
+  });
+
+  if (kept.length < 2) {
+    return {
+      trackpoints: medianSmooth(trackpoints),
+      indexMap: trackpoints.map((_, i) => i),
+      summary: { removed: 0, synthetic: 0, rawRoute },
+    };
+  }
+
+  const resampled = resample(
+    medianSmooth(kept.map((i) => trackpoints[i])),
+    kept.map((i) => times[i])
+  );
+  let mapped = 0;
+  const indexMap = times.map((time) => {
+    if (Number.isFinite(time)) mapped = nearestIndex(resampled.times, time);
+    return mapped;
+  });
+
+  return {
+    trackpoints: resampled.trackpoints,
+    indexMap,
+    summary: {
+      removed: keep.filter((kept) => !kept).length,
+      synthetic: resampled.synthetic,
+      rawRoute,
+    },
+  };
+}
+
+/**
+ * Laps with their trackpoint indexes moved to the cleaned track
+ * The last fix of one lap and the first of the next can land on the same
+ * cleaned point, or in either order around a dropped spike, so each lap
+ * starts after the one before it ends
+ */
+export function remapLapIndexes(
+  laps: ActivityLap[],
+  indexMap: number[]
+): ActivityLap[] {
+  const lastIndex = Math.max(...indexMap);
+  const remap = (index?: number) =>
+    index === undefined ? undefined : indexMap[index] ?? indexMap.at(-1);
+
+  let previousEndIndex: number | undefined;
+  return laps.map((lap) => {
+    let startIndex = remap(lap.startIndex);
+    let endIndex = remap(lap.endIndex);
+    if (startIndex !== undefined && previousEndIndex !== undefined) {
+      startIndex = Math.min(
+        Math.max(startIndex, previousEndIndex + 1),
+        lastIndex
+      );
+    }
+    if (startIndex !== undefined && endIndex !== undefined) {
+      endIndex = Math.max(endIndex, startIndex);
+    }
+    previousEndIndex = endIndex ?? previousEndIndex;
+    return { ...lap, startIndex, endIndex };
+  });
+}
+
+/**
+ * The activity with the trackpoints cleaned up, for Strava streams. Stream
+ * indexes are kept, so laps and saved stories still line up with them
+ */
+export function withCleanTrackpoints(
+  activity: StravaActivity,
+  trackpoints: ActivityTrackpoint[]
+): StravaActivity {
+  const { trackpoints: cleaned, summary } = cleanupTrackpoints(trackpoints, {
+    resample: false,
+  });
+  return {
+    ...activity,
+    trackpoints: cleaned,
+    splits: generateSplits(cleaned),
+    pauses: analyzeMovingTime(cleaned).pauses,
+    gpsCleanup: summary,
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { GpxSegment } from "@/lib/gpxParser";
+import { convertGpxToStravaActivity } from "@/lib/gpxParser";
+
+// Heading north one fix every 10 s, ~33 m apart (3.3 m/s)
+const METERS_PER_DEGREE = 111_195;
+const createSegment = (
+  startTime: string,
+  startLatitude: number,
+  points = 31
+): GpxSegment => ({
+  trackpoints: Array.from({ length: points }, (_, i) => ({
+    time: new Date(Date.parse(startTime) + i * 10_000).toISOString(),
+    latitude: startLatitude + (i * 33.3) / METERS_PER_DEGREE,
+    longitude: 8,
+  })),
+});
+
+describe("convertGpxToStravaActivity", () => {
+  it("makes a lap of each track segment", () => {
+    const activity = convertGpxToStravaActivity({
+      type: "running",
+      segments: [
+        createSegment("2024-05-01T08:00:00Z", 50),
+        createSegment("2024-05-01T08:10:00Z", 50.05),
+      ],
+    });
+
+    expect(activity.sport_type).toBe("Run");
+    expect(activity.laps).toHaveLength(2);
+    expect(activity.laps![1]).toMatchObject({ startIndex: 31, endIndex: 61 });
+    expect(activity.distance).toBeCloseTo(2 * 999, -1);
+  });
+
+  it("doesn't count the jump between segments as distance", () => {
+    // The second segment starts ~5.5 km further north
+    const activity = convertGpxToStravaActivity({
+      segments: [
+        createSegment("2024-05-01T08:00:00Z", 50),
+        createSegment("2024-05-01T08:10:00Z", 50.05),
+      ],
+    });
+    const trackpoints = activity.trackpoints!;
+
+    expect(trackpoints[31].distance).toBe(trackpoints[30].distance);
+    expect(trackpoints[trackpoints.length - 1].distance).toBeCloseTo(
+      activity.distance
+    );
+    const splitDistance = activity.splits!.reduce(
+      (sum, split) => sum + split.distance,
+      0
+    );
+    expect(splitDistance).toBeCloseTo(activity.distance);
+  });
+
+  it("leaves the time between segments out of moving time", () => {
+    const activity = convertGpxToStravaActivity({
+      segments: [
+        createSegment("2024-05-01T08:00:00Z", 50),
+        createSegment("2024-05-01T08:10:00Z", 50.05),
+      ],
+    });
+
+    expect(activity.elapsed_time).toBe(900);
+    expect(activity.moving_time).toBe(600);
+  });
+});
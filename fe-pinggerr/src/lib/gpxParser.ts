@@ -0,0 +1,489 @@
+/**
+ * GPX (GPS Exchange Format) Parser
+ * Converts GPX tracks and routes to Strava activity format
+ */
+
+import type {
+  StravaActivity,
+  ActivityLap,
+  ActivityTrackpoint,
+} from "@/types/strava";
+import { encode } from "@mapbox/polyline";
+import { generateSplits } from "@/lib/activitySplits";
+import { analyzeMovingTime } from "@/lib/movingTime";
+import { getElevationTotals, summarizeElevation } from "@/lib/elevation";
+import { haversineDistance } from "@/lib/geo";
+
+export interface GpxTrackpoint {
+  time?: string;
+  latitude: number;
+  longitude: number;
+  altitude?: number;
+  heartRate?: number;
+  cadence?: number;
+  watts?: number;
+  temperature?: number;
+}
+
+export interface GpxSegment {
+  trackpoints: GpxTrackpoint[];
+}
+
+export interface GpxActivity {
+  name?: string;
+  type?: string;
+  time?: string;
+  segments: GpxSegment[];
+}
+
+/**
+ * GPX `<type>` values (Garmin, Strava, Komoot, ...) mapped to Strava sport types
+ */
+const GPX_SPORT_TYPES: Record<string, string> = {
+  running: "Run",
+  run: "Run",
+  "9": "Run",
+  trail_running: "TrailRun",
+  cycling: "Ride",
+  biking: "Ride",
+  ride: "Ride",
+  "1": "Ride",
+  walking: "Walk",
+  walk: "Walk",
+  "10": "Walk",
+  hiking: "Hike",
+  hike: "Hike",
+  "4": "Hike",
+  swimming: "Swim",
+  swim: "Swim",
+};
+
+/**
+ * Find the first descendant with the given local name, ignoring namespace
+ * prefixes (e.g. `gpxtpx:hr`, `ns3:hr`)
+ */
+function findElement(parent: Element, localName: string): Element | null {
+  return parent.getElementsByTagNameNS("*", localName)[0] ?? null;
+}
+
+/**
+ * Read a numeric value from the first matching descendant
+ */
+function readNumber(parent: Element, localName: string): number | undefined {
+  const text = findElement(parent, localName)?.textContent;
+  if (!text) return undefined;
+
+  const value = parseFloat(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Parse a `<trkpt>` or `<rtept>` element
+ */
+function parsePoint(pointElement: Element): GpxTrackpoint | null {
+  const latitude = parseFloat(pointElement.getAttribute("lat") || "");
+  const longitude = parseFloat(pointElement.getAttribute("lon") || "");
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+    return null;
+  }
+
+  const extensions = findElement(pointElement, "extensions");
+
+  return {
+    time: findElement(pointElement, "time")?.textContent || undefined,
+    latitude,
+    longitude,
+    altitude: readNumber(pointElement, "ele"),
+    heartRate: extensions ? readNumber(extensions, "hr") : undefined,
+    cadence: extensions ? readNumber(extensions, "cad") : undefined,
+    watts: extensions
+      ? readNumber(extensions, "power") ??
+        readNumber(extensions, "PowerInWatts")
+      : undefined,
+    temperature: extensions
+      ? readNumber(extensions, "atemp") ?? readNumber(extensions, "wtemp")
+      : undefined,
+  };
+}
+
+/**
+ * Parse GPX XML content and extract track data
+ * Each `<trkseg>` becomes a segment; files with only a planned route
+ * (`<rte>`) are read as a single segment without timestamps
+ */
+export function parseGpxContent(xmlContent: string): GpxActivity {
+  const parser = new DOMParser();
+  const xmlDoc = parser.parseFromString(xmlContent, "text/xml");
+
+  // Check for parsing errors
+  const parserError = xmlDoc.querySelector("parsererror");
+  if (parserError) {
+    throw new Error("Invalid GPX file format");
+  }
+
+  const root = xmlDoc.documentElement;
+  if (root.localName !== "gpx") {
+    throw new Error("No GPX data found in file");
+  }
+
+  const metadata = findElement(root, "metadata");
+  const track = findElement(root, "trk");
+  const route = findElement(root, "rte");
+
+  const segments: GpxSegment[] = [];
+
+  if (track) {
+    const segmentElements = Array.from(
+      track.getElementsByTagNameNS("*", "trkseg")
+    );
+
+    segmentElements.forEach((segmentElement) => {
+      const trackpoints = Array.from(
+        segmentElement.getElementsByTagNameNS("*", "trkpt")
+      )
+        .map(parsePoint)
+        .filter((tp): tp is GpxTrackpoint => tp !== null);
+
+      if (trackpoints.length > 0) {
+        segments.push({ trackpoints });
+      }
+    });
+  } else if (route) {
+    const trackpoints = Array.from(route.getElementsByTagNameNS("*", "rtept"))
+      .map(parsePoint)
+      .filter((tp): tp is GpxTrackpoint => tp !== null);
+
+    if (trackpoints.length > 0) {
+      segments.push({ trackpoints });
+    }
+  }
+
+  if (segments.length === 0) {
+    throw new Error("No track points found in GPX file");
+  }
+
+  const source = track || route!;
+
+  return {
+    name:
+      source.getElementsByTagNameNS("*", "name")[0]?.textContent ||
+      (metadata && findElement(metadata, "name")?.textContent) ||
+      undefined,
+    type:
+      source.getElementsByTagNameNS("*", "type")[0]?.textContent || undefined,
+    time: (metadata && findElement(metadata, "time")?.textContent) || undefined,
+    segments,
+  };
+}
+
+/**
+ * Map a GPX activity type to a Strava sport type
+ */
+function resolveSportType(type?: string): string {
+  if (!type) return "Workout";
+
+  const normalized = type.trim().toLowerCase().replace(/\s+/g, "_");
+  return GPX_SPORT_TYPES[normalized] || "Workout";
+}
+
+/**
+ * Seconds between two ISO timestamps, or undefined if either is missing
+ */
+function secondsBetween(start?: string, end?: string): number | undefined {
+  if (!start || !end) return undefined;
+
+  const seconds = (Date.parse(end) - Date.parse(start)) / 1000;
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
+
+/**
+ * Convert GPX trackpoints to common ActivityTrackpoint format
+ * GPX has no distance or speed fields, so both are derived from positions.
+ * Distance isn't added across a gap between segments, so the cumulative
+ * distance matches the segments' laps
+ */
+function convertGpxTrackpointsToActivityTrackpoints(
+  segments: GpxSegment[]
+): ActivityTrackpoint[] {
+  const startTime = segments[0]?.trackpoints[0]?.time;
+
+  let cumulativeDistance = 0;
+
+  return segments.flatMap((segment) =>
+    segment.trackpoints.map((tp, index): ActivityTrackpoint => {
+      const previous = segment.trackpoints[index - 1];
+      let speed: number | undefined;
+
+      if (previous) {
+        const stepDistance = haversineDistance(
+          previous.latitude,
+          previous.longitude,
+          tp.latitude,
+          tp.longitude
+        );
+        cumulativeDistance += stepDistance;
+
+        const stepSeconds = secondsBetween(previous.time, tp.time);
+        if (stepSeconds && stepSeconds > 0) {
+          speed = stepDistance / stepSeconds;
+        }
+      }
+
+      return {
+        time: tp.time,
+        timeOffset: secondsBetween(startTime, tp.time),
+        latitude: tp.latitude,
+        longitude: tp.longitude,
+        altitude: tp.altitude,
+        distance: cumulativeDistance,
+        heartRate: tp.heartRate,
+        speed,
+        cadence: tp.cadence,
+        watts: tp.watts,
+        temperature: tp.temperature,
+      };
+    })
+  );
+}
+
+/**
+ * Derive laps from GPX track segments (one lap per `<trkseg>`)
+ */
+function deriveGpxLaps(
+  segments: GpxSegment[],
+  trackpoints: ActivityTrackpoint[]
+): ActivityLap[] {
+  let currentTrackpointIndex = 0;
+
+  return segments.map((segment, index) => {
+    const startIndex = currentTrackpointIndex;
+    const endIndex = currentTrackpointIndex + segment.trackpoints.length - 1;
+    currentTrackpointIndex += segment.trackpoints.length;
+
+    const lapTrackpoints = trackpoints.slice(startIndex, endIndex + 1);
+    const first = lapTrackpoints[0];
+    const last = lapTrackpoints[lapTrackpoints.length - 1];
+
+    const distance = (last.distance ?? 0) - (first.distance ?? 0);
+    const elapsedTime = secondsBetween(first.time, last.time) ?? 0;
+
+    // Calculate elevation gain for this lap
+    const altitudes = lapTrackpoints
+      .filter((tp) => tp.altitude !== undefined)
+      .map((tp) => tp.altitude!);
+
+    const lapElevationGain = getElevationTotals(altitudes).gain;
+
+    const heartRates = lapTrackpoints
+      .filter((tp) => tp.heartRate && tp.heartRate > 0)
+      .map((tp) => tp.heartRate!);
+    const cadences = lapTrackpoints
+      .filter((tp) => tp.cadence && tp.cadence > 0)
+      .map((tp) => tp.cadence!);
+    const watts = lapTrackpoints
+      .filter((tp) => tp.watts && tp.watts > 0)
+      .map((tp) => tp.watts!);
+    const speeds = lapTrackpoints
+      .filter((tp) => tp.speed && tp.speed > 0)
+      .map((tp) => tp.speed!);
+
+    const average = (values: number[]) =>
+      values.length > 0
+        ? values.reduce((sum, v) => sum + v, 0) / values.length
+        : undefined;
+
+    return {
+      startTime: first.time || "",
+      elapsedTime,
+      distance,
+      averageSpeed: elapsedTime > 0 ? distance / elapsedTime : undefined,
+      maxSpeed: speeds.length > 0 ? Math.max(...speeds) : undefined,
+      averageHeartrate: average(heartRates),
+      maxHeartrate: heartRates.length > 0 ? Math.max(...heartRates) : undefined,
+      averageCadence: average(cadences),
+      averageWatts: average(watts),
+      maxWatts: watts.length > 0 ? Math.max(...watts) : undefined,
+      totalElevationGain: lapElevationGain,
+      startIndex,
+      endIndex,
+      lapIndex: index + 1, // 1-based lap number
+    };
+  });
+}
+
+/**
+ * Convert GPX activity data to Strava activity format
+ */
+export function convertGpxToStravaActivity(
+  gpxActivity: GpxActivity
+): StravaActivity {
+  const {
+    trackpoints,
+    movingTime: detectedMovingTime,
+    pauses,
+  } = analyzeMovingTime(
+    convertGpxTrackpointsToActivityTrackpoints(gpxActivity.segments)
+  );
+  const laps = deriveGpxLaps(gpxActivity.segments, trackpoints);
+
+  // Calculate totals from all laps
+  const totalDistance = laps.reduce((sum, lap) => sum + lap.distance, 0);
+  const elevation = summarizeElevation(trackpoints);
+  const elapsedTime =
+    secondsBetween(
+      trackpoints[0]?.time,
+      trackpoints[trackpoints.length - 1]?.time
+    ) ?? 0;
+  // Time spent between segments (auto-pause) doesn't count as moving time,
+  // and neither do stops within a segment
+  const segmentTime = laps.reduce((sum, lap) => sum + lap.elapsedTime, 0);
+  const movingTime =
+    detectedMovingTime > 0
+      ? Math.min(detectedMovingTime, segmentTime)
+      : segmentTime;
+
+  const coordinates: [number, number][] = trackpoints.map(
+    (tp) => [tp.latitude!, tp.longitude!] as [number, number]
+  );
+  const polyline = encode(coordinates, 5);
+
+  // Calculate heart rate stats
+  const heartRates = trackpoints
+    .filter((tp) => tp.heartRate && tp.heartRate > 0)
+    .map((tp) => tp.heartRate!);
+
+  const hasHeartRate = heartRates.length > 0;
+  const averageHeartRate = hasHeartRate
+    ? heartRates.reduce((sum, hr) => sum + hr, 0) / heartRates.length
+    : undefined;
+  const maxHeartRate = hasHeartRate ? Math.max(...heartRates) : undefined;
+
+  // Calculate speed stats
+  const speeds = trackpoints
+    .filter((tp) => tp.speed && tp.speed > 0)
+    .map((tp) => tp.speed!);
+
+  const averageSpeed = movingTime > 0 ? totalDistance / movingTime : 0; // m/s
+  const maxSpeed = speeds.length > 0 ? Math.max(...speeds) : undefined;
+
+  // Calculate cadence
+  const cadences = trackpoints
+    .filter((tp) => tp.cadence && tp.cadence > 0)
+    .map((tp) => tp.cadence!);
+
+  const averageCadence =
+    cadences.length > 0
+      ? cadences.reduce((sum, c) => sum + c, 0) / cadences.length
+      : undefined;
+
+  // Calculate temperature
+  const temperatures = trackpoints
+    .filter((tp) => tp.temperature !== undefined)
+    .map((tp) => tp.temperature!);
+
+  const averageTemp =
+    temperatures.length > 0
+      ? temperatures.reduce((sum, t) => sum + t, 0) / temperatures.length
+      : undefined;
+
+  // Get start date from first trackpoint or file metadata
+  const startDate =
+    trackpoints[0]?.time || gpxActivity.time || new Date().toISOString();
+
+  const sportType = resolveSportType(gpxActivity.type);
+  const activityName = gpxActivity.name || `${sportType} Activity`;
+
+  return {
+    resource_state: 2,
+    athlete: {
+      id: 0, // Unknown athlete
+      resource_state: 1,
+    },
+    name: activityName,
+    distance: totalDistance,
+    moving_time: movingTime,
+    elapsed_time: elapsedTime,
+    total_elevation_gain: elevation.corrected.gain,
+    type: sportType,
+    sport_type: sportType,
+    id: Math.floor(Math.random() * 1000000), // Generate random ID
+    start_date: startDate,
+    start_date_local: startDate,
+    timezone: "UTC",
+    utc_offset: 0,
+    start_latlng: coordinates[0] ?? null,
+    end_latlng: coordinates[coordinates.length - 1] ?? null,
+    achievement_count: 0,
+    kudos_count: 0,
+    comment_count: 0,
+    athlete_count: 1,
+    photo_count: 0,
+    map: {
+      id: "gpx_map",
+      polyline: polyline,
+      summary_polyline: polyline,
+      resource_state: 2,
+    },
+    trainer: false,
+    commute: false,
+    manual: false,
+    private: false,
+    flagged: false,
+    average_speed: averageSpeed,
+    max_speed: maxSpeed,
+    average_cadence: averageCadence,
+    average_temp: averageTemp,
+    has_heartrate: hasHeartRate,
+    average_heartrate: averageHeartRate,
+    max_heartrate: maxHeartRate,
+    pr_count: 0,
+    total_photo_count: 0,
+    has_kudoed: false,
+    source: "gpx", // Mark as GPX data source
+    laps, // Include the derived lap data
+    splits: generateSplits(trackpoints), // Virtual kilometre splits
+    trackpoints, // Include the converted trackpoint data
+    pauses, // Stops found in the trackpoints
+    elevation,
+  };
+}
+
+/**
+ * Process uploaded GPX file
+ */
+export async function processGpxFromFile(file: File): Promise<StravaActivity> {
+  try {
+    // Validate file type
+    if (!file.name.toLowerCase().endsWith(".gpx")) {
+      throw new Error("Please select a GPX file (.gpx extension)");
+    }
+
+    // Check file size (50MB limit)
+    const fileSizeMB = file.size / (1024 * 1024);
+    if (fileSizeMB > 50) {
+      throw new Error(
+        `File too large (${fileSizeMB.toFixed(
+          1
+        )}MB). Maximum supported size is 50MB.`
+      );
+    }
+
+    // Read file content
+    const xmlContent = await file.text();
+
+    if (!xmlContent.trim()) {
+      throw new Error("Empty GPX file");
+    }
+
+    // Parse GPX content
+    const gpxActivity = parseGpxContent(xmlContent);
+
+    // Convert to Strava format
+    return convertGpxToStravaActivity(gpxActivity);
+  } catch (error) {
+    if (error instanceof Error) {
+      throw error;
+    }
+    throw new Error("Failed to process GPX file");
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * Map providers for the 3D flyover
+ * Mapbox GL is used while the access token and the monthly map load quota
+ * allow it. MapLibre GL needs neither and renders a configurable style and
+ * raster-DEM source, which can be a self-hosted tile server or a PMTiles file
+ */
+
+import type mapboxgl from "mapbox-gl";
+import type maplibregl from "maplibre-gl";
+import { config } from "@/config/env";
+
+export type MapProviderId = "mapbox" | "maplibre";
+
+export type LngLatTuple = [number, number];
+
+export type RouteLayer =
+  | {
+      id: string;
+      type: "line";
+      source: string;
+      layout?: { "line-join"?: "round"; "line-cap"?: "round" };
+      paint?: {
+        "line-color"?: string;
+        "line-width"?: number;
+        "line-opacity"?: number;
+      };
+    }
+  | {
+      id: string;
+      type: "circle";
+      source: string;
+      paint?: {
+        "circle-radius"?: number;
+        "circle-color"?: string;
+        "circle-stroke-width"?: number;
+        "circle-stroke-color"?: string;
+      };
+    };
+
+export interface GeoJSONRouteSource {
+  setData: (data: GeoJSON.Feature) => unknown;
+}
+
+/**
+ * The part of the map API the flyover uses. Mapbox GL and MapLibre GL share
+ * it, anything that differs between them goes through the provider
+ */
+export interface RouteMap {
+  addSource(
+    id: string,
+    source: { type: "geojson"; data: GeoJSON.Feature; lineMetrics?: boolean }
+  ): unknown;
+  addLayer(layer: RouteLayer): unknown;
+  setPaintProperty(layerId: string, name: string, value: unknown): unknown;
+  getSource(id: string): unknown;
+  on(type: "load", listener: () => void): unknown;
+  on(type: "error", listener: (e: { error: Error }) => void): unknown;
+  on(
+    type: "click",
+    layerId: string,
+    listener: (e: { lngLat: { lng: number; lat: number } }) => void
+  ): unknown;
+  on(
+    type: "mouseenter" | "mouseleave",
+    layerId: string,
+    listener: () => void
+  ): unknown;
+  once(type: "idle", listener: () => void): unknown;
+  getCanvas(): HTMLCanvasElement;
+  getZoom(): number;
+  resize(): unknown;
+  remove(): void;
+  triggerRepaint(): void;
+  jumpTo(options: {
+    center: LngLatTuple;
+    zoom: number;
+    pitch: number;
+    bearing: number;
+  }): unknown;
+  flyTo(options: {
+    center: LngLatTuple;
+    zoom: number;
+    pitch: number;
+    bearing: number;
+    speed?: number;
+    curve?: number;
+    easing?: (t: number) => number;
+    essential?: boolean;
+  }): unknown;
+  fitBounds(
+    bounds: [LngLatTuple, LngLatTuple],
+    options?: {
+      padding?: number;
+      pitch?: number;
+      bearing?: number;
+      duration?: number;
+    }
+  ): unknown;
+}
+
+export interface RouteMapOptions {
+  container: HTMLElement;
+  center: LngLatTuple;
+  zoom: number;
+  pitch: number;
+  bearing: number;
+}
+
+export interface MapMarker {
+  remove: () => void;
+}
+
+export interface MapProvider {
+  id: MapProviderId;
+  isConfigured: () => boolean;
+  createMap: (options: RouteMapOptions) => Promise<RouteMap>;
+  // 3D terrain and sky, call once the map has loaded
+  addTerrain: (map: RouteMap) => void;
+  addMarker: (
+    map: RouteMap,
+    element: HTMLElement,
+    lngLat: LngLatTuple
+  ) => MapMarker;
+  // Raise the camera until it's at least `clearance` meters above the
+  // terrain below it, still looking at the target
+  keepCameraAbove: (
+    map: RouteMap,
+    target: LngLatTuple,
+    clearance: number
+  ) => void;
+}
+
+const TERRAIN_EXAGGERATION = 1.5;
+
+// Libraries are loaded on first use, so only the one in use is downloaded
+let mapbox: typeof mapboxgl | null = null;
+let maplibre: typeof maplibregl | null = null;
+
+const mapboxProvider: MapProvider = {
+  id: "mapbox",
+  isConfigured: () => Boolean(config.mapbox.accessToken),
+  createMap: async (options) => {
+    if (!config.mapbox.accessToken) {
+      throw new Error("Mapbox access token is required");
+    }
+    const [module] = await Promise.all([
+      import("mapbox-gl"),
+      import("mapbox-gl/dist/mapbox-gl.css"),
+    ]);
+    mapbox = module.default;
+    mapbox.accessToken = config.mapbox.accessToken;
+
+    return new mapbox.Map({
+      ...options,
+      style: "mapbox://styles/mapbox/satellite-v9",
+      antialias: true,
+      preserveDrawingBuffer: true, // lets exports read frames back
+    });
+  },
+  addTerrain: (routeMap) => {
+    const map = routeMap as mapboxgl.Map;
+    map.addSource("terrain-dem", {
+      type: "raster-dem",
+      url: "mapbox://mapbox.mapbox-terrain-dem-v1",
+      tileSize: 512,
+      maxzoom: 14,
+    });
+    map.setTerrain({
+      source: "terrain-dem",
+      exaggeration: TERRAIN_EXAGGERATION,
+    });
+    map.addLayer({
+      id: "sky",
+      type: "sky",
+      paint: {
+        "sky-type": "atmosphere",
+        "sky-atmosphere-sun": [0.0, 0.0],
+        "sky-atmosphere-sun-intensity": 15,
+      },
+    });
+  },
+  addMarker: (routeMap, element, lngLat) =>
+    new mapbox!.Marker(element)
+      .setLngLat(lngLat)
+      .addTo(routeMap as mapboxgl.Map),
+  keepCameraAbove: (routeMap, target, clearance) => {
+    const map = routeMap as mapboxgl.Map;
+    const freeCamera = map.getFreeCameraOptions();
+    const cameraPosition = freeCamera.position;
+    if (!cameraPosition) return;
+    const cameraLngLat = cameraPosition.toLngLat();
+    const ground = map.queryTerrainElevation(cameraLngLat) ?? 0;
+    if (cameraPosition.toAltitude() - ground >= clearance) return;
+
+    freeCamera.position = mapbox!.MercatorCoordinate.fromLngLat(
+      cameraLngLat,
+      ground + clearance
+    );
+    freeCamera.lookAtPoint(target);
+    map.setFreeCameraOptions(freeCamera);
+  },
+};
+
+// Tile URL templates go in `tiles`, anything else is a TileJSON or
+// pmtiles:// URL
+const tileSource = (url: string) =>
+  url.includes("{z}") ? { tiles: [url] } : { url };
+
+const createSatelliteStyle = (): maplibregl.StyleSpecification => ({
+  version: 8,
+  sources: {
+    imagery: {
+      type: "raster",
+      ...tileSource(config.maps.maplibre.imageryUrl),
+      tileSize: 256,
+      attribution: config.maps.maplibre.imageryAttribution,
+    },
+  },
+  layers: [{ id: "imagery", type: "raster", source: "imagery" }],
+});
+
+const maplibreProvider: MapProvider = {
+  id: "maplibre",
+  isConfigured: () => true,
+  createMap: async (options) => {
+    const [module, pmtiles] = await Promise.all([
+      import("maplibre-gl"),
+      import("pmtiles"),
+      import("maplibre-gl/dist/maplibre-gl.css"),
+    ]);
+    if (!maplibre) {
+      maplibre = module.default;
+      maplibre.addProtocol("pmtiles", new pmtiles.Protocol().tile);
+    }
+
+    return new maplibre.Map({
+      ...options,
+      style: config.maps.maplibre.styleUrl || createSatelliteStyle(),
+      antialias: true,
+      preserveDrawingBuffer: true, // lets exports read frames back
+    });
+  },
+  addTerrain: (routeMap) => {
+    const map = routeMap as maplibregl.Map;
+    map.addSource("terrain-dem", {
+      type: "raster-dem",
+      ...tileSource(config.maps.maplibre.demUrl),
+      encoding: config.maps.maplibre.demEncoding,
+      tileSize: 256,
+      maxzoom: 14,
+    });
+    map.setTerrain({
+      source: "terrain-dem",
+      exaggeration: TERRAIN_EXAGGERATION,
+    });
+    map.setSky({
+      "sky-color": "#7FB4E6",
+      "horizon-color": "#D9E8F5",
+      "fog-color": "#D9E8F5",
+      "sky-horizon-blend": 0.5,
+      "horizon-fog-blend": 0.5,
+      "fog-ground-blend": 0.8,
+    });
+  },
+  addMarker: (routeMap, element, lngLat) =>
+    new maplibre!.Marker({ element })
+      .setLngLat(lngLat)
+      .addTo(routeMap as maplibregl.Map),
+  keepCameraAbove: (routeMap, target, clearance) => {
+    const map = routeMap as maplibregl.Map;
+    const { lngLat, altitude } = map.transform.getCameraPosition();
+    const ground = map.queryTerrainElevation(lngLat) ?? 0;
+    if (altitude - ground >= clearance) return;
+
+    map.jumpTo(
+      map.calculateCameraOptionsFromTo(
+        lngLat,
+        ground + clearance,
+        maplibre!.LngLat.convert(target),
+        map.queryTerrainElevation(target) ?? 0
+      )
+    );
+  },
+};
+
+export const mapProviders: Record<MapProviderId, MapProvider> = {
+  mapbox: mapboxProvider,
+  maplibre: maplibreProvider,
+};
+
+/**
+ * Corners and center of the area covered by a route
+ */
+export function getRouteBounds(coordinates: LngLatTuple[]): {
+  bounds: [LngLatTuple, LngLatTuple];
+  center: LngLatTuple;
+} {
+  let west = Infinity;
+  let south = Infinity;
+  let east = -Infinity;
+  let north = -Infinity;
+  coordinates.forEach(([lng, lat]) => {
+    west = Math.min(west, lng);
+    south = Math.min(south, lat);
+    east = Math.max(east, lng);
+    north = Math.max(north, lat);
+  });
+  return {
+    bounds: [
+      [west, south],
+      [east, north],
+    ],
+    center: [(west + east) / 2, (south + north) / 2],
+  };
+}
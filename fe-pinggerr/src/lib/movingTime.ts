@@ -0,0 +1,105 @@
+/**
+ * Moving time
+ * Stop detection for uploaded files, which unlike Strava streams don't say
+ * when the athlete was moving. Speed is measured over a short window so GPS
+ * jitter while standing still doesn't count as moving, and only stops long
+ * enough to matter become pauses
+ */
+
+import type { ActivityPause, ActivityTrackpoint } from "@/types/strava";
+import { getTrackpointDistances, getTrackpointTimes } from "@/lib/trackpoints";
+
+export interface MovingAnalysis {
+  trackpoints: ActivityTrackpoint[]; // with moving flags
+  movingTime: number; // seconds
+  pauses: ActivityPause[];
+}
+
+// Slower than this is standing still, well below a walk
+export const MIN_MOVING_SPEED = 0.5; // m/s
+// Time speed is measured over
+const SPEED_WINDOW = 10; // seconds
+// Shorter stops (a crossing, a hairpin) still count as moving
+const MIN_PAUSE = 10; // seconds
+
+/**
+ * Whether each stretch between consecutive trackpoints was spent stopped,
+ * indexed by the trackpoint it ends at
+ */
+const detectStops = (distances: number[], times: number[]): boolean[] => {
+  const stopped = times.map(() => false);
+  let from = 0;
+  for (let i = 1; i < times.length; i++) {
+    if (!Number.isFinite(times[i])) continue;
+    // Latest timed trackpoint at least a window back
+    while (
+      from + 1 < i &&
+      (!Number.isFinite(times[from]) ||
+        times[i] - times[from + 1] >= SPEED_WINDOW)
+    ) {
+      from++;
+    }
+    const duration = times[i] - times[from];
+    if (!(duration > 0)) continue;
+    stopped[i] = (distances[i] - distances[from]) / duration < MIN_MOVING_SPEED;
+  }
+  return stopped;
+};
+
+/**
+ * Flag each trackpoint as moving or not and find the pauses. Trackpoints
+ * that already carry moving flags (Strava streams) keep them. A trackpoint's
+ * flag covers the stretch that ends at it, so moving time sums the stretches
+ * ending at moving trackpoints
+ */
+export function analyzeMovingTime(
+  trackpoints: ActivityTrackpoint[]
+): MovingAnalysis {
+  const times = getTrackpointTimes(trackpoints);
+  const recorded = trackpoints.every((tp) => tp.moving !== undefined);
+  const stopped = recorded
+    ? trackpoints.map((tp, i) => i > 0 && !tp.moving)
+    : detectStops(getTrackpointDistances(trackpoints), times);
+
+  const pauses: ActivityPause[] = [];
+  let pauseStart = -1; // last trackpoint before the current stop
+  let previous = -1; // last timed trackpoint
+  const closePause = (end: number) => {
+    const duration = times[end] - times[pauseStart];
+    if (duration >= MIN_PAUSE) {
+      pauses.push({ startIndex: pauseStart, endIndex: end, duration });
+    }
+    pauseStart = -1;
+  };
+  times.forEach((time, i) => {
+    if (!Number.isFinite(time)) return;
+    if (stopped[i] && pauseStart < 0 && previous >= 0) pauseStart = previous;
+    if (!stopped[i] && pauseStart >= 0) closePause(previous);
+    previous = i;
+  });
+  if (pauseStart >= 0) closePause(previous);
+
+  // Short stops go back to moving, so flags and pauses agree
+  const paused = trackpoints.map(() => false);
+  pauses.forEach((pause) => {
+    for (let i = pause.startIndex + 1; i <= pause.endIndex; i++) {
+      paused[i] = true;
+    }
+  });
+
+  let movingTime = 0;
+  previous = -1;
+  times.forEach((time, i) => {
+    if (!Number.isFinite(time)) return;
+    if (previous >= 0 && !paused[i]) movingTime += time - times[previous];
+    previous = i;
+  });
+
+  return {
+    trackpoints: recorded
+      ? trackpoints
+      : trackpoints.map((tp, i) => ({ ...tp, moving: !paused[i] })),
+    movingTime,
+    pauses,
+  };
+}
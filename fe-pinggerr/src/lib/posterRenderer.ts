@@ -0,0 +1,1420 @@
+/**
+ * Poster renderer
+ * Draws a PosterTemplate for an activity on an offscreen Konva stage and
+ * exports it as a PNG data URL (Konva is imported on demand). Animated
+ * scenes redraw the same poster with the route and stats partially done
+ */
+
+import { decode } from "@googlemaps/polyline-codec";
+import type Konva from "konva";
+import type { ActivityTrackpoint, StravaActivity } from "@/types/strava";
+import { haversineDistance } from "@/lib/geo";
+import {
+  BASEMAP_SOURCES,
+  isBasemapStyle,
+  loadBasemapTiles,
+  toWebMercator,
+  type MercatorView,
+} from "@/lib/basemap";
+import {
+  DEFAULT_MAX_HEART_RATE,
+  formatSplitPace,
+  getElevationProfile,
+  getHeartRateBands,
+  getPaceSplits,
+} from "@/lib/activityCharts";
+import {
+  getTrackpointDistances,
+  getTrackpointMovingTimes,
+} from "@/lib/trackpoints";
+import {
+  colorRoute,
+  formatRouteMetric,
+  isRouteColorMetric,
+  ROUTE_COLOR_METRICS,
+} from "@/lib/routeColors";
+import stravaLogoStackWhite from "@/assets/api_logo_pwrdBy_strava_stack_white.svg";
+import stravaLogoHorizWhite from "@/assets/api_logo_pwrdBy_strava_horiz_white.svg";
+import stravaLogoHorizOrange from "@/assets/api_logo_pwrdBy_strava_horiz_orange.png";
+import pinggerrLogo from "@/assets/pinggerr_logo.svg";
+import {
+  applyVariants,
+  formatStatValue,
+  getAvailableStats,
+  matchesWhen,
+  resolveColor,
+  resolvePalette,
+  resolveText,
+  type BasemapStyle,
+  type ChartLayer,
+  type ElevationChartLayer,
+  type HeartRateChartLayer,
+  type ImageLayer,
+  type PaceChartLayer,
+  type PosterTemplate,
+  type RectLayer,
+  type ResolvedStat,
+  type RouteColorLegend,
+  type RouteColorMetric,
+  type RouteLayer,
+  type StarLayer,
+  type StatKey,
+  type StatsCapsuleLayer,
+  type StatsGridLayer,
+  type TemplateCanvas,
+  type TemplateContext,
+  type TemplateIconName,
+  type TemplateLayer,
+  type TemplateOptionValues,
+  type TemplateShadow,
+  type TemplateTextStyle,
+  type TemplateVariant,
+  type TextLayer,
+} from "@/lib/posterTemplate";
+
+type KonvaModule = typeof Konva;
+
+export interface PosterRenderInput {
+  stats: StatKey[];
+  options: TemplateOptionValues;
+  pixelRatio?: number; // overrides the template's, e.g. for cheap previews
+}
+
+interface RenderEnv {
+  Konva: KonvaModule;
+  group: Konva.Group;
+  template: PosterTemplate;
+  activity: StravaActivity;
+  options: TemplateOptionValues;
+  palette: Record<string, string>;
+  stats: ResolvedStat[];
+  coordinates: [number, number][];
+  // Animated scenes only: completion fraction (0-1) of each coordinate
+  routeTimes?: number[];
+  animators: ((progress: number) => void)[];
+}
+
+/**
+ * A poster that can be redrawn at any point of its animation
+ */
+export interface PosterScene {
+  width: number;
+  height: number;
+  setProgress: (progress: number) => void;
+  toCanvas: (pixelRatio: number) => HTMLCanvasElement;
+  destroy: () => void;
+}
+
+// Stats that grow over an activity; averages, pace and date stay fixed
+const COUNT_UP_STATS: StatKey[] = [
+  "distance",
+  "time",
+  "elapsed",
+  "elevation",
+  "calories",
+];
+
+// Longest trackpoint route drawn by animated scenes and colored routes
+const MAX_ROUTE_POINTS = 3000;
+
+// Lucide icon bodies, drawn as SVG images so they can be tinted per palette
+const ICON_PATHS: Record<TemplateIconName, string> = {
+  MapPin: `<path d="m12 8 6-3-6-3v10"/><path d="m8 11.99-5.5 3.14a1 1 0 0 0 0 1.74l8.5 4.86a2 2 0 0 0 2 0l8.5-4.86a1 1 0 0 0 0-1.74L16 12"/><path d="m6.49 12.85 11.02 6.3"/><path d="M17.51 12.85 6.5 19.15"/>`,
+  Zap: `<path d="M4 14a1 1 0 0 1-.78-1.63l9.9-10.2a.5.5 0 0 1 .86.46l-1.92 6.02A1 1 0 0 0 13 10h7a1 1 0 0 1 .78 1.63l-9.9 10.2a.5.5 0 0 1-.86-.46l1.92-6.02A1 1 0 0 0 11 14z"/>`,
+  Clock: `<circle cx="12" cy="12" r="10"/><polyline points="12,6 12,12 16,14"/>`,
+  Timer: `<line x1="10" x2="14" y1="2" y2="2"/><line x1="12" x2="15" y1="14" y2="11"/><circle cx="12" cy="14" r="8"/>`,
+  Gauge: `<path d="m12 14 4-4"/><path d="M3.34 19a10 10 0 1 1 17.32 0"/>`,
+  Mountain: `<path d="m8 3 4 8 5-5 5 15H2L8 3z"/>`,
+  Calendar: `<path d="M8 2v4"/><path d="M16 2v4"/><rect width="18" height="18" x="3" y="4" rx="2"/><path d="M3 10h18"/>`,
+  Heart: `<path d="M19 14c1.49-1.46 3-3.21 3-5.5A5.5 5.5 0 0 0 16.5 3c-1.76 0-3 .5-4.5 2-1.5-1.5-2.74-2-4.5-2A5.5 5.5 0 0 0 2 8.5c0 2.29 1.51 4.04 3 5.5l7 7Z"/>`,
+  Thermometer: `<path d="M14 4v10.54a4 4 0 1 1-4 0V4a2 2 0 0 1 4 0Z"/>`,
+};
+
+/**
+ * Bundled images templates can reference as "asset:<name>"; stored templates
+ * keep the name because bundled urls change between builds
+ */
+export const TEMPLATE_IMAGE_ASSETS: Record<
+  string,
+  { url: string; label: string; width: number; height: number }
+> = {
+  "strava-stack-white": {
+    url: stravaLogoStackWhite,
+    label: "Powered by Strava (white, stacked)",
+    width: 176,
+    height: 60,
+  },
+  "strava-horiz-white": {
+    url: stravaLogoHorizWhite,
+    label: "Powered by Strava (white)",
+    width: 365,
+    height: 37,
+  },
+  "strava-horiz-orange": {
+    url: stravaLogoHorizOrange,
+    label: "Powered by Strava (orange)",
+    width: 365,
+    height: 37,
+  },
+  "pinggerr-logo": {
+    url: pinggerrLogo,
+    label: "Pinggerr",
+    width: 100,
+    height: 100,
+  },
+};
+
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+const loadImage = (src: string): Promise<HTMLImageElement> => {
+  const cached = imageCache.get(src);
+  if (cached) return cached;
+  const promise = new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+  imageCache.set(src, promise);
+  promise.catch(() => imageCache.delete(src));
+  return promise;
+};
+
+/**
+ * Image for an "icon:<name>" or "asset:<name>" source, or a plain url
+ */
+const loadLayerImage = (src: string, color: string, size = 16) => {
+  if (src.startsWith("asset:")) {
+    const asset = TEMPLATE_IMAGE_ASSETS[src.slice("asset:".length)];
+    if (!asset) throw new Error(`Unknown template image ${src}`);
+    return loadImage(asset.url);
+  }
+  if (!src.startsWith("icon:")) return loadImage(src);
+  const body =
+    ICON_PATHS[src.slice("icon:".length) as TemplateIconName] ??
+    ICON_PATHS.MapPin;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 24 24" fill="none" stroke="${color}" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">${body}</svg>`;
+  return loadImage(`data:image/svg+xml;base64,${btoa(svg)}`);
+};
+
+const loadedFonts = new Set<string>();
+
+/**
+ * Make sure the template's fonts are usable by canvas before rendering
+ * Failures are logged and the browser's fallback font is used
+ */
+export async function loadTemplateFonts(
+  template: PosterTemplate
+): Promise<void> {
+  if (!("fonts" in document)) return;
+  await Promise.all(
+    (template.fonts ?? []).map(async (font) => {
+      const key = font.url ?? font.family;
+      if (loadedFonts.has(key)) return;
+      try {
+        if (font.url) {
+          const face = new FontFace(font.family, `url(${font.url})`);
+          await face.load();
+          document.fonts.add(face);
+          loadedFonts.add(key);
+        } else {
+          await Promise.all(
+            (font.weights ?? ["400"]).map((weight) =>
+              document.fonts.load(`${weight} 16px '${font.family}'`)
+            )
+          );
+          loadedFonts.add(key);
+        }
+      } catch (error) {
+        console.warn(`Font ${font.family} failed to load:`, error);
+      }
+    })
+  );
+  await document.fonts.ready;
+}
+
+const fontCss = (style: TemplateTextStyle) =>
+  `${style.fontStyle ?? "normal"} ${style.fontSize}px ${style.fontFamily}`;
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const measureText = (style: TemplateTextStyle, text: string): number => {
+  measureContext ??= document.createElement("canvas").getContext("2d");
+  const context = measureContext;
+  if (!context) return 0;
+  context.font = fontCss(style);
+  return context.measureText(text).width;
+};
+
+const shadowConfig = (shadow: TemplateShadow | undefined) =>
+  shadow
+    ? {
+        shadowColor: shadow.color,
+        shadowBlur: shadow.blur,
+        shadowOffset: { x: shadow.offsetX ?? 0, y: shadow.offsetY ?? 0 },
+      }
+    : {};
+
+/**
+ * Left edge of a text; without a width, x is the anchor the text aligns to
+ */
+const textLeft = (style: TemplateTextStyle, text: string, x: number) => {
+  const align = style.align ?? "left";
+  if (style.width !== undefined || align === "left") return x;
+  const width = measureText(style, text);
+  return align === "center" ? x - width / 2 : x - width;
+};
+
+/**
+ * Konva text node for a template text style
+ */
+const createText = (
+  env: RenderEnv,
+  style: TemplateTextStyle,
+  text: string,
+  x: number,
+  y: number
+) => {
+  const align = style.align ?? "left";
+  const fill = resolveColor(style.fill, env.palette);
+  return new env.Konva.Text({
+    x: textLeft(style, text, x),
+    y,
+    text,
+    fontSize: style.fontSize,
+    fontFamily: style.fontFamily,
+    fontStyle: style.fontStyle ?? "normal",
+    fill,
+    listening: false,
+    ...(style.width !== undefined && { width: style.width, align }),
+    ...(style.strokeWidth && {
+      stroke: resolveColor(style.stroke ?? style.fill, env.palette),
+      strokeWidth: style.strokeWidth,
+    }),
+  });
+};
+
+/**
+ * Activity as it stood at a fraction of the way through
+ */
+const countUpActivity = (
+  activity: StravaActivity,
+  progress: number
+): StravaActivity => ({
+  ...activity,
+  distance: activity.distance * progress,
+  // At least a second so derived speeds never divide by zero
+  moving_time: Math.max(1, Math.round(activity.moving_time * progress)),
+  elapsed_time: Math.max(1, Math.round(activity.elapsed_time * progress)),
+  total_elevation_gain: activity.total_elevation_gain * progress,
+  calories: activity.calories && activity.calories * progress,
+});
+
+/**
+ * Re-run a text node's content for each animation frame, keeping its anchor
+ */
+const animateText = (
+  env: RenderEnv,
+  node: Konva.Text,
+  style: TemplateTextStyle,
+  x: number,
+  textAt: (activity: StravaActivity) => string
+) => {
+  env.animators.push((progress) => {
+    const text = textAt(countUpActivity(env.activity, progress));
+    node.text(text);
+    node.x(textLeft(style, text, x));
+  });
+};
+
+const decodeRoute = (activity: StravaActivity): [number, number][] => {
+  const polyline = activity.map?.polyline || activity.map?.summary_polyline;
+  if (!polyline) return [];
+  try {
+    return decode(polyline) as [number, number][];
+  } catch (error) {
+    console.error("Error processing polyline:", error);
+    return [];
+  }
+};
+
+/**
+ * Fraction of the activity's moving time done at each trackpoint, so the
+ * route doesn't stall at stops, or null when the trackpoints aren't all timed
+ */
+const trackpointProgress = (
+  trackpoints: ActivityTrackpoint[]
+): number[] | null => {
+  const offsets = getTrackpointMovingTimes(trackpoints);
+  const total = offsets[offsets.length - 1];
+  if (trackpoints.length < 2 || !offsets.every(Number.isFinite) || total <= 0) {
+    return null;
+  }
+  return offsets.map((offset) => offset / total);
+};
+
+/**
+ * Trackpoints with a position, thinned out for long activities, and their
+ * progress. Progress is measured before thinning so stops between the kept
+ * trackpoints still come off
+ */
+const sampleRouteTrackpoints = (
+  activity: StravaActivity
+): { trackpoints: ActivityTrackpoint[]; progress: number[] | null } => {
+  const located = (activity.trackpoints ?? []).filter(
+    (tp) => tp.latitude !== undefined && tp.longitude !== undefined
+  );
+  const stride = Math.ceil(located.length / MAX_ROUTE_POINTS);
+  const isKept = (_: unknown, i: number) =>
+    i % stride === 0 || i === located.length - 1;
+  return {
+    trackpoints: located.filter(isKept),
+    progress: trackpointProgress(located)?.filter(isKept) ?? null,
+  };
+};
+
+/**
+ * Route with the fraction of the activity completed at each point: trackpoint
+ * timestamps when the activity has them, distance along the polyline otherwise
+ */
+const decodeTimedRoute = (
+  activity: StravaActivity
+): { coordinates: [number, number][]; times: number[] } => {
+  const { trackpoints, progress } = sampleRouteTrackpoints(activity);
+  if (progress) {
+    return {
+      coordinates: trackpoints.map((tp) => [tp.latitude!, tp.longitude!]),
+      times: progress,
+    };
+  }
+
+  const coordinates = decodeRoute(activity);
+  const distances = coordinates.reduce<number[]>((acc, [lat, lng], i) => {
+    const [prevLat, prevLng] = coordinates[i - 1] ?? [lat, lng];
+    acc.push((acc[i - 1] ?? 0) + haversineDistance(prevLat, prevLng, lat, lng));
+    return acc;
+  }, []);
+  const length = distances[distances.length - 1] || 1;
+  return { coordinates, times: distances.map((d) => d / length) };
+};
+
+type RouteFitLayer = Pick<
+  RouteLayer,
+  | "x"
+  | "y"
+  | "width"
+  | "height"
+  | "padding"
+  | "scale"
+  | "alignX"
+  | "alignY"
+  | "offsetX"
+  | "offsetY"
+>;
+
+/**
+ * Fit lat/lng coordinates into a layer's box in Web Mercator, keeping the
+ * aspect ratio; basemap tiles are placed with the same view
+ */
+const fitRoute = (
+  coordinates: [number, number][],
+  layer: RouteFitLayer
+): MercatorView | null => {
+  if (coordinates.length === 0) return null;
+  const points = coordinates.map(([lat, lng]) => toWebMercator(lat, lng));
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  const xRange = Math.max(1e-12, Math.max(...xs) - minX);
+  const yRange = Math.max(1e-12, Math.max(...ys) - minY);
+  const padding = layer.padding ?? 0.1;
+  const xPadding = xRange * padding;
+  const yPadding = yRange * padding;
+  const paddedXRange = xRange + xPadding * 2;
+  const paddedYRange = yRange + yPadding * 2;
+
+  const scale =
+    Math.min(layer.width / paddedXRange, layer.height / paddedYRange) *
+    (layer.scale ?? 1);
+  const mapWidth = paddedXRange * scale;
+  const mapHeight = paddedYRange * scale;
+
+  const alignFactor = (align: RouteLayer["alignX"]) =>
+    align === "start" ? 0 : align === "end" ? 1 : 0.5;
+  const offsetX =
+    layer.x +
+    (layer.width - mapWidth) * alignFactor(layer.alignX) +
+    (layer.offsetX ?? 0);
+  const offsetY =
+    layer.y +
+    (layer.height - mapHeight) * alignFactor(layer.alignY) +
+    (layer.offsetY ?? 0);
+
+  return {
+    scale,
+    originX: offsetX - (minX - xPadding) * scale,
+    originY: offsetY - (minY - yPadding) * scale,
+  };
+};
+
+const projectPoints = (
+  coordinates: [number, number][],
+  view: MercatorView
+): { x: number; y: number }[] =>
+  coordinates.map(([lat, lng]) => {
+    const point = toWebMercator(lat, lng);
+    return {
+      x: view.originX + point.x * view.scale,
+      y: view.originY + point.y * view.scale,
+    };
+  });
+
+/**
+ * Fit lat/lng coordinates into a layer's box, keeping the aspect ratio
+ */
+export function projectRoute(
+  coordinates: [number, number][],
+  layer: RouteFitLayer
+): { x: number; y: number }[] {
+  const view = fitRoute(coordinates, layer);
+  return view ? projectPoints(coordinates, view) : [];
+}
+
+export interface LayerBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Area a layer covers on the canvas, used for the designer's hit boxes
+ */
+export function getLayerBounds(
+  template: PosterTemplate,
+  layer: TemplateLayer,
+  activity: StravaActivity,
+  statsCount: number
+): LayerBounds {
+  switch (layer.type) {
+    case "rect":
+    case "image":
+    case "route":
+    case "chart":
+      return {
+        x: layer.x,
+        y: layer.y,
+        width: layer.width,
+        height: layer.height,
+      };
+    case "star":
+      return {
+        x: layer.x - layer.radius,
+        y: layer.y - layer.radius,
+        width: layer.radius * 2,
+        height: layer.radius * 2,
+      };
+    case "text": {
+      const text = resolveText(template, layer, activity);
+      return {
+        x: textLeft(layer.style, text, layer.x),
+        y: layer.y,
+        width: layer.style.width ?? measureText(layer.style, text),
+        height: layer.style.fontSize * 1.2,
+      };
+    }
+    case "stats": {
+      if (layer.layout === "capsules") {
+        return {
+          x: layer.x,
+          y: layer.y - layer.rowHeight / 2,
+          width: layer.width,
+          height: layer.rows * layer.rowHeight,
+        };
+      }
+      const columns =
+        layer.columns === "auto" ? Math.max(1, statsCount) : layer.columns;
+      const columnWidth =
+        layer.columnWidth ?? (layer.width ?? template.canvas.width) / columns;
+      const rows = Math.max(1, Math.ceil(statsCount / columns));
+      return {
+        x: layer.x,
+        y: layer.y,
+        width: columns * columnWidth,
+        height:
+          (rows - 1) * layer.rowHeight +
+          (layer.value.offsetY ?? 0) +
+          layer.value.fontSize * 1.2,
+      };
+    }
+  }
+}
+
+const drawRect = (env: RenderEnv, layer: RectLayer) => {
+  env.group.add(
+    new env.Konva.Rect({
+      x: layer.x,
+      y: layer.y,
+      width: layer.width,
+      height: layer.height,
+      cornerRadius: layer.cornerRadius,
+      fill: layer.fill && resolveColor(layer.fill, env.palette),
+      stroke: layer.stroke && resolveColor(layer.stroke, env.palette),
+      strokeWidth: layer.strokeWidth,
+      listening: false,
+      ...shadowConfig(layer.shadow),
+    })
+  );
+};
+
+const drawText = (env: RenderEnv, layer: TextLayer) => {
+  const text = resolveText(env.template, layer, env.activity);
+  if (!text) return;
+  const node = createText(env, layer.style, text, layer.x, layer.y);
+  env.group.add(node);
+  if (env.routeTimes && /\{(?!name\}|type\})\w+\}/.test(layer.text)) {
+    animateText(env, node, layer.style, layer.x, (activity) =>
+      resolveText(env.template, layer, activity)
+    );
+  }
+};
+
+const drawImage = async (env: RenderEnv, layer: ImageLayer) => {
+  const color = resolveColor(layer.color ?? "#FFFFFF", env.palette);
+  const image = await loadLayerImage(layer.src, color);
+  env.group.add(
+    new env.Konva.Image({
+      image,
+      x: layer.x,
+      y: layer.y,
+      width: layer.width,
+      height: layer.height,
+      opacity: layer.opacity ?? 1,
+      listening: false,
+    })
+  );
+};
+
+const resolveBasemapStyle = (
+  env: RenderEnv,
+  layer: RouteLayer
+): BasemapStyle | null => {
+  const basemap = layer.basemap;
+  if (!basemap) return null;
+  const style = basemap.option ? env.options[basemap.option] : basemap.style;
+  return isBasemapStyle(style) ? style : null;
+};
+
+/**
+ * Tiles clipped to the route layer's box, with the tile provider's credits
+ * in the bottom right corner as their terms require
+ */
+const drawBasemap = async (
+  env: RenderEnv,
+  layer: RouteLayer,
+  style: BasemapStyle,
+  view: MercatorView
+) => {
+  const tiles = await loadBasemapTiles(style, layer, view);
+  if (tiles.length === 0) return;
+
+  const { cornerRadius = 0, opacity = 1 } = layer.basemap ?? {};
+  const group = new env.Konva.Group({
+    x: layer.x,
+    y: layer.y,
+    clipFunc: (context) =>
+      env.Konva.Util.drawRoundedRectPath(
+        context,
+        layer.width,
+        layer.height,
+        cornerRadius
+      ),
+    listening: false,
+  });
+  tiles.forEach((tile) => {
+    group.add(
+      new env.Konva.Image({
+        image: tile.image,
+        x: tile.x - layer.x,
+        y: tile.y - layer.y,
+        // Overlap by a pixel so seams don't show between scaled tiles
+        width: tile.size + 1,
+        height: tile.size + 1,
+        opacity,
+        listening: false,
+      })
+    );
+  });
+
+  const source = BASEMAP_SOURCES[style];
+  if (source.attribution) {
+    const fontSize = layer.basemap?.attributionSize ?? 12;
+    const textStyle: TemplateTextStyle = {
+      fontFamily: "sans-serif",
+      fontSize,
+      fill: source.attributionColor,
+    };
+    const padding = fontSize * 0.4;
+    const width = measureText(textStyle, source.attribution) + padding * 2;
+    const height = fontSize + padding * 2;
+    group.add(
+      new env.Konva.Rect({
+        x: layer.width - width - cornerRadius / 2,
+        y: layer.height - height - cornerRadius / 2,
+        width,
+        height,
+        fill: source.attributionBackground,
+        listening: false,
+      }),
+      createText(
+        env,
+        textStyle,
+        source.attribution,
+        layer.width - width - cornerRadius / 2 + padding,
+        layer.height - height - cornerRadius / 2 + padding
+      )
+    );
+  }
+
+  env.group.add(group);
+};
+
+const resolveRouteMetric = (
+  env: RenderEnv,
+  layer: RouteLayer
+): RouteColorMetric | null => {
+  const colorBy = layer.colorBy;
+  if (!colorBy) return null;
+  const metric = colorBy.option ? env.options[colorBy.option] : colorBy.metric;
+  return isRouteColorMetric(metric) ? metric : null;
+};
+
+/**
+ * The route drawn from its trackpoints in runs of metric colors, or null
+ * when it's drawn in its stroke color
+ */
+const getColoredRoute = (
+  env: RenderEnv,
+  layer: RouteLayer,
+  view: MercatorView
+) => {
+  const metric = resolveRouteMetric(env, layer);
+  if (!metric) return null;
+  const { trackpoints, progress } = sampleRouteTrackpoints(env.activity);
+  const ramp = (layer.colorBy?.ramp ?? ROUTE_COLOR_METRICS[metric].ramp).map(
+    (color) => resolveColor(color, env.palette)
+  );
+  const colored =
+    trackpoints.length > 1 ? colorRoute(trackpoints, metric, ramp) : null;
+  if (!colored) return null;
+
+  const distances = getTrackpointDistances(trackpoints);
+  const length = distances[distances.length - 1] || 1;
+  return {
+    metric,
+    ramp,
+    ...colored,
+    points: projectPoints(
+      trackpoints.map((tp) => [tp.latitude!, tp.longitude!]),
+      view
+    ),
+    times: progress ?? distances.map((d) => d / length),
+  };
+};
+
+/**
+ * Color bar with the low and high end of the metric under it
+ */
+const drawRouteLegend = (
+  env: RenderEnv,
+  layer: RouteLayer,
+  legend: RouteColorLegend,
+  route: NonNullable<ReturnType<typeof getColoredRoute>>
+) => {
+  const x = layer.x + legend.x;
+  const y = layer.y + legend.y;
+  env.group.add(
+    new env.Konva.Rect({
+      x,
+      y,
+      width: legend.width,
+      height: legend.height,
+      cornerRadius: legend.height / 2,
+      fillLinearGradientStartPoint: { x: 0, y: 0 },
+      fillLinearGradientEndPoint: { x: legend.width, y: 0 },
+      fillLinearGradientColorStops: route.ramp.flatMap((color, i) => [
+        i / (route.ramp.length - 1),
+        color,
+      ]),
+      listening: false,
+    })
+  );
+  if (!legend.label) return;
+
+  const style = { ...legend.label, width: undefined };
+  const labelY = y + legend.height + legend.label.fontSize * 0.4;
+  const format = (value: number) =>
+    formatRouteMetric(route.metric, value, env.activity);
+  env.group.add(
+    createText(env, { ...style, align: "left" }, format(route.min), x, labelY),
+    createText(
+      env,
+      { ...style, align: "center" },
+      ROUTE_COLOR_METRICS[route.metric].label.en,
+      x + legend.width / 2,
+      labelY
+    ),
+    createText(
+      env,
+      { ...style, align: "right" },
+      format(route.max),
+      x + legend.width,
+      labelY
+    )
+  );
+};
+
+const drawRoute = async (env: RenderEnv, layer: RouteLayer) => {
+  const view = fitRoute(env.coordinates, layer);
+  if (!view || env.coordinates.length < 2) return;
+
+  const basemapStyle = resolveBasemapStyle(env, layer);
+  if (basemapStyle) {
+    await drawBasemap(env, layer, basemapStyle, view);
+  }
+
+  const colored = getColoredRoute(env, layer, view);
+  const points = colored?.points ?? projectPoints(env.coordinates, view);
+  const runs = colored?.runs ?? [
+    { start: 0, end: points.length - 1, color: layer.stroke },
+  ];
+  const lines = runs.map((run) => {
+    const line = new env.Konva.Line({
+      points: points.slice(run.start, run.end + 1).flatMap((p) => [p.x, p.y]),
+      stroke: resolveColor(run.color, env.palette),
+      strokeWidth: layer.strokeWidth,
+      lineJoin: "round",
+      lineCap: "round",
+      listening: false,
+      ...shadowConfig(layer.shadow),
+    });
+    env.group.add(line);
+    return { run, line };
+  });
+
+  if (colored && layer.colorBy?.legend) {
+    drawRouteLegend(env, layer, layer.colorBy.legend, colored);
+  }
+
+  const markers = [
+    { marker: layer.startMarker, point: points[0] },
+    { marker: layer.endMarker, point: points[points.length - 1] },
+  ].map(({ marker, point }) => {
+    if (!marker) return null;
+    const circle = new env.Konva.Circle({
+      x: point.x,
+      y: point.y,
+      radius: marker.radius,
+      fill: resolveColor(marker.fill, env.palette),
+      stroke: marker.stroke && resolveColor(marker.stroke, env.palette),
+      strokeWidth: marker.strokeWidth,
+      listening: false,
+    });
+    env.group.add(circle);
+    return circle;
+  });
+
+  if (!env.routeTimes) return;
+  const times = colored?.times ?? env.routeTimes;
+  // Draw the route up to the current time, with the end marker at its head
+  const endMarker = markers[1];
+  env.animators.push((progress) => {
+    let count = 1;
+    while (count < times.length && times[count] <= progress) count++;
+    lines.forEach(({ run, line }) => {
+      const end = Math.min(run.end, count - 1);
+      line.visible(run.start === 0 || end > run.start);
+      line.points(points.slice(run.start, end + 1).flatMap((p) => [p.x, p.y]));
+    });
+    endMarker?.position(points[count - 1]);
+  });
+};
+
+/**
+ * Eight-pointed star: vertical, horizontal and both diagonals
+ */
+const drawStar = (env: RenderEnv, layer: StarLayer) => {
+  const { x, y, radius } = layer;
+  const d = radius * Math.SQRT1_2;
+  [
+    [x, y - radius, x, y + radius],
+    [x - radius, y, x + radius, y],
+    [x - d, y - d, x + d, y + d],
+    [x - d, y + d, x + d, y - d],
+  ].forEach((points) => {
+    env.group.add(
+      new env.Konva.Line({
+        points,
+        stroke: resolveColor(layer.stroke, env.palette),
+        strokeWidth: layer.strokeWidth,
+        lineCap: "square",
+        listening: false,
+      })
+    );
+  });
+};
+
+const drawStatsGrid = async (env: RenderEnv, layer: StatsGridLayer) => {
+  const columns =
+    layer.columns === "auto" ? Math.max(1, env.stats.length) : layer.columns;
+  const columnWidth =
+    layer.columnWidth ?? (layer.width ?? env.template.canvas.width) / columns;
+  const align = layer.align ?? "left";
+
+  for (const [index, stat] of env.stats.entries()) {
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+    const x = layer.x + (align === "center" ? col + 0.5 : col) * columnWidth;
+    const y = layer.y + row * layer.rowHeight;
+
+    if (layer.icon && stat.icon) {
+      const image = await loadLayerImage(
+        `icon:${stat.icon}`,
+        resolveColor(layer.icon.color, env.palette)
+      );
+      env.group.add(
+        new env.Konva.Image({
+          image,
+          x: x + (layer.icon.offsetX ?? 0),
+          y: y + (layer.icon.offsetY ?? 0),
+          width: layer.icon.size,
+          height: layer.icon.size,
+          listening: false,
+        })
+      );
+    }
+
+    const { offsetY: labelOffset, ...labelStyle } = layer.label;
+    const { offsetY: valueOffset, ...valueStyle } = layer.value;
+    env.group.add(
+      createText(
+        env,
+        { align, ...labelStyle },
+        stat.label,
+        x,
+        y + (labelOffset ?? 0)
+      )
+    );
+    const valueNode = createText(
+      env,
+      { align, ...valueStyle },
+      stat.value,
+      x,
+      y + (valueOffset ?? 0)
+    );
+    env.group.add(valueNode);
+    animateStat(env, valueNode, { align, ...valueStyle }, x, stat);
+  }
+};
+
+const animateStat = (
+  env: RenderEnv,
+  node: Konva.Text,
+  style: TemplateTextStyle,
+  x: number,
+  stat: ResolvedStat
+) => {
+  if (!env.routeTimes || !COUNT_UP_STATS.includes(stat.key)) return;
+  animateText(
+    env,
+    node,
+    style,
+    x,
+    (activity) =>
+      formatStatValue(
+        activity,
+        stat.key,
+        env.template.stats.formats?.[stat.key]
+      ) ?? stat.value
+  );
+};
+
+/**
+ * Balance capsules over rows (widest first into the shorter row), then
+ * spread the leftover width randomly so the rows look hand-set
+ */
+const drawStatsCapsules = (env: RenderEnv, layer: StatsCapsuleLayer) => {
+  const items = env.stats.map((stat) => {
+    const capsuleBaseWidth =
+      measureText(layer.label, stat.label) + layer.paddingX * 2;
+    const valueWidth = measureText(layer.value, stat.value);
+    return {
+      stat,
+      capsuleBaseWidth,
+      valueWidth,
+      groupWidth: capsuleBaseWidth + layer.gap + valueWidth,
+    };
+  });
+
+  const rows: (typeof items)[] = Array.from({ length: layer.rows }, () => []);
+  const rowWidths = rows.map(() => 0);
+  [...items]
+    .sort((a, b) => b.groupWidth - a.groupWidth)
+    .forEach((item) => {
+      const target = rowWidths.indexOf(Math.min(...rowWidths));
+      rows[target].push(item);
+      rowWidths[target] +=
+        item.groupWidth + (rows[target].length > 1 ? layer.itemGap : 0);
+    });
+
+  const stroke = resolveColor(layer.capsule.stroke, env.palette);
+  const capsuleHeight = layer.label.fontSize + layer.paddingY * 2;
+  rows.forEach((rowItems, rowIndex) => {
+    if (rowItems.length === 0) return;
+    const intrinsic =
+      rowItems.reduce((acc, item) => acc + item.groupWidth, 0) +
+      layer.itemGap * (rowItems.length - 1);
+    const extra = Math.max(0, layer.width - intrinsic);
+    const weights = rowItems.map(() => 0.2 + Math.random());
+    const weightSum = weights.reduce((a, b) => a + b, 0) || 1;
+
+    let x = layer.x;
+    const y = layer.y + rowIndex * layer.rowHeight;
+    rowItems.forEach((item, i) => {
+      const capsuleWidth =
+        item.capsuleBaseWidth + (extra * weights[i]) / weightSum;
+      env.group.add(
+        new env.Konva.Rect({
+          x,
+          y: y - capsuleHeight / 2,
+          width: capsuleWidth,
+          height: capsuleHeight,
+          cornerRadius: capsuleHeight / 2,
+          stroke,
+          strokeWidth: layer.capsule.strokeWidth,
+          listening: false,
+        })
+      );
+      env.group.add(
+        createText(
+          env,
+          { ...layer.label, width: capsuleWidth, align: "center" },
+          item.stat.label,
+          x,
+          y - layer.label.fontSize / 2
+        )
+      );
+      const valueNode = createText(
+        env,
+        layer.value,
+        item.stat.value,
+        x + capsuleWidth + layer.gap,
+        y - (layer.value.fontSize * 0.95) / 2
+      );
+      env.group.add(valueNode);
+      animateStat(
+        env,
+        valueNode,
+        layer.value,
+        x + capsuleWidth + layer.gap,
+        item.stat
+      );
+      x += capsuleWidth + layer.gap + item.valueWidth + layer.itemGap;
+    });
+  });
+};
+
+/**
+ * Group for a chart, in the layer's own coordinates. Animated scenes reveal
+ * it from the left as the activity goes on
+ */
+const createChartGroup = (
+  env: RenderEnv,
+  layer: ChartLayer,
+  cornerRadius = 0
+) => {
+  let revealed = 1;
+  const group = new env.Konva.Group({
+    x: layer.x,
+    y: layer.y,
+    clipFunc: (context) =>
+      env.Konva.Util.drawRoundedRectPath(
+        context,
+        layer.width * revealed,
+        layer.height,
+        Math.min(cornerRadius, (layer.width * revealed) / 2)
+      ),
+    listening: false,
+  });
+  if (env.routeTimes) {
+    env.animators.push((progress) => {
+      revealed = progress;
+    });
+  }
+  env.group.add(group);
+  return group;
+};
+
+const gradeColor = (layer: ElevationChartLayer, grade: number) => {
+  const stops = [...(layer.gradeColors ?? [])].sort(
+    (a, b) => a.minGrade - b.minGrade
+  );
+  return (
+    stops.filter((stop) => grade >= stop.minGrade).pop()?.color ?? layer.fill
+  );
+};
+
+/**
+ * Elevation profile filled down to the bottom of the box; the lowest point
+ * keeps a sliver of fill so flat activities still read as a profile
+ */
+const drawElevationChart = (env: RenderEnv, layer: ElevationChartLayer) => {
+  const profile = getElevationProfile(env.activity);
+  if (profile.length < 2) return;
+
+  const altitudes = profile.map((sample) => sample.altitude);
+  const min = Math.min(...altitudes);
+  const range = Math.max(...altitudes) - min || 1;
+  const points = profile.map((sample) => ({
+    x: sample.at * layer.width,
+    y: layer.height * (0.85 - (0.85 * (sample.altitude - min)) / range),
+  }));
+
+  const group = createChartGroup(env, layer);
+  const fillArea = (from: number, to: number, color: string) => {
+    const top = points.slice(from, to + 1);
+    group.add(
+      new env.Konva.Line({
+        points: [
+          top[0].x,
+          layer.height,
+          ...top.flatMap((p) => [p.x, p.y]),
+          top[top.length - 1].x,
+          layer.height,
+        ],
+        closed: true,
+        fill: resolveColor(color, env.palette),
+        listening: false,
+      })
+    );
+  };
+
+  // Consecutive stretches of the same color share one shape
+  let start = 0;
+  for (let i = 1; i < points.length; i++) {
+    const color = gradeColor(layer, profile[i].grade);
+    const next = profile[i + 1] && gradeColor(layer, profile[i + 1].grade);
+    if (color !== next) {
+      fillArea(start, i, color);
+      start = i;
+    }
+  }
+
+  if (layer.stroke) {
+    group.add(
+      new env.Konva.Line({
+        points: points.flatMap((p) => [p.x, p.y]),
+        stroke: resolveColor(layer.stroke, env.palette),
+        strokeWidth: layer.strokeWidth ?? 2,
+        lineJoin: "round",
+        lineCap: "round",
+        listening: false,
+      })
+    );
+  }
+};
+
+const drawHeartRateChart = (env: RenderEnv, layer: HeartRateChartLayer) => {
+  const bands = getHeartRateBands(
+    env.activity,
+    layer.maxHeartRate ?? DEFAULT_MAX_HEART_RATE
+  );
+  if (bands.length === 0) return;
+
+  const group = createChartGroup(env, layer, layer.cornerRadius);
+  bands.forEach((band) => {
+    const zoneColor = layer.zoneColors?.[band.zone];
+    group.add(
+      new env.Konva.Rect({
+        x: band.start * layer.width,
+        y: 0,
+        // Overlap by a pixel so seams don't show between bands
+        width: (band.end - band.start) * layer.width + 1,
+        height: layer.height,
+        fill: resolveColor(zoneColor ?? layer.fill, env.palette),
+        opacity: zoneColor ? 1 : 0.2 + band.zone * 0.2,
+        listening: false,
+      })
+    );
+  });
+};
+
+/**
+ * Split bars along the bottom of the box, pace labels underneath them when
+ * they fit the bar
+ */
+const drawPaceChart = (env: RenderEnv, layer: PaceChartLayer) => {
+  const splits = getPaceSplits(env.activity, layer.splitDistance);
+  if (splits.length === 0) return;
+
+  const labelHeight = layer.label ? layer.label.fontSize * 1.4 : 0;
+  const barsHeight = layer.height - labelHeight;
+  const totalDistance = splits.reduce((acc, split) => acc + split.distance, 0);
+  const barsWidth = layer.width - layer.gap * (splits.length - 1);
+  const speeds = splits.map((split) => split.speed);
+  const minSpeed = Math.min(...speeds);
+  const maxSpeed = Math.max(...speeds);
+  const fastest = speeds.indexOf(maxSpeed);
+
+  const group = createChartGroup(env, layer);
+  let x = 0;
+  splits.forEach((split, index) => {
+    const width = (split.distance / totalDistance) * barsWidth;
+    // Slowest split still gets a quarter of the height
+    const height =
+      barsHeight *
+      (0.25 + (0.75 * (split.speed - minSpeed)) / (maxSpeed - minSpeed || 1));
+    const color =
+      index === fastest && layer.highlight ? layer.highlight : layer.fill;
+    group.add(
+      new env.Konva.Rect({
+        x,
+        y: barsHeight - height,
+        width,
+        height,
+        cornerRadius: Math.min(layer.cornerRadius ?? 0, width / 2),
+        fill: resolveColor(color, env.palette),
+        listening: false,
+      })
+    );
+
+    const text = formatSplitPace(split);
+    if (layer.label && measureText(layer.label, text) <= width) {
+      group.add(
+        createText(
+          env,
+          { ...layer.label, width: undefined, align: "center" },
+          text,
+          x + width / 2,
+          barsHeight + layer.label.fontSize * 0.3
+        )
+      );
+    }
+    x += width + layer.gap;
+  });
+};
+
+const drawChart = (env: RenderEnv, layer: ChartLayer) => {
+  switch (layer.chart) {
+    case "elevation":
+      return drawElevationChart(env, layer);
+    case "heartrate":
+      return drawHeartRateChart(env, layer);
+    case "pace":
+      return drawPaceChart(env, layer);
+  }
+};
+
+const drawLayer = async (env: RenderEnv, layer: TemplateLayer) => {
+  switch (layer.type) {
+    case "rect":
+      return drawRect(env, layer);
+    case "text":
+      return drawText(env, layer);
+    case "image":
+      return drawImage(env, layer);
+    case "route":
+      return drawRoute(env, layer);
+    case "star":
+      return drawStar(env, layer);
+    case "stats":
+      return layer.layout === "capsules"
+        ? drawStatsCapsules(env, layer)
+        : drawStatsGrid(env, layer);
+    case "chart":
+      return drawChart(env, layer);
+  }
+};
+
+/**
+ * Draw every layer of a template on a new stage; the caller destroys it
+ */
+const buildPosterStage = async (
+  template: PosterTemplate,
+  activity: StravaActivity,
+  input: PosterRenderInput,
+  animated: boolean
+) => {
+  const Konva = (await import("konva")).default;
+
+  const available = getAvailableStats(template, activity);
+  const stats = input.stats
+    .slice(0, template.stats.max)
+    .flatMap((key) => available.filter((stat) => stat.key === key));
+  const timedRoute = animated ? decodeTimedRoute(activity) : null;
+  const coordinates = timedRoute?.coordinates ?? decodeRoute(activity);
+  const context: TemplateContext = {
+    options: input.options,
+    statsCount: stats.length,
+    hasRoute: coordinates.length > 1,
+  };
+
+  const canvas = applyVariants<TemplateCanvas>(
+    template.canvas,
+    template.canvas.variants,
+    context
+  );
+  const layers = template.layers
+    .filter((layer) => matchesWhen(layer.when, context))
+    .map((layer) =>
+      applyVariants(
+        layer as TemplateLayer,
+        layer.variants as TemplateVariant<TemplateLayer>[] | undefined,
+        context
+      )
+    );
+
+  const stage = new Konva.Stage({
+    container: document.createElement("div"),
+    width: canvas.width,
+    height: canvas.height,
+  });
+  try {
+    const konvaLayer = new Konva.Layer();
+    stage.add(konvaLayer);
+
+    if (canvas.background) {
+      konvaLayer.add(
+        new Konva.Rect({
+          width: canvas.width,
+          height: canvas.height,
+          fill: canvas.background,
+          listening: false,
+        })
+      );
+    }
+
+    if (canvas.transparencyAnchors) {
+      const size = 1;
+      [
+        [0, 0],
+        [canvas.width - size, 0],
+        [0, canvas.height - size],
+        [canvas.width - size, canvas.height - size],
+      ].forEach(([x, y]) => {
+        konvaLayer.add(
+          new Konva.Rect({
+            x,
+            y,
+            width: size,
+            height: size,
+            fill: "rgba(0, 0, 0, 0.003)",
+            listening: false,
+          })
+        );
+      });
+    }
+
+    const group = new Konva.Group({ y: canvas.offsetY ?? 0 });
+    konvaLayer.add(group);
+
+    // Without a route iOS may not detect transparency, so mimic its pixel spread
+    const spacers = canvas.transparencySpacers;
+    const drawsRoute =
+      context.hasRoute && layers.some((layer) => layer.type === "route");
+    if (spacers && !drawsRoute) {
+      const spacing = canvas.width / (spacers.count + 1);
+      for (let i = 1; i <= spacers.count; i++) {
+        group.add(
+          new Konva.Line({
+            points: [
+              spacing * i,
+              spacers.top,
+              spacing * i,
+              canvas.height - spacers.bottomInset,
+            ],
+            stroke: spacers.stroke,
+            strokeWidth: spacers.strokeWidth,
+            listening: false,
+          })
+        );
+      }
+    }
+
+    const env: RenderEnv = {
+      Konva,
+      group,
+      template,
+      activity,
+      options: input.options,
+      palette: resolvePalette(template, context),
+      stats,
+      coordinates,
+      routeTimes: timedRoute?.times,
+      animators: [],
+    };
+    for (const layer of layers) {
+      await drawLayer(env, layer);
+    }
+
+    return { stage, konvaLayer, canvas, env };
+  } catch (error) {
+    stage.destroy();
+    throw error;
+  }
+};
+
+/**
+ * Render a template to a PNG data URL
+ */
+export async function renderPosterTemplate(
+  template: PosterTemplate,
+  activity: StravaActivity,
+  input: PosterRenderInput
+): Promise<string> {
+  const { stage, konvaLayer, canvas } = await buildPosterStage(
+    template,
+    activity,
+    input,
+    false
+  );
+  try {
+    konvaLayer.draw();
+    return stage.toDataURL({
+      mimeType: "image/png",
+      quality: 1,
+      pixelRatio: input.pixelRatio ?? canvas.pixelRatio,
+    });
+  } finally {
+    stage.destroy();
+  }
+}
+
+/**
+ * Build a template as an animation: at progress p the route is drawn up to
+ * the moment p of the activity and growing stats show their value by then
+ */
+export async function createPosterScene(
+  template: PosterTemplate,
+  activity: StravaActivity,
+  input: PosterRenderInput
+): Promise<PosterScene> {
+  const { stage, canvas, env } = await buildPosterStage(
+    template,
+    activity,
+    input,
+    true
+  );
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    setProgress: (progress) => {
+      const clamped = Math.min(1, Math.max(0, progress));
+      env.animators.forEach((animate) => animate(clamped));
+    },
+    toCanvas: (pixelRatio) => stage.toCanvas({ pixelRatio }),
+    destroy: () => stage.destroy(),
+  };
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { ActivityTrackpoint, StravaActivity } from "@/types/strava";
+import type { PosterTemplate } from "@/lib/posterTemplate";
+import {
+  formatStatValue,
+  getAvailableStats,
+  reconcileStats,
+} from "@/lib/posterTemplate";
+
+// 10.25 km in 51:15 moving, 55:00 elapsed
+const createActivity = (overrides: Partial<StravaActivity> = {}) =>
+  ({
+    distance: 10250,
+    moving_time: 3075,
+    elapsed_time: 3300,
+    average_speed: 10250 / 3075,
+    total_elevation_gain: 123.6,
+    start_date: "2024-05-01T08:00:00Z",
+    has_heartrate: false,
+    ...overrides,
+  } as StravaActivity);
+
+describe("formatStatValue", () => {
+  const activity = createActivity();
+
+  it("formats numbers with the stat's default decimals and unit", () => {
+    expect(formatStatValue(activity, "distance")).toBe("10.3 km");
+    expect(formatStatValue(activity, "elevation")).toBe("124 m");
+    expect(formatStatValue(activity, "speed")).toBe("12.0 km/h");
+  });
+
+  it("applies the template's format overrides", () => {
+    expect(formatStatValue(activity, "distance", { decimals: 2 })).toBe(
+      "10.25 km"
+    );
+    expect(formatStatValue(activity, "distance", { unit: "" })).toBe("10.3");
+  });
+
+  it("formats pace as minutes and seconds per km", () => {
+    expect(formatStatValue(activity, "pace")).toBe("5:00/km");
+    expect(formatStatValue(createActivity({ average_speed: 0 }), "pace")).toBe(
+      "5:00/km"
+    );
+  });
+
+  it("formats durations", () => {
+    expect(formatStatValue(activity, "time")).toBe("51m 15s");
+    expect(formatStatValue(activity, "time", { clock: true })).toBe("51:15");
+    expect(
+      formatStatValue(createActivity({ elapsed_time: 3900 }), "elapsed")
+    ).toBe("1h 05m");
+    expect(
+      formatStatValue(createActivity({ elapsed_time: 3900 }), "elapsed", {
+        clock: true,
+      })
+    ).toBe("1:05");
+  });
+
+  it("rounds fractional seconds before splitting them up", () => {
+    expect(
+      formatStatValue(createActivity({ moving_time: 59.6 }), "time", {
+        clock: true,
+      })
+    ).toBe("1:00");
+  });
+
+  it("formats the date", () => {
+    expect(formatStatValue(activity, "date")).toBe("May 1, 2024");
+  });
+
+  it("has no value for data the activity lacks", () => {
+    expect(formatStatValue(activity, "calories")).toBeNull();
+    expect(formatStatValue(activity, "heartrate")).toBeNull();
+    expect(formatStatValue(activity, "best1k")).toBeNull();
+    expect(
+      formatStatValue(createActivity({ average_heartrate: 150 }), "heartrate")
+    ).toBeNull();
+  });
+
+  it("doubles Strava's per-leg running cadence", () => {
+    expect(
+      formatStatValue(createActivity({ average_cadence: 85 }), "cadence")
+    ).toBe("170 spm");
+  });
+
+  it("formats best efforts from the trackpoints", () => {
+    // 4 m/s for 30 minutes, 200 W throughout
+    const trackpoints: ActivityTrackpoint[] = Array.from(
+      { length: 1801 },
+      (_, i) => ({ timeOffset: i, distance: i * 4, watts: 200 })
+    );
+    const withTrackpoints = createActivity({ trackpoints });
+
+    expect(formatStatValue(withTrackpoints, "best1k")).toBe("4m 10s");
+    expect(formatStatValue(withTrackpoints, "best5k", { clock: true })).toBe(
+      "20:50"
+    );
+    expect(formatStatValue(withTrackpoints, "bestPower20m")).toBe("200 W");
+    expect(formatStatValue(withTrackpoints, "best10k")).toBeNull();
+  });
+});
+
+describe("stat selection", () => {
+  const template = {
+    stats: {
+      keys: ["distance", "calories", "time", "elevation"],
+      defaults: ["distance", "calories", "time"],
+      labels: { distance: "DISTANCE" },
+      max: 3,
+      fillToMax: true,
+    },
+  } as unknown as PosterTemplate;
+
+  it("offers only stats the activity has data for", () => {
+    const stats = getAvailableStats(template, createActivity());
+
+    expect(stats.map((stat) => stat.key)).toEqual([
+      "distance",
+      "time",
+      "elevation",
+    ]);
+    expect(stats[0]).toMatchObject({ label: "DISTANCE", value: "10.3 km" });
+    expect(stats[1].label).toBe("TIME");
+  });
+
+  it("replaces stats the activity lacks up to the template's max", () => {
+    expect(
+      reconcileStats(template, createActivity(), ["calories", "time"])
+    ).toEqual(["time", "distance", "elevation"]);
+  });
+});
@@ -0,0 +1,812 @@
+/**
+ * Poster templates
+ * Declarative description of a static activity poster: canvas, palette,
+ * fonts, selectable stats, user options and the layers the renderer draws
+ */
+
+import type { StravaActivity } from "@/types/strava";
+import type { TemplateId } from "@/lib/analytics";
+import {
+  getBestEfforts,
+  type AverageEffort,
+  type EffortDistance,
+} from "@/lib/bestEfforts";
+
+export type Bilingual = { en: string; id: string };
+
+export type StatKey =
+  | "distance"
+  | "pace"
+  | "time"
+  | "elapsed"
+  | "speed"
+  | "elevation"
+  | "date"
+  | "calories"
+  | "cadence"
+  | "power"
+  | "temperature"
+  | "heartrate"
+  // Best efforts found in the trackpoints
+  | "best400m"
+  | "best1k"
+  | "best1mi"
+  | "best5k"
+  | "best10k"
+  | "bestHalf"
+  | "bestPower1m"
+  | "bestPower5m"
+  | "bestPower20m"
+  | "bestHeartrate20m";
+
+export type TemplateIconName =
+  | "MapPin"
+  | "Zap"
+  | "Clock"
+  | "Timer"
+  | "Gauge"
+  | "Mountain"
+  | "Calendar"
+  | "Heart"
+  | "Thermometer";
+
+/**
+ * How a stat value is printed, e.g. { decimals: 2, unit: " km" } -> "10.25 km"
+ * Integers are rounded when decimals is omitted; clock prints times as h:mm / m:ss
+ */
+export interface StatFormat {
+  decimals?: number;
+  unit?: string;
+  clock?: boolean;
+}
+
+/**
+ * Every field must match; a list of conditions matches when any of them does
+ */
+export interface TemplateCondition {
+  option?: string;
+  equals?: string | boolean; // defaults to true
+  minStats?: number;
+  maxStats?: number;
+  hasRoute?: boolean;
+}
+
+export type TemplateWhen = TemplateCondition | TemplateCondition[];
+
+export interface TemplateVariant<T> {
+  when: TemplateWhen;
+  set: Partial<T>;
+}
+
+/**
+ * Fonts with a url are loaded through FontFace, the rest are expected to be
+ * declared in index.css and are only warmed up before rendering
+ */
+export interface TemplateFont {
+  family: string;
+  url?: string;
+  weights?: string[];
+}
+
+export interface TemplateTextStyle {
+  fontFamily: string;
+  fontSize: number;
+  fontStyle?: string;
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  width?: number; // wrap/align box; without it x is the anchor for align
+  align?: "left" | "center" | "right";
+}
+
+export interface TemplateShadow {
+  color: string;
+  blur: number;
+  offsetX?: number;
+  offsetY?: number;
+}
+
+export interface TemplateMarker {
+  radius: number;
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+}
+
+interface TemplateLayerBase<T> {
+  id?: string;
+  when?: TemplateWhen;
+  variants?: TemplateVariant<T>[];
+}
+
+export interface RectLayer extends TemplateLayerBase<RectLayer> {
+  type: "rect";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  cornerRadius?: number;
+  shadow?: TemplateShadow;
+}
+
+export interface TextLayer extends TemplateLayerBase<TextLayer> {
+  type: "text";
+  text: string; // "{name}", "{distance}" etc. are replaced with activity fields
+  fallback?: string;
+  maxLength?: number;
+  x: number;
+  y: number;
+  style: TemplateTextStyle;
+}
+
+export interface ImageLayer extends TemplateLayerBase<ImageLayer> {
+  type: "image";
+  src: string; // url, "asset:<name>" or "icon:<name>" tinted with color
+  color?: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  opacity?: number;
+}
+
+export type BasemapStyle = "dark" | "light" | "terrain" | "local";
+
+/**
+ * Map tiles under a route, filling the layer's box. With option set the
+ * style comes from that basemap option, so the user can pick or hide it
+ */
+export interface RouteBasemap {
+  style?: BasemapStyle;
+  option?: string;
+  opacity?: number;
+  cornerRadius?: number;
+  attributionSize?: number; // font size of the required tile credits
+}
+
+export type RouteColorMetric = "speed" | "heartRate" | "grade" | "watts";
+
+/**
+ * Color bar explaining a colored route, low values on the left, placed
+ * from the route layer's top left corner; label writes the metric's range
+ * underneath
+ */
+export interface RouteColorLegend {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  label?: TemplateTextStyle;
+}
+
+/**
+ * Route stroke colored by a trackpoint metric along a ramp of colors, low to
+ * high. With option set the metric comes from that route color option; with
+ * "none", or a metric the activity has no data for, stroke is used
+ */
+export interface RouteColorBy {
+  metric?: RouteColorMetric;
+  option?: string;
+  ramp?: string[]; // defaults to the metric's own ramp
+  legend?: RouteColorLegend;
+}
+
+export interface RouteLayer extends TemplateLayerBase<RouteLayer> {
+  type: "route";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  padding?: number; // fraction of the route bounds, defaults to 0.1
+  scale?: number; // shrink the fitted route inside its box
+  alignX?: "start" | "center" | "end";
+  alignY?: "start" | "center" | "end";
+  offsetX?: number;
+  offsetY?: number;
+  stroke: string;
+  strokeWidth: number;
+  shadow?: TemplateShadow;
+  startMarker?: TemplateMarker;
+  endMarker?: TemplateMarker;
+  basemap?: RouteBasemap;
+  colorBy?: RouteColorBy;
+}
+
+export interface StarLayer extends TemplateLayerBase<StarLayer> {
+  type: "star";
+  x: number;
+  y: number;
+  radius: number;
+  stroke: string;
+  strokeWidth: number;
+}
+
+export interface StatTextStyle extends TemplateTextStyle {
+  offsetY?: number;
+}
+
+/**
+ * Stats laid out in a grid: column i is placed at x + i * columnWidth
+ * (its centre when align is "center"); "auto" columns share width equally
+ */
+export interface StatsGridLayer extends TemplateLayerBase<StatsGridLayer> {
+  type: "stats";
+  layout: "grid";
+  x: number;
+  y: number;
+  width?: number;
+  columns: number | "auto";
+  columnWidth?: number;
+  rowHeight: number;
+  align?: "left" | "center";
+  label: StatTextStyle;
+  value: StatTextStyle;
+  icon?: { size: number; color: string; offsetX?: number; offsetY?: number };
+}
+
+/**
+ * Label capsules followed by their value, balanced over rows and stretched
+ * to fill width; y is the centre line of the first row
+ */
+export interface StatsCapsuleLayer
+  extends TemplateLayerBase<StatsCapsuleLayer> {
+  type: "stats";
+  layout: "capsules";
+  x: number;
+  y: number;
+  width: number;
+  rows: number;
+  rowHeight: number;
+  paddingX: number;
+  paddingY: number;
+  gap: number; // between capsule and value
+  itemGap: number;
+  capsule: { stroke: string; strokeWidth: number };
+  label: TemplateTextStyle;
+  value: TemplateTextStyle;
+}
+
+export type StatsLayer = StatsGridLayer | StatsCapsuleLayer;
+
+/**
+ * Activity data plotted along the distance, filling the layer's box. Charts
+ * read the activity's trackpoints (pace also its laps) and are left out when
+ * the activity has none
+ */
+interface ChartLayerBase<T> extends TemplateLayerBase<T> {
+  type: "chart";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Filled elevation profile; gradeColors paint each stretch by its grade, a
+ * stop applying from its minGrade (percent) upwards
+ */
+export interface ElevationChartLayer
+  extends ChartLayerBase<ElevationChartLayer> {
+  chart: "elevation";
+  fill: string;
+  stroke?: string;
+  strokeWidth?: number;
+  gradeColors?: { minGrade: number; color: string }[];
+}
+
+/**
+ * Ribbon of the heart rate zone over the distance. Without zoneColors the
+ * zones are shades of fill, Z5 fully opaque
+ */
+export interface HeartRateChartLayer
+  extends ChartLayerBase<HeartRateChartLayer> {
+  chart: "heartrate";
+  fill: string;
+  zoneColors?: string[]; // Z1 to Z5
+  maxHeartRate?: number; // zones are fractions of it, defaults to 190
+  cornerRadius?: number;
+}
+
+/**
+ * A bar per split, as wide as its distance and as tall as its speed; label
+ * writes the pace under each bar
+ */
+export interface PaceChartLayer extends ChartLayerBase<PaceChartLayer> {
+  chart: "pace";
+  fill: string;
+  highlight?: string; // fastest split
+  gap: number;
+  splitDistance?: number; // meters, split by when there are no laps (1 km)
+  cornerRadius?: number;
+  label?: TemplateTextStyle;
+}
+
+export type ChartLayer =
+  | ElevationChartLayer
+  | HeartRateChartLayer
+  | PaceChartLayer;
+
+export type TemplateLayer =
+  | RectLayer
+  | TextLayer
+  | ImageLayer
+  | RouteLayer
+  | StarLayer
+  | StatsLayer
+  | ChartLayer;
+
+export interface TemplateCanvas {
+  width: number;
+  height: number;
+  pixelRatio: number;
+  background?: string; // transparent when omitted
+  offsetY?: number; // shifts every layer down, e.g. to make room above
+  // Near-invisible pixels that keep Instagram Stories from filling a white background
+  transparencyAnchors?: boolean;
+  transparencySpacers?: {
+    count: number;
+    top: number;
+    bottomInset: number;
+    stroke: string;
+    strokeWidth: number;
+  };
+  variants?: TemplateVariant<
+    Pick<TemplateCanvas, "width" | "height" | "offsetY">
+  >[];
+}
+
+export interface TemplateToggleOption {
+  id: string;
+  type: "toggle";
+  heading?: Bilingual;
+  label: Bilingual;
+  default: boolean;
+  requiresRoute?: boolean;
+}
+
+export interface TemplateChoiceOption {
+  id: string;
+  type: "choice";
+  heading?: Bilingual;
+  default: string;
+  choices: { value: string; label: Bilingual }[];
+}
+
+/**
+ * Choice between the basemaps available in this build, or "none"
+ */
+export interface TemplateBasemapOption {
+  id: string;
+  type: "basemap";
+  heading?: Bilingual;
+  default: BasemapStyle | "none";
+}
+
+/**
+ * Choice between the route color metrics, or "none"
+ */
+export interface TemplateRouteColorOption {
+  id: string;
+  type: "routeColor";
+  heading?: Bilingual;
+  default: RouteColorMetric | "none";
+}
+
+export type TemplateOption =
+  | TemplateToggleOption
+  | TemplateChoiceOption
+  | TemplateBasemapOption
+  | TemplateRouteColorOption;
+
+export type TemplateOptionValues = Record<string, string | boolean>;
+
+export interface TemplateStats {
+  keys: StatKey[];
+  defaults: StatKey[];
+  max: number;
+  fillToMax?: boolean; // top the selection back up when switching activities
+  labels: Partial<Record<StatKey, string>>;
+  shortLabels?: Partial<Record<StatKey, string>>;
+  formats?: Partial<Record<StatKey, StatFormat>>;
+  icons?: Partial<Record<StatKey, TemplateIconName>>;
+}
+
+export interface TemplateUi {
+  emoji: string;
+  emojiClassName?: string;
+  buttonClassName: string;
+  spinnerClassName: string;
+  previewClassName: string;
+  statsHint?: Bilingual;
+}
+
+export interface PosterTemplate {
+  id: string; // also the /visualization/<id> route
+  analyticsId?: TemplateId;
+  custom?: boolean; // saved from the template designer
+  title: Bilingual;
+  description: Bilingual;
+  icon: string; // sidebar icon
+  filename: string;
+  canvas: TemplateCanvas;
+  fonts?: TemplateFont[];
+  palette: Record<string, string>;
+  paletteVariants?: { when: TemplateWhen; colors: Record<string, string> }[];
+  options?: TemplateOption[];
+  stats: TemplateStats;
+  layers: TemplateLayer[];
+  ui: TemplateUi;
+}
+
+export interface TemplateContext {
+  options: TemplateOptionValues;
+  statsCount: number;
+  hasRoute: boolean;
+}
+
+export interface ResolvedStat {
+  key: StatKey;
+  label: string;
+  shortLabel: string;
+  value: string;
+  icon?: TemplateIconName;
+}
+
+const DEFAULT_STAT_FORMATS: Record<StatKey, StatFormat> = {
+  distance: { decimals: 1, unit: " km" },
+  pace: { unit: "/km" },
+  time: {},
+  elapsed: {},
+  speed: { decimals: 1, unit: " km/h" },
+  elevation: { decimals: 0, unit: " m" },
+  date: {},
+  calories: { unit: " kcal" },
+  cadence: { unit: " spm" },
+  power: { unit: " W" },
+  temperature: { unit: "°C" },
+  heartrate: { unit: " BPM" },
+  best400m: {},
+  best1k: {},
+  best1mi: {},
+  best5k: {},
+  best10k: {},
+  bestHalf: {},
+  bestPower1m: { unit: " W" },
+  bestPower5m: { unit: " W" },
+  bestPower20m: { unit: " W" },
+  bestHeartrate20m: { unit: " BPM" },
+};
+
+/**
+ * Stats computed from trackpoints, which Strava activities only have once
+ * their streams are loaded
+ */
+export const BEST_EFFORT_STATS: StatKey[] = [
+  "best400m",
+  "best1k",
+  "best1mi",
+  "best5k",
+  "best10k",
+  "bestHalf",
+  "bestPower1m",
+  "bestPower5m",
+  "bestPower20m",
+  "bestHeartrate20m",
+];
+
+const formatNumber = (value: number, format: StatFormat) =>
+  `${
+    format.decimals === undefined
+      ? Math.round(value)
+      : value.toFixed(format.decimals)
+  }${format.unit ?? ""}`;
+
+const formatDuration = (duration: number, clock?: boolean) => {
+  // Rounded first, fractional seconds would print as "1m 5.4s" or "0:59.6"
+  const seconds = Math.round(duration);
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secondsTime = seconds % 60;
+  if (clock) {
+    if (hours > 0) return `${hours}:${minutes.toString().padStart(2, "0")}`;
+    return `${minutes}:${secondsTime.toString().padStart(2, "0")}`;
+  }
+  if (hours > 0) return `${hours}h ${minutes.toString().padStart(2, "0")}m`;
+  return `${minutes}m ${secondsTime.toString().padStart(2, "0")}s`;
+};
+
+const formatPace = (activity: StravaActivity, format: StatFormat) => {
+  // Prefer Strava's average_speed (m/s), fall back to distance / moving time
+  const paceMinPerKm =
+    activity.average_speed && activity.average_speed > 0
+      ? 1000 / (activity.average_speed * 60)
+      : activity.moving_time / 60 / (activity.distance / 1000);
+  const paceMin = Math.floor(paceMinPerKm);
+  const paceSec = Math.round((paceMinPerKm - paceMin) * 60);
+  return `${paceMin}:${paceSec.toString().padStart(2, "0")}${
+    format.unit ?? ""
+  }`;
+};
+
+const formatDistanceEffort = (
+  activity: StravaActivity,
+  distance: EffortDistance,
+  format: StatFormat
+) => {
+  const effort = getBestEfforts(activity).distances[distance];
+  return effort ? formatDuration(effort.time, format.clock) : null;
+};
+
+const formatAverageEffort = (
+  effort: AverageEffort | undefined,
+  format: StatFormat
+) => (effort ? formatNumber(effort.average, format) : null);
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+/**
+ * Format a stat for an activity, or null when the activity has no data for it
+ */
+export function formatStatValue(
+  activity: StravaActivity,
+  key: StatKey,
+  overrides?: StatFormat
+): string | null {
+  const format = { ...DEFAULT_STAT_FORMATS[key], ...overrides };
+  switch (key) {
+    case "distance":
+      return formatNumber(activity.distance / 1000, format);
+    case "pace":
+      return formatPace(activity, format);
+    case "time":
+      return formatDuration(activity.moving_time, format.clock);
+    case "elapsed":
+      return formatDuration(activity.elapsed_time, format.clock);
+    case "speed":
+      return formatNumber(
+        activity.distance / 1000 / (activity.moving_time / 3600),
+        format
+      );
+    case "elevation":
+      return formatNumber(activity.total_elevation_gain, format);
+    case "date":
+      return formatDate(activity.start_date);
+    case "calories":
+      return activity.calories ? formatNumber(activity.calories, format) : null;
+    case "cadence":
+      // Strava reports running cadence per leg
+      return activity.average_cadence
+        ? formatNumber(activity.average_cadence * 2, format)
+        : null;
+    case "power":
+      return activity.average_watts
+        ? formatNumber(activity.average_watts, format)
+        : null;
+    case "temperature":
+      return activity.average_temp
+        ? formatNumber(activity.average_temp, format)
+        : null;
+    case "heartrate":
+      return activity.has_heartrate && activity.average_heartrate
+        ? formatNumber(activity.average_heartrate, format)
+        : null;
+    case "best400m":
+      return formatDistanceEffort(activity, "400m", format);
+    case "best1k":
+      return formatDistanceEffort(activity, "1k", format);
+    case "best1mi":
+      return formatDistanceEffort(activity, "1mi", format);
+    case "best5k":
+      return formatDistanceEffort(activity, "5k", format);
+    case "best10k":
+      return formatDistanceEffort(activity, "10k", format);
+    case "bestHalf":
+      return formatDistanceEffort(activity, "half", format);
+    case "bestPower1m":
+      return formatAverageEffort(getBestEfforts(activity).power[1], format);
+    case "bestPower5m":
+      return formatAverageEffort(getBestEfforts(activity).power[5], format);
+    case "bestPower20m":
+      return formatAverageEffort(getBestEfforts(activity).power[20], format);
+    case "bestHeartrate20m":
+      return formatAverageEffort(
+        getBestEfforts(activity).heartRate[20],
+        format
+      );
+  }
+}
+
+/**
+ * Stats the template offers that this activity has data for, in template order
+ */
+export function getAvailableStats(
+  template: PosterTemplate,
+  activity: StravaActivity
+): ResolvedStat[] {
+  const { stats } = template;
+  return stats.keys.flatMap((key) => {
+    const value = formatStatValue(activity, key, stats.formats?.[key]);
+    if (value === null) return [];
+    const label = stats.labels[key] ?? key.toUpperCase();
+    return [
+      {
+        key,
+        label,
+        shortLabel: stats.shortLabels?.[key] ?? label,
+        value,
+        icon: stats.icons?.[key],
+      },
+    ];
+  });
+}
+
+/**
+ * Default selection for a freshly opened activity
+ */
+export function getDefaultStats(
+  template: PosterTemplate,
+  activity: StravaActivity
+): StatKey[] {
+  const available = getAvailableStats(template, activity).map((s) => s.key);
+  return template.stats.defaults
+    .filter((key) => available.includes(key))
+    .slice(0, template.stats.max);
+}
+
+/**
+ * Drop stats the new activity lacks, topping up to max when the template asks
+ */
+export function reconcileStats(
+  template: PosterTemplate,
+  activity: StravaActivity,
+  selected: StatKey[]
+): StatKey[] {
+  const available = getAvailableStats(template, activity).map((s) => s.key);
+  const valid = selected.filter((key) => available.includes(key));
+  if (!template.stats.fillToMax || valid.length >= template.stats.max) {
+    return valid;
+  }
+  const remaining = available.filter((key) => !valid.includes(key));
+  return [...valid, ...remaining.slice(0, template.stats.max - valid.length)];
+}
+
+export function getDefaultOptions(
+  template: PosterTemplate
+): TemplateOptionValues {
+  return Object.fromEntries(
+    (template.options ?? []).map((option) => [option.id, option.default])
+  );
+}
+
+export function hasActivityRoute(activity: StravaActivity): boolean {
+  return Boolean(activity.map?.polyline || activity.map?.summary_polyline);
+}
+
+/**
+ * Whether the template needs trackpoint data: charts, colored routes and
+ * best-effort stats
+ */
+export function usesTrackpoints(template: PosterTemplate): boolean {
+  return (
+    template.layers.some(
+      (layer) =>
+        layer.type === "chart" || (layer.type === "route" && layer.colorBy)
+    ) || template.stats.keys.some((key) => BEST_EFFORT_STATS.includes(key))
+  );
+}
+
+function matchesCondition(
+  condition: TemplateCondition,
+  context: TemplateContext
+): boolean {
+  if (condition.option !== undefined) {
+    const expected = condition.equals ?? true;
+    if ((context.options[condition.option] ?? false) !== expected) {
+      return false;
+    }
+  }
+  if (
+    condition.minStats !== undefined &&
+    context.statsCount < condition.minStats
+  ) {
+    return false;
+  }
+  if (
+    condition.maxStats !== undefined &&
+    context.statsCount > condition.maxStats
+  ) {
+    return false;
+  }
+  if (
+    condition.hasRoute !== undefined &&
+    context.hasRoute !== condition.hasRoute
+  ) {
+    return false;
+  }
+  return true;
+}
+
+export function matchesWhen(
+  when: TemplateWhen | undefined,
+  context: TemplateContext
+): boolean {
+  if (!when) return true;
+  const conditions = Array.isArray(when) ? when : [when];
+  return conditions.some((condition) => matchesCondition(condition, context));
+}
+
+/**
+ * Apply every matching variant on top of the base object, in order
+ */
+export function applyVariants<T extends object>(
+  base: T,
+  variants: TemplateVariant<T>[] | undefined,
+  context: TemplateContext
+): T {
+  return (variants ?? []).reduce<T>(
+    (resolved, variant) =>
+      matchesWhen(variant.when, context)
+        ? { ...resolved, ...variant.set }
+        : resolved,
+    base
+  );
+}
+
+export function resolvePalette(
+  template: PosterTemplate,
+  context: TemplateContext
+): Record<string, string> {
+  return (template.paletteVariants ?? []).reduce(
+    (palette, variant) =>
+      matchesWhen(variant.when, context)
+        ? { ...palette, ...variant.colors }
+        : palette,
+    template.palette
+  );
+}
+
+/**
+ * "$name" refers to a palette entry, anything else is a literal CSS color
+ */
+export function resolveColor(
+  color: string,
+  palette: Record<string, string>
+): string {
+  return color.startsWith("$") ? palette[color.slice(1)] ?? color : color;
+}
+
+/**
+ * Replace {field} bindings with activity fields or formatted stats
+ */
+export function resolveText(
+  template: PosterTemplate,
+  layer: Pick<TextLayer, "text" | "fallback" | "maxLength">,
+  activity: StravaActivity
+): string {
+  const text = layer.text
+    .replace(/\{(\w+)\}/g, (_, field: string) => {
+      if (field === "name") return activity.name ?? "";
+      if (field === "type") return activity.sport_type || activity.type || "";
+      if (field in DEFAULT_STAT_FORMATS) {
+        const key = field as StatKey;
+        return (
+          formatStatValue(activity, key, template.stats.formats?.[key]) ?? ""
+        );
+      }
+      return "";
+    })
+    .trim();
+  const resolved = text.length > 0 ? text : layer.fallback ?? "";
+  if (layer.maxLength && resolved.length > layer.maxLength) {
+    return resolved.substring(0, layer.maxLength) + "...";
+  }
+  return resolved;
+}
@@ -0,0 +1,230 @@
+/**
+ * Poster video export
+ * Steps an animated poster scene frame by frame, so the route draws itself
+ * and the stats count up, then encodes the frames as MP4 with ffmpeg.wasm
+ * or as WebM with the browser's MediaRecorder
+ */
+
+import type { StravaActivity } from "@/types/strava";
+import type { Bilingual, PosterTemplate } from "@/lib/posterTemplate";
+import {
+  createPosterScene,
+  type PosterRenderInput,
+} from "@/lib/posterRenderer";
+import {
+  canvasToBytes,
+  loadFFmpeg,
+  readFFmpegFile,
+  runFFmpeg,
+} from "@/lib/ffmpeg";
+
+export type PosterVideoFormat = "mp4" | "webm";
+
+export type PosterVideoSize = "story" | "square";
+
+export const POSTER_VIDEO_SIZES: Record<
+  PosterVideoSize,
+  { width: number; height: number; label: Bilingual }
+> = {
+  story: {
+    width: 1080,
+    height: 1920,
+    label: { en: "Story (1080×1920)", id: "Story (1080×1920)" },
+  },
+  square: {
+    width: 1080,
+    height: 1080,
+    label: { en: "Square (1080×1080)", id: "Persegi (1080×1080)" },
+  },
+};
+
+export const POSTER_VIDEO_MIME_TYPES: Record<PosterVideoFormat, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+const FPS = 30;
+const INTRO_SECONDS = 0.5;
+const DRAW_SECONDS = 5;
+const OUTRO_SECONDS = 2;
+const FRAME_MARGIN = 0.06; // of the frame width, around the poster
+
+export interface PosterVideoInput extends PosterRenderInput {
+  size: PosterVideoSize;
+  format: PosterVideoFormat;
+  background: string; // posters are often transparent, videos can't be
+  onProgress?: (progress: number) => void; // 0-1
+  signal?: AbortSignal;
+}
+
+type DrawFrame = (index: number) => void;
+
+const easeInOut = (t: number) =>
+  t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2;
+
+/**
+ * Write every frame to ffmpeg's filesystem, then encode them in one pass.
+ * Frames are stepped deterministically, so slow devices only take longer
+ */
+const encodeMp4 = async (
+  frame: HTMLCanvasElement,
+  frameCount: number,
+  drawFrame: DrawFrame,
+  input: PosterVideoInput
+): Promise<Blob> => {
+  const ffmpeg = await loadFFmpeg();
+  const prefix = `poster-${Date.now().toString(36)}`;
+  const output = `${prefix}.mp4`;
+  const frameNames: string[] = [];
+
+  const handleProgress = ({ progress }: { progress: number }) =>
+    input.onProgress?.(0.7 + 0.3 * Math.min(1, Math.max(0, progress)));
+
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      input.signal?.throwIfAborted();
+      drawFrame(index);
+      const name = `${prefix}-${String(index).padStart(5, "0")}.jpg`;
+      await ffmpeg.writeFile(name, await canvasToBytes(frame));
+      frameNames.push(name);
+      input.onProgress?.(((index + 1) / frameCount) * 0.7);
+    }
+
+    ffmpeg.on("progress", handleProgress);
+    await runFFmpeg(
+      ffmpeg,
+      [
+        "-framerate",
+        String(FPS),
+        "-i",
+        `${prefix}-%05d.jpg`,
+        "-c:v",
+        "libx264",
+        "-preset",
+        "veryfast",
+        "-pix_fmt",
+        "yuv420p",
+        "-movflags",
+        "+faststart",
+        output,
+      ],
+      input.signal
+    );
+    return await readFFmpegFile(ffmpeg, output, POSTER_VIDEO_MIME_TYPES.mp4);
+  } finally {
+    ffmpeg.off("progress", handleProgress);
+    await Promise.all(
+      [...frameNames, output].map((name) =>
+        ffmpeg.deleteFile(name).catch(() => undefined)
+      )
+    );
+  }
+};
+
+/**
+ * Record the canvas with MediaRecorder. It timestamps frames by wall clock,
+ * so frames are paced at the target rate instead of drawn as fast as possible
+ */
+const recordWebm = async (
+  frame: HTMLCanvasElement,
+  frameCount: number,
+  drawFrame: DrawFrame,
+  input: PosterVideoInput
+): Promise<Blob> => {
+  const mimeType =
+    typeof MediaRecorder !== "undefined"
+      ? ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"].find(
+          (type) => MediaRecorder.isTypeSupported(type)
+        )
+      : undefined;
+  if (!mimeType) {
+    throw new Error("WebM recording is not supported in this browser");
+  }
+
+  drawFrame(0);
+  const stream = frame.captureStream(0);
+  const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+  const recorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: 8_000_000,
+  });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>((resolve) => {
+    recorder.onstop = () => resolve();
+  });
+
+  recorder.start();
+  try {
+    for (let index = 0; index < frameCount; index++) {
+      input.signal?.throwIfAborted();
+      const startedAt = performance.now();
+      drawFrame(index);
+      track.requestFrame();
+      input.onProgress?.((index + 1) / frameCount);
+      const elapsed = performance.now() - startedAt;
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.max(0, 1000 / FPS - elapsed))
+      );
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach((t) => t.stop());
+  }
+  await stopped;
+  return new Blob(chunks, { type: POSTER_VIDEO_MIME_TYPES.webm });
+};
+
+/**
+ * Render a template as a short video: a brief pause, the route drawing
+ * itself along the activity's timing, then a hold on the finished poster
+ */
+export async function exportPosterVideo(
+  template: PosterTemplate,
+  activity: StravaActivity,
+  input: PosterVideoInput
+): Promise<Blob> {
+  const { width, height } = POSTER_VIDEO_SIZES[input.size];
+  const scene = await createPosterScene(template, activity, input);
+  try {
+    const frame = document.createElement("canvas");
+    frame.width = width;
+    frame.height = height;
+    const context = frame.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context is not available");
+
+    const margin = width * FRAME_MARGIN;
+    const scale = Math.min(
+      (width - margin * 2) / scene.width,
+      (height - margin * 2) / scene.height
+    );
+    const frameCount = Math.round(
+      (INTRO_SECONDS + DRAW_SECONDS + OUTRO_SECONDS) * FPS
+    );
+
+    const drawFrame: DrawFrame = (index) => {
+      const seconds = index / FPS;
+      const t = Math.min(
+        1,
+        Math.max(0, (seconds - INTRO_SECONDS) / DRAW_SECONDS)
+      );
+      scene.setProgress(easeInOut(t));
+      const poster = scene.toCanvas(scale);
+      context.fillStyle = input.background;
+      context.fillRect(0, 0, width, height);
+      context.drawImage(
+        poster,
+        Math.round((width - poster.width) / 2),
+        Math.round((height - poster.height) / 2)
+      );
+    };
+
+    return input.format === "mp4"
+      ? await encodeMp4(frame, frameCount, drawFrame, input)
+      : await recordWebm(frame, frameCount, drawFrame, input);
+  } finally {
+    scene.destroy();
+  }
+}
@@ -49,6 +49,10 @@ export const queryClient = new QueryClient({
 export const CACHE_KEYS = {
   activities: "strava_activities",
   activityDetails: (id: number) => `strava_activity_${id}`,
+  activityStreams: (id: number) => `strava_activity_streams_${id}`,
+  activityChanges: "strava_changes",
+  activityChangesCursor: (athleteId: number) =>
+    `strava_changes_cursor_${athleteId}`,
 } as const;
 
 /**
@@ -0,0 +1,327 @@
+/**
+ * Route coloring
+ * Colors a route by a trackpoint metric along a ramp of colors, for the
+ * poster route layers and the flyover's path. Values are smoothed a little
+ * and the range leaves out the extremes, so a single GPS spike doesn't wash
+ * out the rest of the route
+ */
+
+import type { ActivityTrackpoint, StravaActivity } from "@/types/strava";
+import type { Bilingual, RouteColorMetric } from "@/lib/posterTemplate";
+import { getTrackpointDistances, getTrackpointTimes } from "@/lib/trackpoints";
+import { haversineDistance } from "@/lib/geo";
+
+export interface RouteMetricInfo {
+  label: Bilingual;
+  ramp: string[];
+}
+
+/**
+ * Stretch of consecutive points drawn in one color; it shares its last
+ * point with the next run so the line stays connected
+ */
+export interface RouteColorRun {
+  start: number;
+  end: number;
+  color: string;
+}
+
+export interface ColoredRoute {
+  runs: RouteColorRun[];
+  min: number;
+  max: number;
+}
+
+export const ROUTE_COLOR_METRICS: Record<RouteColorMetric, RouteMetricInfo> = {
+  speed: {
+    label: { en: "Pace", id: "Pace" },
+    ramp: ["#2563EB", "#22C55E", "#FACC15", "#EF4444"],
+  },
+  heartRate: {
+    label: { en: "Heart rate", id: "Detak jantung" },
+    ramp: ["#60A5FA", "#FACC15", "#F97316", "#DC2626"],
+  },
+  grade: {
+    // Descents blue, flat grey, climbs red
+    label: { en: "Grade", id: "Kemiringan" },
+    ramp: ["#2563EB", "#D1D5DB", "#DC2626"],
+  },
+  watts: {
+    label: { en: "Power", id: "Daya" },
+    ramp: ["#A78BFA", "#EC4899", "#F97316", "#FDE047"],
+  },
+};
+
+const FOOT_TYPES = ["Run", "TrailRun", "VirtualRun", "Walk", "Hike"];
+
+// Distance speed and grade are measured over, GPS jitters below it
+const DERIVATIVE_DISTANCE = 30;
+// Points on either side averaged into each value
+const SMOOTHING_RADIUS = 3;
+// Colors along the ramp; fewer means fewer line pieces to draw
+const COLOR_STEPS = 32;
+const MAX_GRADIENT_STOPS = 200;
+
+/**
+ * Choices for a route color option, "none" first
+ */
+export function getRouteColorChoices(): { value: string; label: Bilingual }[] {
+  return [
+    { value: "none", label: { en: "Single color", id: "Satu warna" } },
+    ...(Object.keys(ROUTE_COLOR_METRICS) as RouteColorMetric[]).map(
+      (metric) => ({ value: metric, label: ROUTE_COLOR_METRICS[metric].label })
+    ),
+  ];
+}
+
+export function isRouteColorMetric(value: unknown): value is RouteColorMetric {
+  return Object.keys(ROUTE_COLOR_METRICS).includes(value as string);
+}
+
+/**
+ * Change of one series per meter around each point, over at least
+ * DERIVATIVE_DISTANCE so neighbouring points don't divide by nothing
+ */
+const perMeter = (distances: number[], series: number[]): (number | null)[] =>
+  distances.map((_, i) => {
+    let lo = i;
+    let hi = i;
+    while (distances[hi] - distances[lo] < DERIVATIVE_DISTANCE) {
+      if (lo > 0) lo--;
+      if (hi < distances.length - 1) hi++;
+      if (lo === 0 && hi === distances.length - 1) break;
+    }
+    const run = distances[hi] - distances[lo];
+    const rise = series[hi] - series[lo];
+    return run > 0 && Number.isFinite(rise) ? rise / run : null;
+  });
+
+const smooth = (values: (number | null)[]): (number | null)[] =>
+  values.map((value, i) => {
+    if (value === null) return null;
+    let sum = 0;
+    let count = 0;
+    for (let j = i - SMOOTHING_RADIUS; j <= i + SMOOTHING_RADIUS; j++) {
+      const neighbour = values[j];
+      if (neighbour !== null && neighbour !== undefined) {
+        sum += neighbour;
+        count++;
+      }
+    }
+    return sum / count;
+  });
+
+/**
+ * The metric at each trackpoint, null where the activity didn't record it.
+ * Speed (m/s) and grade (%) are derived from distance, time and altitude
+ * when the trackpoints don't carry them
+ */
+export function getRouteMetricValues(
+  trackpoints: ActivityTrackpoint[],
+  metric: RouteColorMetric
+): (number | null)[] {
+  switch (metric) {
+    case "heartRate":
+      return smooth(trackpoints.map((tp) => tp.heartRate || null));
+    case "watts":
+      return smooth(trackpoints.map((tp) => tp.watts ?? null));
+    case "speed": {
+      if (trackpoints.every((tp) => tp.speed !== undefined)) {
+        return smooth(trackpoints.map((tp) => tp.speed!));
+      }
+      const distances = getTrackpointDistances(trackpoints);
+      const secondsPerMeter = perMeter(
+        distances,
+        getTrackpointTimes(trackpoints)
+      );
+      return smooth(
+        secondsPerMeter.map((value) => (value && value > 0 ? 1 / value : null))
+      );
+    }
+    case "grade": {
+      if (trackpoints.every((tp) => tp.grade !== undefined)) {
+        return smooth(trackpoints.map((tp) => tp.grade!));
+      }
+      const distances = getTrackpointDistances(trackpoints);
+      const altitudes = trackpoints.map((tp) => tp.altitude ?? NaN);
+      return smooth(
+        perMeter(distances, altitudes).map((value) =>
+          value === null ? null : value * 100
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Whether enough trackpoints carry the metric to color a route by it
+ */
+export function hasRouteMetric(
+  activity: StravaActivity,
+  metric: RouteColorMetric
+): boolean {
+  const trackpoints = activity.trackpoints ?? [];
+  if (trackpoints.length < 2) return false;
+  const values = getRouteMetricValues(trackpoints, metric);
+  return values.filter((value) => value !== null).length >= values.length / 2;
+}
+
+/**
+ * Range the ramp spans: the 5th to 95th percentile, centred on zero for
+ * grade so flat ground gets the ramp's middle color
+ */
+const getMetricRange = (
+  values: (number | null)[],
+  metric: RouteColorMetric
+): { min: number; max: number } | null => {
+  const sorted = values
+    .filter((value): value is number => value !== null)
+    .sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const percentile = (p: number) =>
+    sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  let min = percentile(0.05);
+  let max = percentile(0.95);
+  if (metric === "grade") {
+    const extent = Math.max(Math.abs(min), Math.abs(max), 1);
+    min = -extent;
+    max = extent;
+  }
+  return max - min > 1e-6 ? { min, max } : { min, max: min + 1 };
+};
+
+const parseHex = (color: string): [number, number, number] | null => {
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)?.[1];
+  if (!hex) return null;
+  const full = hex.length === 3 ? [...hex].map((c) => c + c).join("") : hex;
+  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16)) as [
+    number,
+    number,
+    number
+  ];
+};
+
+/**
+ * Color at t (0-1) along a ramp; colors that aren't hex snap to the
+ * nearest stop instead of blending
+ */
+export function rampColor(ramp: string[], t: number): string {
+  const clamped = Math.min(1, Math.max(0, t));
+  const position = clamped * (ramp.length - 1);
+  const index = Math.min(ramp.length - 2, Math.floor(position));
+  const from = parseHex(ramp[index]);
+  const to = parseHex(ramp[index + 1]);
+  if (!from || !to) return ramp[Math.round(position)];
+  const mix = position - index;
+  const channel = (i: number) =>
+    Math.round(from[i] + (to[i] - from[i]) * mix)
+      .toString(16)
+      .padStart(2, "0");
+  return `#${channel(0)}${channel(1)}${channel(2)}`;
+}
+
+/**
+ * Split a route into runs of one color. Points without a value keep the
+ * color before them
+ */
+export function colorRoute(
+  trackpoints: ActivityTrackpoint[],
+  metric: RouteColorMetric,
+  ramp: string[]
+): ColoredRoute | null {
+  const values = getRouteMetricValues(trackpoints, metric);
+  const range = getMetricRange(values, metric);
+  if (!range || ramp.length < 2) return null;
+
+  const stepOf = (value: number) =>
+    Math.round(
+      Math.min(1, Math.max(0, (value - range.min) / (range.max - range.min))) *
+        (COLOR_STEPS - 1)
+    );
+  const firstValue = values.find((value) => value !== null)!;
+  let step = stepOf(firstValue);
+  const runs: RouteColorRun[] = [];
+  let start = 0;
+  values.forEach((value, i) => {
+    const next = value === null ? step : stepOf(value);
+    if (next === step && i < values.length - 1) return;
+    if (i > start) {
+      runs.push({
+        start,
+        end: i,
+        color: rampColor(ramp, step / (COLOR_STEPS - 1)),
+      });
+    }
+    start = i;
+    step = next;
+  });
+  return { runs, ...range };
+}
+
+/**
+ * Color stops by fraction of the route's length, for a map line gradient
+ */
+export function getRouteGradientStops(
+  trackpoints: ActivityTrackpoint[],
+  metric: RouteColorMetric,
+  ramp: string[]
+): [number, string][] {
+  const colored = colorRoute(trackpoints, metric, ramp);
+  if (!colored) return [];
+
+  // Maps measure line progress on the drawn geometry, not recorded distance
+  const lengths = trackpoints.reduce<number[]>((acc, tp, i) => {
+    const previous = trackpoints[i - 1] ?? tp;
+    acc.push(
+      (acc[i - 1] ?? 0) +
+        haversineDistance(
+          previous.latitude!,
+          previous.longitude!,
+          tp.latitude!,
+          tp.longitude!
+        )
+    );
+    return acc;
+  }, []);
+  const total = lengths[lengths.length - 1];
+  if (!total) return [];
+
+  const stride = Math.ceil(colored.runs.length / MAX_GRADIENT_STOPS);
+  const stops: [number, string][] = [];
+  colored.runs.forEach((run, i) => {
+    if (i % stride !== 0) return;
+    const at = lengths[run.start] / total;
+    // Stops must strictly increase
+    if (stops.length > 0 && at <= stops[stops.length - 1][0]) return;
+    stops.push([at, run.color]);
+  });
+  return stops;
+}
+
+/**
+ * A metric value as the legend prints it; speed reads as pace for foot
+ * activities
+ */
+export function formatRouteMetric(
+  metric: RouteColorMetric,
+  value: number,
+  activity: StravaActivity
+): string {
+  switch (metric) {
+    case "speed": {
+      if (!FOOT_TYPES.includes(activity.sport_type || activity.type)) {
+        return `${(value * 3.6).toFixed(1)} km/h`;
+      }
+      const secondsPerKm = Math.round(1000 / Math.max(value, 0.1));
+      const minutes = Math.floor(secondsPerKm / 60);
+      const seconds = (secondsPerKm % 60).toString().padStart(2, "0");
+      return `${minutes}:${seconds}/km`;
+    }
+    case "heartRate":
+      return `${Math.round(value)} bpm`;
+    case "grade":
+      return `${value > 0 ? "+" : ""}${Math.round(value)}%`;
+    case "watts":
+      return `${Math.round(value)} W`;
+  }
+}
@@ -0,0 +1,309 @@
+/**
+ * 3D Stories projects
+ * Segments, playback and camera settings of a story are kept in IndexedDB
+ * together with the uploaded segment clips, so editing survives a reload
+ */
+
+import type {
+  ActivitySegment,
+  CameraKeyframe,
+  FlyoverCameraSettings,
+  StravaActivity,
+} from "@/types/strava";
+
+export const STORY_PROJECTS_EVENT = "pinggerr-story-projects-changed";
+
+export const DEFAULT_FLYOVER_CAMERA: FlyoverCameraSettings = {
+  zoom: 15,
+  pitch: 60,
+};
+
+// Segments are stored without their File and blob URL, clips live in their
+// own store keyed by project and segment
+export type StoredSegment = Omit<ActivitySegment, "videoFile" | "videoUrl">;
+
+export interface StoryProject {
+  id: string;
+  name: string;
+  activityId: number;
+  activityName: string;
+  segments: StoredSegment[];
+  playbackSpeed: number;
+  camera: FlyoverCameraSettings;
+  keyframes: CameraKeyframe[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+interface StoredClip {
+  id: string; // `${projectId}/${segmentId}`
+  projectId: string;
+  name: string;
+  blob: Blob;
+}
+
+const DB_NAME = "pinggerr_stories";
+const DB_VERSION = 1;
+const PROJECTS_STORE = "projects";
+const CLIPS_STORE = "clips";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Clip files already written for a key, so autosaves don't rewrite videos
+const savedClipFiles = new Map<string, File>();
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(PROJECTS_STORE, {
+          keyPath: "id",
+        }).createIndex("activityId", "activityId");
+        db.createObjectStore(CLIPS_STORE, { keyPath: "id" }).createIndex(
+          "projectId",
+          "projectId"
+        );
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry, e.g. after the user closes a blocking tab
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const notifyChange = () =>
+  window.dispatchEvent(new CustomEvent(STORY_PROJECTS_EVENT));
+
+const clipKey = (projectId: string, segmentId: string) =>
+  `${projectId}/${segmentId}`;
+
+export const toStoredSegment = (segment: ActivitySegment): StoredSegment => ({
+  id: segment.id,
+  name: segment.name,
+  description: segment.description,
+  startIndex: segment.startIndex,
+  endIndex: segment.endIndex,
+  createdAt: segment.createdAt,
+});
+
+export function createStoryProject(
+  activity: StravaActivity,
+  existingCount = 0
+): StoryProject {
+  const now = Date.now();
+  return {
+    id: `story-${now.toString(36)}`,
+    name: `${activity.name} #${existingCount + 1}`,
+    activityId: activity.id,
+    activityName: activity.name,
+    segments: [],
+    playbackSpeed: 1,
+    camera: { ...DEFAULT_FLYOVER_CAMERA },
+    keyframes: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Stories for an activity, most recently edited first
+ */
+export async function listStoryProjects(
+  activityId: number
+): Promise<StoryProject[]> {
+  const db = await openDatabase();
+  const projects = await promisify<StoryProject[]>(
+    db
+      .transaction(PROJECTS_STORE)
+      .objectStore(PROJECTS_STORE)
+      .index("activityId")
+      .getAll(activityId)
+  );
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+/**
+ * Load a story with its segments' clips restored as files and blob URLs
+ * The caller owns the blob URLs and should revoke them when done
+ */
+export async function loadStoryProject(
+  id: string
+): Promise<{ project: StoryProject; segments: ActivitySegment[] } | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, CLIPS_STORE]);
+  const [project, clips] = await Promise.all([
+    promisify<StoryProject | undefined>(
+      transaction.objectStore(PROJECTS_STORE).get(id)
+    ),
+    promisify<StoredClip[]>(
+      transaction.objectStore(CLIPS_STORE).index("projectId").getAll(id)
+    ),
+  ]);
+  if (!project) return null;
+  // Stories saved before camera keyframes existed
+  project.keyframes ??= [];
+
+  const clipsById = new Map(clips.map((clip) => [clip.id, clip]));
+  const segments = project.segments.map((segment): ActivitySegment => {
+    const key = clipKey(project.id, segment.id);
+    const clip = clipsById.get(key);
+    if (!clip) return { ...segment };
+
+    const videoFile = new File([clip.blob], clip.name, {
+      type: clip.blob.type,
+    });
+    savedClipFiles.set(key, videoFile);
+    return {
+      ...segment,
+      videoFile,
+      videoUrl: URL.createObjectURL(videoFile),
+    };
+  });
+
+  return { project, segments };
+}
+
+/**
+ * Save a story's settings and segments. Clips are only written when the
+ * segment's file changed, and clips of removed segments are dropped
+ */
+export async function saveStoryProject(
+  project: StoryProject,
+  segments: ActivitySegment[]
+): Promise<StoryProject> {
+  const db = await openDatabase();
+  const saved: StoryProject = {
+    ...project,
+    segments: segments.map(toStoredSegment),
+    updatedAt: Date.now(),
+  };
+
+  const transaction = db.transaction(
+    [PROJECTS_STORE, CLIPS_STORE],
+    "readwrite"
+  );
+  const done = transactionDone(transaction);
+  const clipStore = transaction.objectStore(CLIPS_STORE);
+
+  transaction.objectStore(PROJECTS_STORE).put(saved);
+
+  const wantedKeys = new Set<string>();
+  const written: [string, File][] = [];
+  for (const segment of segments) {
+    if (!segment.videoFile) continue;
+    const key = clipKey(project.id, segment.id);
+    wantedKeys.add(key);
+    if (savedClipFiles.get(key) === segment.videoFile) continue;
+    const clip: StoredClip = {
+      id: key,
+      projectId: project.id,
+      name: segment.videoFile.name,
+      blob: segment.videoFile,
+    };
+    clipStore.put(clip);
+    written.push([key, segment.videoFile]);
+  }
+
+  const existingKeys = await promisify(
+    clipStore.index("projectId").getAllKeys(project.id)
+  );
+  for (const key of existingKeys) {
+    if (!wantedKeys.has(String(key))) {
+      clipStore.delete(key);
+      savedClipFiles.delete(String(key));
+    }
+  }
+
+  await done;
+  written.forEach(([key, file]) => savedClipFiles.set(key, file));
+  notifyChange();
+  return saved;
+}
+
+/**
+ * Copy a story and its clips under a new id
+ */
+export async function duplicateStoryProject(
+  id: string,
+  name: string
+): Promise<StoryProject | null> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [PROJECTS_STORE, CLIPS_STORE],
+    "readwrite"
+  );
+  const done = transactionDone(transaction);
+  const projectStore = transaction.objectStore(PROJECTS_STORE);
+  const clipStore = transaction.objectStore(CLIPS_STORE);
+
+  const [project, clips] = await Promise.all([
+    promisify<StoryProject | undefined>(projectStore.get(id)),
+    promisify<StoredClip[]>(clipStore.index("projectId").getAll(id)),
+  ]);
+  if (!project) {
+    transaction.abort();
+    await done.catch(() => undefined);
+    return null;
+  }
+
+  const now = Date.now();
+  const copy: StoryProject = {
+    ...project,
+    id: `story-${now.toString(36)}`,
+    name,
+    createdAt: now,
+    updatedAt: now,
+  };
+  projectStore.put(copy);
+  for (const clip of clips) {
+    const segmentId = clip.id.slice(project.id.length + 1);
+    clipStore.put({
+      ...clip,
+      id: clipKey(copy.id, segmentId),
+      projectId: copy.id,
+    });
+  }
+
+  await done;
+  notifyChange();
+  return copy;
+}
+
+export async function deleteStoryProject(id: string): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(
+    [PROJECTS_STORE, CLIPS_STORE],
+    "readwrite"
+  );
+  const done = transactionDone(transaction);
+  const clipStore = transaction.objectStore(CLIPS_STORE);
+
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  const clipKeys = await promisify(clipStore.index("projectId").getAllKeys(id));
+  clipKeys.forEach((key) => {
+    clipStore.delete(key);
+    savedClipFiles.delete(String(key));
+  });
+
+  await done;
+  notifyChange();
+}
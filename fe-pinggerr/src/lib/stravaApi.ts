@@ -9,9 +9,17 @@ import type {
   ActivityLap,
   ActivityTrackpoint,
 } from "@/types/strava";
+import { config } from "@/config/env";
+import {
+  parseStravaBudgetHeaders,
+  publishStravaBudget,
+} from "@/lib/stravaBudget";
+import { withCleanTrackpoints } from "@/lib/gpsCleanup";
 
 export class StravaApi {
   private baseUrl = "https://www.strava.com/api/v3";
+  // Worker proxy that shares the app's rate limit budget across users
+  private proxyUrl = `${config.workerUrl}/strava`;
   private tokens: StravaTokens;
 
   constructor(tokens: StravaTokens) {
@@ -27,19 +35,26 @@ export class StravaApi {
 
   /**
    * Make authenticated request to Strava API
+   * Proxied requests go through the Worker, which reports the shared budget
    */
   private async makeRequest<T>(
     endpoint: string,
-    options?: RequestInit
+    { proxied = false, ...options }: RequestInit & { proxied?: boolean } = {}
   ): Promise<T> {
-    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+    const baseUrl = proxied ? this.proxyUrl : this.baseUrl;
+    const response = await fetch(`${baseUrl}${endpoint}`, {
       ...options,
       headers: {
         Authorization: `Bearer ${this.tokens.access_token}`,
-        ...options?.headers,
+        ...options.headers,
       },
     });
 
+    const budget = parseStravaBudgetHeaders(response.headers);
+    if (budget) {
+      publishStravaBudget(budget);
+    }
+
     if (!response.ok) {
       if (response.status === 401) {
         throw new Error("UNAUTHORIZED"); // Special error for token refresh
@@ -80,7 +95,8 @@ export class StravaApi {
    */
   async getActivityDetails(activityId: number): Promise<StravaActivity> {
     const activity = await this.makeRequest<StravaActivity>(
-      `/activities/${activityId}`
+      `/activities/${activityId}`,
+      { proxied: true }
     );
 
     // Add source field to indicate data is from Strava API
@@ -125,7 +141,8 @@ export class StravaApi {
     }
 
     const stravaLaps = await this.makeRequest<StravaLapResponse[]>(
-      `/activities/${activityId}/laps`
+      `/activities/${activityId}/laps`,
+      { proxied: true }
     );
 
     // Convert Strava lap format to our common ActivityLap format
@@ -181,7 +198,8 @@ export class StravaApi {
     const streams = await this.makeRequest<
       StravaStreamResponse[] | Record<string, StravaStreamResponse>
     >(
-      `/activities/${activityId}/streams?keys=${streamsParam}&key_by_type=true`
+      `/activities/${activityId}/streams?keys=${streamsParam}&key_by_type=true`,
+      { proxied: true }
     );
 
     // Convert Strava streams to our trackpoint format
@@ -279,10 +297,7 @@ export class StravaApi {
       this.getActivityStreams(activityId),
     ]);
 
-    return {
-      ...activity,
-      trackpoints,
-    };
+    return withCleanTrackpoints(activity, trackpoints);
   }
 
   /**
@@ -297,11 +312,7 @@ export class StravaApi {
       this.getActivityStreams(activityId),
     ]);
 
-    return {
-      ...activity,
-      laps,
-      trackpoints,
-    };
+    return withCleanTrackpoints({ ...activity, laps }, trackpoints);
   }
 }
 
@@ -0,0 +1,76 @@
+/**
+ * Shared Strava API budget
+ * The Worker proxy tracks the app-wide Strava quota; this module reads it
+ * from proxy responses and broadcasts updates to the UI
+ */
+
+import { config } from "@/config/env";
+
+export interface StravaBudget {
+  remaining15min: number;
+  remainingDaily: number;
+  limit15min?: number;
+  limitDaily?: number;
+  exhausted: boolean;
+  servedFromCache?: boolean;
+}
+
+// Window event fired whenever a proxied response reports a new budget
+export const STRAVA_BUDGET_EVENT = "strava-budget-update";
+
+/**
+ * Read the budget from proxy response headers
+ * Returns null for responses that didn't come through the proxy
+ */
+export function parseStravaBudgetHeaders(
+  headers: Headers
+): StravaBudget | null {
+  const remaining = headers.get("X-Pinggerr-Budget-Remaining");
+  if (!remaining) return null;
+
+  const [remaining15min, remainingDaily] = remaining
+    .split(",")
+    .map((value) => parseInt(value, 10));
+  const [limit15min, limitDaily] = (headers.get("X-RateLimit-Limit") || "")
+    .split(",")
+    .map((value) => parseInt(value, 10) || undefined);
+
+  return {
+    remaining15min,
+    remainingDaily,
+    limit15min,
+    limitDaily,
+    exhausted: headers.get("X-Pinggerr-Budget-Exhausted") === "true",
+    servedFromCache: headers.get("X-Pinggerr-Cache") === "HIT",
+  };
+}
+
+/**
+ * Broadcast a budget update to listeners (see useStravaBudget)
+ */
+export function publishStravaBudget(budget: StravaBudget) {
+  window.dispatchEvent(
+    new CustomEvent<StravaBudget>(STRAVA_BUDGET_EVENT, { detail: budget })
+  );
+}
+
+/**
+ * Fetch the current shared budget from the Worker
+ */
+export async function fetchStravaBudget(): Promise<StravaBudget> {
+  const response = await fetch(`${config.workerUrl}/strava/budget`);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch Strava API budget");
+  }
+
+  const data = await response.json();
+
+  return {
+    remaining15min: data.remaining_15min,
+    remainingDaily: data.remaining_daily,
+    limit15min: data.limit_15min,
+    limitDaily: data.limit_daily,
+    exhausted: data.exhausted,
+  };
+}
@@ -9,6 +9,21 @@ import type {
   ActivityTrackpoint,
 } from "@/types/strava";
 import { encode } from "@mapbox/polyline";
+import { generateSplits } from "@/lib/activitySplits";
+import { analyzeMovingTime } from "@/lib/movingTime";
+import { cleanupTrackpoints, remapLapIndexes } from "@/lib/gpsCleanup";
+import { getTrackpointTimes } from "@/lib/trackpoints";
+import {
+  getElevationTotals,
+  getRawElevationTotals,
+  getTrackpointAltitudes,
+  summarizeElevation,
+} from "@/lib/elevation";
+import type { ActivityFileProcessingOptions } from "@/lib/activityFile";
+import type {
+  TcxWorkerRequest,
+  TcxWorkerResponse,
+} from "@/workers/tcxParser.worker";
 
 export interface TcxTrackpoint {
   time: string;
@@ -203,13 +218,7 @@ function convertTcxLapsToActivityLaps(tcxLaps: TcxLap[]): ActivityLap[] {
       .filter((tp) => tp.altitude !== undefined)
       .map((tp) => tp.altitude!);
 
-    let lapElevationGain = 0;
-    for (let i = 1; i < altitudes.length; i++) {
-      const gain = altitudes[i] - altitudes[i - 1];
-      if (gain > 0) {
-        lapElevationGain += gain;
-      }
-    }
+    const lapElevationGain = getElevationTotals(altitudes).gain;
 
     // Calculate average watts from trackpoints
     const watts = lap.trackpoints
@@ -256,24 +265,58 @@ export function convertTcxToStravaActivity(
     (sum, lap) => sum + lap.totalTimeSeconds,
     0
   );
-  const totalElevationGain = calculateElevationGain(tcxActivity.laps);
-
-  // Convert lap data to common format
-  const laps = convertTcxLapsToActivityLaps(tcxActivity.laps);
 
-  // Convert trackpoint data to common format
-  const trackpoints = convertTcxTrackpointsToActivityTrackpoints(
+  // Convert trackpoint data to common format, cleaning up GPS spikes and
+  // gaps before stops are flagged
+  const recordedTrackpoints = convertTcxTrackpointsToActivityTrackpoints(
     tcxActivity.laps
   );
+  const {
+    trackpoints: cleanedTrackpoints,
+    indexMap,
+    summary: gpsCleanup,
+  } = cleanupTrackpoints(recordedTrackpoints);
+  const {
+    trackpoints,
+    movingTime: detectedMovingTime,
+    pauses,
+  } = analyzeMovingTime(cleanedTrackpoints);
+
+  // Convert lap data to common format, indexed into the cleaned trackpoints
+  const laps = remapLapIndexes(
+    convertTcxLapsToActivityLaps(tcxActivity.laps),
+    indexMap
+  );
 
-  // Get all trackpoints for polyline generation
+  // Lap totals are timer time; stops the watch didn't pause for come off too
+  const movingTime =
+    detectedMovingTime > 0 && totalTime > 0
+      ? Math.min(detectedMovingTime, totalTime)
+      : detectedMovingTime || totalTime;
+  // Smoothed gain, summing every altitude change overstates climbing. The raw
+  // totals are of the altitudes as recorded, before cleanup resampled them
+  const recordedAltitudes = getTrackpointAltitudes(recordedTrackpoints);
+  const elevation = summarizeElevation(
+    trackpoints,
+    "recorded",
+    recordedAltitudes.length > 0
+      ? getRawElevationTotals(recordedAltitudes)
+      : undefined
+  );
+  const recordedTimes = getTrackpointTimes(trackpoints).filter(Number.isFinite);
+  const elapsedTime = Math.max(
+    totalTime,
+    recordedTimes[recordedTimes.length - 1] ?? 0
+  );
+
+  // Get all trackpoints for stats
   const allTrackpoints = tcxActivity.laps.flatMap((lap) => lap.trackpoints);
-  const hasGpsData = allTrackpoints.some((tp) => tp.latitude && tp.longitude);
+  const hasGpsData = trackpoints.some((tp) => tp.latitude && tp.longitude);
 
-  // Generate polyline if GPS data is available
+  // Generate polyline from the cleaned route if GPS data is available
   let polyline: string | undefined;
   if (hasGpsData) {
-    const coordinates: [number, number][] = allTrackpoints
+    const coordinates: [number, number][] = trackpoints
       .filter((tp) => tp.latitude && tp.longitude)
       .map((tp) => [tp.latitude!, tp.longitude!] as [number, number]);
     polyline = encode(coordinates, 5);
@@ -295,7 +338,7 @@ export function convertTcxToStravaActivity(
     .filter((tp) => tp.speed && tp.speed > 0)
     .map((tp) => tp.speed!);
 
-  const averageSpeed = totalDistance / totalTime; // m/s
+  const averageSpeed = totalDistance / movingTime; // m/s
   const maxSpeed = speeds.length > 0 ? Math.max(...speeds) : undefined;
 
   // Calculate cadence
@@ -322,9 +365,9 @@ export function convertTcxToStravaActivity(
     },
     name: activityName,
     distance: totalDistance,
-    moving_time: totalTime,
-    elapsed_time: totalTime,
-    total_elevation_gain: totalElevationGain,
+    moving_time: movingTime,
+    elapsed_time: elapsedTime,
+    total_elevation_gain: elevation.corrected.gain,
     type: tcxActivity.sport,
     sport_type: tcxActivity.sport,
     id: Math.floor(Math.random() * 1000000), // Generate random ID
@@ -361,36 +404,81 @@ export function convertTcxToStravaActivity(
     has_kudoed: false,
     source: "tcx", // Mark as TCX data source
     laps, // Include the converted lap data
+    splits: generateSplits(trackpoints), // Virtual kilometre splits
     trackpoints, // Include the converted trackpoint data
+    pauses, // Stops found in the trackpoints
+    elevation,
+    gpsCleanup,
   };
 }
 
 /**
- * Calculate total elevation gain from trackpoints
+ * Parse a TCX file in a Web Worker, streaming progress back to the caller
+ * Aborting the signal terminates the worker immediately
  */
-function calculateElevationGain(laps: TcxLap[]): number {
-  let totalGain = 0;
+function parseTcxInWorker(
+  file: File,
+  { onProgress, signal }: ActivityFileProcessingOptions
+): Promise<StravaActivity> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("TCX processing cancelled", "AbortError"));
+      return;
+    }
 
-  for (const lap of laps) {
-    const altitudes = lap.trackpoints
-      .filter((tp) => tp.altitude !== undefined)
-      .map((tp) => tp.altitude!);
+    const worker = new Worker(
+      new URL("../workers/tcxParser.worker.ts", import.meta.url),
+      { type: "module" }
+    );
 
-    for (let i = 1; i < altitudes.length; i++) {
-      const gain = altitudes[i] - altitudes[i - 1];
-      if (gain > 0) {
-        totalGain += gain;
+    const handleAbort = () => {
+      cleanup();
+      reject(new DOMException("TCX processing cancelled", "AbortError"));
+    };
+
+    const cleanup = () => {
+      worker.terminate();
+      signal?.removeEventListener("abort", handleAbort);
+    };
+
+    signal?.addEventListener("abort", handleAbort);
+
+    worker.onmessage = (event: MessageEvent<TcxWorkerResponse>) => {
+      const message = event.data;
+
+      switch (message.type) {
+        case "progress":
+          onProgress?.(message.total > 0 ? message.loaded / message.total : 1);
+          break;
+        case "result":
+          cleanup();
+          resolve(message.activity);
+          break;
+        case "error":
+          cleanup();
+          reject(new Error(message.message));
+          break;
       }
-    }
-  }
+    };
+
+    worker.onerror = (event) => {
+      cleanup();
+      reject(new Error(event.message || "Failed to process TCX file"));
+    };
 
-  return totalGain;
+    const request: TcxWorkerRequest = { file };
+    worker.postMessage(request);
+  });
 }
 
 /**
  * Process uploaded TCX file
+ * Parsing runs in a Web Worker when available so large files don't block the UI
  */
-export async function processTcxFromFile(file: File): Promise<StravaActivity> {
+export async function processTcxFromFile(
+  file: File,
+  options: ActivityFileProcessingOptions = {}
+): Promise<StravaActivity> {
   try {
     // Validate file type
     if (!file.name.toLowerCase().endsWith(".tcx")) {
@@ -407,6 +495,10 @@ export async function processTcxFromFile(file: File): Promise<StravaActivity> {
       );
     }
 
+    if (typeof Worker !== "undefined") {
+      return await parseTcxInWorker(file, options);
+    }
+
     // Read file content
     const xmlContent = await file.text();
 
@@ -0,0 +1,335 @@
+/**
+ * Streaming TCX Parser
+ * SAX-style reader that builds a TcxActivity from text chunks without
+ * materializing a DOM, so large files can be parsed incrementally
+ * (and inside a Web Worker, where DOMParser is unavailable)
+ */
+
+import type { TcxActivity, TcxLap, TcxTrackpoint } from "@/lib/tcxParser";
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity) => {
+    if (entity[0] === "#") {
+      const codePoint =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(codePoint)
+        ? String.fromCodePoint(codePoint)
+        : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Strip the namespace prefix from a tag name (e.g. `ns3:Speed` → `Speed`)
+ */
+function localName(tagName: string): string {
+  const colonIndex = tagName.indexOf(":");
+  return colonIndex === -1 ? tagName : tagName.slice(colonIndex + 1);
+}
+
+/**
+ * Parse a numeric value, treating missing, zero or invalid values as absent
+ * (matches the DOM-based parser)
+ */
+function optionalNumber(text: string): number | undefined {
+  return parseFloat(text || "0") || undefined;
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(source)) !== null) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4]);
+  }
+
+  return attributes;
+}
+
+export class TcxStreamParser {
+  private buffer = "";
+  private stack: string[] = [];
+  private text = "";
+
+  private sport: string | null = null;
+  private id = "";
+  private laps: TcxLap[] = [];
+  private currentLap: TcxLap | null = null;
+  private currentTrackpoint: TcxTrackpoint | null = null;
+  private activityDepth = -1;
+  private finishedActivity = false;
+
+  /**
+   * Feed the next chunk of XML text
+   */
+  write(chunk: string) {
+    this.buffer += chunk;
+    this.consume(false);
+  }
+
+  /**
+   * Finish parsing and return the collected activity
+   */
+  close(): TcxActivity {
+    this.consume(true);
+
+    if (this.stack.length > 0 || this.buffer.trim()) {
+      throw new Error("Invalid TCX file format");
+    }
+    if (this.sport === null) {
+      throw new Error("No activity found in TCX file");
+    }
+
+    return {
+      sport: this.sport,
+      id: this.id,
+      laps: this.laps,
+    };
+  }
+
+  private consume(isFinal: boolean) {
+    let position = 0;
+    const buffer = this.buffer;
+
+    while (position < buffer.length) {
+      const tagStart = buffer.indexOf("<", position);
+
+      if (tagStart === -1) {
+        // Keep trailing text until the next tag arrives
+        if (isFinal) {
+          this.handleText(buffer.slice(position));
+          position = buffer.length;
+        }
+        break;
+      }
+
+      if (tagStart > position) {
+        this.handleText(buffer.slice(position, tagStart));
+        position = tagStart;
+      }
+
+      let tagEnd: number;
+      if (buffer.startsWith("<!--", tagStart)) {
+        tagEnd = buffer.indexOf("-->", tagStart + 4);
+        if (tagEnd === -1) break;
+        position = tagEnd + 3;
+        continue;
+      }
+      if (buffer.startsWith("<![CDATA[", tagStart)) {
+        tagEnd = buffer.indexOf("]]>", tagStart + 9);
+        if (tagEnd === -1) break;
+        this.text += buffer.slice(tagStart + 9, tagEnd);
+        position = tagEnd + 3;
+        continue;
+      }
+
+      tagEnd = buffer.indexOf(">", tagStart + 1);
+      if (tagEnd === -1) break;
+
+      const tag = buffer.slice(tagStart + 1, tagEnd);
+      position = tagEnd + 1;
+
+      if (tag[0] === "?" || tag[0] === "!") {
+        // Processing instruction or doctype
+        continue;
+      }
+
+      if (tag[0] === "/") {
+        this.handleClose(localName(tag.slice(1).trim()));
+        continue;
+      }
+
+      const selfClosing = tag.endsWith("/");
+      const body = selfClosing ? tag.slice(0, -1) : tag;
+      const nameEnd = body.search(/\s|$/);
+      const name = localName(body.slice(0, nameEnd));
+
+      this.handleOpen(name, parseAttributes(body.slice(nameEnd)));
+      if (selfClosing) {
+        this.handleClose(name);
+      }
+    }
+
+    this.buffer = buffer.slice(position);
+  }
+
+  private handleText(text: string) {
+    if (this.stack.length > 0) {
+      this.text += text;
+    }
+  }
+
+  private handleOpen(name: string, attributes: Record<string, string>) {
+    this.stack.push(name);
+    this.text = "";
+
+    // Only the first activity is read, as in parseTcxContent
+    if (name === "Activity" && this.sport === null) {
+      this.sport = attributes.Sport || "Unknown";
+      this.activityDepth = this.stack.length;
+      return;
+    }
+
+    if (!this.isInsideActivity()) return;
+
+    if (name === "Lap" && !this.currentLap) {
+      this.currentLap = {
+        startTime: attributes.StartTime || "",
+        totalTimeSeconds: 0,
+        distanceMeters: 0,
+        trackpoints: [],
+      };
+    } else if (name === "Trackpoint" && this.currentLap) {
+      this.currentTrackpoint = { time: "" };
+    }
+  }
+
+  private handleClose(name: string) {
+    const openName = this.stack.pop();
+    if (openName !== name) {
+      throw new Error("Invalid TCX file format");
+    }
+
+    const text = decodeEntities(this.text.trim());
+    this.text = "";
+
+    if (!this.isInsideActivity()) {
+      if (name === "Activity" && this.stack.length + 1 === this.activityDepth) {
+        this.finishedActivity = true;
+      }
+      return;
+    }
+
+    const parent = this.stack[this.stack.length - 1];
+    const grandparent = this.stack[this.stack.length - 2];
+
+    if (this.currentTrackpoint) {
+      this.handleTrackpointField(name, parent, grandparent, text);
+      return;
+    }
+
+    if (this.currentLap) {
+      this.handleLapField(name, parent, grandparent, text);
+      return;
+    }
+
+    if (name === "Id" && parent === "Activity") {
+      this.id = text;
+    }
+  }
+
+  private handleLapField(
+    name: string,
+    parent: string,
+    grandparent: string,
+    text: string
+  ) {
+    const lap = this.currentLap!;
+
+    if (name === "Lap") {
+      this.laps.push(lap);
+      this.currentLap = null;
+      return;
+    }
+
+    if (parent === "Lap") {
+      switch (name) {
+        case "TotalTimeSeconds":
+          lap.totalTimeSeconds = parseFloat(text || "0");
+          break;
+        case "DistanceMeters":
+          lap.distanceMeters = parseFloat(text || "0");
+          break;
+        case "MaximumSpeed":
+          lap.maximumSpeed = optionalNumber(text);
+          break;
+        case "Calories":
+          lap.calories = parseInt(text || "0") || undefined;
+          break;
+        case "Cadence":
+          lap.averageCadence = optionalNumber(text);
+          break;
+      }
+    } else if (name === "Value" && grandparent === "Lap") {
+      if (parent === "AverageHeartRateBpm") {
+        lap.averageHeartRate = optionalNumber(text);
+      } else if (parent === "MaximumHeartRateBpm") {
+        lap.maximumHeartRate = optionalNumber(text);
+      }
+    }
+  }
+
+  private handleTrackpointField(
+    name: string,
+    parent: string,
+    grandparent: string,
+    text: string
+  ) {
+    const trackpoint = this.currentTrackpoint!;
+
+    if (name === "Trackpoint") {
+      this.currentLap!.trackpoints.push(trackpoint);
+      this.currentTrackpoint = null;
+      return;
+    }
+
+    if (parent === "Trackpoint") {
+      switch (name) {
+        case "Time":
+          trackpoint.time = text;
+          break;
+        case "AltitudeMeters":
+          trackpoint.altitude = optionalNumber(text);
+          break;
+        case "DistanceMeters":
+          trackpoint.distance = optionalNumber(text);
+          break;
+        case "Cadence":
+          trackpoint.cadence ??= optionalNumber(text);
+          break;
+      }
+    } else if (parent === "Position") {
+      if (name === "LatitudeDegrees") {
+        trackpoint.latitude = optionalNumber(text);
+      } else if (name === "LongitudeDegrees") {
+        trackpoint.longitude = optionalNumber(text);
+      }
+    } else if (name === "Value" && parent === "HeartRateBpm") {
+      trackpoint.heartRate = optionalNumber(text);
+    } else if (parent === "TPX" && grandparent === "Extensions") {
+      switch (name) {
+        case "Speed":
+          trackpoint.speed = optionalNumber(text);
+          break;
+        case "RunCadence":
+          trackpoint.cadence = optionalNumber(text);
+          break;
+        case "Watts":
+          trackpoint.watts = optionalNumber(text);
+          break;
+      }
+    }
+  }
+
+  private isInsideActivity(): boolean {
+    return (
+      !this.finishedActivity &&
+      this.activityDepth !== -1 &&
+      this.stack.length >= this.activityDepth
+    );
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Trackpoint series
+ * Distance and time along an activity's trackpoints, whichever fields the
+ * source recorded them in
+ */
+
+import type { ActivityTrackpoint } from "@/types/strava";
+import { haversineDistance } from "@/lib/geo";
+
+/**
+ * Cumulative distance at each trackpoint: the recorded distance when every
+ * point has one, summed between coordinates otherwise
+ */
+export function getTrackpointDistances(
+  trackpoints: ActivityTrackpoint[]
+): number[] {
+  if (trackpoints.every((tp) => tp.distance !== undefined)) {
+    return trackpoints.map((tp) => tp.distance!);
+  }
+  let total = 0;
+  let previous: ActivityTrackpoint | undefined;
+  return trackpoints.map((tp) => {
+    if (tp.latitude !== undefined && tp.longitude !== undefined) {
+      if (previous) {
+        total += haversineDistance(
+          previous.latitude!,
+          previous.longitude!,
+          tp.latitude,
+          tp.longitude
+        );
+      }
+      previous = tp;
+    }
+    return total;
+  });
+}
+
+/**
+ * Seconds since the start at each trackpoint, NaN where it isn't known
+ */
+export function getTrackpointTimes(
+  trackpoints: ActivityTrackpoint[]
+): number[] {
+  const startTime = trackpoints[0]?.time && Date.parse(trackpoints[0].time);
+  return trackpoints.map((tp) =>
+    tp.timeOffset !== undefined
+      ? tp.timeOffset
+      : tp.time && startTime
+      ? (Date.parse(tp.time) - startTime) / 1000
+      : NaN
+  );
+}
+
+/**
+ * Seconds spent moving up to each trackpoint, NaN where the time isn't
+ * known. The stretch ending at a trackpoint flagged as not moving is left out
+ */
+export function getTrackpointMovingTimes(
+  trackpoints: ActivityTrackpoint[]
+): number[] {
+  const times = getTrackpointTimes(trackpoints);
+  let moving = 0;
+  let previous = NaN;
+  return times.map((time, i) => {
+    if (!Number.isFinite(time)) return NaN;
+    if (Number.isFinite(previous) && trackpoints[i].moving !== false) {
+      moving += time - previous;
+    }
+    previous = time;
+    return moving;
+  });
+}
@@ -0,0 +1,1200 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  ChartArea,
+  ChevronDown,
+  ChevronUp,
+  Image as ImageIcon,
+  Map as MapIcon,
+  Save,
+  Trash2,
+  Type,
+  LayoutGrid,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { TemplateDesignerCanvas } from "@/components/TemplateDesignerCanvas";
+import type { StravaActivity } from "@/types/strava";
+import {
+  getDefaultOptions,
+  getDefaultStats,
+  type ChartLayer,
+  type ImageLayer,
+  type PosterTemplate,
+  type RouteLayer,
+  type StatKey,
+  type StatsLayer,
+  type TemplateLayer,
+  type TemplateTextStyle,
+  type TextLayer,
+  usesTrackpoints,
+} from "@/lib/posterTemplate";
+import {
+  loadTemplateFonts,
+  renderPosterTemplate,
+  TEMPLATE_IMAGE_ASSETS,
+} from "@/lib/posterRenderer";
+import {
+  copyTemplateForDesigner,
+  createDesignerChart,
+  createDesignerLayer,
+  createRouteLegend,
+  createTemplateDraft,
+  deleteCustomTemplate,
+  DESIGNER_CANVAS_PRESETS,
+  DESIGNER_FONTS,
+  DESIGNER_GRADE_COLORS,
+  DESIGNER_STAT_KEYS,
+  DESIGNER_TEXT_FIELDS,
+  saveCustomTemplate,
+  withTemplateFonts,
+  type DesignerLayerType,
+} from "@/lib/customTemplates";
+import { getBasemapChoices, isBasemapStyle } from "@/lib/basemap";
+import { getRouteColorChoices, isRouteColorMetric } from "@/lib/routeColors";
+import { SPLIT_DISTANCES } from "@/lib/activitySplits";
+import { useCustomTemplates } from "@/hooks/useCustomTemplates";
+import { useActivityWithTrackpoints } from "@/hooks/useStravaQueries";
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from "@/templates";
+
+type Language = "en" | "id";
+
+interface TemplateDesignerProps {
+  activity: StravaActivity;
+  language: Language;
+}
+
+const selectClassName =
+  "flex h-9 w-full rounded-md border border-input bg-background px-2 text-sm";
+
+const ROUTE_MARKERS: Pick<RouteLayer, "startMarker" | "endMarker"> = {
+  startMarker: {
+    radius: 10,
+    fill: "#22C55E",
+    stroke: "#FFFFFF",
+    strokeWidth: 3,
+  },
+  endMarker: { radius: 10, fill: "#EF4444", stroke: "#FFFFFF", strokeWidth: 3 },
+};
+
+// <input type="color"> only accepts #rrggbb
+const toColorInputValue = (color: string | undefined) => {
+  if (color && /^#[0-9a-f]{6}$/i.test(color)) return color;
+  if (color && /^#[0-9a-f]{3}$/i.test(color)) {
+    return `#${[...color.slice(1)].map((c) => c + c).join("")}`;
+  }
+  return "#ffffff";
+};
+
+const CHART_LABELS: Record<ChartLayer["chart"], Record<Language, string>> = {
+  elevation: { en: "Elevation profile", id: "Profil elevasi" },
+  heartrate: { en: "Heart rate zones", id: "Zona detak jantung" },
+  pace: { en: "Pace splits", id: "Split pace" },
+};
+
+const SPLIT_LABELS: Record<
+  keyof typeof SPLIT_DISTANCES,
+  Record<Language, string>
+> = {
+  km: { en: "Every kilometre", id: "Setiap kilometer" },
+  mile: { en: "Every mile", id: "Setiap mil" },
+};
+
+const layerLabel = (layer: TemplateLayer, language: Language) => {
+  switch (layer.type) {
+    case "text":
+      return `${language === "en" ? "Text" : "Teks"}: ${layer.text}`;
+    case "stats":
+      return language === "en" ? "Stats" : "Statistik";
+    case "route":
+      return language === "en" ? "Route" : "Rute";
+    case "image":
+      return layer.src.startsWith("asset:")
+        ? TEMPLATE_IMAGE_ASSETS[layer.src.slice("asset:".length)]?.label ??
+            "Logo"
+        : language === "en"
+        ? "Image"
+        : "Gambar";
+    case "rect":
+      return language === "en" ? "Shape" : "Bentuk";
+    case "star":
+      return language === "en" ? "Star" : "Bintang";
+    case "chart":
+      return CHART_LABELS[layer.chart][language];
+  }
+};
+
+function Field({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label className="block space-y-1">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function NumberInput({
+  value,
+  onChange,
+  min,
+  max,
+  step,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+}) {
+  return (
+    <Input
+      type="number"
+      className="h-9"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        if (!Number.isNaN(parsed)) onChange(parsed);
+      }}
+    />
+  );
+}
+
+function ColorInput({
+  value,
+  onChange,
+}: {
+  value: string | undefined;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <input
+      type="color"
+      className="h-9 w-full rounded-md border border-input bg-background p-1"
+      value={toColorInputValue(value)}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+function TextStyleFields<T extends TemplateTextStyle>({
+  style,
+  onChange,
+  language,
+  showAlign = true,
+}: {
+  style: T;
+  onChange: (style: T) => void;
+  language: Language;
+  showAlign?: boolean;
+}) {
+  const set = (changes: Partial<TemplateTextStyle>) =>
+    onChange({ ...style, ...changes });
+  const isKnownFont = DESIGNER_FONTS.some(
+    (font) => font.fontFamily === style.fontFamily
+  );
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="col-span-2">
+        <Field label="Font">
+          <select
+            className={selectClassName}
+            value={style.fontFamily}
+            onChange={(e) => set({ fontFamily: e.target.value })}
+          >
+            {!isKnownFont && (
+              <option value={style.fontFamily}>{style.fontFamily}</option>
+            )}
+            {DESIGNER_FONTS.map((font) => (
+              <option key={font.label} value={font.fontFamily}>
+                {font.label}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+      <Field label={language === "en" ? "Size" : "Ukuran"}>
+        <NumberInput
+          value={style.fontSize}
+          min={8}
+          onChange={(fontSize) => set({ fontSize })}
+        />
+      </Field>
+      <Field label={language === "en" ? "Weight" : "Ketebalan"}>
+        <select
+          className={selectClassName}
+          value={style.fontStyle ?? "normal"}
+          onChange={(e) => set({ fontStyle: e.target.value })}
+        >
+          {!["normal", "bold", "200"].includes(style.fontStyle ?? "normal") && (
+            <option value={style.fontStyle}>{style.fontStyle}</option>
+          )}
+          <option value="200">{language === "en" ? "Light" : "Tipis"}</option>
+          <option value="normal">
+            {language === "en" ? "Regular" : "Reguler"}
+          </option>
+          <option value="bold">{language === "en" ? "Bold" : "Tebal"}</option>
+        </select>
+      </Field>
+      <Field label={language === "en" ? "Color" : "Warna"}>
+        <ColorInput value={style.fill} onChange={(fill) => set({ fill })} />
+      </Field>
+      {showAlign && (
+        <Field label={language === "en" ? "Align" : "Perataan"}>
+          <select
+            className={selectClassName}
+            value={style.align ?? "left"}
+            onChange={(e) =>
+              set({ align: e.target.value as TemplateTextStyle["align"] })
+            }
+          >
+            <option value="left">{language === "en" ? "Left" : "Kiri"}</option>
+            <option value="center">
+              {language === "en" ? "Center" : "Tengah"}
+            </option>
+            <option value="right">
+              {language === "en" ? "Right" : "Kanan"}
+            </option>
+          </select>
+        </Field>
+      )}
+    </div>
+  );
+}
+
+function TextLayerFields({
+  layer,
+  onChange,
+  language,
+}: {
+  layer: TextLayer;
+  onChange: (layer: TextLayer) => void;
+  language: Language;
+}) {
+  return (
+    <div className="space-y-3">
+      <Field label={language === "en" ? "Text" : "Teks"}>
+        <Input
+          className="h-9"
+          value={layer.text}
+          onChange={(e) => onChange({ ...layer, text: e.target.value })}
+        />
+      </Field>
+      <Field label={language === "en" ? "Insert field" : "Sisipkan data"}>
+        <select
+          className={selectClassName}
+          value=""
+          onChange={(e) =>
+            e.target.value &&
+            onChange({ ...layer, text: `${layer.text}{${e.target.value}}` })
+          }
+        >
+          <option value="">
+            {language === "en" ? "Choose a field..." : "Pilih data..."}
+          </option>
+          {DESIGNER_TEXT_FIELDS.map(({ field, label }) => (
+            <option key={field} value={field}>
+              {label[language]}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <TextStyleFields
+        style={layer.style}
+        onChange={(style) => onChange({ ...layer, style })}
+        language={language}
+      />
+    </div>
+  );
+}
+
+function StatsLayerFields({
+  layer,
+  onChange,
+  template,
+  onTemplateChange,
+  language,
+}: {
+  layer: StatsLayer;
+  onChange: (layer: StatsLayer) => void;
+  template: PosterTemplate;
+  onTemplateChange: (changes: Partial<PosterTemplate>) => void;
+  language: Language;
+}) {
+  const { stats } = template;
+
+  const toggleStat = (key: StatKey, checked: boolean) => {
+    const keys = DESIGNER_STAT_KEYS.filter((k) =>
+      k === key ? checked : stats.keys.includes(k)
+    );
+    const defaults = checked
+      ? stats.defaults.length < stats.max
+        ? [...stats.defaults, key]
+        : stats.defaults
+      : stats.defaults.filter((k) => k !== key);
+    onTemplateChange({ stats: { ...stats, keys, defaults } });
+  };
+
+  return (
+    <div className="space-y-3">
+      <Field
+        label={
+          language === "en"
+            ? "Stats shown by default"
+            : "Statistik yang ditampilkan"
+        }
+      >
+        <NumberInput
+          value={stats.max}
+          min={1}
+          max={8}
+          onChange={(max) =>
+            onTemplateChange({
+              stats: {
+                ...stats,
+                max,
+                defaults: [
+                  ...stats.defaults,
+                  ...stats.keys.filter((k) => !stats.defaults.includes(k)),
+                ].slice(0, max),
+              },
+            })
+          }
+        />
+      </Field>
+      <div className="space-y-1">
+        <span className="text-xs font-medium text-muted-foreground">
+          {language === "en"
+            ? "Offered stats and their labels"
+            : "Statistik yang tersedia dan labelnya"}
+        </span>
+        {DESIGNER_STAT_KEYS.map((key) => (
+          <div key={key} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={stats.keys.includes(key)}
+              onChange={(e) => toggleStat(key, e.target.checked)}
+              className="rounded"
+            />
+            <Input
+              className="h-8"
+              value={stats.labels[key] ?? key.toUpperCase()}
+              disabled={!stats.keys.includes(key)}
+              onChange={(e) =>
+                onTemplateChange({
+                  stats: {
+                    ...stats,
+                    labels: { ...stats.labels, [key]: e.target.value },
+                  },
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+      {layer.layout === "grid" && (
+        <div className="grid grid-cols-2 gap-2">
+          <Field label={language === "en" ? "Columns" : "Kolom"}>
+            <select
+              className={selectClassName}
+              value={String(layer.columns)}
+              onChange={(e) =>
+                onChange({
+                  ...layer,
+                  columns:
+                    e.target.value === "auto"
+                      ? "auto"
+                      : parseInt(e.target.value, 10),
+                  columnWidth: undefined,
+                })
+              }
+            >
+              <option value="auto">
+                {language === "en" ? "One row" : "Satu baris"}
+              </option>
+              {[1, 2, 3, 4].map((columns) => (
+                <option key={columns} value={columns}>
+                  {columns}
+                </option>
+              ))}
+            </select>
+          </Field>
+          <Field label={language === "en" ? "Align" : "Perataan"}>
+            <select
+              className={selectClassName}
+              value={layer.align ?? "left"}
+              onChange={(e) =>
+                onChange({
+                  ...layer,
+                  align: e.target.value as "left" | "center",
+                })
+              }
+            >
+              <option value="left">
+                {language === "en" ? "Left" : "Kiri"}
+              </option>
+              <option value="center">
+                {language === "en" ? "Center" : "Tengah"}
+              </option>
+            </select>
+          </Field>
+          <Field label={language === "en" ? "Row height" : "Tinggi baris"}>
+            <NumberInput
+              value={layer.rowHeight}
+              min={10}
+              onChange={(rowHeight) => onChange({ ...layer, rowHeight })}
+            />
+          </Field>
+          <Field label={language === "en" ? "Value gap" : "Jarak nilai"}>
+            <NumberInput
+              value={layer.value.offsetY ?? 0}
+              onChange={(offsetY) =>
+                onChange({ ...layer, value: { ...layer.value, offsetY } })
+              }
+            />
+          </Field>
+        </div>
+      )}
+      <h4 className="text-xs font-semibold">
+        {language === "en" ? "Labels" : "Label"}
+      </h4>
+      <TextStyleFields
+        style={layer.label}
+        onChange={(label) => onChange({ ...layer, label } as StatsLayer)}
+        language={language}
+        showAlign={false}
+      />
+      <h4 className="text-xs font-semibold">
+        {language === "en" ? "Values" : "Nilai"}
+      </h4>
+      <TextStyleFields
+        style={layer.value}
+        onChange={(value) => onChange({ ...layer, value } as StatsLayer)}
+        language={language}
+        showAlign={false}
+      />
+    </div>
+  );
+}
+
+function RouteLayerFields({
+  layer,
+  onChange,
+  language,
+}: {
+  layer: RouteLayer;
+  onChange: (layer: RouteLayer) => void;
+  language: Language;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <Field label={language === "en" ? "Color" : "Warna"}>
+          <ColorInput
+            value={layer.stroke}
+            onChange={(stroke) => onChange({ ...layer, stroke })}
+          />
+        </Field>
+        <Field label={language === "en" ? "Line width" : "Tebal garis"}>
+          <NumberInput
+            value={layer.strokeWidth}
+            min={1}
+            onChange={(strokeWidth) => onChange({ ...layer, strokeWidth })}
+          />
+        </Field>
+      </div>
+      <label className="flex items-center gap-2 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={Boolean(layer.startMarker || layer.endMarker)}
+          onChange={(e) =>
+            onChange(
+              e.target.checked
+                ? { ...layer, ...ROUTE_MARKERS }
+                : { ...layer, startMarker: undefined, endMarker: undefined }
+            )
+          }
+          className="rounded"
+        />
+        <span className="text-sm">
+          {language === "en"
+            ? "Start and finish markers"
+            : "Penanda awal dan akhir"}
+        </span>
+      </label>
+      <Field label={language === "en" ? "Map background" : "Latar peta"}>
+        <select
+          className={selectClassName}
+          value={layer.basemap?.style ?? "none"}
+          onChange={(e) =>
+            onChange({
+              ...layer,
+              basemap: isBasemapStyle(e.target.value)
+                ? { ...layer.basemap, option: undefined, style: e.target.value }
+                : undefined,
+            })
+          }
+        >
+          {getBasemapChoices().map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label[language]}
+            </option>
+          ))}
+        </select>
+      </Field>
+      <Field label={language === "en" ? "Color by" : "Warna menurut"}>
+        <select
+          className={selectClassName}
+          value={layer.colorBy?.metric ?? "none"}
+          onChange={(e) =>
+            onChange({
+              ...layer,
+              colorBy: isRouteColorMetric(e.target.value)
+                ? {
+                    ...layer.colorBy,
+                    option: undefined,
+                    metric: e.target.value,
+                  }
+                : undefined,
+            })
+          }
+        >
+          {getRouteColorChoices().map((choice) => (
+            <option key={choice.value} value={choice.value}>
+              {choice.label[language]}
+            </option>
+          ))}
+        </select>
+      </Field>
+      {layer.colorBy && (
+        <label className="flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={Boolean(layer.colorBy.legend)}
+            onChange={(e) =>
+              onChange({
+                ...layer,
+                colorBy: {
+                  ...layer.colorBy,
+                  legend: e.target.checked
+                    ? createRouteLegend(layer)
+                    : undefined,
+                },
+              })
+            }
+            className="rounded"
+          />
+          <span className="text-sm">
+            {language === "en" ? "Show legend" : "Tampilkan legenda"}
+          </span>
+        </label>
+      )}
+    </div>
+  );
+}
+
+function ChartLayerFields({
+  layer,
+  onChange,
+  language,
+}: {
+  layer: ChartLayer;
+  onChange: (layer: ChartLayer) => void;
+  language: Language;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="col-span-2">
+        <Field label={language === "en" ? "Chart" : "Grafik"}>
+          <select
+            className={selectClassName}
+            value={layer.chart}
+            onChange={(e) =>
+              onChange(
+                createDesignerChart(
+                  e.target.value as ChartLayer["chart"],
+                  layer
+                )
+              )
+            }
+          >
+            {Object.entries(CHART_LABELS).map(([chart, label]) => (
+              <option key={chart} value={chart}>
+                {label[language]}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+      <Field label={language === "en" ? "Color" : "Warna"}>
+        <ColorInput
+          value={layer.fill}
+          onChange={(fill) => onChange({ ...layer, fill })}
+        />
+      </Field>
+      {layer.chart === "pace" && (
+        <Field label={language === "en" ? "Fastest split" : "Split tercepat"}>
+          <ColorInput
+            value={layer.highlight ?? layer.fill}
+            onChange={(highlight) => onChange({ ...layer, highlight })}
+          />
+        </Field>
+      )}
+      {layer.chart === "pace" && (
+        <div className="col-span-2">
+          <Field
+            label={
+              language === "en" ? "Splits without laps" : "Split tanpa lap"
+            }
+          >
+            <select
+              className={selectClassName}
+              value={
+                layer.splitDistance === SPLIT_DISTANCES.mile ? "mile" : "km"
+              }
+              onChange={(e) =>
+                onChange({
+                  ...layer,
+                  splitDistance:
+                    SPLIT_DISTANCES[
+                      e.target.value as keyof typeof SPLIT_DISTANCES
+                    ],
+                })
+              }
+            >
+              {Object.entries(SPLIT_LABELS).map(([split, label]) => (
+                <option key={split} value={split}>
+                  {label[language]}
+                </option>
+              ))}
+            </select>
+          </Field>
+        </div>
+      )}
+      {layer.chart === "elevation" && (
+        <label className="col-span-2 flex items-center gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={Boolean(layer.gradeColors?.length)}
+            onChange={(e) =>
+              onChange({
+                ...layer,
+                gradeColors: e.target.checked
+                  ? DESIGNER_GRADE_COLORS
+                  : undefined,
+              })
+            }
+            className="rounded"
+          />
+          <span className="text-sm">
+            {language === "en"
+              ? "Color steep sections"
+              : "Warnai bagian menanjak"}
+          </span>
+        </label>
+      )}
+      {layer.chart === "heartrate" && (
+        <p className="col-span-2 text-xs text-muted-foreground">
+          {language === "en"
+            ? "Zones are shades of the color, from 50% to 90% of 190 bpm."
+            : "Zona berupa gradasi warna, dari 50% hingga 90% dari 190 bpm."}
+        </p>
+      )}
+    </div>
+  );
+}
+
+function ImageLayerFields({
+  layer,
+  onChange,
+  language,
+}: {
+  layer: ImageLayer;
+  onChange: (layer: ImageLayer) => void;
+  language: Language;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className="col-span-2">
+        <Field label={language === "en" ? "Image" : "Gambar"}>
+          <select
+            className={selectClassName}
+            value={layer.src}
+            onChange={(e) => {
+              const asset =
+                TEMPLATE_IMAGE_ASSETS[e.target.value.slice("asset:".length)];
+              onChange({
+                ...layer,
+                src: e.target.value,
+                height: Math.round((layer.width * asset.height) / asset.width),
+              });
+            }}
+          >
+            {!layer.src.startsWith("asset:") && (
+              <option value={layer.src}>{layerLabel(layer, language)}</option>
+            )}
+            {Object.entries(TEMPLATE_IMAGE_ASSETS).map(([name, asset]) => (
+              <option key={name} value={`asset:${name}`}>
+                {asset.label}
+              </option>
+            ))}
+          </select>
+        </Field>
+      </div>
+      <Field label={language === "en" ? "Opacity" : "Opasitas"}>
+        <NumberInput
+          value={layer.opacity ?? 1}
+          min={0}
+          max={1}
+          step={0.1}
+          onChange={(opacity) => onChange({ ...layer, opacity })}
+        />
+      </Field>
+    </div>
+  );
+}
+
+/**
+ * Template designer: lay out text, stats, route, chart and logo layers on top
+ * of a live render and save the result as a custom template
+ */
+export function TemplateDesigner({
+  activity: listedActivity,
+  language,
+}: TemplateDesignerProps) {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const customTemplates = useCustomTemplates();
+  const sourceId = searchParams.get("template") ?? "";
+
+  const [draft, setDraft] = useState<PosterTemplate>(() => {
+    const source = [...customTemplates, ...BUILT_IN_TEMPLATES].find(
+      (template) => template.id === sourceId
+    );
+    return withTemplateFonts(
+      source
+        ? copyTemplateForDesigner(source, listedActivity)
+        : createTemplateDraft()
+    );
+  });
+  const activity = useActivityWithTrackpoints(
+    listedActivity,
+    usesTrackpoints(draft)
+  );
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [canvasWidth, setCanvasWidth] = useState(560);
+  const canvasContainerRef = useRef<HTMLDivElement>(null);
+  // Only the latest render may update the preview
+  const renderIdRef = useRef(0);
+
+  const stats = getDefaultStats(draft, activity);
+  const selectedLayer =
+    selectedIndex !== null ? draft.layers[selectedIndex] : undefined;
+
+  // Re-render the preview shortly after the last edit
+  useEffect(() => {
+    const renderId = ++renderIdRef.current;
+    const timer = setTimeout(async () => {
+      try {
+        await loadTemplateFonts(draft);
+        const dataURL = await renderPosterTemplate(draft, activity, {
+          stats: getDefaultStats(draft, activity),
+          options: getDefaultOptions(draft),
+          pixelRatio: 1,
+        });
+        if (renderId === renderIdRef.current) setPreviewUrl(dataURL);
+      } catch (error) {
+        console.error("Error rendering template preview:", error);
+      }
+    }, 150);
+    return () => clearTimeout(timer);
+  }, [draft, activity]);
+
+  // Fit the canvas to the available width
+  useEffect(() => {
+    const container = canvasContainerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) =>
+      setCanvasWidth(entry.contentRect.width)
+    );
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  const updateDraft = (changes: Partial<PosterTemplate>) =>
+    setDraft((current) => withTemplateFonts({ ...current, ...changes }));
+
+  const updateLayer = (index: number, layer: TemplateLayer) =>
+    setDraft((current) =>
+      withTemplateFonts({
+        ...current,
+        layers: current.layers.map((l, i) => (i === index ? layer : l)),
+      })
+    );
+
+  const addLayer = (type: DesignerLayerType) => {
+    updateDraft({
+      layers: [...draft.layers, createDesignerLayer(type, draft.canvas)],
+    });
+    setSelectedIndex(draft.layers.length);
+  };
+
+  const moveLayerOrder = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= draft.layers.length) return;
+    const layers = [...draft.layers];
+    [layers[index], layers[target]] = [layers[target], layers[index]];
+    updateDraft({ layers });
+    setSelectedIndex(target);
+  };
+
+  const removeLayer = (index: number) => {
+    updateDraft({ layers: draft.layers.filter((_, i) => i !== index) });
+    setSelectedIndex(null);
+  };
+
+  const handleSave = () => {
+    const saved = saveCustomTemplate(draft);
+    navigate(`/visualization/${saved.id}`);
+  };
+
+  const handleDelete = () => {
+    const confirmMessage =
+      language === "en"
+        ? `Delete "${draft.title.en}"?`
+        : `Hapus "${draft.title.id}"?`;
+    if (!draft.id || !window.confirm(confirmMessage)) return;
+    deleteCustomTemplate(draft.id);
+    navigate(`/visualization/${DEFAULT_TEMPLATE.id}`);
+  };
+
+  const canvasPreset = `${draft.canvas.width}x${draft.canvas.height}`;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <span>✏️</span>
+            {language === "en" ? "Template Designer" : "Desainer Template"}
+          </div>
+          <div className="flex items-center gap-2">
+            {draft.id && (
+              <Button variant="outline" onClick={handleDelete}>
+                <Trash2 />
+                {language === "en" ? "Delete" : "Hapus"}
+              </Button>
+            )}
+            <Button
+              onClick={handleSave}
+              className="bg-brand-pink hover:bg-brand-pink/90 text-brand-green"
+            >
+              <Save />
+              {language === "en" ? "Save template" : "Simpan template"}
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_320px]">
+          <div ref={canvasContainerRef} className="min-w-0">
+            <TemplateDesignerCanvas
+              template={draft}
+              activity={activity}
+              statsCount={stats.length}
+              previewUrl={previewUrl}
+              selectedIndex={selectedIndex}
+              onSelect={setSelectedIndex}
+              onLayerChange={updateLayer}
+              maxWidth={canvasWidth}
+            />
+            <p className="mt-2 text-xs text-muted-foreground">
+              {language === "en"
+                ? "Drag layers to move them, use the handles to resize. Text and stats follow the selected activity."
+                : "Seret layer untuk memindahkan, gunakan pegangan untuk mengubah ukuran. Teks dan statistik mengikuti aktivitas yang dipilih."}
+            </p>
+          </div>
+
+          <div className="space-y-6">
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">Template</h3>
+              <Field label={language === "en" ? "Start from" : "Mulai dari"}>
+                <select
+                  className={selectClassName}
+                  value={sourceId}
+                  onChange={(e) =>
+                    setSearchParams(
+                      e.target.value ? { template: e.target.value } : {}
+                    )
+                  }
+                >
+                  <option value="">
+                    {language === "en" ? "Blank template" : "Template kosong"}
+                  </option>
+                  {customTemplates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.title[language]}
+                    </option>
+                  ))}
+                  {BUILT_IN_TEMPLATES.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {language === "en" ? "Copy of" : "Salinan"}{" "}
+                      {template.title[language]}
+                    </option>
+                  ))}
+                </select>
+              </Field>
+              <Field label={language === "en" ? "Name" : "Nama"}>
+                <Input
+                  className="h-9"
+                  value={draft.title[language]}
+                  onChange={(e) =>
+                    updateDraft({
+                      title: { en: e.target.value, id: e.target.value },
+                    })
+                  }
+                />
+              </Field>
+              <div className="grid grid-cols-2 gap-2">
+                <Field label={language === "en" ? "Size" : "Ukuran"}>
+                  <select
+                    className={selectClassName}
+                    value={canvasPreset}
+                    onChange={(e) => {
+                      const [width, height] = e.target.value
+                        .split("x")
+                        .map(Number);
+                      updateDraft({
+                        canvas: { ...draft.canvas, width, height },
+                      });
+                    }}
+                  >
+                    {!DESIGNER_CANVAS_PRESETS.some(
+                      (p) => `${p.width}x${p.height}` === canvasPreset
+                    ) && (
+                      <option value={canvasPreset}>
+                        {draft.canvas.width} × {draft.canvas.height}
+                      </option>
+                    )}
+                    {DESIGNER_CANVAS_PRESETS.map((preset) => (
+                      <option
+                        key={preset.label.en}
+                        value={`${preset.width}x${preset.height}`}
+                      >
+                        {preset.label[language]} ({preset.width} ×{" "}
+                        {preset.height})
+                      </option>
+                    ))}
+                  </select>
+                </Field>
+                <Field label={language === "en" ? "Background" : "Latar"}>
+                  <ColorInput
+                    value={draft.canvas.background}
+                    onChange={(background) =>
+                      updateDraft({ canvas: { ...draft.canvas, background } })
+                    }
+                  />
+                </Field>
+              </div>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!draft.canvas.background}
+                  onChange={(e) =>
+                    updateDraft({
+                      canvas: {
+                        ...draft.canvas,
+                        background: e.target.checked ? undefined : "#111111",
+                      },
+                    })
+                  }
+                  className="rounded"
+                />
+                <span className="text-sm">
+                  {language === "en"
+                    ? "Transparent background"
+                    : "Latar transparan"}
+                </span>
+              </label>
+            </section>
+
+            <section className="space-y-3">
+              <h3 className="text-sm font-semibold">
+                {language === "en" ? "Layers" : "Layer"}
+              </h3>
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addLayer("text")}
+                >
+                  <Type />
+                  {language === "en" ? "Text" : "Teks"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addLayer("stats")}
+                >
+                  <LayoutGrid />
+                  {language === "en" ? "Stats" : "Statistik"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addLayer("route")}
+                >
+                  <MapIcon />
+                  {language === "en" ? "Route" : "Rute"}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addLayer("image")}
+                >
+                  <ImageIcon />
+                  Logo
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => addLayer("chart")}
+                >
+                  <ChartArea />
+                  {language === "en" ? "Chart" : "Grafik"}
+                </Button>
+              </div>
+              <ul className="space-y-1">
+                {draft.layers.map((layer, index) => (
+                  <li
+                    key={index}
+                    className={`flex items-center gap-1 rounded-md border px-2 py-1 text-sm cursor-pointer ${
+                      index === selectedIndex
+                        ? "border-brand-pink bg-brand-pink/10"
+                        : ""
+                    }`}
+                    onClick={() => setSelectedIndex(index)}
+                  >
+                    <span className="flex-1 truncate">
+                      {layerLabel(layer, language)}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === 0}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveLayerOrder(index, -1);
+                      }}
+                    >
+                      <ChevronUp />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={index === draft.layers.length - 1}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        moveLayerOrder(index, 1);
+                      }}
+                    >
+                      <ChevronDown />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeLayer(index);
+                      }}
+                    >
+                      <Trash2 />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+              <p className="text-xs text-muted-foreground">
+                {language === "en"
+                  ? "Layers are drawn top to bottom; later layers cover earlier ones."
+                  : "Layer digambar dari atas ke bawah; layer berikutnya menutupi yang sebelumnya."}
+              </p>
+            </section>
+
+            {selectedLayer && selectedIndex !== null && (
+              <section className="space-y-3">
+                <h3 className="text-sm font-semibold">
+                  {language === "en" ? "Properties" : "Properti"}
+                </h3>
+                {selectedLayer.type === "text" && (
+                  <TextLayerFields
+                    layer={selectedLayer}
+                    onChange={(layer) => updateLayer(selectedIndex, layer)}
+                    language={language}
+                  />
+                )}
+                {selectedLayer.type === "stats" && (
+                  <StatsLayerFields
+                    layer={selectedLayer}
+                    onChange={(layer) => updateLayer(selectedIndex, layer)}
+                    template={draft}
+                    onTemplateChange={updateDraft}
+                    language={language}
+                  />
+                )}
+                {selectedLayer.type === "route" && (
+                  <RouteLayerFields
+                    layer={selectedLayer}
+                    onChange={(layer) => updateLayer(selectedIndex, layer)}
+                    language={language}
+                  />
+                )}
+                {selectedLayer.type === "chart" && (
+                  <ChartLayerFields
+                    layer={selectedLayer}
+                    onChange={(layer) => updateLayer(selectedIndex, layer)}
+                    language={language}
+                  />
+                )}
+                {selectedLayer.type === "image" && (
+                  <ImageLayerFields
+                    layer={selectedLayer}
+                    onChange={(layer) => updateLayer(selectedIndex, layer)}
+                    language={language}
+                  />
+                )}
+                {selectedLayer.type === "rect" && (
+                  <Field label={language === "en" ? "Fill" : "Isi"}>
+                    <ColorInput
+                      value={selectedLayer.fill}
+                      onChange={(fill) =>
+                        updateLayer(selectedIndex, { ...selectedLayer, fill })
+                      }
+                    />
+                  </Field>
+                )}
+                {selectedLayer.type === "star" && (
+                  <Field label={language === "en" ? "Color" : "Warna"}>
+                    <ColorInput
+                      value={selectedLayer.stroke}
+                      onChange={(stroke) =>
+                        updateLayer(selectedIndex, { ...selectedLayer, stroke })
+                      }
+                    />
+                  </Field>
+                )}
+              </section>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,355 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Calendar,
+  Clock,
+  Gauge,
+  Heart,
+  MapPin,
+  Mountain,
+  PenTool,
+  Thermometer,
+  Timer,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { PosterVideoExport } from "@/components/PosterVideoExport";
+import type { StravaActivity } from "@/types/strava";
+import { trackTemplateEvent } from "@/lib/analytics";
+import {
+  getAvailableStats,
+  getDefaultOptions,
+  getDefaultStats,
+  hasActivityRoute,
+  reconcileStats,
+  type PosterTemplate,
+  type StatKey,
+  type TemplateIconName,
+  type TemplateOption,
+  type TemplateOptionValues,
+  usesTrackpoints,
+} from "@/lib/posterTemplate";
+import { loadTemplateFonts, renderPosterTemplate } from "@/lib/posterRenderer";
+import { getBasemapChoices } from "@/lib/basemap";
+import {
+  getRouteColorChoices,
+  hasRouteMetric,
+  isRouteColorMetric,
+} from "@/lib/routeColors";
+import { useActivityWithTrackpoints } from "@/hooks/useStravaQueries";
+
+const STAT_ICONS: Record<TemplateIconName, LucideIcon> = {
+  MapPin,
+  Zap,
+  Clock,
+  Timer,
+  Gauge,
+  Mountain,
+  Calendar,
+  Heart,
+  Thermometer,
+};
+
+interface TemplatePosterProps {
+  template: PosterTemplate;
+  activity: StravaActivity;
+  language: "en" | "id";
+  onDownload?: (imageUrl: string) => void;
+}
+
+export function TemplatePoster({
+  template,
+  activity: listedActivity,
+  language,
+  onDownload,
+}: TemplatePosterProps) {
+  // Strava activities only get trackpoints from their streams
+  const activity = useActivityWithTrackpoints(
+    listedActivity,
+    usesTrackpoints(template)
+  );
+  const navigate = useNavigate();
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [generatedImageUrl, setGeneratedImageUrl] = useState<string | null>(
+    null
+  );
+  const [fontsLoaded, setFontsLoaded] = useState(false);
+  const [selectedStats, setSelectedStats] = useState<StatKey[]>(() =>
+    getDefaultStats(template, activity)
+  );
+  const [options, setOptions] = useState<TemplateOptionValues>(() =>
+    getDefaultOptions(template)
+  );
+  // Only the latest render may update the preview
+  const renderIdRef = useRef(0);
+
+  const availableStats = getAvailableStats(template, activity);
+  const maxStats = template.stats.max;
+  const hasRoute = hasActivityRoute(activity);
+  const hasRouteLayer = template.layers.some((layer) => layer.type === "route");
+
+  // Reset selected stats when activity changes
+  useEffect(() => {
+    setSelectedStats((current) => {
+      const next = reconcileStats(template, activity, current);
+      return JSON.stringify(next) === JSON.stringify(current) ? current : next;
+    });
+  }, [template, activity]);
+
+  // Load the template's fonts before the first render
+  useEffect(() => {
+    let cancelled = false;
+    loadTemplateFonts(template).finally(() => {
+      if (!cancelled) setFontsLoaded(true);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [template]);
+
+  const generateImage = useCallback(async () => {
+    const renderId = ++renderIdRef.current;
+    setIsGenerating(true);
+    try {
+      const dataURL = await renderPosterTemplate(template, activity, {
+        stats: selectedStats,
+        options,
+      });
+      if (renderId === renderIdRef.current) setGeneratedImageUrl(dataURL);
+      return dataURL;
+    } catch (error) {
+      console.error(`Error generating ${template.id} image:`, error);
+      return null;
+    } finally {
+      if (renderId === renderIdRef.current) setIsGenerating(false);
+    }
+  }, [template, activity, selectedStats, options]);
+
+  // Generate image whenever template inputs change
+  useEffect(() => {
+    if (fontsLoaded) {
+      generateImage();
+    }
+  }, [fontsLoaded, generateImage]);
+
+  const handleDownload = async () => {
+    const imageUrl = generatedImageUrl || (await generateImage());
+    if (!imageUrl) return;
+
+    if (template.analyticsId) {
+      await trackTemplateEvent(template.analyticsId);
+    }
+
+    const link = document.createElement("a");
+    link.download = `${activity.name
+      .replace(/[^a-z0-9]/gi, "_")
+      .toLowerCase()}_${template.filename}.png`;
+    link.href = imageUrl;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+
+    onDownload?.(imageUrl);
+  };
+
+  const toggleStat = (key: StatKey, checked: boolean) => {
+    if (checked && selectedStats.length < maxStats) {
+      setSelectedStats([...selectedStats, key]);
+    } else if (!checked) {
+      setSelectedStats(selectedStats.filter((s) => s !== key));
+    }
+  };
+
+  const setOption = (id: string, value: string | boolean) =>
+    setOptions((current) => ({ ...current, [id]: value }));
+
+  const getOptionChoices = (
+    option: Exclude<TemplateOption, { type: "toggle" }>
+  ) => {
+    if (option.type === "basemap") return getBasemapChoices();
+    if (option.type === "routeColor") return getRouteColorChoices();
+    return option.choices;
+  };
+
+  // Map backgrounds need a route, route colors a metric the activity recorded
+  const isChoiceDisabled = (option: TemplateOption, value: string) => {
+    if (option.type === "basemap") return !hasRoute;
+    if (option.type !== "routeColor") return false;
+    if (!hasRoute) return true;
+    return isRouteColorMetric(value) && !hasRouteMetric(activity, value);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <span className={template.ui.emojiClassName}>
+              {template.ui.emoji}
+            </span>
+            {template.title[language]}
+          </div>
+          <div className="flex items-center gap-2">
+            {template.custom && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  navigate(`/visualization/designer?template=${template.id}`)
+                }
+              >
+                <PenTool />
+                {language === "en" ? "Edit" : "Ubah"}
+              </Button>
+            )}
+            <Button
+              onClick={handleDownload}
+              disabled={isGenerating}
+              className={template.ui.buttonClassName}
+            >
+              {isGenerating
+                ? language === "en"
+                  ? "Generating..."
+                  : "Membuat..."
+                : language === "en"
+                ? "💾 Download"
+                : "💾 Unduh"}
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {/* Controls */}
+        <div className="mb-4 space-y-4">
+          <div>
+            <label className="text-sm font-medium mb-2 block">
+              {template.ui.statsHint?.[language] ??
+                (language === "en"
+                  ? `Maximum ${maxStats} stats can be selected. Deselect one to enable others.`
+                  : `Maksimal ${maxStats} statistik dapat dipilih. Batalkan pilihan satu untuk mengaktifkan yang lain.`)}
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {availableStats.map((stat) => {
+                const Icon = stat.icon && STAT_ICONS[stat.icon];
+                return (
+                  <label
+                    key={stat.key}
+                    className="flex items-center gap-2 cursor-pointer"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedStats.includes(stat.key)}
+                      onChange={(e) => toggleStat(stat.key, e.target.checked)}
+                      disabled={
+                        !selectedStats.includes(stat.key) &&
+                        selectedStats.length >= maxStats
+                      }
+                      className="rounded"
+                    />
+                    {Icon && <Icon className="w-4 h-4" />}
+                    <span className="text-sm">{stat.shortLabel}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          {(template.options ?? []).map((option) => (
+            <div key={option.id}>
+              {option.heading && (
+                <label className="text-sm font-medium mb-2 block">
+                  {option.heading[language]}
+                </label>
+              )}
+              {option.type === "toggle" ? (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(options[option.id])}
+                    onChange={(e) => setOption(option.id, e.target.checked)}
+                    disabled={option.requiresRoute && !hasRoute}
+                    className="rounded"
+                  />
+                  <span className="text-sm">{option.label[language]}</span>
+                </label>
+              ) : (
+                <div className="flex gap-2">
+                  {getOptionChoices(option).map((choice) => (
+                    <label
+                      key={choice.value}
+                      className="flex items-center gap-2 cursor-pointer"
+                    >
+                      <input
+                        type="radio"
+                        name={`${template.id}-${option.id}`}
+                        value={choice.value}
+                        checked={options[option.id] === choice.value}
+                        onChange={(e) => setOption(option.id, e.target.value)}
+                        disabled={isChoiceDisabled(option, choice.value)}
+                      />
+                      <span className="text-sm">{choice.label[language]}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="w-full">
+          <div
+            className={`border rounded-lg overflow-hidden flex items-center justify-center min-h-[300px] ${template.ui.previewClassName}`}
+          >
+            {isGenerating ? (
+              <div className="flex items-center justify-center min-h-[400px]">
+                <div className="text-center">
+                  <div
+                    className={`animate-spin rounded-full h-8 w-8 border-b-2 mx-auto mb-2 ${template.ui.spinnerClassName}`}
+                  ></div>
+                  <p className="text-sm text-muted-foreground">
+                    {language === "en"
+                      ? "Generating visualization..."
+                      : "Membuat visualisasi..."}
+                  </p>
+                </div>
+              </div>
+            ) : generatedImageUrl ? (
+              <img
+                src={generatedImageUrl}
+                alt={`${template.title.en} Visualization`}
+                className="w-full h-auto max-w-full"
+                style={{ maxHeight: "80vh", objectFit: "contain" }}
+              />
+            ) : (
+              <div className="flex items-center justify-center min-h-[400px]">
+                <p className="text-sm text-muted-foreground">
+                  {language === "en" ? "Loading..." : "Memuat..."}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="mt-4 text-center text-sm text-muted-foreground">
+            {hasRouteLayer && !hasRoute && (
+              <p className="mt-2 text-orange-600">
+                ⚠️{" "}
+                {language === "en"
+                  ? "No GPS data available for this activity - showing stats only"
+                  : "Tidak ada data GPS untuk aktivitas ini - hanya menampilkan statistik"}
+              </p>
+            )}
+          </div>
+
+          <PosterVideoExport
+            template={template}
+            activity={activity}
+            stats={selectedStats}
+            options={options}
+            language={language}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
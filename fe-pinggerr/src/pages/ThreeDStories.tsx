@@ -1,18 +1,48 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Play, Pause, RotateCcw } from "lucide-react";
+import { Play, Pause, RotateCcw, Film, X } from "lucide-react";
 import { FlyoverMap } from "@/components/FlyoverMap";
 import { SegmentCreator } from "@/components/SegmentCreator";
 import { SegmentManager } from "@/components/SegmentManager";
 import { FinalStatsOverlay } from "@/components/FinalStatsOverlay";
+import { CameraKeyframeEditor } from "@/components/CameraKeyframeEditor";
+import {
+  StoryProjectList,
+  type StorySaveStatus,
+} from "@/components/StoryProjectList";
 import { useStravaAuth } from "@/hooks/useStravaAuth";
-// import { use3dDownloadTracker } from "@/hooks/use3dDownloadTracker";
+import { use3dDownloadTracker } from "@/hooks/use3dDownloadTracker";
+import { useStoryProjects } from "@/hooks/useStoryProjects";
+import { exportFlyoverVideo, type FlyoverRecorder } from "@/lib/flyoverVideo";
+import {
+  createCameraKeyframe,
+  createCameraPath,
+  createCinematicKeyframes,
+} from "@/lib/cameraPath";
+import {
+  createStoryProject,
+  deleteStoryProject,
+  duplicateStoryProject,
+  loadStoryProject,
+  saveStoryProject,
+  toStoredSegment,
+  DEFAULT_FLYOVER_CAMERA,
+  type StoryProject,
+} from "@/lib/storyProjects";
+import {
+  getRouteColorChoices,
+  hasRouteMetric,
+  isRouteColorMetric,
+} from "@/lib/routeColors";
+import type { RouteColorMetric } from "@/lib/posterTemplate";
 import type {
   StravaActivity,
   ActivityTrackpoint,
   ActivitySegment,
   FlyoverState,
+  FlyoverCameraSettings,
+  CameraKeyframe,
 } from "@/types/strava";
 
 // Import Strava logo
@@ -23,6 +53,35 @@ const isStravaData = (activity: StravaActivity): boolean => {
   return activity.source === "strava";
 };
 
+const AUTOSAVE_DELAY = 1000;
+const PLAYBACK_TICK_MS = 50;
+
+// Everything a story saves, to tell whether there are unsaved changes
+const getStorySnapshot = (
+  name: string,
+  segments: ActivitySegment[],
+  playbackSpeed: number,
+  camera: FlyoverCameraSettings,
+  keyframes: CameraKeyframe[]
+) =>
+  JSON.stringify({
+    name,
+    segments: segments.map((segment) => ({
+      ...toStoredSegment(segment),
+      clip: segment.videoFile
+        ? `${segment.videoFile.name}:${segment.videoFile.size}:${segment.videoFile.lastModified}`
+        : null,
+    })),
+    playbackSpeed,
+    camera,
+    keyframes,
+  });
+
+const revokeClipUrls = (segments: ActivitySegment[]) =>
+  segments.forEach((segment) => {
+    if (segment.videoUrl) URL.revokeObjectURL(segment.videoUrl);
+  });
+
 interface ThreeDStoriesProps {
   activity: StravaActivity;
   language: "en" | "id";
@@ -35,7 +94,7 @@ export function ThreeDStories({
   onDownload: _onDownload,
 }: ThreeDStoriesProps) {
   const { stravaApi } = useStravaAuth();
-  // const { track3dDownload } = use3dDownloadTracker();
+  const { track3dDownload } = use3dDownloadTracker();
   const [enhancedActivity, setEnhancedActivity] =
     useState<StravaActivity>(activity);
   const [segments, setSegments] = useState<ActivitySegment[]>([]);
@@ -48,6 +107,23 @@ export function ThreeDStories({
       trackpoint: ActivityTrackpoint
     ) => void;
   } | null>(null);
+  const [flyoverRecorder, setFlyoverRecorder] =
+    useState<FlyoverRecorder | null>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const storyProjects = useStoryProjects(activity.id);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const [projectName, setProjectName] = useState("");
+  const [camera, setCamera] = useState<FlyoverCameraSettings>(
+    DEFAULT_FLYOVER_CAMERA
+  );
+  const [keyframes, setKeyframes] = useState<CameraKeyframe[]>([]);
+  const [saveStatus, setSaveStatus] = useState<StorySaveStatus | null>(null);
+  const projectRef = useRef<StoryProject | null>(null);
+  const lastSavedSnapshotRef = useRef(
+    getStorySnapshot("", [], 1, DEFAULT_FLYOVER_CAMERA, [])
+  );
 
   // Calculate dynamic flyover duration based on activity length
   const calculateFlyoverDuration = useCallback(
@@ -86,10 +162,27 @@ export function ThreeDStories({
   const validTrackpoints =
     enhancedActivity.trackpoints?.filter((tp) => tp.latitude && tp.longitude) ||
     [];
-  const flyoverInterval =
-    validTrackpoints.length > 0
-      ? (flyoverDuration * 1000) / validTrackpoints.length
-      : 1000;
+  const cameraPath = useMemo(
+    () =>
+      createCameraPath(
+        validTrackpoints.length,
+        keyframes,
+        camera,
+        flyoverDuration
+      ),
+    [validTrackpoints.length, keyframes, camera, flyoverDuration]
+  );
+  const storyDuration = Math.round(cameraPath.duration);
+
+  const [routeColor, setRouteColor] = useState<RouteColorMetric | null>(null);
+  const availableRouteColors = useMemo(
+    () =>
+      getRouteColorChoices()
+        .map((choice) => choice.value)
+        .filter(isRouteColorMetric)
+        .filter((metric) => hasRouteMetric(enhancedActivity, metric)),
+    [enhancedActivity]
+  );
 
   const texts = {
     en: {
@@ -107,6 +200,16 @@ export function ThreeDStories({
       manageSegments: "Manage Segments",
       error: "Error",
       retry: "Retry",
+      exportVideo: "Export Video",
+      exporting: "Recording",
+      cancel: "Cancel",
+      exportHint:
+        "The flyover is recorded frame by frame with your segment videos and final stats. Keep this tab open.",
+      exportFailed: "Video export failed. Please try again.",
+      camera: "Camera",
+      zoom: "Zoom",
+      tilt: "Tilt",
+      routeColor: "Route color",
     },
     id: {
       title: "Flyover Cerita 3D",
@@ -123,6 +226,16 @@ export function ThreeDStories({
       manageSegments: "Kelola Segmen",
       error: "Error",
       retry: "Coba Lagi",
+      exportVideo: "Ekspor Video",
+      exporting: "Merekam",
+      cancel: "Batal",
+      exportHint:
+        "Flyover direkam per frame bersama video segmen dan statistik akhir. Biarkan tab ini tetap terbuka.",
+      exportFailed: "Ekspor video gagal. Silakan coba lagi.",
+      camera: "Kamera",
+      zoom: "Zoom",
+      tilt: "Kemiringan",
+      routeColor: "Warna rute",
     },
   };
 
@@ -155,37 +268,202 @@ export function ThreeDStories({
     loadStreams();
   }, [activity.id, stravaApi, enhancedActivity.trackpoints]);
 
-  // Smooth flyover animation loop
+  // Position the next playback starts from
+  const playbackStartRef = useRef(0);
+  playbackStartRef.current =
+    flyoverState.cameraPosition ?? flyoverState.currentTrackpointIndex;
+
+  // Flyover playback clock: the camera path turns elapsed time into a
+  // position on the route, including keyframe slowdowns and dwell time
   useEffect(() => {
     if (!flyoverState.isPlaying || validTrackpoints.length === 0) return;
 
-    const adjustedInterval = flyoverInterval / flyoverState.playbackSpeed;
+    const lastIndex = validTrackpoints.length - 1;
+    const startTime = cameraPath.timeAt(playbackStartRef.current);
+    const startedAt = performance.now();
 
     const interval = setInterval(() => {
+      const elapsed =
+        startTime +
+        ((performance.now() - startedAt) / 1000) * flyoverState.playbackSpeed;
+      const position = cameraPath.indexAt(elapsed);
+
       setFlyoverState((prev) => {
-        const nextIndex = prev.currentTrackpointIndex + 1;
-
-        // Stop at end
-        if (nextIndex >= validTrackpoints.length) {
-          return {
-            ...prev,
-            isPlaying: false,
-            currentTrackpointIndex: validTrackpoints.length - 1,
-          };
+        // Stop at end, once the last trackpoint has been shown
+        if (
+          elapsed >= cameraPath.duration &&
+          prev.currentTrackpointIndex >= lastIndex
+        ) {
+          return { ...prev, isPlaying: false };
         }
 
-        return { ...prev, currentTrackpointIndex: nextIndex };
+        return {
+          ...prev,
+          currentTrackpointIndex: Math.min(lastIndex, Math.floor(position)),
+          cameraPosition: position,
+        };
       });
-    }, adjustedInterval);
+    }, PLAYBACK_TICK_MS);
 
     return () => clearInterval(interval);
   }, [
     flyoverState.isPlaying,
     flyoverState.playbackSpeed,
-    flyoverInterval,
+    cameraPath,
     validTrackpoints.length,
   ]);
 
+  // Latest story state, read by saves that run after a delay
+  const latestStoryRef = useRef({
+    projectName,
+    segments,
+    playbackSpeed: flyoverState.playbackSpeed,
+    camera,
+    keyframes,
+  });
+  latestStoryRef.current = {
+    projectName,
+    segments,
+    playbackSpeed: flyoverState.playbackSpeed,
+    camera,
+    keyframes,
+  };
+
+  // Save the current story to IndexedDB. A project is only created once the
+  // story has a segment, so opening the page doesn't leave empty stories
+  const persistStory = useCallback(async () => {
+    const { projectName, segments, playbackSpeed, camera, keyframes } =
+      latestStoryRef.current;
+    const snapshot = getStorySnapshot(
+      projectName,
+      segments,
+      playbackSpeed,
+      camera,
+      keyframes
+    );
+    if (snapshot === lastSavedSnapshotRef.current) return;
+    if (!projectRef.current && segments.length === 0) return;
+
+    const base =
+      projectRef.current ??
+      createStoryProject(enhancedActivity, storyProjects.length);
+    projectRef.current = base;
+    setCurrentProjectId(base.id);
+    setSaveStatus("saving");
+
+    try {
+      const saved = await saveStoryProject(
+        {
+          ...base,
+          name: projectName.trim() || base.name,
+          playbackSpeed,
+          camera,
+          keyframes,
+        },
+        segments
+      );
+      if (projectRef.current?.id === saved.id) {
+        projectRef.current = saved;
+        lastSavedSnapshotRef.current = snapshot;
+      }
+      setSaveStatus("saved");
+    } catch (err) {
+      console.error("Failed to save story:", err);
+      setSaveStatus("error");
+    }
+  }, [enhancedActivity, storyProjects.length]);
+
+  // Autosave shortly after the last change
+  const storySnapshot = getStorySnapshot(
+    projectName,
+    segments,
+    flyoverState.playbackSpeed,
+    camera,
+    keyframes
+  );
+  useEffect(() => {
+    if (storySnapshot === lastSavedSnapshotRef.current) return;
+    const timer = setTimeout(persistStory, AUTOSAVE_DELAY);
+    return () => clearTimeout(timer);
+  }, [storySnapshot, persistStory]);
+
+  // Replace the story being edited, without saving what is replaced
+  const openStory = useCallback(
+    (project: StoryProject | null, storySegments: ActivitySegment[]) => {
+      const name = project?.name ?? "";
+      const playbackSpeed = project?.playbackSpeed ?? 1;
+      const storyCamera = project?.camera ?? DEFAULT_FLYOVER_CAMERA;
+      const storyKeyframes = project?.keyframes ?? [];
+
+      revokeClipUrls(latestStoryRef.current.segments);
+      projectRef.current = project;
+      lastSavedSnapshotRef.current = getStorySnapshot(
+        name,
+        storySegments,
+        playbackSpeed,
+        storyCamera,
+        storyKeyframes
+      );
+      setCurrentProjectId(project?.id ?? null);
+      setProjectName(name);
+      setSegments(storySegments);
+      setCamera(storyCamera);
+      setKeyframes(storyKeyframes);
+      setSaveStatus(null);
+      setShowFinalStats(false);
+      setFlyoverState((prev) => ({
+        ...prev,
+        isPlaying: false,
+        currentTrackpointIndex: 0,
+        cameraPosition: undefined,
+        playbackSpeed,
+        currentSegment: undefined,
+        showingSegmentOverlay: false,
+      }));
+    },
+    []
+  );
+
+  const handleProjectResume = async (projectId: string) => {
+    await persistStory();
+    try {
+      const loaded = await loadStoryProject(projectId);
+      if (loaded) openStory(loaded.project, loaded.segments);
+    } catch (err) {
+      console.error("Failed to load story:", err);
+      setSaveStatus("error");
+    }
+  };
+
+  const handleProjectNew = async () => {
+    await persistStory();
+    openStory(null, []);
+  };
+
+  const handleProjectDuplicate = async (projectId: string) => {
+    await persistStory();
+    const source = storyProjects.find((project) => project.id === projectId);
+    try {
+      await duplicateStoryProject(
+        projectId,
+        `${source?.name ?? enhancedActivity.name} (${
+          language === "en" ? "copy" : "salinan"
+        })`
+      );
+    } catch (err) {
+      console.error("Failed to duplicate story:", err);
+    }
+  };
+
+  const handleProjectDelete = async (projectId: string) => {
+    try {
+      await deleteStoryProject(projectId);
+      if (projectRef.current?.id === projectId) openStory(null, []);
+    } catch (err) {
+      console.error("Failed to delete story:", err);
+    }
+  };
+
   // Handle segment creation
   const handleSegmentCreate = useCallback(
     (segmentData: Omit<ActivitySegment, "id" | "createdAt">) => {
@@ -213,6 +491,11 @@ export function ThreeDStories({
 
   // Handle segment deletion
   const handleSegmentDelete = useCallback((segmentId: string) => {
+    revokeClipUrls(
+      latestStoryRef.current.segments.filter(
+        (segment) => segment.id === segmentId
+      )
+    );
     setSegments((prev) => prev.filter((segment) => segment.id !== segmentId));
   }, []);
 
@@ -221,6 +504,7 @@ export function ThreeDStories({
     setFlyoverState((prev) => ({
       ...prev,
       currentTrackpointIndex: segment.startIndex,
+      cameraPosition: undefined,
       currentSegment: segment,
       isPlaying: true,
     }));
@@ -230,6 +514,11 @@ export function ThreeDStories({
   const handleVideoUpload = useCallback(
     (segmentId: string, file: File) => {
       // Create object URL for the video file
+      revokeClipUrls(
+        latestStoryRef.current.segments.filter(
+          (segment) => segment.id === segmentId
+        )
+      );
       const videoUrl = URL.createObjectURL(file);
       handleSegmentUpdate(segmentId, { videoFile: file, videoUrl });
     },
@@ -255,6 +544,7 @@ export function ThreeDStories({
       ...prev,
       isPlaying: false,
       currentTrackpointIndex: 0,
+      cameraPosition: undefined,
       currentSegment: undefined,
       showingSegmentOverlay: false,
     }));
@@ -270,6 +560,93 @@ export function ThreeDStories({
     setShowFinalStats(true);
   }, []);
 
+  // Stop a running export when leaving the page
+  useEffect(() => () => exportAbortRef.current?.abort(), []);
+
+  // Record the whole story, or a single segment with its clip, as an MP4
+  const handleExport = async (segment?: ActivitySegment) => {
+    if (!flyoverRecorder || validTrackpoints.length === 0) return;
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportError(null);
+    setExportProgress(0);
+    setShowFinalStats(false);
+    setFlyoverState((prev) => ({ ...prev, isPlaying: false }));
+
+    const lastIndex = validTrackpoints.length - 1;
+    const startIndex = segment?.startIndex ?? 0;
+    const endIndex = segment?.endIndex ?? lastIndex;
+
+    try {
+      const blob = await exportFlyoverVideo(flyoverRecorder, {
+        activity: enhancedActivity,
+        startIndex,
+        endIndex,
+        cameraPath,
+        segments: segment ? [segment] : segments,
+        outro: !segment,
+        language,
+        signal: controller.signal,
+        onProgress: setExportProgress,
+      });
+
+      const slug = (name: string) =>
+        name.replace(/[^a-z0-9]/gi, "_").toLowerCase();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.download = `${slug(enhancedActivity.name)}_3d_story${
+        segment ? `_${slug(segment.name || segment.id)}` : ""
+      }.mp4`;
+      link.href = url;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      await track3dDownload();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error exporting 3D story video:", err);
+      setExportError(t.exportFailed);
+    } finally {
+      if (exportAbortRef.current === controller) {
+        exportAbortRef.current = null;
+        setExportProgress(null);
+      }
+    }
+  };
+
+  const cancelExport = () => {
+    exportAbortRef.current?.abort();
+    exportAbortRef.current = null;
+    setExportProgress(null);
+  };
+
+  const isExporting = exportProgress !== null;
+
+  // Add a keyframe with the camera values at the current flyover position
+  const handleKeyframeAdd = () => {
+    const trackpointIndex = flyoverState.currentTrackpointIndex;
+    const pose = cameraPath.poseAt(trackpointIndex, 0);
+    setKeyframes((prev) =>
+      [
+        ...prev.filter(
+          (keyframe) => keyframe.trackpointIndex !== trackpointIndex
+        ),
+        createCameraKeyframe(trackpointIndex, camera, {
+          zoom: Math.round(pose.zoom * 10) / 10,
+          pitch: Math.round(pose.pitch),
+          altitude: Math.round(pose.altitude),
+        }),
+      ].sort((a, b) => a.trackpointIndex - b.trackpointIndex)
+    );
+  };
+
+  const handleCinematicApply = () => {
+    setKeyframes(createCinematicKeyframes(validTrackpoints, segments, camera));
+  };
+
   // Handle trackpoint click for segment creation
   const handleTrackpointClick = useCallback(
     (index: number, trackpoint: ActivityTrackpoint) => {
@@ -380,6 +757,7 @@ export function ThreeDStories({
               <Button
                 size="sm"
                 onClick={togglePlayback}
+                disabled={isExporting}
                 className={
                   flyoverState.isPlaying
                     ? "bg-orange-600 hover:bg-orange-700"
@@ -394,7 +772,12 @@ export function ThreeDStories({
                 {flyoverState.isPlaying ? t.pause : t.play}
               </Button>
 
-              <Button size="sm" variant="outline" onClick={resetFlyover}>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={resetFlyover}
+                disabled={isExporting}
+              >
                 <RotateCcw className="w-4 h-4 mr-1" />
                 {t.reset}
               </Button>
@@ -410,6 +793,29 @@ export function ThreeDStories({
                 <option value={2}>2x</option>
                 <option value={4}>4x</option>
               </select>
+
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleExport()}
+                disabled={!flyoverRecorder || isExporting}
+                title={t.exportHint}
+              >
+                <Film className="w-4 h-4 mr-1" />
+                {isExporting
+                  ? `${t.exporting}... ${Math.round(exportProgress * 100)}%`
+                  : t.exportVideo}
+              </Button>
+              {isExporting && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={cancelExport}
+                  aria-label={t.cancel}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              )}
             </div>
           </CardTitle>
         </CardHeader>
@@ -438,8 +844,8 @@ export function ThreeDStories({
             {/* Flyover Duration Info */}
             <div className="grid grid-cols-2 gap-2 text-xs text-gray-500 mt-1">
               <span>
-                Flyover Duration: {Math.floor(flyoverDuration / 60)}:
-                {String(flyoverDuration % 60).padStart(2, "0")}
+                Flyover Duration: {Math.floor(storyDuration / 60)}:
+                {String(storyDuration % 60).padStart(2, "0")}
               </span>
               <span>
                 Activity:{" "}
@@ -448,6 +854,75 @@ export function ThreeDStories({
                 m
               </span>
             </div>
+            {/* Camera Settings */}
+            <div className="flex flex-wrap items-center gap-3 text-sm text-gray-600 mt-3">
+              <span className="font-medium">{t.camera}</span>
+              <label className="flex items-center gap-1">
+                {t.zoom}
+                <select
+                  value={camera.zoom}
+                  onChange={(e) =>
+                    setCamera((prev) => ({
+                      ...prev,
+                      zoom: Number(e.target.value),
+                    }))
+                  }
+                  disabled={isExporting}
+                  className="px-2 py-1 text-sm border rounded"
+                >
+                  {[13, 14, 15, 16, 17].map((zoom) => (
+                    <option key={zoom} value={zoom}>
+                      {zoom}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                {t.tilt}
+                <select
+                  value={camera.pitch}
+                  onChange={(e) =>
+                    setCamera((prev) => ({
+                      ...prev,
+                      pitch: Number(e.target.value),
+                    }))
+                  }
+                  disabled={isExporting}
+                  className="px-2 py-1 text-sm border rounded"
+                >
+                  {[0, 30, 45, 60, 75].map((pitch) => (
+                    <option key={pitch} value={pitch}>
+                      {pitch}°
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-1">
+                {t.routeColor}
+                <select
+                  value={routeColor ?? "none"}
+                  onChange={(e) =>
+                    setRouteColor(
+                      isRouteColorMetric(e.target.value) ? e.target.value : null
+                    )
+                  }
+                  className="px-2 py-1 text-sm border rounded"
+                >
+                  {getRouteColorChoices().map((choice) => (
+                    <option
+                      key={choice.value}
+                      value={choice.value}
+                      disabled={
+                        isRouteColorMetric(choice.value) &&
+                        !availableRouteColors.includes(choice.value)
+                      }
+                    >
+                      {choice.label[language]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
           </div>
 
           {/* 3D Map */}
@@ -455,14 +930,36 @@ export function ThreeDStories({
             activity={enhancedActivity}
             segments={segments}
             flyoverState={flyoverState}
+            cameraPath={cameraPath}
+            routeColor={routeColor}
             onTrackpointClick={handleTrackpointClick}
             onSegmentReach={handleSegmentReach}
             onFlyoverEnd={handleFlyoverEnd}
+            onRecorderUpdate={setFlyoverRecorder}
             className="mb-4"
           />
+          {isExporting && (
+            <p className="text-sm text-gray-600">{t.exportHint}</p>
+          )}
+          {exportError && <p className="text-sm text-red-600">{exportError}</p>}
         </CardContent>
       </Card>
 
+      {/* Saved Stories */}
+      <StoryProjectList
+        projects={storyProjects}
+        currentProjectId={currentProjectId}
+        projectName={projectName}
+        saveStatus={saveStatus}
+        onProjectNameChange={setProjectName}
+        onProjectResume={handleProjectResume}
+        onProjectDuplicate={handleProjectDuplicate}
+        onProjectDelete={handleProjectDelete}
+        onProjectNew={handleProjectNew}
+        disabled={isExporting}
+        language={language}
+      />
+
       {/* Segment Creation */}
       <SegmentCreator
         trackpoints={validTrackpoints}
@@ -481,10 +978,24 @@ export function ThreeDStories({
           onSegmentDelete={handleSegmentDelete}
           onSegmentPlay={handleSegmentPlay}
           onVideoUpload={handleVideoUpload}
+          onSegmentExport={handleExport}
+          isExporting={isExporting}
           language={language}
         />
       )}
 
+      {/* Camera Keyframes */}
+      <CameraKeyframeEditor
+        keyframes={keyframes}
+        trackpointCount={validTrackpoints.length}
+        currentTrackpointIndex={flyoverState.currentTrackpointIndex}
+        onKeyframesChange={setKeyframes}
+        onKeyframeAdd={handleKeyframeAdd}
+        onCinematicApply={handleCinematicApply}
+        disabled={isExporting}
+        language={language}
+      />
+
       {/* Final Stats Overlay */}
       <FinalStatsOverlay
         activity={enhancedActivity}
@@ -0,0 +1,28 @@
+/**
+ * Built-in poster templates
+ * Each style is a JSON file rendered by lib/posterRenderer; add a file here
+ * to ship a new poster without writing a page component
+ */
+
+import type { PosterTemplate } from "@/lib/posterTemplate";
+import pinkGreenActivity from "./pinkgreen-activity.json";
+import liquidGlassActivity from "./liquid-glass-activity.json";
+import modernMinimalistActivity from "./modern-minimalist-activity.json";
+import stravaDefaultStyle from "./strava-default-style.json";
+import minimalistSerifWithRoute from "./minimalist-serif-with-route.json";
+import minimalistSerifNoRoute from "./minimalist-serif-no-route.json";
+
+export const BUILT_IN_TEMPLATES = [
+  pinkGreenActivity,
+  liquidGlassActivity,
+  modernMinimalistActivity,
+  stravaDefaultStyle,
+  minimalistSerifWithRoute,
+  minimalistSerifNoRoute,
+] as PosterTemplate[];
+
+export const DEFAULT_TEMPLATE = BUILT_IN_TEMPLATES[0];
+
+export function getPosterTemplate(id: string): PosterTemplate | undefined {
+  return BUILT_IN_TEMPLATES.find((template) => template.id === id);
+}
@@ -7,6 +7,7 @@ export interface StravaTokens {
   refresh_token: string;
   expires_at: number;
   expires_in: number;
+  athlete_id?: number | null; // from the token exchange, kept across refreshes
 }
 
 /**
@@ -32,6 +33,22 @@ export interface ActivityLap {
   lapIndex: number; // 1-based lap number
 }
 
+/**
+ * Split at a fixed distance, generated from trackpoints for activities whose
+ * laps don't split them (manual laps, one lap for the whole file)
+ */
+export interface ActivitySplit {
+  splitIndex: number; // 1-based split number
+  distance: number; // meters, the last split may be shorter
+  elapsedTime: number; // seconds
+  movingTime: number; // seconds, stops left out
+  averageSpeed: number; // m/s over the moving time
+  averageHeartrate?: number; // bpm
+  elevationDelta?: number; // meters, end minus start altitude
+  startIndex: number; // index in trackpoint array, at or before the start
+  endIndex: number; // index in trackpoint array, at or after the end
+}
+
 /**
  * Common trackpoint interface for both TCX and Strava streams data
  */
@@ -46,9 +63,47 @@ export interface ActivityTrackpoint {
   speed?: number; // m/s (velocity_smooth from Strava)
   cadence?: number; // steps/min or rpm
   watts?: number; // power in watts
-  moving?: boolean; // Strava streams: was athlete moving
+  moving?: boolean; // was athlete moving (Strava streams, detected for files)
   grade?: number; // Strava streams: grade percentage
   temperature?: number; // Strava streams: celsius
+  synthetic?: boolean; // interpolated into a GPS gap by cleanup, not recorded
+}
+
+/**
+ * Climbing and descending in meters
+ */
+export interface ElevationTotals {
+  gain: number;
+  loss: number;
+}
+
+/**
+ * Elevation gain and loss of an uploaded file, as recorded and corrected
+ */
+export interface ActivityElevation {
+  raw?: ElevationTotals; // every recorded altitude change summed, if any were recorded
+  corrected: ElevationTotals; // smoothed, with a threshold against noise
+  source: "recorded" | "dem"; // where the corrected altitudes came from
+}
+
+/**
+ * What GPS cleanup changed in a track, kept for the before/after preview
+ */
+export interface ActivityGpsCleanup {
+  removed: number; // spikes dropped
+  synthetic: number; // points interpolated into gaps
+  // [lat, lng] as recorded; only in memory, not stored with the activity
+  rawRoute?: [number, number][];
+}
+
+/**
+ * Paused interval between two trackpoints (e.g. a stop detected in an
+ * uploaded file, or the gap between merged files)
+ */
+export interface ActivityPause {
+  startIndex: number; // last trackpoint before the pause
+  endIndex: number; // first trackpoint after the pause
+  duration: number; // seconds
 }
 
 export interface StravaActivity {
@@ -112,12 +167,20 @@ export interface StravaActivity {
   total_photo_count?: number;
   has_kudoed?: boolean;
   suffer_score?: number;
-  // Data source: 'strava' for API data, 'tcx' for uploaded files
-  source: "strava" | "tcx";
+  // Data source: 'strava' for API data, 'tcx' / 'gpx' / 'fit' for uploaded files
+  source: "strava" | "tcx" | "gpx" | "fit";
   // Lap data - populated when fetched separately or parsed from TCX
   laps?: ActivityLap[];
+  // Virtual kilometre splits - generated alongside the trackpoints
+  splits?: ActivitySplit[];
   // Trackpoint data - populated when fetched from streams API or parsed from TCX
   trackpoints?: ActivityTrackpoint[];
+  // Raw and corrected elevation - computed for uploaded files
+  elevation?: ActivityElevation;
+  // Paused intervals - detected in uploaded files and between merged ones
+  pauses?: ActivityPause[];
+  // GPS cleanup applied to the trackpoints - TCX imports and Strava streams
+  gpsCleanup?: ActivityGpsCleanup;
 }
 
 export interface ActivityListProps {
@@ -163,6 +226,23 @@ export interface FlyoverState {
   isPlaying: boolean;
   currentTrackpointIndex: number;
   playbackSpeed: number; // 1x, 2x, etc.
+  cameraPosition?: number; // fractional trackpoint index the camera is at
   currentSegment?: ActivitySegment;
   showingSegmentOverlay: boolean;
 }
+
+export interface FlyoverCameraSettings {
+  zoom: number; // while following the route
+  pitch: number; // degrees from straight down
+}
+
+export interface CameraKeyframe {
+  id: string;
+  trackpointIndex: number; // index in trackpoints array
+  zoom: number;
+  pitch: number; // degrees from straight down
+  bearing: number | null; // degrees, null follows the route heading
+  altitude: number; // minimum camera height above the ground, meters
+  dwell: number; // seconds to hold at this trackpoint
+  speed: number; // playback pace from here on, 1 = normal
+}
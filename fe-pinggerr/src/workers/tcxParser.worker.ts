@@ -0,0 +1,67 @@
+/**
+ * TCX parsing Web Worker
+ * Streams the uploaded file through TcxStreamParser off the main thread and
+ * reports progress as bytes are read
+ */
+
+import { TcxStreamParser } from "@/lib/tcxStreamParser";
+import { convertTcxToStravaActivity } from "@/lib/tcxParser";
+import type { StravaActivity } from "@/types/strava";
+
+export type TcxWorkerRequest = { file: File };
+
+export type TcxWorkerResponse =
+  | { type: "progress"; loaded: number; total: number }
+  | { type: "result"; activity: StravaActivity }
+  | { type: "error"; message: string };
+
+// Report progress at most every 1% to avoid flooding the main thread
+const PROGRESS_STEP = 0.01;
+
+const post = (message: TcxWorkerResponse) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<TcxWorkerRequest>) => {
+  const { file } = event.data;
+
+  try {
+    const parser = new TcxStreamParser();
+    const reader = file.stream().getReader();
+    const decoder = new TextDecoder();
+
+    let loaded = 0;
+    let lastReported = 0;
+    let hasContent = false;
+
+    post({ type: "progress", loaded: 0, total: file.size });
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      const text = decoder.decode(value, { stream: true });
+      hasContent ||= text.trim().length > 0;
+      parser.write(text);
+
+      loaded += value.byteLength;
+      if (loaded - lastReported >= file.size * PROGRESS_STEP) {
+        lastReported = loaded;
+        post({ type: "progress", loaded, total: file.size });
+      }
+    }
+    parser.write(decoder.decode());
+
+    if (!hasContent) {
+      throw new Error("Empty TCX file");
+    }
+
+    const tcxActivity = parser.close();
+    post({ type: "progress", loaded: file.size, total: file.size });
+    post({ type: "result", activity: convertTcxToStravaActivity(tcxActivity) });
+  } catch (error) {
+    post({
+      type: "error",
+      message:
+        error instanceof Error ? error.message : "Failed to process TCX file",
+    });
+  }
+};
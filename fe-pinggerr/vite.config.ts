@@ -13,6 +13,10 @@ export default defineConfig({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  optimizeDeps: {
+    // ffmpeg.wasm spawns its own worker, which breaks when pre-bundled
+    exclude: ["@ffmpeg/ffmpeg", "@ffmpeg/util"],
+  },
   build: {
     outDir: "dist",
     sourcemap: true,